@@ -0,0 +1,17 @@
+import { MockAzuraCastServer, SCENARIOS } from '../src/mocks/azuracast';
+
+/**
+ * Starts the mock AzuraCast server the dev server is pointed at. Specs can
+ * switch scenarios through its `/__mock/*` control endpoints.
+ */
+export default async function globalSetup() {
+  const server = new MockAzuraCastServer({
+    port: parseInt(process.env.MOCK_AZURACAST_PORT || '4010', 10),
+  });
+  await server.start();
+  server.run(SCENARIOS.steady);
+
+  return async () => {
+    await server.stop();
+  };
+}
@@ -0,0 +1,55 @@
+import { test, expect } from '@playwright/test';
+
+const MOCK_AZURACAST_URL = `http://127.0.0.1:${process.env.MOCK_AZURACAST_PORT || '4010'}`;
+
+test.describe('Mock AzuraCast scenarios', () => {
+  // Scenarios change shared server state, so these can't run in parallel
+  test.describe.configure({ mode: 'serial' });
+  test.skip(!!process.env.E2E_AZURACAST_BASE_URL, 'Scenarios need the mock AzuraCast server');
+
+  test.beforeEach(async ({ request }) => {
+    await request.post(`${MOCK_AZURACAST_URL}/__mock/reset`);
+  });
+
+  test('should show song changes pushed over SSE', async ({ page, request }) => {
+    await page.goto('/');
+
+    await request.post(`${MOCK_AZURACAST_URL}/__mock/step`, {
+      data: { type: 'play', song: { title: 'Paper Moons', artist: 'Hollow Coast' } },
+    });
+
+    await expect(page.getByText('Paper Moons').first()).toBeVisible({ timeout: 15000 });
+  });
+
+  test('should survive malformed upstream messages', async ({ page, request }) => {
+    await page.goto('/');
+
+    await request.post(`${MOCK_AZURACAST_URL}/__mock/scenario`, {
+      data: { name: 'malformed-messages' },
+    });
+
+    await expect(page.getByText('Low Tide').first()).toBeVisible({ timeout: 15000 });
+  });
+
+  test('should report the station offline', async ({ request }) => {
+    await request.post(`${MOCK_AZURACAST_URL}/__mock/step`, { data: { type: 'offline' } });
+
+    const response = await request.get('/api/radio-meta');
+    expect(response.ok()).toBeTruthy();
+    expect((await response.json()).isOnline).toBe(false);
+  });
+
+  test('should pass AzuraCast rate limits through to song requests', async ({ request }) => {
+    await request.post(`${MOCK_AZURACAST_URL}/__mock/scenario`, {
+      data: { name: 'rate-limited-requests' },
+    });
+
+    const { songs } = await (await request.get('/api/requests')).json();
+    const response = await request.post('/api/requests/submit', {
+      data: { request_url: songs[0].request_url },
+    });
+
+    expect(response.status()).toBe(429);
+    expect((await response.json()).error.code).toBe('RATE_LIMITED');
+  });
+});
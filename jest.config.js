@@ -1,9 +1,39 @@
-module.exports = {
-  testEnvironment: 'jsdom',
-  setupFilesAfterEnv: ['<rootDir>/src/__tests__/setup.ts'],
-  moduleNameMapping: {
+// Shared by both projects: browser code runs under jsdom with the DOM mocks in
+// setup.ts, server code under node so fs, net and streams behave as in production
+const project = {
+  moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/src/$1',
   },
+  transform: {
+    '^.+\\.(ts|tsx)$': ['ts-jest', {
+      tsconfig: 'tsconfig.json',
+    }],
+  },
+  moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json'],
+  clearMocks: true,
+  restoreMocks: true,
+};
+
+module.exports = {
+  projects: [
+    {
+      ...project,
+      displayName: 'browser',
+      testEnvironment: 'jsdom',
+      setupFilesAfterEnv: ['<rootDir>/src/__tests__/setup.ts'],
+      testMatch: [
+        '<rootDir>/src/**/__tests__/**/*.{ts,tsx}',
+        '<rootDir>/src/**/*.{test,spec}.{ts,tsx}',
+      ],
+      testPathIgnorePatterns: ['/node_modules/', '<rootDir>/src/__tests__/lib/'],
+    },
+    {
+      ...project,
+      displayName: 'server',
+      testEnvironment: 'node',
+      testMatch: ['<rootDir>/src/__tests__/lib/**/*.test.ts'],
+    },
+  ],
   collectCoverageFrom: [
     'src/**/*.{ts,tsx}',
     '!src/**/*.d.ts',
@@ -20,21 +50,9 @@ module.exports = {
       statements: 70,
     },
   },
-  testMatch: [
-    '<rootDir>/src/**/__tests__/**/*.{ts,tsx}',
-    '<rootDir>/src/**/*.{test,spec}.{ts,tsx}',
-  ],
-  transform: {
-    '^.+\\.(ts|tsx)$': ['ts-jest', {
-      tsconfig: 'tsconfig.json',
-    }],
-  },
-  moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'json'],
   testTimeout: 10000,
   verbose: true,
   collectCoverage: false, // Enable with --coverage flag
   coverageReporters: ['text', 'lcov', 'html'],
   coverageDirectory: 'coverage',
-  clearMocks: true,
-  restoreMocks: true,
-};
\ No newline at end of file
+};
@@ -1,6 +1,10 @@
 
 import type {NextConfig} from 'next';
 
+// Album art is served by the configured AzuraCast instance, which is a local
+// mock server during e2e runs
+const azuraCastUrl = new URL(process.env.NEXT_PUBLIC_AZURACAST_BASE_URL || 'https://radio.oadro.com');
+
 const nextConfig: NextConfig = {
   /* Performance optimizations */
   typescript: {
@@ -34,6 +38,12 @@ const nextConfig: NextConfig = {
         port: '',
         pathname: '/**',
       },
+      {
+        protocol: azuraCastUrl.protocol === 'http:' ? 'http' : 'https',
+        hostname: azuraCastUrl.hostname,
+        port: azuraCastUrl.port,
+        pathname: '/**',
+      },
       {
         protocol: 'https',
         hostname: 'placehold.co',
@@ -1,10 +1,19 @@
 import { defineConfig, devices } from '@playwright/test';
 
+/**
+ * Tests run against the mock AzuraCast server started in e2e/global-setup.ts.
+ * Set E2E_AZURACAST_BASE_URL to test against a real instance instead.
+ */
+const MOCK_AZURACAST_PORT = process.env.MOCK_AZURACAST_PORT || '4010';
+const useMockAzuraCast = !process.env.E2E_AZURACAST_BASE_URL;
+const azuraCastBaseUrl = process.env.E2E_AZURACAST_BASE_URL || `http://127.0.0.1:${MOCK_AZURACAST_PORT}`;
+
 /**
  * @see https://playwright.dev/docs/test-configuration
  */
 export default defineConfig({
   testDir: './e2e',
+  globalSetup: useMockAzuraCast ? './e2e/global-setup.ts' : undefined,
   /* Run tests in files in parallel */
   fullyParallel: true,
   /* Fail the build on CI if you accidentally left test.only in the source code. */
@@ -78,5 +87,9 @@ export default defineConfig({
     url: 'http://localhost:3000',
     reuseExistingServer: !process.env.CI,
     timeout: 120 * 1000,
+    env: {
+      NEXT_PUBLIC_AZURACAST_BASE_URL: azuraCastBaseUrl,
+      NEXT_PUBLIC_AZURACAST_STATION_NAME: 'oadro',
+    },
   },
 });
\ No newline at end of file
@@ -5,6 +5,26 @@
 const CACHE_NAME = 'oadro-radio-v1';
 const STATIC_CACHE_NAME = 'oadro-static-v1';
 const API_CACHE_NAME = 'oadro-api-v1';
+const SCHEDULE_CACHE_NAME = 'oadro-schedule-v1';
+const CURRENT_CACHES = [CACHE_NAME, STATIC_CACHE_NAME, API_CACHE_NAME, SCHEDULE_CACHE_NAME];
+
+// IndexedDB holding the last history responses and song requests made offline.
+// src/lib/request-outbox.ts opens the same database from the page.
+const OFFLINE_DB_NAME = 'oadro-offline';
+const OFFLINE_DB_VERSION = 2;
+const HISTORY_STORE = 'history';
+const OUTBOX_STORE = 'request-outbox';
+const RESULTS_STORE = 'request-results';
+const MAX_HISTORY_ENTRIES = 50;
+
+const OUTBOX_SYNC_TAG = 'request-outbox';
+const OUTBOX_RESULTS_MESSAGE = 'REQUEST_OUTBOX_RESULTS';
+const MAX_REPLAY_ATTEMPTS = 5;
+
+// Header recording when a cached response was fetched from the network
+const CACHED_AT_HEADER = 'sw-cached-at';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
 
 // Assets to cache immediately
 const STATIC_ASSETS = [
@@ -21,6 +41,17 @@ const API_ENDPOINTS = {
   radioStream: /\/api\/radio-stream/,
 };
 
+/**
+ * Caching policy for this app's own JSON routes, matched on the exact path.
+ * Any other same-origin /api/ route goes straight to the network, since
+ * streams, admin and per-listener responses must never be replayed.
+ */
+const ROUTE_POLICIES = [
+  { path: '/api/schedule', strategy: 'stale-while-revalidate', cacheName: SCHEDULE_CACHE_NAME, maxAgeMs: 7 * DAY_MS },
+  { path: '/api/requests', strategy: 'network-first', cacheName: API_CACHE_NAME, maxAgeMs: DAY_MS, timeout: 5000 },
+  { path: '/api/history', strategy: 'indexeddb', maxAgeMs: 7 * DAY_MS, timeout: 5000 },
+];
+
 // Install event - cache static assets
 self.addEventListener('install', (event) => {
   console.log('[SW] Installing service worker');
@@ -47,15 +78,15 @@ self.addEventListener('activate', (event) => {
       caches.keys().then((cacheNames) => {
         return Promise.all(
           cacheNames.map((cacheName) => {
-            if (cacheName !== CACHE_NAME && 
-                cacheName !== STATIC_CACHE_NAME && 
-                cacheName !== API_CACHE_NAME) {
+            if (!CURRENT_CACHES.includes(cacheName)) {
               console.log('[SW] Deleting old cache:', cacheName);
               return caches.delete(cacheName);
             }
           })
         );
       }),
+      // Drop cached API data past its policy's age
+      pruneExpiredData(),
       // Take control of all clients
       self.clients.claim()
     ])
@@ -73,7 +104,16 @@ self.addEventListener('fetch', (event) => {
   }
 
   // Handle different types of requests with appropriate strategies
-  if (url.pathname.startsWith('/_next/static/')) {
+  const policy = url.origin === self.location.origin
+    ? ROUTE_POLICIES.find((candidate) => candidate.path === url.pathname)
+    : undefined;
+
+  if (policy) {
+    event.respondWith(applyRoutePolicy(request, policy));
+  } else if (url.origin === self.location.origin && url.pathname.startsWith('/api/')) {
+    // Other API routes - always network
+    return;
+  } else if (url.pathname.startsWith('/_next/static/')) {
     // Static assets - cache first with long TTL
     event.respondWith(cacheFirst(request, STATIC_CACHE_NAME));
   } else if (API_ENDPOINTS.nowPlaying.test(url.pathname)) {
@@ -91,6 +131,46 @@ self.addEventListener('fetch', (event) => {
   }
 });
 
+function applyRoutePolicy(request, policy) {
+  switch (policy.strategy) {
+    case 'stale-while-revalidate':
+      return staleWhileRevalidate(request, policy.cacheName, policy.maxAgeMs);
+    case 'network-first':
+      return networkFirstWithTimeout(request, policy.cacheName, policy.timeout, policy.maxAgeMs);
+    case 'indexeddb':
+      return networkFirstIndexedDB(request, policy.timeout, policy.maxAgeMs);
+    default:
+      return fetch(request);
+  }
+}
+
+// Copies a response, stamping it with the time it was fetched
+async function withCachedAt(response) {
+  const headers = new Headers(response.headers);
+  headers.set(CACHED_AT_HEADER, String(Date.now()));
+  return new Response(await response.blob(), {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+}
+
+function getCachedAt(response) {
+  return Number(response.headers.get(CACHED_AT_HEADER)) || 0;
+}
+
+function isExpired(cachedAt, maxAgeMs) {
+  return maxAgeMs !== undefined && Date.now() - cachedAt > maxAgeMs;
+}
+
+// Tells open pages they are looking at cached data, for the offline banner
+async function notifyCachedResponse(url, cachedAt) {
+  const windowClients = await self.clients.matchAll({ type: 'window' });
+  windowClients.forEach((client) => {
+    client.postMessage({ type: 'CACHED_RESPONSE', url, cachedAt });
+  });
+}
+
 // Cache first strategy - for static assets
 async function cacheFirst(request, cacheName) {
   try {
@@ -115,7 +195,7 @@ async function cacheFirst(request, cacheName) {
 }
 
 // Network first with timeout - for critical API calls
-async function networkFirstWithTimeout(request, cacheName, timeout = 5000) {
+async function networkFirstWithTimeout(request, cacheName, timeout = 5000, maxAgeMs) {
   try {
     const cache = await caches.open(cacheName);
     
@@ -130,8 +210,7 @@ async function networkFirstWithTimeout(request, cacheName, timeout = 5000) {
       
       if (networkResponse.ok) {
         // Cache successful responses with short TTL
-        const responseClone = networkResponse.clone();
-        cache.put(request, responseClone);
+        cache.put(request, await withCachedAt(networkResponse.clone()));
       }
       
       return networkResponse;
@@ -139,8 +218,9 @@ async function networkFirstWithTimeout(request, cacheName, timeout = 5000) {
       // Network failed or timed out, try cache
       const cachedResponse = await cache.match(request);
       
-      if (cachedResponse) {
+      if (cachedResponse && !isExpired(getCachedAt(cachedResponse), maxAgeMs)) {
         console.log('[SW] Serving from cache due to network failure');
+        notifyCachedResponse(request.url, getCachedAt(cachedResponse));
         return cachedResponse;
       }
       
@@ -158,24 +238,29 @@ async function networkFirstWithTimeout(request, cacheName, timeout = 5000) {
   }
 }
 
-// Stale while revalidate - for HTML pages
-async function staleWhileRevalidate(request, cacheName) {
+// Stale while revalidate - for HTML pages and the schedule
+async function staleWhileRevalidate(request, cacheName, maxAgeMs) {
   try {
     const cache = await caches.open(cacheName);
-    const cachedResponse = await cache.match(request);
+    let cachedResponse = await cache.match(request);
+    if (cachedResponse && isExpired(getCachedAt(cachedResponse), maxAgeMs)) {
+      await cache.delete(request);
+      cachedResponse = undefined;
+    }
     
     // Always try to fetch from network in background
-    const networkPromise = fetch(request).then((response) => {
+    const networkPromise = fetch(request).then(async (response) => {
       if (response.ok) {
-        cache.put(request, response.clone());
+        cache.put(request, await withCachedAt(response.clone()));
       }
       return response;
     }).catch(() => null);
     
     // Return cached version immediately if available
     if (cachedResponse) {
-      // Update cache in background
-      networkPromise;
+      if (!self.navigator.onLine) {
+        notifyCachedResponse(request.url, getCachedAt(cachedResponse));
+      }
       return cachedResponse;
     }
     
@@ -188,39 +273,248 @@ async function staleWhileRevalidate(request, cacheName) {
   }
 }
 
+function openOfflineDb() {
+  return new Promise((resolve, reject) => {
+    const open = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+    open.onupgradeneeded = () => {
+      const db = open.result;
+      if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+        db.createObjectStore(HISTORY_STORE, { keyPath: 'url' }).createIndex('cachedAt', 'cachedAt');
+      }
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        db.createObjectStore(OUTBOX_STORE, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(RESULTS_STORE)) {
+        db.createObjectStore(RESULTS_STORE, { keyPath: 'key' });
+      }
+    };
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => reject(open.error);
+  });
+}
+
+// Runs one transaction on a store and resolves with the request's result
+async function withStore(storeName, mode, operation) {
+  const db = await openOfflineDb();
+  try {
+    return await new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const result = operation(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(result && result.result);
+      transaction.onerror = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function withHistoryStore(mode, operation) {
+  return withStore(HISTORY_STORE, mode, operation);
+}
+
+// Keeps the newest history responses, and none older than maxAgeMs
+function pruneHistory(maxAgeMs) {
+  return withHistoryStore('readwrite', (store) => {
+    const cutoff = Date.now() - maxAgeMs;
+    let kept = 0;
+    const cursorRequest = store.index('cachedAt').openCursor(null, 'prev');
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      if (cursor.value.cachedAt < cutoff || ++kept > MAX_HISTORY_ENTRIES) {
+        cursor.delete();
+      }
+      cursor.continue();
+    };
+  });
+}
+
+// Network first, keeping the last response per URL in IndexedDB - for history
+async function networkFirstIndexedDB(request, timeout = 5000, maxAgeMs) {
+  try {
+    const timeoutPromise = new Promise((_, reject) =>
+      setTimeout(() => reject(new Error('Network timeout')), timeout)
+    );
+    const networkResponse = await Promise.race([fetch(request), timeoutPromise]);
+
+    if (networkResponse.ok) {
+      const body = await networkResponse.clone().text();
+      withHistoryStore('readwrite', (store) => store.put({
+        url: request.url,
+        body,
+        contentType: networkResponse.headers.get('Content-Type') || 'application/json',
+        cachedAt: Date.now(),
+      })).catch((error) => console.error('[SW] Failed to store history offline:', error));
+    }
+
+    return networkResponse;
+  } catch (networkError) {
+    try {
+      const entry = await withHistoryStore('readonly', (store) => store.get(request.url));
+      if (entry && !isExpired(entry.cachedAt, maxAgeMs)) {
+        console.log('[SW] Serving history from IndexedDB due to network failure');
+        notifyCachedResponse(request.url, entry.cachedAt);
+        return new Response(entry.body, {
+          headers: { 'Content-Type': entry.contentType, [CACHED_AT_HEADER]: String(entry.cachedAt) },
+        });
+      }
+    } catch (error) {
+      console.error('[SW] Failed to read history from IndexedDB:', error);
+    }
+
+    return new Response(JSON.stringify({
+      error: 'Service temporarily unavailable',
+      offline: true
+    }), {
+      status: 503,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
+
+// Removes cached API data older than its route policy allows
+async function pruneExpiredData() {
+  try {
+    for (const policy of ROUTE_POLICIES) {
+      if (policy.strategy === 'indexeddb') {
+        await pruneHistory(policy.maxAgeMs);
+        continue;
+      }
+
+      const cache = await caches.open(policy.cacheName);
+      for (const request of await cache.keys()) {
+        if (new URL(request.url).pathname !== policy.path) continue;
+
+        const response = await cache.match(request);
+        if (!response || isExpired(getCachedAt(response), policy.maxAgeMs)) {
+          await cache.delete(request);
+        }
+      }
+    }
+  } catch (error) {
+    console.error('[SW] Pruning cached data failed:', error);
+  }
+}
+
 // Background sync for offline actions
 self.addEventListener('sync', (event) => {
   if (event.tag === 'background-sync') {
     event.waitUntil(doBackgroundSync());
+  } else if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(replayRequestOutbox());
   }
 });
 
 async function doBackgroundSync() {
+  // Sync any pending data when back online
+  console.log('[SW] Background sync triggered');
+  await pruneExpiredData();
+}
+
+function toOutboxResult(entry, success, message, reason) {
+  return {
+    key: entry.key,
+    station: entry.station,
+    requestId: entry.requestId,
+    title: entry.title,
+    artist: entry.artist,
+    success,
+    message,
+    reason,
+    completedAt: Date.now(),
+  };
+}
+
+// Submits song requests queued while offline. Rejecting leaves the sync
+// registered, so the browser tries again later.
+async function replayRequestOutbox() {
+  const queued = (await withStore(OUTBOX_STORE, 'readonly', (store) => store.getAll())) || [];
+  queued.sort((a, b) => a.queuedAt - b.queuedAt);
+
+  let completed = 0;
+  let retry = false;
   try {
-    // Sync any pending data when back online
-    console.log('[SW] Background sync triggered');
-    
-    // Clear old API cache entries
-    const apiCache = await caches.open(API_CACHE_NAME);
-    const requests = await apiCache.keys();
-    
-    // Remove entries older than 5 minutes
-    const fiveMinutesAgo = Date.now() - (5 * 60 * 1000);
-    
-    for (const request of requests) {
-      const response = await apiCache.match(request);
-      if (response) {
-        const dateHeader = response.headers.get('date');
-        if (dateHeader && new Date(dateHeader).getTime() < fiveMinutesAgo) {
-          await apiCache.delete(request);
-        }
+    for (const entry of queued) {
+      // A network error throws and ends this attempt
+      const response = await fetch(`/api/requests/submit?station=${encodeURIComponent(entry.station)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ request_url: entry.requestUrl }),
+      });
+      const body = await response.json().catch(() => null);
+
+      let result = null;
+      if (response.ok && body && body.success) {
+        result = toOutboxResult(entry, true, body.message || 'Request submitted successfully!');
+      } else if (response.status < 500 || entry.attempts + 1 >= MAX_REPLAY_ATTEMPTS) {
+        const error = (body && body.error) || {};
+        result = toOutboxResult(entry, false, error.message || `Request failed (HTTP ${response.status})`, error.reason);
+      }
+
+      if (result) {
+        await withStore(RESULTS_STORE, 'readwrite', (store) => store.put(result));
+        await withStore(OUTBOX_STORE, 'readwrite', (store) => store.delete(entry.key));
+        completed++;
+      } else {
+        await withStore(OUTBOX_STORE, 'readwrite', (store) => store.put({ ...entry, attempts: entry.attempts + 1 }));
+        retry = true;
       }
     }
-  } catch (error) {
-    console.error('[SW] Background sync failed:', error);
+  } finally {
+    console.log(`[SW] Replayed ${completed} of ${queued.length} queued requests`);
+    if (completed > 0) {
+      const clients = await self.clients.matchAll({ type: 'window' });
+      clients.forEach((client) => client.postMessage({ type: OUTBOX_RESULTS_MESSAGE }));
+    }
+  }
+
+  if (retry) {
+    throw new Error('Some queued requests failed with a server error');
   }
 }
 
+// Show reminders sent by the server as web push messages
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+
+  let payload;
+  try {
+    payload = event.data.json();
+  } catch (error) {
+    console.error('[SW] Ignoring push message that is not JSON:', error);
+    return;
+  }
+
+  if (payload.type !== 'show_reminder') return;
+
+  event.waitUntil(
+    self.registration.showNotification(payload.title, {
+      body: payload.body,
+      tag: payload.tag,
+      timestamp: payload.timestamp,
+      icon: '/android-chrome-192x192.png',
+      badge: '/favicon-32x32.png',
+      data: { url: payload.url },
+    })
+  );
+});
+
+// Focus an open tab (navigating it would stop playback), or open the schedule
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL((event.notification.data && event.notification.data.url) || '/schedule', self.location.origin);
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windowClients) => {
+      const existing = windowClients.find((client) => new URL(client.url).origin === url.origin);
+      if (existing) {
+        return existing.focus();
+      }
+      return self.clients.openWindow(url.href);
+    })
+  );
+});
+
 // Handle messages from main thread
 self.addEventListener('message', (event) => {
   if (event.data && event.data.type === 'SKIP_WAITING') {
@@ -0,0 +1,12 @@
+/**
+ * @fileoverview Prints a new VAPID key pair for show reminders.
+ *
+ * Usage:
+ *   npx tsx scripts/generate-vapid-keys.ts >> .env.local
+ */
+
+import { generateVapidKeys } from '../src/lib/web-push';
+
+const { publicKey, privateKey } = generateVapidKeys();
+console.log(`VAPID_PUBLIC_KEY=${publicKey}`);
+console.log(`VAPID_PRIVATE_KEY=${privateKey}`);
@@ -0,0 +1,42 @@
+/**
+ * @fileoverview Runs the mock AzuraCast server for local development.
+ *
+ * Usage:
+ *   npx tsx scripts/mock-azuracast.ts [--port 4010] [--scenario song-changes] [--station oadro]
+ *
+ * Then start the app with NEXT_PUBLIC_AZURACAST_BASE_URL=http://127.0.0.1:4010.
+ */
+
+import { MockAzuraCastServer, SCENARIOS } from '../src/mocks/azuracast';
+
+function getArg(name: string, fallback: string): string {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+}
+
+async function main(): Promise<void> {
+  const port = parseInt(getArg('port', process.env.MOCK_AZURACAST_PORT || '4010'), 10);
+  const scenarioName = getArg('scenario', 'steady');
+  const station = getArg('station', 'oadro');
+
+  const scenario = SCENARIOS[scenarioName];
+  if (!scenario) {
+    console.error(`Unknown scenario "${scenarioName}". Available: ${Object.keys(SCENARIOS).join(', ')}`);
+    process.exit(1);
+  }
+
+  const server = new MockAzuraCastServer({ port, defaultStation: station });
+  await server.start();
+  server.run(scenario, station);
+
+  const shutdown = () => {
+    server.stop().then(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error('[MockAzuraCast] Failed to start:', error);
+  process.exit(1);
+});
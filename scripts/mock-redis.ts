@@ -0,0 +1,35 @@
+/**
+ * @fileoverview Runs the mock Redis server for local development.
+ *
+ * Usage:
+ *   npx tsx scripts/mock-redis.ts [--port 6379] [--password secret]
+ *
+ * Then start the app with RATE_LIMIT_STORE=redis and the printed RATE_LIMIT_REDIS_URL.
+ */
+
+import { MockRedisServer } from '../src/mocks/redis';
+
+function getArg(name: string, fallback: string): string {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+}
+
+async function main(): Promise<void> {
+  const port = parseInt(getArg('port', process.env.MOCK_REDIS_PORT || '6379'), 10);
+  const password = getArg('password', '') || undefined;
+
+  const server = new MockRedisServer({ port, password });
+  const url = await server.start();
+  console.log(`[MockRedis] RATE_LIMIT_REDIS_URL=${url}`);
+
+  const shutdown = () => {
+    server.stop().then(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error('[MockRedis] Failed to start:', error);
+  process.exit(1);
+});
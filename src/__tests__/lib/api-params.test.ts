@@ -0,0 +1,28 @@
+import { parseTimestamp, readJsonObject } from '@/lib/api-params';
+import { ValidationError } from '@/lib/errors/api-errors';
+
+describe('readJsonObject', () => {
+  const post = (body: string) => new Request('http://localhost/api', { method: 'POST', body });
+
+  it('returns the body when it is a JSON object', async () => {
+    await expect(readJsonObject(post('{"request_url":"/request/1"}'))).resolves.toEqual({ request_url: '/request/1' });
+  });
+
+  it('refuses bodies that are not JSON objects', async () => {
+    for (const body of ['{not json', 'null', '[]', '"text"', '42']) {
+      await expect(readJsonObject(post(body))).rejects.toThrow(ValidationError);
+    }
+  });
+});
+
+describe('parseTimestamp', () => {
+  it('accepts unix seconds and ISO 8601 strings', () => {
+    expect(parseTimestamp('1718000000', 'from')).toBe(1718000000);
+    expect(parseTimestamp('2024-06-10T06:13:20Z', 'from')).toBe(1718000000);
+    expect(parseTimestamp(null, 'from')).toBeUndefined();
+  });
+
+  it('names the parameter when the value is not a timestamp', () => {
+    expect(() => parseTimestamp('yesterday', 'to')).toThrow('Invalid to timestamp: yesterday');
+  });
+});
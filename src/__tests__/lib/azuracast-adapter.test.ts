@@ -0,0 +1,84 @@
+import nowPlayingFixture from '../fixtures/azuracast/nowplaying.json';
+import offlineFixture from '../fixtures/azuracast/nowplaying-offline.json';
+import sseFixture from '../fixtures/azuracast/sse-nowplaying.json';
+import {
+  AzuraCastValidationError,
+  parseAzuraCastNowPlaying,
+  parseNowPlaying,
+  toNowPlaying,
+} from '@/lib/azuracast-adapter';
+
+describe('azuracast-adapter', () => {
+  it('converts a captured now playing payload', () => {
+    const result = parseNowPlaying(nowPlayingFixture);
+
+    expect(result.isOnline).toBe(true);
+    expect(result.listenerCount).toBe(14);
+    expect(result.liveSong).toEqual({
+      id: 52031,
+      songId: '8f3b2c1d9e7a6b5c4d3e2f1a0b9c8d7e',
+      title: 'Night Drive',
+      artist: 'Synth Collective',
+      albumArt: nowPlayingFixture.now_playing.song.art,
+      genre: 'Synthwave',
+      duration: 214,
+      elapsed: 87,
+      played_at: 1718000000,
+      interactionCount: 0,
+      creatorDiscordId: '123456789012345678',
+      playlists: ['Main Rotation'],
+      onDemand: {
+        song_suno: 'https://suno.com/song/abc',
+        song_youtube: null,
+        song_spotify: null,
+        song_soundcloud: null,
+        song_bandcamp: null,
+      },
+    });
+  });
+
+  it('converts up next and history entries the same way as the live song', () => {
+    const { upNext, recentlyPlayed } = parseNowPlaying(nowPlayingFixture);
+
+    expect(upNext).toHaveLength(1);
+    expect(upNext[0]).toMatchObject({ id: 1718000214, title: 'Low Tide', onDemand: null });
+    expect(recentlyPlayed.map((song) => song.id)).toEqual([52030, 52029]);
+    expect(recentlyPlayed[0].onDemand?.song_youtube).toBe('https://youtu.be/xyz');
+    expect(recentlyPlayed[1].playlists).toEqual([]);
+  });
+
+  it('parses the np payload of an SSE frame', () => {
+    const data = parseAzuraCastNowPlaying(sseFixture.pub.data.np);
+
+    expect(toNowPlaying(data)).toEqual(toNowPlaying(parseAzuraCastNowPlaying(nowPlayingFixture)));
+  });
+
+  it('handles an offline station', () => {
+    const result = parseNowPlaying(offlineFixture);
+
+    expect(result.isOnline).toBe(false);
+    expect(result.upNext).toEqual([]);
+    expect(result.recentlyPlayed).toEqual([]);
+  });
+
+  it('limits recently played songs', () => {
+    expect(parseNowPlaying(nowPlayingFixture, 1).recentlyPlayed).toHaveLength(1);
+  });
+
+  it('reports which field failed validation', () => {
+    const payload = JSON.parse(JSON.stringify(nowPlayingFixture));
+    payload.song_history[1].song.title = 42;
+
+    expect(() => parseNowPlaying(payload)).toThrow(AzuraCastValidationError);
+    try {
+      parseNowPlaying(payload);
+    } catch (error) {
+      expect((error as AzuraCastValidationError).path).toBe('song_history[1].song.title');
+      expect((error as Error).message).toBe('song_history[1].song.title: expected string, got number');
+    }
+  });
+
+  it('rejects payloads that are not objects', () => {
+    expect(() => parseNowPlaying(null)).toThrow('<root>: expected object, got null');
+  });
+});
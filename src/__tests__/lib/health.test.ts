@@ -0,0 +1,46 @@
+import { HealthCheckCache } from '@/lib/health';
+
+describe('HealthCheckCache', () => {
+  let now: number;
+  let cache: HealthCheckCache;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    cache = new HealthCheckCache(50, 10_000, () => now);
+  });
+
+  it('reuses a result until it expires and shares a running check', async () => {
+    const check = jest.fn(async () => ({ status: 'pass' as const, message: 'ok' }));
+
+    const [first, second] = await Promise.all([cache.run('upstream', check), cache.run('upstream', check)]);
+    expect(first).toBe(second);
+    expect(check).toHaveBeenCalledTimes(1);
+
+    now += 9_999;
+    await cache.run('upstream', check);
+    expect(check).toHaveBeenCalledTimes(1);
+
+    now += 1;
+    await cache.run('upstream', check);
+    expect(check).toHaveBeenCalledTimes(2);
+  });
+
+  it('fails checks that throw or time out, and caches the failure', async () => {
+    const failing = jest.fn(async () => {
+      throw new Error('connect ECONNREFUSED');
+    });
+    const hanging = jest.fn(() => new Promise<never>(() => {}));
+
+    await expect(cache.run('upstream', failing)).resolves.toMatchObject({
+      status: 'fail',
+      message: 'connect ECONNREFUSED',
+    });
+    await expect(cache.run('slow', hanging)).resolves.toMatchObject({
+      status: 'fail',
+      message: 'slow check timed out after 50ms',
+    });
+
+    await cache.run('upstream', failing);
+    expect(failing).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,68 @@
+import { buildCalendar, filterEntriesByShow, getEventUid } from '@/lib/ical';
+import type { ScheduleEntry } from '@/lib/schedule-types';
+
+function entry(id: number, title: string, start: string, description = ''): ScheduleEntry {
+  const startTimestamp = Date.parse(start) / 1000;
+  const endTimestamp = startTimestamp + 3600;
+  return {
+    id,
+    type: 'playlist',
+    name: title,
+    title,
+    description,
+    start_timestamp: startTimestamp,
+    start,
+    end_timestamp: endTimestamp,
+    end: new Date(endTimestamp * 1000).toISOString(),
+    is_now: false,
+  };
+}
+
+describe('buildCalendar', () => {
+  const now = Date.parse('2024-06-10T12:00:00Z') / 1000;
+
+  it('writes UTC events with stable UIDs and simplified summaries', () => {
+    const show = entry(7, 'Playlist: Synthwave / Retrowave / Outrun', '2024-06-11T20:00:00Z');
+    const calendar = buildCalendar([show], { station: 'oadro', now });
+    const lines = calendar.split('\r\n');
+
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('VERSION:2.0');
+    expect(lines).toContain('UID:oadro-playlist-7-1718136000@radio.oadro.com');
+    expect(lines).toContain('DTSTAMP:20240610T120000Z');
+    expect(lines).toContain('DTSTART:20240611T200000Z');
+    expect(lines).toContain('DTEND:20240611T210000Z');
+    expect(lines).toContain('SUMMARY:Synthwave & Retrowave & more');
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(getEventUid(show, 'oadro')).toBe('oadro-playlist-7-1718136000@radio.oadro.com');
+  });
+
+  it('escapes text and folds long lines without splitting characters', () => {
+    const description = `Chill, lo-fi\; beats\n${'é'.repeat(60)}`;
+    const calendar = buildCalendar([entry(1, 'Late Night', '2024-06-11T22:00:00Z', description)], {
+      station: 'oadro',
+      now,
+    });
+
+    const encoder = new TextEncoder();
+    for (const line of calendar.split('\r\n')) {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+    }
+
+    const unfolded = calendar.replace(/\r\n /g, '');
+    expect(unfolded).toContain(`DESCRIPTION:Chill\\, lo-fi\\; beats\\n${'é'.repeat(60)}`);
+  });
+});
+
+describe('filterEntriesByShow', () => {
+  it('matches playlist names or displayed titles case-insensitively', () => {
+    const entries = [
+      entry(1, 'Playlist: Jazz', '2024-06-11T10:00:00Z'),
+      entry(2, 'Morning Mix', '2024-06-11T12:00:00Z'),
+    ];
+
+    expect(filterEntriesByShow(entries, ['jazz']).map((e) => e.id)).toEqual([1]);
+    expect(filterEntriesByShow(entries, ['MORNING MIX', 'Jazz']).map((e) => e.id)).toEqual([1, 2]);
+    expect(filterEntriesByShow(entries, [])).toHaveLength(2);
+  });
+});
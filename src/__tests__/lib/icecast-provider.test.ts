@@ -0,0 +1,74 @@
+import statusFixture from '../fixtures/icecast/status-json.json';
+import { NotSupportedError } from '@/lib/errors/api-errors';
+import { IcecastProvider, splitIcecastTitle } from '@/lib/providers/icecast';
+
+const NOW = 1718000000000;
+
+function withTitle(title: string) {
+  return {
+    icestats: {
+      source: { listenurl: 'http://localhost:8000/oadro', listeners: 5, title },
+    },
+  };
+}
+
+describe('IcecastProvider', () => {
+  let provider: IcecastProvider;
+
+  beforeEach(() => {
+    provider = new IcecastProvider('http://localhost:8000');
+  });
+
+  it('converts the mount matching the station', () => {
+    const result = provider.toNowPlaying('oadro', statusFixture, NOW);
+
+    expect(result.isOnline).toBe(true);
+    expect(result.listenerCount).toBe(12);
+    expect(result.liveSong).toMatchObject({
+      id: NOW / 1000,
+      title: 'Neon Nights',
+      artist: 'Synth Artist',
+      genre: 'Electronic',
+      played_at: NOW / 1000,
+      elapsed: 0,
+    });
+    expect(result.upNext).toEqual([]);
+  });
+
+  it('prefers an explicit artist field over splitting the title', () => {
+    expect(splitIcecastTitle(statusFixture.icestats.source[1])).toEqual({
+      artist: 'Lo-Fi - Collective',
+      title: 'Rainy Day',
+    });
+    expect(splitIcecastTitle({ title: 'Station ID' })).toEqual({ artist: '', title: 'Station ID' });
+  });
+
+  it('starts a new play when the title changes', () => {
+    const first = provider.toNowPlaying('oadro', withTitle('A - One'), NOW);
+    const same = provider.toNowPlaying('oadro', withTitle('A - One'), NOW + 30000);
+    const second = provider.toNowPlaying('oadro', withTitle('B - Two'), NOW + 60000);
+
+    expect(same.liveSong?.id).toBe(first.liveSong?.id);
+    expect(same.liveSong?.elapsed).toBe(30);
+    expect(second.liveSong?.id).toBeGreaterThan(first.liveSong!.id);
+    expect(second.recentlyPlayed.map((song) => song.title)).toEqual(['One']);
+    expect(second.liveSong?.songId).not.toBe(first.liveSong?.songId);
+  });
+
+  it('reports a station without a mount as offline', () => {
+    const result = provider.toNowPlaying('missing', statusFixture, NOW);
+
+    expect(result.isOnline).toBe(false);
+    expect(result.liveSong).toBeNull();
+  });
+
+  it('maps every stream format to the station mount', () => {
+    expect(provider.getStreamUrl('oadro', 'hls')).toBe('http://localhost:8000/oadro');
+    expect(provider.getLiveFeedUrl()).toBeNull();
+  });
+
+  it('rejects schedules and requests as unsupported', async () => {
+    await expect(provider.getSchedule()).rejects.toBeInstanceOf(NotSupportedError);
+    await expect(provider.submitRequest()).rejects.toMatchObject({ statusCode: 501 });
+  });
+});
@@ -0,0 +1,80 @@
+import { getReplayEvents, publish, subscribe, type StreamEvent } from '@/lib/interaction-stream';
+import type { NowPlaying } from '@/lib/types';
+
+function nowPlaying(listenerCount: number): NowPlaying {
+  return {
+    liveSong: {
+      id: listenerCount,
+      songId: 'song',
+      title: 'Title',
+      artist: 'Artist',
+      albumArt: '',
+      genre: 'Electronic',
+      duration: 180,
+      played_at: 1700000000,
+    },
+    upNext: [],
+    recentlyPlayed: [],
+    listenerCount,
+  };
+}
+
+let stationCounter = 0;
+const nextStation = () => `test-station-${++stationCounter}`;
+
+describe('interaction-stream', () => {
+  it('stamps events with increasing IDs', () => {
+    const station = nextStation();
+    const received: StreamEvent[] = [];
+    const unsubscribe = subscribe((event) => received.push(event), station);
+
+    publish({ type: 'now_playing', data: nowPlaying(1) }, station);
+    publish({ type: 'now_playing', data: nowPlaying(2) }, station);
+    unsubscribe();
+
+    expect(received).toHaveLength(2);
+    expect(received[1].id).toBeGreaterThan(received[0].id);
+  });
+
+  it('replays the latest event of each type to new subscribers', () => {
+    const station = nextStation();
+    publish({ type: 'now_playing', data: nowPlaying(1) }, station);
+    publish({ type: 'stream_status', data: { isOnline: true } }, station);
+    publish({ type: 'now_playing', data: nowPlaying(2) }, station);
+
+    const replay = getReplayEvents(station);
+
+    expect(replay.map((event) => event.type)).toEqual(['stream_status', 'now_playing']);
+    expect(replay[1].type === 'now_playing' && replay[1].data.listenerCount).toBe(2);
+  });
+
+  it('replays only missed events after a known Last-Event-ID', () => {
+    const station = nextStation();
+    publish({ type: 'now_playing', data: nowPlaying(1) }, station);
+    const [seen] = getReplayEvents(station);
+    publish({ type: 'now_playing', data: nowPlaying(2) }, station);
+    publish({ type: 'now_playing', data: nowPlaying(3) }, station);
+
+    const replay = getReplayEvents(station, seen.id);
+
+    expect(replay).toHaveLength(2);
+    expect(replay.every((event) => event.id > seen.id)).toBe(true);
+  });
+
+  it('falls back to the snapshot when the Last-Event-ID is no longer buffered', () => {
+    const station = nextStation();
+    publish({ type: 'now_playing', data: nowPlaying(1) }, station);
+
+    const replay = getReplayEvents(station, 1);
+
+    expect(replay).toHaveLength(1);
+    expect(replay[0].type).toBe('now_playing');
+  });
+
+  it('keeps stations isolated', () => {
+    const station = nextStation();
+    publish({ type: 'now_playing', data: nowPlaying(1) }, station);
+
+    expect(getReplayEvents(nextStation())).toEqual([]);
+  });
+});
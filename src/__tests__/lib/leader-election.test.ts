@@ -0,0 +1,111 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileLeaseStore, LeaderElection, MemoryLeaseStore } from '@/lib/leader-election';
+
+describe('FileLeaseStore', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'leases-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('grants the lease to one holder at a time', async () => {
+    const first = new FileLeaseStore(directory);
+    const second = new FileLeaseStore(directory);
+
+    const [a, b] = await Promise.all([
+      first.tryAcquire('lock', 'a', 60000),
+      second.tryAcquire('lock', 'b', 60000),
+    ]);
+
+    expect([a, b].filter(Boolean)).toHaveLength(1);
+  });
+
+  it('renews the lease for its current holder', async () => {
+    const store = new FileLeaseStore(directory);
+    const acquired = await store.tryAcquire('lock', 'a', 60000);
+    const renewed = await store.tryAcquire('lock', 'a', 60000);
+
+    expect(renewed?.acquiredAt).toBe(acquired?.acquiredAt);
+    expect(renewed!.expiresAt).toBeGreaterThanOrEqual(acquired!.expiresAt);
+  });
+
+  it('lets another holder take over a stale lease', async () => {
+    const store = new FileLeaseStore(directory);
+    await store.tryAcquire('lock', 'a', 1);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const takeover = await store.tryAcquire('lock', 'b', 60000);
+
+    expect(takeover?.holderId).toBe('b');
+    expect((await store.read('lock'))?.holderId).toBe('b');
+  });
+
+  it('only releases the lease for its holder', async () => {
+    const store = new FileLeaseStore(directory);
+    await store.tryAcquire('lock', 'a', 60000);
+
+    await store.release('lock', 'b');
+    expect(await store.read('lock')).not.toBeNull();
+
+    await store.release('lock', 'a');
+    expect(await store.read('lock')).toBeNull();
+  });
+});
+
+describe('LeaderElection', () => {
+  const elections: LeaderElection[] = [];
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await Promise.all(elections.splice(0).map((election) => election.stop()));
+    jest.restoreAllMocks();
+  });
+
+  const createElection = (store: MemoryLeaseStore, holderId: string, ttlMs = 60000) => {
+    const election = new LeaderElection({ store, lockId: 'lock', ttlMs, holderId });
+    elections.push(election);
+    return election;
+  };
+
+  it('elects a single leader and reports the lease', async () => {
+    const store = new MemoryLeaseStore();
+    const first = createElection(store, 'a');
+    const second = createElection(store, 'b');
+    const onChange = jest.fn();
+    first.onChange(onChange);
+
+    first.start();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    second.start();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(first.isLeader()).toBe(true);
+    expect(second.isLeader()).toBe(false);
+    expect(onChange).toHaveBeenCalledWith(true);
+    expect(second.getStatus().lease?.holderId).toBe('a');
+  });
+
+  it('hands over leadership when the leader stops', async () => {
+    const store = new MemoryLeaseStore();
+    const first = createElection(store, 'a', 60);
+    const second = createElection(store, 'b', 60);
+
+    first.start();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    second.start();
+    await first.stop();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(first.isLeader()).toBe(false);
+    expect(second.isLeader()).toBe(true);
+  });
+});
@@ -0,0 +1,102 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  Logger,
+  configureLogging,
+  setLogContextProvider,
+  setLogLevel,
+  type LogEntry,
+  type LogTransport,
+} from '@/lib/logger';
+import { getProcessLogPath, RotatingFileTransport } from '@/lib/logging/transports';
+
+class MemoryTransport implements LogTransport {
+  readonly name = 'memory';
+  entries: LogEntry[] = [];
+
+  write(entry: LogEntry): void {
+    this.entries.push(entry);
+  }
+}
+
+describe('Logger', () => {
+  let transport: MemoryTransport;
+
+  beforeEach(() => {
+    transport = new MemoryTransport();
+    configureLogging({ transports: [transport], level: 'info', levels: {} });
+  });
+
+  afterEach(() => {
+    setLogContextProvider(null);
+  });
+
+  it('applies the closest context level and adds request ids and fields', () => {
+    setLogLevel('RadioWorker', 'debug');
+    setLogLevel('API:Admin', 'error');
+    setLogContextProvider(() => ({ requestId: 'req-1' }));
+
+    new Logger('RadioWorker', { station: 'oadro' }).debug('Live feed URL', { url: 'https://radio.example' });
+    new Logger('API').withContext('Admin').warn('Suppressed');
+    new Logger('API').withContext('Schedule').debug('Suppressed');
+    new Logger('API').withContext('Schedule').info('Kept');
+
+    expect(transport.entries.map(({ context, message }) => `${context} ${message}`)).toEqual([
+      'RadioWorker Live feed URL',
+      'API:Schedule Kept',
+    ]);
+    expect(transport.entries[0]).toMatchObject({
+      level: 'debug',
+      requestId: 'req-1',
+      metadata: { station: 'oadro', url: 'https://radio.example' },
+    });
+  });
+
+  it('logs one in every n calls of a sampled message', () => {
+    const log = new Logger('Sampling');
+
+    for (let i = 0; i < 7; i++) {
+      log.sample(3).info('Now playing');
+    }
+
+    expect(transport.entries).toHaveLength(3);
+    expect(transport.entries[0].sampled).toBe(3);
+  });
+});
+
+describe('RotatingFileTransport', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'oadro-logs-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes JSON lines and keeps at most maxFiles files', async () => {
+    const file = path.join(dir, 'app.log');
+    const transport = new RotatingFileTransport(file, { maxBytes: 200, maxFiles: 2 });
+    const entry = (message: string): LogEntry => ({
+      level: 'info',
+      message,
+      timestamp: '2026-10-19T12:00:00.000Z',
+      context: 'Test',
+      metadata: { padding: 'x'.repeat(60) },
+    });
+
+    ['first', 'second', 'third'].forEach((message) => transport.write(entry(message)));
+    await transport.close();
+
+    expect(fs.readdirSync(dir).sort()).toEqual(['app.log', 'app.log.1']);
+    const lines = fs.readFileSync(file, 'utf8').trim().split('\n');
+    expect(JSON.parse(lines[0])).toMatchObject({ message: 'third', context: 'Test', padding: 'x'.repeat(60) });
+  });
+
+  it('gives each process its own file', () => {
+    expect(getProcessLogPath('/var/log/oadro/app.log', 42)).toBe('/var/log/oadro/app.42.log');
+    expect(getProcessLogPath('logs/server', 42)).toBe(path.join('logs', 'server.42'));
+  });
+});
@@ -0,0 +1,46 @@
+import { MetricsRegistry } from '@/lib/metrics/registry';
+
+describe('MetricsRegistry', () => {
+  it('renders counters, gauges and histograms in the OpenMetrics format', () => {
+    const registry = new MetricsRegistry();
+    const requests = registry.counter('app_requests', { help: 'Requests.', labelNames: ['route', 'status'] });
+    const listeners = registry.gauge('app_listeners', { help: 'Listeners.', labelNames: ['station'] });
+    const latency = registry.histogram('app_latency_seconds', { help: 'Latency.', unit: 'seconds', buckets: [0.1, 1] });
+
+    requests.inc({ route: '/api/song/[songId]', status: '200' });
+    requests.inc({ status: '200', route: '/api/song/[songId]' }, 2);
+    listeners.set({ station: 'oadro' }, 12);
+    latency.observe({}, 0.05);
+    latency.observe({}, 0.5);
+    latency.observe({}, 3);
+
+    expect(registry.render()).toBe(
+      [
+        '# TYPE app_requests counter',
+        '# HELP app_requests Requests.',
+        'app_requests_total{route="/api/song/[songId]",status="200"} 3.0',
+        '# TYPE app_listeners gauge',
+        '# HELP app_listeners Listeners.',
+        'app_listeners{station="oadro"} 12.0',
+        '# TYPE app_latency_seconds histogram',
+        '# UNIT app_latency_seconds seconds',
+        '# HELP app_latency_seconds Latency.',
+        'app_latency_seconds_bucket{le="0.1"} 1',
+        'app_latency_seconds_bucket{le="1.0"} 2',
+        'app_latency_seconds_bucket{le="+Inf"} 3',
+        'app_latency_seconds_count 3',
+        'app_latency_seconds_sum 3.55',
+        '# EOF',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('rejects labels the metric does not declare', () => {
+    const registry = new MetricsRegistry();
+    const requests = registry.counter('app_requests', { help: 'Requests.', labelNames: ['route'] });
+
+    expect(() => requests.inc({ path: '/api' })).toThrow('Unknown label "path"');
+    expect(() => registry.gauge('app_requests', { help: 'Duplicate.' })).toThrow('already registered');
+  });
+});
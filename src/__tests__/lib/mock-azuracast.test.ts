@@ -0,0 +1,144 @@
+import { MOCK_SONGS, MockAzuraCastServer, scenario } from '@/mocks/azuracast';
+import { AzuraCastProvider } from '@/lib/providers/azuracast';
+import { SimpleRadioWorker } from '@/lib/radio-worker-simple';
+import type { RadioProvider } from '@/lib/providers/types';
+import { subscribe, type StreamEvent } from '@/lib/interaction-stream';
+
+jest.mock('@/lib/play-history', () => ({
+  getPlayHistoryStore: () => ({ recordNowPlaying: jest.fn(), closeActivePlay: jest.fn() }),
+}));
+
+let stationCounter = 0;
+const nextStation = () => `mock-station-${++stationCounter}`;
+
+/** Resolves with the first event on the station that matches. */
+function waitForEvent(station: string, matches: (event: StreamEvent) => boolean): Promise<StreamEvent> {
+  return new Promise((resolve) => {
+    const unsubscribe = subscribe((event) => {
+      if (matches(event)) {
+        unsubscribe();
+        resolve(event);
+      }
+    }, station);
+  });
+}
+
+const isLiveSong = (title: string) => (event: StreamEvent) =>
+  event.type === 'now_playing' && event.data.liveSong?.title === title;
+
+describe('mock AzuraCast server', () => {
+  const server = new MockAzuraCastServer({ heartbeatMs: 100 });
+  let provider: AzuraCastProvider;
+  let worker: SimpleRadioWorker | null = null;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    provider = new AzuraCastProvider(await server.start());
+  });
+
+  afterEach(() => {
+    worker?.stop();
+    worker = null;
+    server.reset();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('serves now playing data the adapter accepts', async () => {
+    const station = nextStation();
+    server.apply({ type: 'play', song: { title: 'Signal Fire', artist: 'Northbound', duration: 214 } }, station);
+    server.apply({ type: 'listeners', count: 21 }, station);
+
+    const nowPlaying = await provider.getNowPlaying(station);
+
+    expect(nowPlaying.isOnline).toBe(true);
+    expect(nowPlaying.listenerCount).toBe(21);
+    expect(nowPlaying.liveSong).toMatchObject({ title: 'Signal Fire', duration: 214 });
+    expect(nowPlaying.recentlyPlayed[0].title).toBe(MOCK_SONGS[0].title);
+  });
+
+  it('pushes scenario song changes through the worker', async () => {
+    const station = nextStation();
+    worker = new SimpleRadioWorker(station, provider);
+
+    const first = waitForEvent(station, isLiveSong('One'));
+    await worker.start();
+    await server.run(scenario('changes').play({ title: 'One', artist: 'A' }).build(), station);
+    await first;
+
+    const second = waitForEvent(station, isLiveSong('Two'));
+    await server.run(scenario('changes').wait(20).play({ title: 'Two', artist: 'B' }).build(), station);
+    const event = await second;
+
+    expect(event.type === 'now_playing' && event.data.recentlyPlayed[0].title).toBe('One');
+  });
+
+  it('removes its signal handlers when the worker stops', async () => {
+    const listeners = () => [process.listenerCount('SIGINT'), process.listenerCount('SIGTERM')];
+    const before = listeners();
+
+    worker = new SimpleRadioWorker(nextStation(), provider);
+    await worker.start();
+    expect(listeners()).toEqual(before.map((count) => count + 1));
+
+    worker.stop();
+    expect(listeners()).toEqual(before);
+  });
+
+  it('reports the worker unhealthy while polling keeps failing', async () => {
+    jest.useFakeTimers();
+    const getNowPlaying = jest.fn().mockRejectedValue(new Error('connect ECONNREFUSED'));
+    const pollingProvider = { ...provider, capabilities: { liveFeed: false }, getNowPlaying } as unknown as RadioProvider;
+
+    try {
+      worker = new SimpleRadioWorker(nextStation(), pollingProvider);
+      await worker.start();
+      await jest.advanceTimersByTimeAsync(31_000);
+      expect(getNowPlaying).toHaveBeenCalledTimes(3);
+      expect(worker.getHealthStatus().status).toBe('unhealthy');
+
+      getNowPlaying.mockResolvedValue(await provider.getNowPlaying('oadro'));
+      await jest.advanceTimersByTimeAsync(40_000);
+      expect(worker.getHealthStatus().status).toBe('healthy');
+      expect(worker.getState().timeSinceLastHeartbeat).toBeLessThanOrEqual(1000);
+    } finally {
+      worker?.stop();
+      jest.useRealTimers();
+    }
+  });
+
+  it('keeps the worker running through malformed messages and offline periods', async () => {
+    const station = nextStation();
+    worker = new SimpleRadioWorker(station, provider);
+
+    const offline = waitForEvent(station, (event) => event.type === 'stream_status' && !event.data.isOnline);
+    await worker.start();
+    await server.run(scenario('flaky').malformed().malformed('not json').wait(20).offline().build(), station);
+    await offline;
+
+    const back = waitForEvent(station, isLiveSong('Back'));
+    server.apply({ type: 'online' }, station);
+    server.apply({ type: 'play', song: { title: 'Back', artist: 'C' } }, station);
+    await back;
+
+    expect(worker.getState().mode).toBe('live');
+  });
+
+  it('replays scripted request failures', async () => {
+    const station = nextStation();
+    const [song] = await provider.getRequestableSongs(station);
+    server.apply({ type: 'fail', route: 'submit', status: 429, times: 1 }, station);
+
+    await expect(provider.submitRequest(station, song.request_url)).rejects.toMatchObject({
+      statusCode: 429,
+      code: 'RATE_LIMITED',
+    });
+    await expect(provider.submitRequest(station, song.request_url)).resolves.toMatchObject({ success: true });
+    expect(server.getSubmittedRequests(station)).toHaveLength(1);
+  });
+});
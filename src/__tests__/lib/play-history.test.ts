@@ -0,0 +1,149 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PlayHistoryStore } from '@/lib/play-history';
+import type { NowPlaying } from '@/lib/types';
+
+function snapshot(shId: number, songId: string, listenerCount: number): NowPlaying {
+  return {
+    liveSong: {
+      id: shId,
+      songId,
+      title: `Title ${songId}`,
+      artist: 'Artist',
+      albumArt: '',
+      genre: 'Electronic',
+      duration: 180,
+      played_at: 1700000000 + shId * 180,
+    },
+    upNext: [],
+    recentlyPlayed: [],
+    listenerCount,
+  };
+}
+
+describe('PlayHistoryStore', () => {
+  let directory: string;
+  let stores: PlayHistoryStore[];
+
+  const createStore = () => {
+    const store = new PlayHistoryStore(directory);
+    stores.push(store);
+    return store;
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'play-history-'));
+    stores = [];
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await Promise.all(stores.map((store) => store.flush()));
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should return null for songs that were never played', () => {
+    const store = createStore();
+
+    expect(store.getSongStats('missing')).toBeNull();
+  });
+
+  it('should count plays and track first and last played times', () => {
+    const store = createStore();
+
+    store.recordNowPlaying(snapshot(1, 'a', 10));
+    store.recordNowPlaying(snapshot(2, 'b', 10));
+    store.recordNowPlaying(snapshot(3, 'a', 10));
+
+    const stats = store.getSongStats('a');
+    expect(stats?.playCount).toBe(2);
+    expect(stats?.firstPlayedAt).toBe(1700000180);
+    expect(stats?.lastPlayedAt).toBe(1700000540);
+    expect(store.getAllSongStats()).toEqual(new Map([['a', stats], ['b', store.getSongStats('b')]]));
+  });
+
+  it('should not count repeated snapshots of the same play twice', () => {
+    const store = createStore();
+
+    store.recordNowPlaying(snapshot(1, 'a', 10));
+    store.recordNowPlaying(snapshot(1, 'a', 12));
+
+    expect(store.getSongStats('a')?.playCount).toBe(1);
+  });
+
+  it('should compute a time-weighted listener average', () => {
+    jest.useFakeTimers();
+    jest.setSystemTime(0);
+    const store = createStore();
+
+    store.recordNowPlaying(snapshot(1, 'a', 10));
+    jest.setSystemTime(60000);
+    store.recordNowPlaying(snapshot(1, 'a', 20));
+    jest.setSystemTime(120000);
+    store.recordNowPlaying(snapshot(2, 'b', 20));
+
+    expect(store.getSongStats('a')?.averageListeners).toBe(15);
+    jest.useRealTimers();
+  });
+
+  it('should rebuild its index from the log on startup', async () => {
+    const store = createStore();
+    store.recordNowPlaying(snapshot(1, 'a', 10));
+    store.recordNowPlaying(snapshot(2, 'a', 10));
+    await store.flush();
+
+    const reloaded = createStore();
+
+    expect(reloaded.getSongStats('a')?.playCount).toBe(2);
+    expect(reloaded.getSongStats('a')?.averageListeners).toBe(10);
+  });
+
+  it('should pick up plays that another process appended to the log', async () => {
+    const writer = createStore();
+    const reader = createStore();
+
+    writer.recordNowPlaying(snapshot(1, 'a', 10));
+    writer.recordNowPlaying(snapshot(2, 'b', 10));
+    await writer.flush();
+
+    expect(reader.getSongStats('a')).toMatchObject({ playCount: 1, averageListeners: 10 });
+    expect(reader.queryPlays({ limit: 10 }).plays.map((play) => play.songId)).toEqual(['b', 'a']);
+
+    // A half-written line is left for the next read
+    fs.appendFileSync(path.join(directory, 'plays.jsonl'), '{"kind":"start"');
+    expect(reader.queryPlays({ limit: 10 }).plays).toHaveLength(2);
+  });
+
+  it('should page through plays newest first', () => {
+    const store = createStore();
+    for (let shId = 1; shId <= 5; shId++) {
+      store.recordNowPlaying(snapshot(shId, `song-${shId}`, 10));
+    }
+
+    const firstPage = store.queryPlays({ limit: 2 });
+    expect(firstPage.plays.map((play) => play.shId)).toEqual([5, 4]);
+    expect(firstPage.nextBefore).toBe(4);
+
+    const lastPage = store.queryPlays({ limit: 3, before: 4 });
+    expect(lastPage.plays.map((play) => play.shId)).toEqual([3, 2, 1]);
+    expect(lastPage.nextBefore).toBeNull();
+  });
+
+  it('should filter plays by time range and artist', () => {
+    const store = createStore();
+    for (let shId = 1; shId <= 5; shId++) {
+      store.recordNowPlaying(snapshot(shId, `song-${shId}`, 10));
+    }
+
+    const { plays } = store.queryPlays({
+      from: 1700000000 + 2 * 180,
+      to: 1700000000 + 4 * 180,
+      artist: 'artist',
+      limit: 10,
+    });
+    expect(plays.map((play) => play.shId)).toEqual([4, 3, 2]);
+
+    expect(store.queryPlays({ artist: 'nobody', limit: 10 }).plays).toEqual([]);
+  });
+});
@@ -0,0 +1,235 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { MemoryRateLimitStore } from '@/lib/rate-limit/memory-store';
+import { getClientIdentifier, withRateLimit } from '@/lib/rate-limit/middleware';
+import { findRateLimitPolicy, parseRateLimitPolicies } from '@/lib/rate-limit/policies';
+import { RespRateLimitStore } from '@/lib/rate-limit/resp-store';
+import { SlidingWindowRateLimiter } from '@/lib/rate-limit/sliding-window';
+import type { RateLimitPolicy, RateLimitStore } from '@/lib/rate-limit/types';
+import { MockRedisServer } from '@/mocks/redis';
+
+jest.mock('@/lib/rate-limit', () => ({
+  getRateLimiter: () => mockLimiter,
+  getRateLimitPolicies: () => mockPolicies,
+}));
+
+let mockLimiter: SlidingWindowRateLimiter;
+let mockPolicies: RateLimitPolicy[];
+
+const policy: RateLimitPolicy = { path: '/api/history', limit: 3, windowMs: 60_000 };
+// Start of a window, so tests control how far into it they are
+const WINDOW_START = 1_000 * 60_000;
+
+describe('SlidingWindowRateLimiter', () => {
+  let store: RateLimitStore;
+  let limiter: SlidingWindowRateLimiter;
+
+  beforeEach(() => {
+    store = new MemoryRateLimitStore();
+    limiter = new SlidingWindowRateLimiter(store);
+  });
+
+  afterEach(() => store.close());
+
+  it('refuses requests over the limit without counting them', async () => {
+    for (let i = 0; i < 3; i++) {
+      expect((await limiter.consume('client', policy, WINDOW_START)).result.allowed).toBe(true);
+    }
+
+    // Next window, once the three requests weigh two or less
+    const refused = await limiter.consume('client', policy, WINDOW_START);
+    expect(refused.result).toMatchObject({ allowed: false, remaining: 0, retryAfter: 80 });
+    expect(refused.hit).toBeUndefined();
+    expect((await limiter.consume('other-client', policy, WINDOW_START)).result.allowed).toBe(true);
+  });
+
+  it('weights the previous window by how much of it is still inside the sliding window', async () => {
+    for (let i = 0; i < 3; i++) {
+      await limiter.consume('client', policy, WINDOW_START + 59_000);
+    }
+
+    // A third of the way in, two thirds of the previous three requests still count
+    const early = await limiter.consume('client', policy, WINDOW_START + 80_000);
+    expect(early.result).toMatchObject({ allowed: true, remaining: 0 });
+    const refused = await limiter.consume('client', policy, WINDOW_START + 80_000);
+    expect(refused.result).toMatchObject({ allowed: false, retryAfter: 20 });
+
+    expect((await limiter.consume('client', policy, WINDOW_START + 100_000)).result.allowed).toBe(true);
+  });
+
+  it('gives back refunded requests', async () => {
+    const hits = [];
+    for (let i = 0; i < 3; i++) {
+      hits.push((await limiter.consume('client', policy, WINDOW_START)).hit!);
+    }
+
+    await limiter.refund(hits[0], policy, WINDOW_START);
+    expect((await limiter.consume('client', policy, WINDOW_START)).result.allowed).toBe(true);
+  });
+});
+
+describe('rate limit policies', () => {
+  const policies = parseRateLimitPolicies([
+    { path: '/api', limit: 100, windowMs: 60_000 },
+    { path: '/api/requests/submit/', methods: ['post'], limit: 10, windowMs: 60_000, skipFailedRequests: true },
+  ]);
+
+  it('picks the longest matching path for the method', () => {
+    expect(findRateLimitPolicy(policies, '/api/requests/submit', 'POST')?.limit).toBe(10);
+    expect(findRateLimitPolicy(policies, '/api/requests/submit', 'GET')?.limit).toBe(100);
+    expect(findRateLimitPolicy(policies, '/api/requests/submitted', 'POST')?.limit).toBe(100);
+    expect(findRateLimitPolicy(policies, '/health', 'GET')).toBeUndefined();
+  });
+
+  it('rejects invalid policies', () => {
+    expect(() => parseRateLimitPolicies([{ path: '/api', limit: 0, windowMs: 1000 }])).toThrow('positive integers');
+    expect(() =>
+      parseRateLimitPolicies([{ path: '/api', limit: 1, windowMs: 1000, skipSuccessfulRequests: true, skipFailedRequests: true }])
+    ).toThrow('counts nothing');
+  });
+});
+
+describe('RespRateLimitStore', () => {
+  let server: MockRedisServer;
+  let store: RespRateLimitStore;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    server = new MockRedisServer({ password: 's3cret' });
+    store = new RespRateLimitStore(await server.start(), { keyPrefix: 'test:' });
+  });
+
+  afterEach(async () => {
+    await store.close();
+    await server.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('keeps counters with an expiry set when they are created', async () => {
+    expect(await store.increment('counter', 1, 5_000)).toBe(1);
+    expect(await store.increment('counter', 2, 60_000)).toBe(3);
+    expect(await store.get(['counter', 'missing'])).toEqual([3, 0]);
+
+    expect(server.getValue('test:counter')).toBe('3');
+    expect(server.commands.find(([command]) => command === 'SET')).toEqual(['SET', 'test:counter', '0', 'PX', '5000', 'NX']);
+  });
+
+  it('reconnects after the connection drops', async () => {
+    await store.increment('counter', 1, 5_000);
+    server.disconnectAll();
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(await store.increment('counter', 1, 5_000)).toBe(2);
+  });
+
+  it('limits clients across limiters sharing the server', async () => {
+    const other = new RespRateLimitStore(server.url, { keyPrefix: 'test:' });
+    const first = new SlidingWindowRateLimiter(store);
+    const second = new SlidingWindowRateLimiter(other);
+
+    try {
+      await first.consume('client', policy, WINDOW_START);
+      await second.consume('client', policy, WINDOW_START);
+      await first.consume('client', policy, WINDOW_START);
+      expect((await second.consume('client', policy, WINDOW_START)).result.allowed).toBe(false);
+    } finally {
+      await other.close();
+    }
+  });
+});
+
+describe('withRateLimit', () => {
+  let store: RateLimitStore;
+
+  const request = (path: string, client = '203.0.113.9') =>
+    new NextRequest(`http://localhost${path}`, { method: 'POST', headers: { 'x-forwarded-for': client } });
+  const respondWith = (status: number) => withRateLimit(async () => NextResponse.json({}, { status }));
+  // Refunds are sent once the response is ready
+  const settled = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(() => {
+    store = new MemoryRateLimitStore();
+    mockLimiter = new SlidingWindowRateLimiter(store);
+    mockPolicies = parseRateLimitPolicies([
+      { path: '/api/history', limit: 2, windowMs: 60_000 },
+      { path: '/api/songs', limit: 2, windowMs: 60_000, skipFailedRequests: true },
+      { path: '/api/admin', limit: 2, windowMs: 60_000, skipSuccessfulRequests: true },
+    ]);
+  });
+
+  afterEach(() => store.close());
+
+  it('counts requests and reports the allowance in headers', async () => {
+    const response = await respondWith(200)(request('/api/history'), {});
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-RateLimit-Limit')).toBe('2');
+    expect(response.headers.get('X-RateLimit-Remaining')).toBe('1');
+    expect(Date.parse(response.headers.get('X-RateLimit-Reset') ?? '')).toBeGreaterThan(Date.now());
+  });
+
+  it('answers 429 with Retry-After once the client is over the limit', async () => {
+    const handler = jest.fn(async () => NextResponse.json({}));
+    const limited = withRateLimit(handler);
+
+    await limited(request('/api/history'), {});
+    await limited(request('/api/history'), {});
+    const refused = await limited(request('/api/history'), {});
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(refused.status).toBe(429);
+    expect(Number(refused.headers.get('Retry-After'))).toBeGreaterThan(0);
+    expect(refused.headers.get('X-RateLimit-Remaining')).toBe('0');
+    expect(await refused.json()).toMatchObject({ error: { code: 'RATE_LIMITED' } });
+
+    // Other clients have their own allowance
+    expect((await limited(request('/api/history', '198.51.100.1'), {})).status).toBe(200);
+  });
+
+  it('gives back failed requests under skipFailedRequests', async () => {
+    const failed = await respondWith(400)(request('/api/songs'), {});
+    expect(failed.headers.get('X-RateLimit-Remaining')).toBe('2');
+    await settled();
+
+    // Thrown errors count as failures too
+    const throwing = withRateLimit(async () => {
+      throw new Error('boom');
+    });
+    await expect(throwing(request('/api/songs'), {})).rejects.toThrow('boom');
+    await settled();
+
+    expect((await respondWith(200)(request('/api/songs'), {})).headers.get('X-RateLimit-Remaining')).toBe('1');
+    expect((await respondWith(200)(request('/api/songs'), {})).status).toBe(200);
+    expect((await respondWith(200)(request('/api/songs'), {})).status).toBe(429);
+  });
+
+  it('only counts failed requests under skipSuccessfulRequests', async () => {
+    for (let i = 0; i < 3; i++) {
+      expect((await respondWith(200)(request('/api/admin'), {})).status).toBe(200);
+      await settled();
+    }
+
+    await respondWith(401)(request('/api/admin'), {});
+    await respondWith(401)(request('/api/admin'), {});
+    expect((await respondWith(200)(request('/api/admin'), {})).status).toBe(429);
+  });
+
+  it("keys clients on the proxy's hop rather than addresses the client forwarded", async () => {
+    const limited = respondWith(200);
+    await limited(request('/api/history', '203.0.113.9'), {});
+    await limited(request('/api/history', '198.51.100.1, 203.0.113.9'), {});
+    expect((await limited(request('/api/history', '192.0.2.1, 203.0.113.9'), {})).status).toBe(429);
+
+    const proxied = new NextRequest('http://localhost/', {
+      headers: { 'x-forwarded-for': '192.0.2.1, 203.0.113.9', 'x-real-ip': '203.0.113.10' },
+    });
+    expect(getClientIdentifier(proxied)).toBe('203.0.113.10');
+    expect(getClientIdentifier(new NextRequest('http://localhost/'))).toBe('127.0.0.1');
+  });
+
+  it('leaves routes without a policy alone', async () => {
+    mockPolicies = [];
+    const response = await respondWith(200)(request('/api/history'), {});
+
+    expect(response.headers.get('X-RateLimit-Limit')).toBeNull();
+  });
+});
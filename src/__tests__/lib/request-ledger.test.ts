@@ -0,0 +1,257 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileLedgerStore, MemoryLedgerStore, RequestLedger, type PlaySource } from '@/lib/request-ledger';
+import { NotFoundError, RequestRejectedError } from '@/lib/errors/api-errors';
+import type { RequestableSong } from '@/lib/request-types';
+import type { ClientSong, NowPlaying } from '@/lib/types';
+
+function song(id: string): RequestableSong {
+  return {
+    request_id: `req-${id}`,
+    request_url: `/api/station/oadro/request/req-${id}`,
+    song: {
+      id,
+      art: '',
+      custom_fields: {},
+      text: `Artist - ${id}`,
+      artist: 'Artist',
+      title: `Title ${id}`,
+      album: '',
+      genre: '',
+      isrc: '',
+      lyrics: '',
+    },
+  };
+}
+
+const alice = { id: 'alice', clientId: '203.0.113.1' };
+const bob = { id: 'bob', clientId: '203.0.113.2' };
+
+describe('RequestLedger', () => {
+  let now: number;
+  let lastPlayed: Map<string, number>;
+  let liveSongId: string | null;
+  let ledger: RequestLedger;
+
+  const plays: PlaySource = {
+    getLastPlayedAt: (_station, songId) => lastPlayed.get(songId) ?? null,
+    getLiveSongId: () => liveSongId,
+  };
+
+  const seconds = () => Math.floor(now / 1000);
+
+  async function expectRejection(promise: Promise<unknown>, reason: string): Promise<RequestRejectedError> {
+    try {
+      await promise;
+    } catch (error) {
+      expect(error).toBeInstanceOf(RequestRejectedError);
+      expect((error as RequestRejectedError).reason).toBe(reason);
+      return error as RequestRejectedError;
+    }
+    throw new Error(`Expected a ${reason} rejection`);
+  }
+
+  beforeEach(() => {
+    now = 1718000000000;
+    lastPlayed = new Map();
+    liveSongId = null;
+    ledger = new RequestLedger({
+      plays,
+      cooldownSeconds: 300,
+      repeatWindowSeconds: 3600,
+      maxPendingPerListener: 2,
+      maxPendingPerAddress: 3,
+      pendingExpirySeconds: 7200,
+      now: () => now,
+    });
+  });
+
+  it('enforces a cooldown per listener', async () => {
+    await ledger.reserve('oadro', alice, song('a'));
+
+    const error = await expectRejection(ledger.reserve('oadro', alice, song('b')), 'COOLDOWN');
+    expect(error.statusCode).toBe(429);
+    expect(error.retryAfter).toBe(300);
+
+    // Other listeners are unaffected
+    await expect(ledger.reserve('oadro', bob, song('b'))).resolves.toBeDefined();
+
+    now += 300 * 1000;
+    await expect(ledger.reserve('oadro', alice, song('c'))).resolves.toBeDefined();
+  });
+
+  it('caps waiting requests per address more loosely than per listener', async () => {
+    await ledger.reserve('oadro', alice, song('a'));
+
+    // Listeners sharing an address keep their own cooldown
+    const neighbour = { id: 'neighbour', clientId: alice.clientId };
+    await expect(ledger.reserve('oadro', neighbour, song('b'))).resolves.toBeDefined();
+    expect((await ledger.getListenerRequests('oadro', neighbour)).cooldownEndsAt).toBe(seconds() + 300);
+
+    // but dropping the cookie only goes so far
+    await ledger.reserve('oadro', { id: 'fresh-1', clientId: alice.clientId }, song('c'));
+    await expectRejection(ledger.reserve('oadro', { id: 'fresh-2', clientId: alice.clientId }, song('d')), 'TOO_MANY_PENDING');
+
+    // The ID still counts when the listener's address changes
+    await expectRejection(ledger.reserve('oadro', { ...alice, clientId: '198.51.100.7' }, song('d')), 'COOLDOWN');
+  });
+
+  it('caps pending requests per listener', async () => {
+    await ledger.reserve('oadro', alice, song('a'));
+    now += 301 * 1000;
+    await ledger.reserve('oadro', alice, song('b'));
+    now += 301 * 1000;
+
+    await expectRejection(ledger.reserve('oadro', alice, song('c')), 'TOO_MANY_PENDING');
+
+    // A played request frees up a slot
+    lastPlayed.set('a', seconds());
+    await expect(ledger.reserve('oadro', alice, song('c'))).resolves.toBeDefined();
+  });
+
+  it('rejects songs played or requested within the repeat window', async () => {
+    lastPlayed.set('a', seconds() - 600);
+    const played = await expectRejection(ledger.reserve('oadro', alice, song('a')), 'RECENTLY_PLAYED');
+    expect(played.statusCode).toBe(409);
+    expect(played.retryAfter).toBe(3000);
+
+    liveSongId = 'b';
+    await expectRejection(ledger.reserve('oadro', alice, song('b')), 'RECENTLY_PLAYED');
+
+    await ledger.reserve('oadro', alice, song('c'));
+    await expectRejection(ledger.reserve('oadro', bob, song('c')), 'RECENTLY_REQUESTED');
+
+    // Other stations keep their own ledger of requests
+    await expect(ledger.reserve('chill', bob, song('c'))).resolves.toBeDefined();
+  });
+
+  it('tracks requests until they are played or expire', async () => {
+    const first = await ledger.reserve('oadro', alice, song('a'));
+    now += 301 * 1000;
+    await ledger.reserve('oadro', alice, song('b'));
+
+    liveSongId = 'a';
+    lastPlayed.set('a', seconds());
+    expect((await ledger.getListenerRequests('oadro', alice)).requests.map((request) => request.status))
+      .toEqual(['pending', 'playing']);
+
+    liveSongId = null;
+    now += 7200 * 1000;
+    const { requests, cooldownEndsAt } = await ledger.getListenerRequests('oadro', alice);
+    expect(requests.map((request) => request.status)).toEqual(['expired', 'played']);
+    expect(requests[1]).toMatchObject({ id: first.id, playedAt: first.requestedAt + 301 });
+    expect(cooldownEndsAt).toBeNull();
+  });
+
+  it('reports requests as they are queued and go on air', async () => {
+    const request = await ledger.reserve('oadro', alice, song('a'));
+    const clientSong = (songId: string, played_at?: number) => ({ songId, played_at }) as ClientSong;
+    const nowPlaying = (live: ClientSong, upNext: ClientSong[] = []): NowPlaying => ({
+      liveSong: live,
+      upNext,
+      recentlyPlayed: [],
+      listenerCount: 0,
+    });
+
+    now += 60 * 1000;
+    expect(await ledger.observeNowPlaying('oadro', nowPlaying(clientSong('x', seconds()), [clientSong('a')])))
+      .toEqual([{ type: 'request_queued', request: expect.objectContaining({ id: request.id, status: 'queued' }) }]);
+    // Each change is only reported once, and other stations are left alone
+    expect(await ledger.observeNowPlaying('oadro', nowPlaying(clientSong('x', seconds()), [clientSong('a')]))).toEqual([]);
+    expect(await ledger.observeNowPlaying('chill', nowPlaying(clientSong('a', seconds())))).toEqual([]);
+
+    now += 240 * 1000;
+    const [fulfilled] = await ledger.observeNowPlaying('oadro', nowPlaying(clientSong('a', seconds())));
+    expect(fulfilled).toMatchObject({ type: 'request_fulfilled', request: { status: 'playing', playedAt: seconds() } });
+    expect(fulfilled.request).not.toHaveProperty('listenerId');
+  });
+
+  it('only writes to the store when a now playing update changes a request', async () => {
+    const store = new MemoryLedgerStore();
+    const update = jest.spyOn(store, 'update');
+    const stored = new RequestLedger({ plays, store, now: () => now });
+    const nowPlaying = (songId: string): NowPlaying => ({
+      liveSong: { songId, played_at: seconds() } as ClientSong,
+      upNext: [],
+      recentlyPlayed: [],
+      listenerCount: 0,
+    });
+
+    await stored.reserve('oadro', alice, song('a'));
+    update.mockClear();
+
+    expect(await stored.observeNowPlaying('oadro', nowPlaying('x'))).toEqual([]);
+    expect(update).not.toHaveBeenCalled();
+
+    expect(await stored.observeNowPlaying('oadro', nowPlaying('a'))).toHaveLength(1);
+    expect(update).toHaveBeenCalledTimes(1);
+  });
+
+  it('holds requests for moderators while moderation is on', async () => {
+    await ledger.setModerated('oadro', true);
+    const held = await ledger.reserve('oadro', alice, song('a'));
+    now += 301 * 1000;
+    const other = await ledger.reserve('oadro', alice, song('b'));
+    expect(held.status).toBe('held');
+
+    // Held requests count against the cap and aren't matched to plays
+    now += 301 * 1000;
+    await expectRejection(ledger.reserve('oadro', alice, song('c')), 'TOO_MANY_PENDING');
+    expect(await ledger.observeNowPlaying('oadro', {
+      liveSong: { songId: 'a', played_at: seconds() } as ClientSong,
+      upNext: [],
+      recentlyPlayed: [],
+      listenerCount: 0,
+    })).toEqual([]);
+
+    expect((await ledger.getHeldRequests('oadro')).map((request) => request.id)).toEqual([held.id, other.id]);
+    // Requests can only be handled from their own station's queue
+    await expect(ledger.approve('chill', held.id)).rejects.toThrow(NotFoundError);
+    expect(await ledger.approve('oadro', held.id)).toMatchObject({ status: 'pending', requestUrl: '/api/station/oadro/request/req-a' });
+    expect(await ledger.reject('oadro', other.id, 'Not during the interview')).toMatchObject({ status: 'rejected' });
+    await expect(ledger.approve('oadro', other.id)).rejects.toThrow(NotFoundError);
+
+    // Rejected songs can be requested again straight away
+    await expect(ledger.reserve('oadro', bob, song('b'))).resolves.toBeDefined();
+    expect((await ledger.getListenerRequests('oadro', alice)).requests[0]).toMatchObject({
+      status: 'rejected',
+      rejectionReason: 'Not during the interview',
+    });
+  });
+
+  it('forgets cancelled requests', async () => {
+    const request = await ledger.reserve('oadro', alice, song('a'));
+    await ledger.cancel(request.id);
+
+    expect((await ledger.getListenerRequests('oadro', alice)).requests).toEqual([]);
+    await expect(ledger.reserve('oadro', alice, song('a'))).resolves.toBeDefined();
+  });
+
+  it('shares requests and moderation between processes through a file store', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ledger-'));
+    const options = { plays, cooldownSeconds: 300, now: () => now };
+    const first = new RequestLedger({ ...options, store: new FileLedgerStore(directory) });
+    const second = new RequestLedger({ ...options, store: new FileLedgerStore(directory) });
+
+    try {
+      await first.reserve('oadro', alice, song('a'));
+      await expectRejection(second.reserve('oadro', alice, song('b')), 'COOLDOWN');
+
+      await second.setModerated('oadro', true);
+      expect(await first.isModerated('oadro')).toBe(true);
+
+      // The leader sees requests made through other processes
+      const [queued] = await second.observeNowPlaying('oadro', {
+        liveSong: null,
+        upNext: [{ songId: 'a' } as ClientSong],
+        recentlyPlayed: [],
+        listenerCount: 0,
+      });
+      expect(queued).toMatchObject({ type: 'request_queued' });
+      expect((await first.getListenerRequests('oadro', alice)).requests[0].status).toBe('queued');
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
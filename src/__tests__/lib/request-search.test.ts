@@ -0,0 +1,112 @@
+import { parseRequestQuery, searchRequestableSongs, type SongPlayStats } from '@/lib/request-search';
+import { ValidationError } from '@/lib/errors/api-errors';
+import type { RequestableSong, RequestQuery } from '@/lib/request-types';
+
+function song(id: string, title: string, artist: string, extra: Partial<RequestableSong['song']> = {}): RequestableSong {
+  return {
+    request_id: `req-${id}`,
+    request_url: `/api/station/oadro/request/req-${id}`,
+    song: {
+      id,
+      art: '',
+      custom_fields: {},
+      text: `${artist} - ${title}`,
+      artist,
+      title,
+      album: '',
+      genre: '',
+      isrc: '',
+      lyrics: '',
+      ...extra,
+    },
+  };
+}
+
+const catalogue = [
+  song('1', 'Neon Nights', 'Synth Collective', { genre: 'Genre: Synthwave', album: 'Midnight Drive' }),
+  song('2', 'Café del Mar', 'Beyoncé', { genre: 'Chillout' }),
+  song('3', 'Signal Fire', 'Northbound', { genre: 'Synthwave', lyrics: 'we light the signal over the harbour' }),
+  song('4', 'Afterglow', 'Synth Collective', { genre: 'Ambient' }),
+];
+
+const stats: Record<string, SongPlayStats> = {
+  '3': { playCount: 9, lastPlayedAt: 1000 },
+  '4': { playCount: 2, lastPlayedAt: 5000 },
+};
+
+function search(query: Partial<RequestQuery>) {
+  return searchRequestableSongs(
+    catalogue,
+    { q: '', genre: '', artist: '', sort: 'relevance', page: 1, pageSize: 20, ...query },
+    (songId) => stats[songId] ?? null,
+    0
+  );
+}
+
+const titles = (query: Partial<RequestQuery>) => search(query).songs.map((result) => result.song.title);
+
+describe('searchRequestableSongs', () => {
+  it('matches without regard to case, accents or small typos', () => {
+    expect(titles({ q: 'BEYONCE' })).toEqual(['Café del Mar']);
+    expect(titles({ q: 'cafe' })).toEqual(['Café del Mar']);
+    expect(titles({ q: 'singal' })).toEqual(['Signal Fire']);
+    expect(titles({ q: 'midnight' })).toEqual(['Neon Nights']);
+    expect(titles({ q: 'harbour' })).toEqual(['Signal Fire']);
+    expect(titles({ q: 'synth nights' })).toEqual(['Neon Nights']);
+  });
+
+  it('ranks title matches above lyric matches', () => {
+    const results = searchRequestableSongs(
+      [song('a', 'Slow Burn', 'X', { lyrics: 'signal' }), song('b', 'Signal', 'Y')],
+      { q: 'signal', genre: '', artist: '', sort: 'relevance', page: 1, pageSize: 20 },
+      () => null,
+      0
+    );
+    expect(results.songs.map((result) => result.song.id)).toEqual(['b', 'a']);
+  });
+
+  it('filters by genre and artist and builds genre facets', () => {
+    const synthwave = search({ genre: 'synthwave' });
+    expect(synthwave.songs.map((result) => result.song.id)).toEqual(['1', '3']);
+    // Facets ignore the genre filter and use cleaned genre names
+    expect(synthwave.facets.genres).toEqual([
+      { genre: 'Synthwave', count: 2 },
+      { genre: 'Ambient', count: 1 },
+      { genre: 'Chillout', count: 1 },
+    ]);
+
+    expect(titles({ artist: 'synth collective', sort: 'title' })).toEqual(['Afterglow', 'Neon Nights']);
+  });
+
+  it('sorts by play statistics and pages the results', () => {
+    expect(titles({ sort: 'popularity' })).toEqual(['Signal Fire', 'Afterglow', 'Café del Mar', 'Neon Nights']);
+    expect(titles({ sort: 'recently-played' })).toEqual(['Afterglow', 'Signal Fire', 'Café del Mar', 'Neon Nights']);
+
+    // Each song's stats are looked up once, not on every comparison
+    const getStats = jest.fn((songId: string) => stats[songId] ?? null);
+    searchRequestableSongs(catalogue, { ...parseRequestQuery(new URLSearchParams()), sort: 'popularity' }, getStats, 0);
+    expect(getStats).toHaveBeenCalledTimes(catalogue.length);
+
+    const page = search({ sort: 'artist', page: 2, pageSize: 3 });
+    expect(page).toMatchObject({ page: 2, totalPages: 2, totalFiltered: 4, totalCount: 4 });
+    expect(page.songs.map((result) => result.song.title)).toEqual(['Neon Nights']);
+  });
+});
+
+describe('parseRequestQuery', () => {
+  it('applies defaults and caps the page size', () => {
+    expect(parseRequestQuery(new URLSearchParams('q=+neon+&pageSize=500'))).toEqual({
+      q: 'neon',
+      genre: '',
+      artist: '',
+      sort: 'relevance',
+      page: 1,
+      pageSize: 100,
+    });
+  });
+
+  it('rejects unknown sorts and bad page numbers', () => {
+    expect(() => parseRequestQuery(new URLSearchParams('sort=random'))).toThrow(ValidationError);
+    expect(() => parseRequestQuery(new URLSearchParams('page=0'))).toThrow(ValidationError);
+  });
+});
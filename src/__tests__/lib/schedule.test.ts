@@ -0,0 +1,71 @@
+import { buildSchedule, validateTimezone } from '@/lib/schedule';
+import { ValidationError } from '@/lib/errors/api-errors';
+import type { ScheduleEntry } from '@/lib/schedule-types';
+
+const WEEK = 7 * 24 * 60 * 60;
+
+function entry(id: number, name: string, start: string, hours = 1): ScheduleEntry {
+  const startTimestamp = Date.parse(start) / 1000;
+  const endTimestamp = startTimestamp + hours * 3600;
+  return {
+    id,
+    type: 'playlist',
+    name,
+    title: name,
+    description: '',
+    start_timestamp: startTimestamp,
+    start,
+    end_timestamp: endTimestamp,
+    end: new Date(endTimestamp * 1000).toISOString(),
+    is_now: false,
+  };
+}
+
+describe('buildSchedule', () => {
+  // Tuesday 2024-06-11 00:00 UTC
+  const now = Date.parse('2024-06-11T00:00:00Z') / 1000;
+  const entries = [
+    entry(1, 'Synthwave Hour', '2024-06-11T00:00:00Z'),
+    entry(2, 'Morning Mix', '2024-06-11T15:00:00Z', 2),
+    entry(3, 'Synthwave Hour', '2024-06-18T00:00:00Z'),
+  ];
+
+  it('groups entries by day and computes times in the requested timezone', () => {
+    const schedule = buildSchedule(entries, { from: now, to: now + WEEK, timezone: 'America/New_York', now });
+
+    // Midnight UTC on Tuesday is 8pm on Monday in New York
+    expect(schedule.days.map((day) => [day.date, day.weekday])).toEqual([
+      ['2024-06-10', 1],
+      ['2024-06-11', 2],
+    ]);
+    expect(schedule.entries[0]).toMatchObject({ localTime: '20:00', weekday: 1, is_now: true, startsIn: 0 });
+    expect(schedule.entries[1]).toMatchObject({ localTime: '11:00', duration: 7200, startsIn: 15 * 3600 });
+    expect(schedule.currentEntry?.id).toBe(1);
+    expect(schedule.nextEntry?.id).toBe(2);
+  });
+
+  it('marks shows that repeat a week later as weekly, even outside the range', () => {
+    const schedule = buildSchedule(entries, { from: now, to: now + 86400, timezone: 'Asia/Tokyo', now });
+
+    expect(schedule.entries.map((occurrence) => occurrence.id)).toEqual([1, 2]);
+    expect(schedule.entries[0].recurrence).toEqual({ frequency: 'weekly', weekday: 2, time: '09:00' });
+    expect(schedule.entries[1].recurrence).toBeNull();
+  });
+
+  it('allows for daylight saving shifts at the station', () => {
+    const shifted = [
+      entry(1, 'Late Show', '2024-03-05T20:00:00Z'),
+      entry(2, 'Late Show', '2024-03-12T19:00:00Z'),
+    ];
+    const schedule = buildSchedule(shifted, { from: 0, to: Infinity, timezone: 'UTC', now });
+
+    expect(schedule.entries.every((occurrence) => occurrence.recurrence !== null)).toBe(true);
+  });
+});
+
+describe('validateTimezone', () => {
+  it('accepts IANA names and rejects unknown ones', () => {
+    expect(validateTimezone('Europe/Berlin')).toBe('Europe/Berlin');
+    expect(() => validateTimezone('Mars/Olympus_Mons')).toThrow(ValidationError);
+  });
+});
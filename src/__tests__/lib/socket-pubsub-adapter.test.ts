@@ -0,0 +1,123 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SocketPubSubAdapter } from '@/lib/pubsub/socket-adapter';
+import type { StreamEvent } from '@/lib/pubsub/types';
+
+function statusEvent(id: number, isOnline = true): StreamEvent {
+  return { id, type: 'stream_status', data: { isOnline } };
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('SocketPubSubAdapter', () => {
+  let directory: string;
+  let adapters: SocketPubSubAdapter[];
+
+  const createAdapter = () => {
+    const adapter = new SocketPubSubAdapter(path.join(directory, 'pubsub.sock'));
+    adapters.push(adapter);
+    return adapter;
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'pubsub-'));
+    adapters = [];
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await Promise.all(adapters.map((adapter) => adapter.close()));
+    jest.restoreAllMocks();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('makes the first process the hub', async () => {
+    const hub = createAdapter();
+    await waitFor(() => hub.isHub());
+
+    const client = createAdapter();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(client.isHub()).toBe(false);
+  });
+
+  it('fans events out between processes in both directions', async () => {
+    const hub = createAdapter();
+    await waitFor(() => hub.isHub());
+    const first = createAdapter();
+    const second = createAdapter();
+
+    const received = { hub: [] as number[], first: [] as number[], second: [] as number[] };
+    hub.subscribe('oadro', (event) => received.hub.push(event.id));
+    first.subscribe('oadro', (event) => received.first.push(event.id));
+    second.subscribe('oadro', (event) => received.second.push(event.id));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    hub.publish('oadro', statusEvent(1));
+    await waitFor(() => received.first.length === 1 && received.second.length === 1);
+
+    first.publish('oadro', statusEvent(2));
+    await waitFor(() => received.hub.length === 2 && received.second.length === 2);
+
+    expect(received.hub).toEqual([1, 2]);
+    expect(received.first).toEqual([1, 2]);
+    expect(received.second).toEqual([1, 2]);
+  });
+
+  it('sends the latest events to processes that connect later', async () => {
+    const hub = createAdapter();
+    await waitFor(() => hub.isHub());
+    hub.publish('oadro', statusEvent(5, false));
+
+    const late = createAdapter();
+    const received: StreamEvent[] = [];
+    late.subscribe('oadro', (event) => received.push(event));
+
+    await waitFor(() => received.length === 1);
+    expect(received[0]).toEqual(statusEvent(5, false));
+  });
+
+  it('promotes a remaining process when the hub goes away', async () => {
+    const hub = createAdapter();
+    await waitFor(() => hub.isHub());
+    const first = createAdapter();
+    const second = createAdapter();
+    const received: number[] = [];
+    second.subscribe('oadro', (event) => received.push(event.id));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    await hub.close();
+    await waitFor(() => first.isHub() || second.isHub());
+    await new Promise((resolve) => setTimeout(resolve, 600));
+
+    first.publish('oadro', statusEvent(1));
+    await waitFor(() => received.length === 1);
+  });
+
+  it('elects a single hub when several processes find a stale socket', async () => {
+    // Left behind by a hub that crashed; connecting to it is refused
+    fs.writeFileSync(path.join(directory, 'pubsub.sock'), '');
+
+    const contenders = [createAdapter(), createAdapter(), createAdapter()];
+    await waitFor(() => contenders.some((adapter) => adapter.isHub()));
+    await new Promise((resolve) => setTimeout(resolve, 600));
+
+    expect(contenders.filter((adapter) => adapter.isHub())).toHaveLength(1);
+
+    const received: number[] = [];
+    contenders[2].subscribe('oadro', (event) => received.push(event.id));
+    contenders[0].publish('oadro', statusEvent(1));
+    contenders[1].publish('oadro', statusEvent(2));
+    await waitFor(() => received.length === 2);
+  });
+});
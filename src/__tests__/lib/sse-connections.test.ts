@@ -0,0 +1,62 @@
+import { SseConnectionRegistry, type SseCloseReason } from '@/lib/sse-connections';
+
+describe('SseConnectionRegistry', () => {
+  let now: number;
+  let registry: SseConnectionRegistry;
+  let closed: Array<{ id: number; reason: SseCloseReason }>;
+
+  const open = (client: string, station = 'oadro') => {
+    const connection = registry.open(client, station, (reason) => {
+      closed.push({ id: connection.id, reason });
+      connection.release();
+    });
+    return connection;
+  };
+
+  beforeEach(() => {
+    now = 1_000_000;
+    closed = [];
+    registry = new SseConnectionRegistry({ maxPerClient: 2, maxTotal: 3, idleTimeoutMs: 60_000 }, () => now);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    registry.closeIdle();
+    jest.restoreAllMocks();
+  });
+
+  it("evicts a client's oldest stream when it goes over its cap", () => {
+    const first = open('1.1.1.1');
+    open('1.1.1.1');
+    open('1.1.1.1');
+
+    expect(closed).toEqual([{ id: first.id, reason: 'client-limit' }]);
+    expect(registry.getStats()).toMatchObject({ open: 2, clients: 1, evicted: 1 });
+  });
+
+  it('evicts the oldest stream of any client when the process is full', () => {
+    const first = open('1.1.1.1');
+    open('2.2.2.2', 'other');
+    open('3.3.3.3');
+    open('4.4.4.4');
+
+    expect(closed).toEqual([{ id: first.id, reason: 'process-limit' }]);
+    expect(registry.getStats()).toMatchObject({ open: 3, clients: 3, byStation: { oadro: 2, other: 1 } });
+  });
+
+  it('closes streams that have not carried an event within the idle timeout', () => {
+    const quiet = open('1.1.1.1');
+    const busy = open('2.2.2.2');
+
+    now += 45_000;
+    busy.touch();
+    now += 30_000;
+
+    expect(registry.closeIdle()).toBe(1);
+    expect(closed).toEqual([{ id: quiet.id, reason: 'idle' }]);
+
+    busy.release();
+    busy.release();
+    expect(registry.getStats()).toMatchObject({ open: 0, clients: 0, opened: 2, idleClosed: 1 });
+  });
+});
@@ -0,0 +1,90 @@
+import { formatSseEvent, parseSsePayload, SSE_PROTOCOL_VERSION } from '@/lib/sse-protocol';
+import type { StreamEvent } from '@/lib/interaction-stream';
+
+const liveSong = {
+  id: 42,
+  songId: 'song-1',
+  title: 'Title',
+  artist: 'Artist',
+  albumArt: '',
+  genre: 'Electronic',
+  duration: 180,
+  elapsed: 30,
+  playlists: ['Main', 'Night'],
+  onDemand: { song_suno: 'https://suno.com/song/1' },
+};
+
+const nowPlayingEvent: StreamEvent = {
+  id: 7,
+  type: 'now_playing',
+  timestamp: 1700000000000,
+  data: { liveSong, upNext: [], recentlyPlayed: [], listenerCount: 3 },
+};
+
+function dataLine(frame: string): string {
+  return frame.split('\n').find((line) => line.startsWith('data: '))!.slice('data: '.length);
+}
+
+describe('sse-protocol', () => {
+  it('sends v2 events named after their type with the full payload', () => {
+    const frame = formatSseEvent(nowPlayingEvent, 'v2')!;
+
+    expect(frame.startsWith('id: 7\nevent: now_playing\n')).toBe(true);
+    const payload = parseSsePayload(dataLine(frame));
+    expect(payload?.version).toBe(SSE_PROTOCOL_VERSION);
+    expect(payload?.type === 'now_playing' && payload.data.liveSong).toEqual(liveSong);
+  });
+
+  it('names v2 offline and health events', () => {
+    const offline = formatSseEvent(
+      { id: 8, type: 'stream_status', data: { isOnline: false } },
+      'v2'
+    );
+    const health = formatSseEvent(
+      {
+        id: 9,
+        type: 'health_check',
+        data: {
+          status: 'healthy',
+          details: 'Connection stable',
+          timestamp: 1700000000000,
+          metrics: {
+            totalConnections: 1,
+            successfulConnections: 1,
+            failedConnections: 0,
+            lastConnectionTime: 0,
+            lastSuccessfulConnection: 0,
+            averageReconnectTime: 0,
+          },
+        },
+      },
+      'v2'
+    );
+
+    expect(offline).toContain('event: stream_status\n');
+    expect(health).toContain('event: health_check\n');
+  });
+
+  it('keeps the AzuraCast shape for legacy clients', () => {
+    const frame = formatSseEvent(nowPlayingEvent, 'legacy')!;
+    const np = JSON.parse(dataLine(frame)).pub.data.np;
+
+    expect(frame).toContain('event: now_playing\n');
+    expect(np.now_playing.sh_id).toBe(42);
+    expect(np.listeners.current).toBe(3);
+  });
+
+  it('skips events the legacy format cannot express', () => {
+    const frame = formatSseEvent(
+      { id: 10, type: 'connection_restored', data: { metrics: {} as never } },
+      'legacy'
+    );
+
+    expect(frame).toBeNull();
+  });
+
+  it('rejects payloads from other protocol versions', () => {
+    expect(parseSsePayload('{"type":"now_playing","data":{}}')).toBeNull();
+    expect(parseSsePayload('not json')).toBeNull();
+  });
+});
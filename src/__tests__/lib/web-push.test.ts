@@ -0,0 +1,139 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MockPushService } from '@/mocks/push-service';
+import { generateVapidKeys, sendPushNotification, WebPushError, type VapidDetails } from '@/lib/web-push';
+import { isPushServiceEndpoint, PushReminderStore } from '@/lib/push-reminders';
+import { ReminderSender } from '@/lib/reminder-sender';
+import type { ScheduleEntry } from '@/lib/schedule-types';
+
+function entry(id: number, title: string, startTimestamp: number): ScheduleEntry {
+  return {
+    id,
+    type: 'playlist',
+    name: title,
+    title,
+    description: '',
+    start_timestamp: startTimestamp,
+    start: new Date(startTimestamp * 1000).toISOString(),
+    end_timestamp: startTimestamp + 3600,
+    end: new Date((startTimestamp + 3600) * 1000).toISOString(),
+    is_now: false,
+  };
+}
+
+describe('web push', () => {
+  const pushService = new MockPushService();
+  const vapid: VapidDetails = { ...generateVapidKeys(), subject: 'mailto:test@example.com' };
+  let directory: string;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    await pushService.start();
+  });
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'push-reminders-'));
+  });
+
+  afterEach(() => {
+    pushService.reset();
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  afterAll(async () => {
+    await pushService.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('delivers an encrypted, VAPID-signed message the browser can read', async () => {
+    const subscription = pushService.createSubscription();
+
+    await expect(
+      sendPushNotification(subscription, { hello: 'wörld' }, { vapid, ttl: 120, urgency: 'high' })
+    ).resolves.toBe(201);
+
+    expect(pushService.messages).toEqual([
+      expect.objectContaining({
+        endpoint: subscription.endpoint,
+        payload: { hello: 'wörld' },
+        ttl: 120,
+        urgency: 'high',
+        subject: 'mailto:test@example.com',
+      }),
+    ]);
+  });
+
+  it('reports expired subscriptions as gone', async () => {
+    const subscription = pushService.createSubscription();
+    pushService.expireSubscription(subscription.endpoint);
+
+    const error = await sendPushNotification(subscription, {}, { vapid }).catch((err) => err);
+    expect(error).toBeInstanceOf(WebPushError);
+    expect(error.isGone).toBe(true);
+  });
+
+  it('sends due reminders once and forgets expired subscriptions', async () => {
+    const now = 1_800_000_000;
+    const store = new PushReminderStore(directory);
+    const sender = new ReminderSender({ store, vapid, leadSeconds: 600 });
+
+    const listener = pushService.createSubscription();
+    const gone = pushService.createSubscription();
+    pushService.expireSubscription(gone.endpoint);
+
+    await store.addReminder(listener, 'oadro', entry(1, 'Playlist: Synthwave', now + 300), now);
+    await store.addReminder(listener, 'oadro', entry(2, 'Later Show', now + 3600), now);
+    await store.addReminder(gone, 'oadro', entry(1, 'Playlist: Synthwave', now + 300), now);
+
+    await expect(sender.sendDueReminders(now)).resolves.toBe(1);
+    expect(pushService.messages.map((message) => message.payload)).toEqual([
+      expect.objectContaining({
+        type: 'show_reminder',
+        title: 'Synthwave starts soon',
+        body: 'Starting in 5 minutes on oadro.',
+        tag: `oadro-playlist-1-${now + 300}`,
+      }),
+    ]);
+
+    // Sent reminders are removed, later ones are kept
+    expect((await store.getReminders(listener.endpoint)).map((reminder) => reminder.entryId)).toEqual([2]);
+    expect(await store.getReminders(gone.endpoint)).toEqual([]);
+    await expect(sender.sendDueReminders(now + 60)).resolves.toBe(0);
+  });
+
+  it('keeps concurrent changes and refuses to overwrite an unreadable store', async () => {
+    const now = 1_800_000_000;
+    const store = new PushReminderStore(directory);
+    const listener = pushService.createSubscription();
+
+    await Promise.all(
+      [1, 2, 3, 4].map((id) => store.addReminder(listener, 'oadro', entry(id, `Show ${id}`, now + id * 3600), now))
+    );
+    expect(await store.getReminders(listener.endpoint)).toHaveLength(4);
+
+    const filePath = path.join(directory, 'reminders.json');
+    fs.writeFileSync(filePath, '{"subscriptions":');
+    await expect(store.removeReminder(listener.endpoint, 'anything')).rejects.toThrow(SyntaxError);
+    expect(fs.readFileSync(filePath, 'utf8')).toBe('{"subscriptions":');
+  });
+
+  it('only treats HTTPS endpoints on browser push services as push services', () => {
+    const accepted = [
+      'https://fcm.googleapis.com/fcm/send/abc',
+      'https://updates.push.services.mozilla.com/wpush/v2/abc',
+      'https://web.push.apple.com/abc',
+      'https://wns2-par02p.notify.windows.com/w/?token=abc',
+    ];
+    const refused = [
+      'http://fcm.googleapis.com/fcm/send/abc',
+      'https://fcm.googleapis.com:8443/fcm/send/abc',
+      'https://127.0.0.1/push/abc',
+      'https://169.254.169.254/latest/meta-data',
+      'https://fcm.googleapis.com.example.com/abc',
+    ];
+
+    expect(accepted.filter((url) => !isPushServiceEndpoint(new URL(url)))).toEqual([]);
+    expect(refused.filter((url) => isPushServiceEndpoint(new URL(url)))).toEqual([]);
+  });
+});
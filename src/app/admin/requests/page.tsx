@@ -0,0 +1,14 @@
+import type { Metadata } from 'next';
+import AdminRequestsView from '@/components/admin-requests-view';
+
+export const metadata: Metadata = {
+  title: 'Request Moderation - OADRO Radio',
+  robots: {
+    index: false,
+    follow: false,
+  },
+};
+
+export default function AdminRequestsPage() {
+  return <AdminRequestsView />;
+}
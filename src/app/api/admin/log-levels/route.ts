@@ -0,0 +1,88 @@
+/**
+ * Admin API endpoint for changing log levels at runtime
+ *
+ * GET lists the default level and the per-context overrides. PUT takes
+ * `{ context, level }` to set a context's level (nested contexts follow it),
+ * or `{ context, level: null }` to go back to the default. Changes apply to
+ * the process that served the call and last until it restarts.
+ *
+ * Every call needs `Authorization: Bearer <ADMIN_API_TOKEN>`.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, ValidationError } from '@/lib/errors/api-errors';
+import { requireAdmin } from '@/lib/admin-auth';
+import { readJsonObject } from '@/lib/api-params';
+import { apiLogger, getLogLevels, isLogLevel, setLogLevel } from '@/lib/logger';
+import { withRateLimit } from '@/lib/rate-limit/middleware';
+import { withRequestMetrics } from '@/lib/metrics';
+import { withRequestLogging } from '@/lib/logging';
+
+// Opt out of caching for this route
+export const dynamic = 'force-dynamic';
+
+const CONTEXT_PATTERN = /^[\w-]+(:[\w-]+)*$/;
+
+const adminLogger = apiLogger.withContext('Admin');
+
+/**
+ * Helper function to convert ApiError instances to NextResponse objects
+ */
+function errorToResponse(error: ApiError): NextResponse {
+  return NextResponse.json(
+    {
+      error: {
+        message: error.message,
+        code: error.code,
+      },
+    },
+    { status: error.statusCode, headers: { 'Cache-Control': 'no-store' } }
+  );
+}
+
+function levelsResponse(): NextResponse {
+  return NextResponse.json(getLogLevels(), {
+    headers: { 'Cache-Control': 'no-store' },
+  });
+}
+
+async function handleGet(request: NextRequest) {
+  try {
+    requireAdmin(request);
+    return levelsResponse();
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return errorToResponse(error);
+    }
+
+    apiLogger.error('Error fetching log levels', error);
+    return errorToResponse(new ApiError('Failed to fetch log levels'));
+  }
+}
+
+async function handlePut(request: NextRequest) {
+  try {
+    requireAdmin(request);
+
+    const { context, level } = await readJsonObject(request);
+    if (typeof context !== 'string' || !CONTEXT_PATTERN.test(context)) {
+      throw new ValidationError('context must be a logger context such as "RadioWorker" or "API:Admin"');
+    }
+    if (level !== null && (typeof level !== 'string' || !isLogLevel(level))) {
+      throw new ValidationError("level must be 'debug', 'info', 'warn', 'error' or null");
+    }
+
+    setLogLevel(context, level);
+    adminLogger.info('Log level changed', { logContext: context, level });
+    return levelsResponse();
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return errorToResponse(error);
+    }
+
+    apiLogger.error('Error changing log level', error);
+    return errorToResponse(new ApiError('Failed to change log level'));
+  }
+}
+
+export const GET = withRequestLogging(withRequestMetrics('/api/admin/log-levels', withRateLimit(handleGet)));
+export const PUT = withRequestLogging(withRequestMetrics('/api/admin/log-levels', withRateLimit(handlePut)));
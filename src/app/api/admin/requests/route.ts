@@ -0,0 +1,144 @@
+/**
+ * Admin API endpoint for moderating song requests
+ *
+ * GET lists a station's held requests. POST takes one of:
+ * - `{ action: 'approve', id }` forwards a held request to the radio provider
+ * - `{ action: 'reject', id, reason? }` refuses a held request
+ * - `{ action: 'moderation', enabled }` turns holding of new requests on or off
+ *
+ * Every call needs `Authorization: Bearer <ADMIN_API_TOKEN>`.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, ValidationError } from '@/lib/errors/api-errors';
+import { requireAdmin } from '@/lib/admin-auth';
+import { readJsonObject } from '@/lib/api-params';
+import { resolveStation } from '@/lib/stations';
+import { getRadioProvider } from '@/lib/providers';
+import { getRequestLedger } from '@/lib/request-ledger';
+import type { ModerationQueueData } from '@/lib/request-types';
+import { withRateLimit } from '@/lib/rate-limit/middleware';
+import { withRequestMetrics } from '@/lib/metrics';
+import { apiLogger } from '@/lib/logger';
+import { withRequestLogging } from '@/lib/logging';
+
+// Opt out of caching for this route
+export const dynamic = 'force-dynamic';
+
+const MAX_REJECTION_REASON_LENGTH = 200;
+
+const adminLogger = apiLogger.withContext('Admin');
+
+/**
+ * Helper function to convert ApiError instances to NextResponse objects
+ */
+function errorToResponse(error: ApiError): NextResponse {
+  return NextResponse.json(
+    {
+      error: {
+        message: error.message,
+        code: error.code,
+      },
+    },
+    { status: error.statusCode, headers: { 'Cache-Control': 'no-store' } }
+  );
+}
+
+async function getQueue(station: string): Promise<ModerationQueueData> {
+  const ledger = getRequestLedger();
+  return {
+    station,
+    moderated: await ledger.isModerated(station),
+    requests: await ledger.getHeldRequests(station),
+  };
+}
+
+async function queueResponse(station: string, extra: Record<string, unknown> = {}): Promise<NextResponse> {
+  return NextResponse.json({ ...(await getQueue(station)), ...extra }, {
+    headers: { 'Cache-Control': 'no-store' },
+  });
+}
+
+async function handleGet(request: NextRequest) {
+  try {
+    requireAdmin(request);
+    const station = resolveStation(request.nextUrl.searchParams.get('station'));
+
+    return await queueResponse(station);
+  } catch (error) {
+    apiLogger.error('Error fetching held requests', error);
+
+    if (error instanceof ApiError) {
+      return errorToResponse(error);
+    }
+
+    return errorToResponse(new ApiError('Failed to fetch held requests'));
+  }
+}
+
+async function handlePost(request: NextRequest) {
+  try {
+    requireAdmin(request);
+    const station = resolveStation(request.nextUrl.searchParams.get('station'));
+
+    const body = await readJsonObject(request);
+
+    const ledger = getRequestLedger();
+
+    switch (body.action) {
+      case 'moderation': {
+        if (typeof body.enabled !== 'boolean') {
+          throw new ValidationError('enabled must be true or false');
+        }
+        await ledger.setModerated(station, body.enabled);
+        adminLogger.info(`Request moderation ${body.enabled ? 'enabled' : 'disabled'}`, { station });
+        return await queueResponse(station);
+      }
+
+      case 'approve': {
+        if (typeof body.id !== 'string') {
+          throw new ValidationError('Missing request id');
+        }
+
+        const approved = await ledger.approve(station, body.id);
+        try {
+          await getRadioProvider().submitRequest(approved.station, approved.requestUrl);
+        } catch (error) {
+          await ledger.hold(approved.id);
+          throw error;
+        }
+
+        adminLogger.info('Approved request', { station, songRequestId: approved.id, title: approved.title });
+        return await queueResponse(station, { request: approved });
+      }
+
+      case 'reject': {
+        if (typeof body.id !== 'string') {
+          throw new ValidationError('Missing request id');
+        }
+        if (body.reason !== undefined && typeof body.reason !== 'string') {
+          throw new ValidationError('reason must be a string');
+        }
+
+        const reason = body.reason?.trim().slice(0, MAX_REJECTION_REASON_LENGTH) || undefined;
+        const rejected = await ledger.reject(station, body.id, reason);
+
+        adminLogger.info('Rejected request', { station, songRequestId: rejected.id, title: rejected.title });
+        return await queueResponse(station, { request: rejected });
+      }
+
+      default:
+        throw new ValidationError('action must be one of: approve, reject, moderation');
+    }
+  } catch (error) {
+    apiLogger.error('Error moderating requests', error);
+
+    if (error instanceof ApiError) {
+      return errorToResponse(error);
+    }
+
+    return errorToResponse(new ApiError('Failed to moderate requests'));
+  }
+}
+
+export const GET = withRequestLogging(withRequestMetrics('/api/admin/requests', withRateLimit(handleGet)));
+export const POST = withRequestLogging(withRequestMetrics('/api/admin/requests', withRateLimit(handlePost)));
@@ -0,0 +1,22 @@
+/**
+ * Deep health check: radio workers, upstream APIs, the HLS manifest and
+ * memory use. Upstream results are cached for HEALTH_CHECK_CACHE_SECONDS
+ */
+import { createReport, getDeepHealth, toHealthResponse } from '@/lib/health';
+import { withRateLimit } from '@/lib/rate-limit/middleware';
+import { withRequestMetrics } from '@/lib/metrics';
+import { apiLogger } from '@/lib/logger';
+import { withRequestLogging } from '@/lib/logging';
+
+export const dynamic = 'force-dynamic';
+
+async function handleGet() {
+  try {
+    return toHealthResponse(await getDeepHealth());
+  } catch (error) {
+    apiLogger.error('Health check failed', error);
+    return toHealthResponse(createReport('unhealthy', {}));
+  }
+}
+
+export const GET = withRequestLogging(withRequestMetrics('/api/health/deep', withRateLimit(handleGet)));
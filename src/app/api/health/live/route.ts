@@ -0,0 +1,16 @@
+/**
+ * Liveness probe: answers as long as the process can serve requests.
+ * Not rate limited, so a busy load balancer never takes a healthy process
+ * out of rotation.
+ */
+import { getLiveness, toHealthResponse } from '@/lib/health';
+import { withRequestMetrics } from '@/lib/metrics';
+import { withRequestLogging } from '@/lib/logging';
+
+export const dynamic = 'force-dynamic';
+
+async function handleGet() {
+  return toHealthResponse(getLiveness());
+}
+
+export const GET = withRequestLogging(withRequestMetrics('/api/health/live', handleGet));
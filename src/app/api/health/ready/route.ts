@@ -0,0 +1,22 @@
+/**
+ * Readiness probe: the radio workers are connected with a fresh heartbeat,
+ * or another process holds the worker lease and is relaying events.
+ * Not rate limited, like the liveness probe.
+ */
+import { createReport, getReadiness, toHealthResponse } from '@/lib/health';
+import { withRequestMetrics } from '@/lib/metrics';
+import { apiLogger } from '@/lib/logger';
+import { withRequestLogging } from '@/lib/logging';
+
+export const dynamic = 'force-dynamic';
+
+async function handleGet() {
+  try {
+    return toHealthResponse(await getReadiness());
+  } catch (error) {
+    apiLogger.error('Health check failed', error);
+    return toHealthResponse(createReport('unhealthy', {}));
+  }
+}
+
+export const GET = withRequestLogging(withRequestMetrics('/api/health/ready', handleGet));
@@ -0,0 +1,100 @@
+/**
+ * API endpoint for the station-wide play history
+ *
+ * Supports cursor pagination (newest first), `from`/`to` timestamp filters and
+ * artist/genre filters over the locally recorded play log.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getPlayHistoryStore } from '@/lib/play-history';
+import { resolveStation } from '@/lib/stations';
+import { ApiError, ValidationError } from '@/lib/errors/api-errors';
+import { parseTimestamp } from '@/lib/api-params';
+import {
+  DEFAULT_HISTORY_PAGE_SIZE,
+  MAX_HISTORY_PAGE_SIZE,
+  type HistoryPage,
+} from '@/lib/history-types';
+import { withRateLimit } from '@/lib/rate-limit/middleware';
+import { withRequestMetrics } from '@/lib/metrics';
+import { apiLogger } from '@/lib/logger';
+import { withRequestLogging } from '@/lib/logging';
+
+// Opt out of caching for this route
+export const dynamic = 'force-dynamic';
+
+/**
+ * Helper function to convert ApiError instances to NextResponse objects
+ */
+function errorToResponse(error: ApiError): NextResponse {
+  return NextResponse.json(
+    {
+      error: {
+        message: error.message,
+        code: error.code,
+      },
+    },
+    { status: error.statusCode }
+  );
+}
+
+function parseLimit(value: string | null): number {
+  if (!value) return DEFAULT_HISTORY_PAGE_SIZE;
+
+  const limit = parseInt(value, 10);
+  if (isNaN(limit) || limit < 1 || limit > MAX_HISTORY_PAGE_SIZE) {
+    throw new ValidationError(`limit must be between 1 and ${MAX_HISTORY_PAGE_SIZE}`);
+  }
+  return limit;
+}
+
+function parseCursor(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  if (!/^\d+$/.test(value)) {
+    throw new ValidationError('Invalid cursor');
+  }
+  return parseInt(value, 10);
+}
+
+async function handleGet(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+
+    const from = parseTimestamp(searchParams.get('from'), 'from');
+    const to = parseTimestamp(searchParams.get('to'), 'to');
+    if (from !== undefined && to !== undefined && from > to) {
+      throw new ValidationError('from must not be later than to');
+    }
+
+    const store = getPlayHistoryStore(resolveStation(searchParams.get('station')));
+    const { plays, nextBefore } = store.queryPlays({
+      before: parseCursor(searchParams.get('cursor')),
+      from,
+      to,
+      artist: searchParams.get('artist')?.trim() || undefined,
+      genre: searchParams.get('genre')?.trim() || undefined,
+      limit: parseLimit(searchParams.get('limit')),
+    });
+
+    const page: HistoryPage = {
+      songs: plays.map((play) => store.toSong(play)),
+      nextCursor: nextBefore !== null ? String(nextBefore) : null,
+      lastUpdated: Date.now(),
+    };
+
+    return NextResponse.json(page, {
+      headers: {
+        'Cache-Control': 'public, max-age=15',
+      },
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return errorToResponse(error);
+    }
+
+    apiLogger.error('Error fetching play history', error);
+    return errorToResponse(new ApiError('Failed to fetch play history'));
+  }
+}
+
+export const GET = withRequestLogging(withRequestMetrics('/api/history', withRateLimit(handleGet)));
@@ -0,0 +1,90 @@
+/**
+ * Metrics endpoint in the OpenMetrics text format, for Prometheus and
+ * compatible scrapers
+ *
+ * Covers the radio provider connection, open SSE streams, listeners, API
+ * requests and rate limit rejections. Values are for the process that served
+ * the scrape. With `METRICS_TOKEN` set, scrapers must send it as a bearer token.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError } from '@/lib/errors/api-errors';
+import { requireMetricsAccess } from '@/lib/admin-auth';
+import { getLatestEvents } from '@/lib/interaction-stream';
+import {
+  OPENMETRICS_CONTENT_TYPE,
+  listeners,
+  metrics,
+  sseSubscribers,
+  upstreamHeartbeatAgeSeconds,
+  withRequestMetrics,
+} from '@/lib/metrics';
+import { getRadioWorkers } from '@/lib/radio-simple';
+import { getSseConnections } from '@/lib/sse-connections';
+import { STATIONS } from '@/lib/stations';
+import { withRateLimit } from '@/lib/rate-limit/middleware';
+import { apiLogger } from '@/lib/logger';
+import { withRequestLogging } from '@/lib/logging';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Helper function to convert ApiError instances to NextResponse objects
+ */
+function errorToResponse(error: ApiError): NextResponse {
+  return NextResponse.json(
+    {
+      error: {
+        message: error.message,
+        code: error.code,
+      },
+    },
+    { status: error.statusCode, headers: { 'Cache-Control': 'no-store' } }
+  );
+}
+
+/** Refills the gauges that describe current state. */
+function collectGauges(): void {
+  upstreamHeartbeatAgeSeconds.reset();
+  for (const worker of getRadioWorkers()) {
+    const state = worker.getState();
+    if (state.isStarted) {
+      upstreamHeartbeatAgeSeconds.set({ station: state.station }, state.timeSinceLastHeartbeat / 1000);
+    }
+  }
+
+  const { byStation } = getSseConnections().getStats();
+  sseSubscribers.reset();
+  listeners.reset();
+  for (const { id } of STATIONS) {
+    sseSubscribers.set({ station: id }, byStation[id] ?? 0);
+
+    // Followers see the leader's snapshots too, so every process can report this
+    const nowPlaying = getLatestEvents(id).find((event) => event.type === 'now_playing');
+    if (nowPlaying?.type === 'now_playing') {
+      listeners.set({ station: id }, nowPlaying.data.listenerCount);
+    }
+  }
+}
+
+async function handleGet(request: NextRequest) {
+  try {
+    requireMetricsAccess(request);
+    collectGauges();
+
+    return new NextResponse(metrics.render(), {
+      headers: {
+        'Content-Type': OPENMETRICS_CONTENT_TYPE,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return errorToResponse(error);
+    }
+
+    apiLogger.error('Error rendering metrics', error);
+    return errorToResponse(new ApiError('Failed to render metrics'));
+  }
+}
+
+export const GET = withRequestLogging(withRequestMetrics('/api/metrics', withRateLimit(handleGet)));
@@ -3,9 +3,14 @@
  *
  * @see /docs/openapi.yml
  */
-import { NextResponse } from 'next/server';
-import { AZURACAST_BASE_URL, AZURACAST_STATION_NAME } from '@/lib/config';
+import { NextRequest, NextResponse } from 'next/server';
+import { getRadioProvider } from '@/lib/providers';
+import { resolveStation } from '@/lib/stations';
 import { ApiError } from '@/lib/errors/api-errors';
+import { withRateLimit } from '@/lib/rate-limit/middleware';
+import { withRequestMetrics } from '@/lib/metrics';
+import { apiLogger } from '@/lib/logger';
+import { withRequestLogging } from '@/lib/logging';
 
 // Opt out of caching for this route
 export const dynamic = 'force-dynamic';
@@ -25,30 +30,14 @@ function errorToResponse(error: ApiError): NextResponse {
   );
 }
 
-export async function GET() {
+async function handleGet(request: NextRequest) {
   try {
-    const metaUrl = `${AZURACAST_BASE_URL}/api/nowplaying/${AZURACAST_STATION_NAME}`;
+    const station = resolveStation(request.nextUrl.searchParams.get('station'));
     // Fetch on the server to avoid CORS issues in the browser
-    const response = await fetch(metaUrl);
-
-    if (!response.ok) {
-      // Don't throw an error, just return a structured error response
-      console.error(
-        `Failed to fetch metadata: ${response.status} ${response.statusText}`
-      );
-      return errorToResponse(
-        new ApiError(
-          `Failed to fetch radio metadata: ${response.status}`,
-          response.status,
-          'EXTERNAL_API_ERROR'
-        )
-      );
-    }
-
-    const data = await response.json();
+    const data = await getRadioProvider().getNowPlaying(station);
     return NextResponse.json(data);
   } catch (error) {
-    console.error('Error fetching radio metadata:', error);
+    apiLogger.error('Error fetching radio metadata', error);
 
     if (error instanceof ApiError) {
       return errorToResponse(error);
@@ -57,3 +46,5 @@ export async function GET() {
     return errorToResponse(new ApiError('Failed to fetch radio metadata'));
   }
 }
+
+export const GET = withRequestLogging(withRequestMetrics('/api/radio-meta', withRateLimit(handleGet)));
@@ -1,12 +1,36 @@
 /**
  * Simplified radio stream API endpoint
+ *
+ * Speaks the v2 event protocol by default; `?protocol=legacy` selects the
+ * AzuraCast-shaped format for older clients (see docs/SSE_PROTOCOL.md).
+ * New connections are sent the latest snapshot straight away; clients that
+ * reconnect with `Last-Event-ID` are sent only the events they missed.
+ * Open streams are capped per client and per process, and idle ones are
+ * closed (see lib/sse-connections).
  */
-import { NextRequest } from 'next/server';
-import { getRadioWorkerSingleton } from '@/lib/radio-simple';
-import { subscribe, type PubSubEvent } from '@/lib/interaction-stream';
+import { NextRequest, NextResponse } from 'next/server';
+import { ensureRadioWorkerStarted } from '@/lib/radio-simple';
+import { getReplayEvents, subscribe, type StreamEvent } from '@/lib/interaction-stream';
+import { ApiError } from '@/lib/errors/api-errors';
+import { resolveStation } from '@/lib/stations';
+import { formatSseEvent, resolveSseProtocol, SSE_PROTOCOL_VERSION } from '@/lib/sse-protocol';
+import { getClientIdentifier, withRateLimit } from '@/lib/rate-limit/middleware';
+import { withRequestMetrics } from '@/lib/metrics';
+import { withRequestLogging } from '@/lib/logging';
+import { createLogger } from '@/lib/logger';
+import { getSseConnections, type SseCloseReason } from '@/lib/sse-connections';
 
 export const dynamic = 'force-dynamic';
 
+const sseLogger = createLogger('SSE');
+
+// Tells a browser whose stream was evicted for going over the per-client cap
+// to wait before reconnecting, so its tabs don't keep evicting each other
+const CLIENT_LIMIT_RETRY_MS = 5 * 60 * 1000;
+// Streams closed because the whole process was full weren't the listener's
+// doing, so they reconnect after the usual short delay
+const PROCESS_LIMIT_RETRY_MS = 5 * 1000;
+
 function writeSseEvent(
   controller: ReadableStreamDefaultController<unknown>,
   event: string,
@@ -16,169 +40,118 @@ function writeSseEvent(
   try {
     controller.enqueue(message);
   } catch {
-    console.warn(
-      `[SSE] Failed to write event "${event}", client may have disconnected.`
-    );
+    sseLogger.warn('Failed to write event, client may have disconnected', { event });
   }
 }
 
-export async function GET(request: NextRequest) {
-  // Ensure the background worker is running
-  const worker = getRadioWorkerSingleton();
+/**
+ * Reads the last event ID a client has seen, either from the `Last-Event-ID`
+ * header sent by `EventSource` on reconnect or from the `lastEventId` query
+ * parameter for clients that open a fresh connection.
+ */
+function getLastEventId(request: NextRequest): number | undefined {
+  const value =
+    request.headers.get('last-event-id') ??
+    request.nextUrl.searchParams.get('lastEventId');
+  if (!value || !/^\d+$/.test(value)) return undefined;
+  return parseInt(value, 10);
+}
+
+async function handleGet(request: NextRequest) {
+  const lastEventId = getLastEventId(request);
+  const protocol = resolveSseProtocol(request.nextUrl.searchParams.get('protocol'));
+  let station: string;
+  try {
+    station = resolveStation(request.nextUrl.searchParams.get('station'));
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json(
+        { error: { message: error.message, code: error.code } },
+        { status: error.statusCode }
+      );
+    }
+    throw error;
+  }
 
-  // Explicitly start the worker to ensure it's running
-  const startResult = await worker.start();
-  console.log(
-    `[SSE] Worker start result: ${startResult} (false means worker was already running)`
-  );
+  // Ensure the background worker for this station is running (on the primary process)
+  const startResult = await ensureRadioWorkerStarted(station);
+  // false means the worker was already running or is relayed from the primary
+  sseLogger.debug('Radio worker start requested', { station, started: startResult });
+
+  const client = getClientIdentifier(request);
+  let cleanup = () => {};
 
   const stream = new ReadableStream({
     start(controller) {
       let unsubscribe: (() => void) | null = null;
+      let keepAliveInterval: NodeJS.Timeout | null = null;
       let isStreamClosed = false;
 
-      const handleEvent = (event: PubSubEvent) => {
-        if (!event) return;
-        if (isStreamClosed) {
-          return;
+      // Every way a stream ends comes through here, so the connection is always released
+      cleanup = () => {
+        if (isStreamClosed) return;
+        isStreamClosed = true;
+
+        connection.release();
+        if (keepAliveInterval) clearInterval(keepAliveInterval);
+        if (unsubscribe) {
+          unsubscribe();
+          unsubscribe = null;
         }
-        switch (event.type) {
-          case 'now_playing':
-            if (event.data && event.data.liveSong) {
-              const legacyFormat = {
-                pub: {
-                  data: {
-                    np: {
-                      is_online: true,
-                      listeners: { current: event.data.listenerCount },
-                      now_playing: {
-                        sh_id: event.data.liveSong.id,
-                        played_at: event.data.liveSong.played_at,
-                        duration: event.data.liveSong.duration,
-                        elapsed: event.data.liveSong.elapsed,
-                        playlist: event.data.liveSong.playlists?.[0],
-                        song: {
-                          id: event.data.liveSong.songId,
-                          title: event.data.liveSong.title,
-                          artist: event.data.liveSong.artist,
-                          art: event.data.liveSong.albumArt,
-                          genre: event.data.liveSong.genre,
-                          custom_fields: {
-                            creator_discord_id:
-                              event.data.liveSong.creatorDiscordId,
-                          },
-                        },
-                        interaction_count: event.data.liveSong.interactionCount,
-                      },
-                      playing_next: event.data.upNext?.[0]
-                        ? {
-                            cued_at: event.data.upNext[0].id,
-                            duration: event.data.upNext[0].duration,
-                            song: {
-                              id: event.data.upNext[0].songId,
-                              title: event.data.upNext[0].title,
-                              artist: event.data.upNext[0].artist,
-                              art: event.data.upNext[0].albumArt,
-                              genre: event.data.upNext[0].genre,
-                              custom_fields: {
-                                creator_discord_id:
-                                  event.data.upNext[0].creatorDiscordId,
-                              },
-                            },
-                          }
-                        : null,
-                      song_history:
-                        event.data.recentlyPlayed?.map((song) => ({
-                          sh_id: song.id,
-                          played_at: song.played_at,
-                          duration: song.duration,
-                          song: {
-                            id: song.songId,
-                            title: song.title,
-                            artist: song.artist,
-                            art: song.albumArt,
-                            genre: song.genre,
-                            custom_fields: {
-                              creator_discord_id: song.creatorDiscordId,
-                            },
-                          },
-                        })) || [],
-                    },
-                  },
-                },
-              };
-              
-              try {
-                const message = `event: now_playing\ndata: ${JSON.stringify(
-                  legacyFormat
-                )}\n\n`;
-                controller.enqueue(message);
-              } catch {
-                console.warn(
-                  '[SSE] Failed to send now_playing event, client may have disconnected.'
-                );
-                isStreamClosed = true;
-              }
-            }
-            break;
-
-          case 'stream_status':
-            if (event.data && !event.data.isOnline) {
-              const offlineFormat = {
-                pub: {
-                  data: {
-                    np: {
-                      is_online: false,
-                      listeners: { current: 0 },
-                      now_playing: null,
-                      playing_next: null,
-                      song_history: [],
-                    },
-                  },
-                },
-              };
-              controller.enqueue(`data: ${JSON.stringify(offlineFormat)}\n\n`);
-            }
-            break;
+        try {
+          controller.close();
+        } catch {
+          // Controller may already be closed
         }
       };
 
-      // Subscribe to live updates
-      unsubscribe = subscribe(handleEvent);
-
-      // Add periodic keep-alive to prevent connection timeout
-      const keepAliveInterval = setInterval(() => {
-        if (isStreamClosed) {
-          clearInterval(keepAliveInterval);
-          return;
+      const connection = getSseConnections().open(client, station, (reason: SseCloseReason) => {
+        if (reason !== 'idle') {
+          const retryMs = reason === 'client-limit' ? CLIENT_LIMIT_RETRY_MS : PROCESS_LIMIT_RETRY_MS;
+          try {
+            controller.enqueue(`retry: ${retryMs}\n\n`);
+          } catch {
+            // Already gone
+          }
         }
+        cleanup();
+      });
+
+      const handleEvent = (event: StreamEvent) => {
+        if (!event || isStreamClosed) return;
+
+        const message = formatSseEvent(event, protocol);
+        if (!message) return;
+
         try {
-          controller.enqueue(`: keep-alive ${Date.now()}\n`);
+          controller.enqueue(message);
+          connection.touch();
         } catch {
-          isStreamClosed = true;
-          clearInterval(keepAliveInterval);
+          sseLogger.warn('Failed to send event, client may have disconnected', { station, type: event.type });
+          cleanup();
         }
-      }, 15000);
+      };
 
-      // Cleanup on client disconnect
-      const cleanup = () => {
-        isStreamClosed = true;
-        clearInterval(keepAliveInterval);
-        if (unsubscribe) {
-          unsubscribe();
-          unsubscribe = null;
-        }
+      // Subscribe to live updates, then replay what this client has not seen yet
+      unsubscribe = subscribe(handleEvent, station);
+      getReplayEvents(station, lastEventId).forEach(handleEvent);
+
+      // Add periodic keep-alive to prevent connection timeout. Keep-alives
+      // don't count as activity for the idle timeout.
+      keepAliveInterval = setInterval(() => {
         try {
-          controller.close();
+          controller.enqueue(`: keep-alive ${Date.now()}\n`);
         } catch {
-          // Controller may already be closed
+          cleanup();
         }
-      };
+      }, 15000);
 
-      request.signal.addEventListener('abort', cleanup);
+      // Cleanup on client disconnect
+      request.signal.addEventListener('abort', () => cleanup());
     },
     cancel() {
-      console.log('[SSE] Stream cancelled by client.');
+      sseLogger.debug('Stream cancelled by client', { station });
+      cleanup();
     },
   });
 
@@ -190,6 +163,9 @@ export async function GET(request: NextRequest) {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Headers': 'Cache-Control',
       'X-Accel-Buffering': 'no', // Disable nginx buffering
+      'X-SSE-Protocol': protocol === 'legacy' ? 'legacy' : String(SSE_PROTOCOL_VERSION),
     },
   });
-}
\ No newline at end of file
+}
+
+export const GET = withRequestLogging(withRequestMetrics('/api/radio-stream', withRateLimit(handleGet)));
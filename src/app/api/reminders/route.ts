@@ -0,0 +1,128 @@
+/**
+ * API endpoint for show reminders sent as web push messages
+ *
+ * - GET `?endpoint=` returns the VAPID public key, the reminder lead time and
+ *   the reminders set on that push subscription
+ * - POST `{ subscription, station, entryId, startTimestamp }` sets a reminder
+ *   for an upcoming schedule entry
+ * - DELETE `{ endpoint, id }` removes a reminder
+ *
+ * Returns 501 when `VAPID_PUBLIC_KEY` and `VAPID_PRIVATE_KEY` are not set.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, NotFoundError, NotSupportedError, ValidationError } from '@/lib/errors/api-errors';
+import { readJsonObject } from '@/lib/api-params';
+import { PUSH_REMINDER_LEAD_MINUTES, VAPID_PUBLIC_KEY } from '@/lib/env';
+import { getRadioProvider } from '@/lib/providers';
+import { getPushReminderStore, parsePushSubscription, type ShowReminder } from '@/lib/push-reminders';
+import { getRadioLeaderStatus } from '@/lib/radio-simple';
+import { isPushConfigured } from '@/lib/reminder-sender';
+import { resolveStation } from '@/lib/stations';
+import { withRateLimit } from '@/lib/rate-limit/middleware';
+import { withRequestMetrics } from '@/lib/metrics';
+import { apiLogger } from '@/lib/logger';
+import { withRequestLogging } from '@/lib/logging';
+
+// Opt out of caching for this route
+export const dynamic = 'force-dynamic';
+
+/**
+ * Helper function to convert ApiError instances to NextResponse objects
+ */
+function errorToResponse(error: ApiError): NextResponse {
+  return NextResponse.json(
+    {
+      error: {
+        message: error.message,
+        code: error.code,
+      },
+    },
+    { status: error.statusCode, headers: { 'Cache-Control': 'no-store' } }
+  );
+}
+
+function handleError(error: unknown, action: string): NextResponse {
+  if (error instanceof ApiError) {
+    return errorToResponse(error);
+  }
+
+  apiLogger.error(`Error ${action}`, error);
+  return errorToResponse(new ApiError(`Failed ${action}`));
+}
+
+function requirePush(): void {
+  if (!isPushConfigured()) {
+    throw new NotSupportedError('Show reminders are not enabled on this server');
+  }
+}
+
+function remindersResponse(reminders: ShowReminder[], status = 200): NextResponse {
+  return NextResponse.json(
+    { publicKey: VAPID_PUBLIC_KEY, leadMinutes: PUSH_REMINDER_LEAD_MINUTES, reminders },
+    { status, headers: { 'Cache-Control': 'no-store' } }
+  );
+}
+
+async function handleGet(request: NextRequest) {
+  try {
+    requirePush();
+    const endpoint = request.nextUrl.searchParams.get('endpoint');
+    return remindersResponse(endpoint ? await getPushReminderStore().getReminders(endpoint) : []);
+  } catch (error) {
+    return handleError(error, 'loading reminders');
+  }
+}
+
+async function handlePost(request: NextRequest) {
+  try {
+    requirePush();
+    const body = await readJsonObject(request);
+    const subscription = parsePushSubscription(body.subscription);
+    const station = resolveStation(typeof body.station === 'string' ? body.station : null);
+    const { entryId, startTimestamp } = body;
+    if (typeof entryId !== 'number' || typeof startTimestamp !== 'number') {
+      throw new ValidationError('entryId and startTimestamp are required');
+    }
+
+    // Only trust titles and times from the schedule itself
+    const now = Math.floor(Date.now() / 1000);
+    const entries = await getRadioProvider().getSchedule(station, now);
+    const entry = entries.find((e) => e.id === entryId && e.start_timestamp === startTimestamp);
+    if (!entry) {
+      throw new NotFoundError('That show is no longer on the schedule');
+    }
+    if (entry.start_timestamp <= now) {
+      throw new ValidationError('That show has already started');
+    }
+
+    const store = getPushReminderStore();
+    await store.addReminder(subscription, station, entry, now);
+
+    // Reminders are sent by the leader process, so make sure this one takes part
+    getRadioLeaderStatus();
+
+    return remindersResponse(await store.getReminders(subscription.endpoint), 201);
+  } catch (error) {
+    return handleError(error, 'setting reminder');
+  }
+}
+
+async function handleDelete(request: NextRequest) {
+  try {
+    requirePush();
+    const { endpoint, id } = await readJsonObject(request);
+    if (typeof endpoint !== 'string' || typeof id !== 'string') {
+      throw new ValidationError('endpoint and id are required');
+    }
+
+    const store = getPushReminderStore();
+    await store.removeReminder(endpoint, id);
+    return remindersResponse(await store.getReminders(endpoint));
+  } catch (error) {
+    return handleError(error, 'removing reminder');
+  }
+}
+
+export const GET = withRequestLogging(withRequestMetrics('/api/reminders', withRateLimit(handleGet)));
+export const POST = withRequestLogging(withRequestMetrics('/api/reminders', withRateLimit(handlePost)));
+export const DELETE = withRequestLogging(withRequestMetrics('/api/reminders', withRateLimit(handleDelete)));
@@ -0,0 +1,58 @@
+/**
+ * API endpoint listing the current listener's recent song requests
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError } from '@/lib/errors/api-errors';
+import { resolveStation } from '@/lib/stations';
+import { getRequestLedger } from '@/lib/request-ledger';
+import { getListenerIdentity, withListenerCookie } from '@/lib/listener-id';
+import { withRateLimit } from '@/lib/rate-limit/middleware';
+import { withRequestMetrics } from '@/lib/metrics';
+import { apiLogger } from '@/lib/logger';
+import { withRequestLogging } from '@/lib/logging';
+
+// Opt out of caching for this route
+export const dynamic = 'force-dynamic';
+
+/**
+ * Helper function to convert ApiError instances to NextResponse objects
+ */
+function errorToResponse(error: ApiError): NextResponse {
+  return NextResponse.json(
+    {
+      error: {
+        message: error.message,
+        code: error.code,
+      },
+    },
+    { status: error.statusCode }
+  );
+}
+
+async function handleGet(request: NextRequest) {
+  try {
+    const station = resolveStation(request.nextUrl.searchParams.get('station'));
+    const listener = getListenerIdentity(request);
+
+    const data = await getRequestLedger().getListenerRequests(station, listener);
+
+    return withListenerCookie(
+      NextResponse.json(data, {
+        headers: {
+          'Cache-Control': 'private, no-store',
+        },
+      }),
+      listener
+    );
+  } catch (error) {
+    apiLogger.error('Error fetching pending requests', error);
+
+    if (error instanceof ApiError) {
+      return errorToResponse(error);
+    }
+
+    return errorToResponse(new ApiError('Failed to fetch pending requests'));
+  }
+}
+
+export const GET = withRequestLogging(withRequestMetrics('/api/requests/pending', withRateLimit(handleGet)));
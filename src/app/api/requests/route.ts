@@ -1,14 +1,29 @@
 /**
- * API endpoint for fetching AzuraCast requestable songs
+ * API endpoint for searching a station's requestable songs.
+ *
+ * Query parameters: `q` (fuzzy, accent-insensitive search of title, artist,
+ * album and lyrics), `genre`, `artist`, `sort` (relevance, title, artist,
+ * recently-played or popularity), `page` and `pageSize`. Responses carry an
+ * ETag, so unchanged pages revalidate with a 304.
  */
-import { NextResponse } from 'next/server';
-import { AZURACAST_BASE_URL, AZURACAST_STATION_NAME } from '@/lib/config';
+import crypto from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getRequestCatalogue } from '@/lib/requestable-songs';
+import { parseRequestQuery, searchRequestableSongs } from '@/lib/request-search';
+import { getPlayHistoryStore, type SongStats } from '@/lib/play-history';
+import { resolveStation } from '@/lib/stations';
 import { ApiError } from '@/lib/errors/api-errors';
-import type { RequestableSong } from '@/lib/request-types';
+import { withRateLimit } from '@/lib/rate-limit/middleware';
+import { withRequestMetrics } from '@/lib/metrics';
+import { apiLogger } from '@/lib/logger';
+import { withRequestLogging } from '@/lib/logging';
 
 // Opt out of caching for this route
 export const dynamic = 'force-dynamic';
 
+// Short, since play-based sorts change as songs are played; ETags make revalidation cheap
+const CACHE_CONTROL = 'public, max-age=60';
+
 /**
  * Helper function to convert ApiError instances to NextResponse objects
  */
@@ -24,47 +39,66 @@ function errorToResponse(error: ApiError): NextResponse {
   );
 }
 
-export async function GET() {
-  try {
-    // Fetch requestable songs from AzuraCast
-    const requestsUrl = `${AZURACAST_BASE_URL}/api/station/${AZURACAST_STATION_NAME}/requests`;
-    
-    const response = await fetch(requestsUrl, {
-      headers: {
-        'Accept': 'application/json',
-        'Cache-Control': 'no-cache',
-      },
+function hash(value: string): string {
+  return crypto.createHash('sha1').update(value).digest('base64url').slice(0, 16);
+}
+
+function notModified(etag: string): NextResponse {
+  return new NextResponse(null, { status: 304, headers: { 'Cache-Control': CACHE_CONTROL, ETag: etag } });
+}
+
+function matchesEtag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  return ifNoneMatch
+    .split(',')
+    .some((candidate) => {
+      const tag = candidate.trim();
+      return tag === '*' || tag.replace(/^W\//, '') === etag;
     });
+}
 
-    if (!response.ok) {
-      console.error(
-        `Failed to fetch requests: ${response.status} ${response.statusText}`
-      );
-      return errorToResponse(
-        new ApiError(
-          `Failed to fetch requestable songs: ${response.status}`,
-          response.status,
-          'EXTERNAL_API_ERROR'
-        )
-      );
+async function handleGet(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const station = resolveStation(searchParams.get('station'));
+    const query = parseRequestQuery(searchParams);
+    const catalogue = await getRequestCatalogue(station);
+
+    // Pages sorted by catalogue fields only change with the catalogue, so
+    // their ETag is known before searching. Play-based sorts hash the page.
+    // The body's lastUpdated is the fetch time, so that is part of the tag.
+    const catalogueTag = `${catalogue.etag}-${catalogue.fetchedAt.toString(36)}`;
+    const queryHash = hash(JSON.stringify(query));
+    const playBased = query.sort === 'recently-played' || query.sort === 'popularity';
+    if (!playBased) {
+      const etag = `"${catalogueTag}-${queryHash}"`;
+      if (matchesEtag(request.headers.get('if-none-match'), etag)) {
+        return notModified(etag);
+      }
     }
 
-    const songs: RequestableSong[] = await response.json();
-    
-    // Process the request data
-    const processedData = {
-      songs,
-      totalCount: songs.length,
-      lastUpdated: Date.now(),
-    };
+    // Read from the play history in one go, not once per song
+    const stats = playBased ? getPlayHistoryStore(station).getAllSongStats() : new Map<string, SongStats>();
+    const data = searchRequestableSongs(
+      catalogue.songs,
+      query,
+      (songId) => stats.get(songId) ?? null,
+      catalogue.fetchedAt
+    );
+    const body = JSON.stringify(data);
 
-    return NextResponse.json(processedData, {
-      headers: {
-        'Cache-Control': 'public, max-age=300', // Cache for 5 minutes
-      },
+    const etag = playBased
+      ? `"${catalogueTag}-${queryHash}-${hash(JSON.stringify(data.songs))}"`
+      : `"${catalogueTag}-${queryHash}"`;
+    if (playBased && matchesEtag(request.headers.get('if-none-match'), etag)) {
+      return notModified(etag);
+    }
+
+    return new NextResponse(body, {
+      headers: { 'Cache-Control': CACHE_CONTROL, 'Content-Type': 'application/json', ETag: etag },
     });
   } catch (error) {
-    console.error('Error fetching requestable songs:', error);
+    apiLogger.error('Error fetching requestable songs', error);
 
     if (error instanceof ApiError) {
       return errorToResponse(error);
@@ -72,4 +106,6 @@ export async function GET() {
 
     return errorToResponse(new ApiError('Failed to fetch requestable songs'));
   }
-}
\ No newline at end of file
+}
+
+export const GET = withRequestLogging(withRequestMetrics('/api/requests', withRateLimit(handleGet)));
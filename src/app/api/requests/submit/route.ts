@@ -1,9 +1,24 @@
 /**
- * API endpoint for submitting song requests to AzuraCast
+ * API endpoint for submitting song requests through the radio provider
+ *
+ * Requests are checked against the request ledger first, so cooldowns,
+ * pending caps and repeat rules are enforced before anything reaches the
+ * provider. Refusals carry a `reason` code and, where waiting helps,
+ * `retryAfter` seconds. While moderation is on, requests are held in the
+ * ledger and only forwarded once a moderator approves them.
  */
 import { NextRequest, NextResponse } from 'next/server';
-import { AZURACAST_BASE_URL } from '@/lib/config';
-import { ApiError } from '@/lib/errors/api-errors';
+import { ApiError, RequestRejectedError, ValidationError } from '@/lib/errors/api-errors';
+import { readJsonObject } from '@/lib/api-params';
+import { resolveStation } from '@/lib/stations';
+import { getRadioProvider } from '@/lib/providers';
+import { getRequestLedger } from '@/lib/request-ledger';
+import { findRequestableSong } from '@/lib/requestable-songs';
+import { getListenerIdentity, withListenerCookie } from '@/lib/listener-id';
+import { withRateLimit } from '@/lib/rate-limit/middleware';
+import { withRequestMetrics } from '@/lib/metrics';
+import { apiLogger } from '@/lib/logger';
+import { withRequestLogging } from '@/lib/logging';
 
 // Opt out of caching for this route
 export const dynamic = 'force-dynamic';
@@ -12,6 +27,23 @@ export const dynamic = 'force-dynamic';
  * Helper function to convert ApiError instances to NextResponse objects
  */
 function errorToResponse(error: ApiError): NextResponse {
+  if (error instanceof RequestRejectedError) {
+    return NextResponse.json(
+      {
+        error: {
+          message: error.message,
+          code: error.code,
+          reason: error.reason,
+          retryAfter: error.retryAfter,
+        },
+      },
+      {
+        status: error.statusCode,
+        headers: error.retryAfter !== undefined ? { 'Retry-After': String(error.retryAfter) } : undefined,
+      }
+    );
+  }
+
   return NextResponse.json(
     {
       error: {
@@ -23,98 +55,71 @@ function errorToResponse(error: ApiError): NextResponse {
   );
 }
 
-export async function POST(request: NextRequest) {
+async function handlePost(request: NextRequest) {
+  const listener = getListenerIdentity(request);
+
   try {
-    const body = await request.json();
-    const { request_url } = body;
+    const station = resolveStation(request.nextUrl.searchParams.get('station'));
+    const { request_url } = await readJsonObject(request);
 
     if (!request_url) {
       return errorToResponse(
         new ApiError('Missing request_url parameter', 400, 'MISSING_PARAMETER')
       );
     }
+    if (typeof request_url !== 'string') {
+      throw new ValidationError('request_url must be a string');
+    }
 
-    // Build the full URL if it's a relative path
-    const fullUrl = request_url.startsWith('http')
-      ? request_url
-      : `${AZURACAST_BASE_URL}${request_url}`;
-
-    // Validate that the request_url is from the correct AzuraCast instance
-    if (!fullUrl.startsWith(AZURACAST_BASE_URL)) {
+    const song = await findRequestableSong(station, request_url);
+    if (!song) {
       return errorToResponse(
-        new ApiError('Invalid request URL', 400, 'INVALID_REQUEST_URL')
+        new ApiError('Song not found or no longer available for request.', 404, 'SONG_NOT_FOUND')
       );
     }
 
-    // Submit the request to AzuraCast
-    const response = await fetch(fullUrl, {
-      method: 'POST',
-      headers: {
-        'Accept': 'application/json',
-        'Content-Type': 'application/json',
-      },
-    });
+    const ledger = getRequestLedger();
+    const ledgerRequest = await ledger.reserve(station, listener, song);
 
-    if (!response.ok) {
-      let errorData;
-      try {
-        errorData = await response.json();
-      } catch {
-        errorData = { message: await response.text() };
-      }
-      
-      console.error(
-        `Failed to submit request: ${response.status} ${response.statusText}`,
-        errorData
+    // Moderators forward held requests from /api/admin/requests
+    if (ledgerRequest.status === 'held') {
+      return withListenerCookie(
+        NextResponse.json({
+          success: true,
+          message: 'Your request is waiting for a moderator to approve it.',
+          request: ledgerRequest,
+        }),
+        listener
       );
-      
-      // Handle specific AzuraCast error responses
-      if (response.status === 429) {
-        return errorToResponse(
-          new ApiError('Too many requests. Please wait before requesting another song.', 429, 'RATE_LIMITED')
-        );
-      } else if (response.status === 404) {
-        return errorToResponse(
-          new ApiError('Song not found or no longer available for request.', 404, 'SONG_NOT_FOUND')
-        );
-      } else if (response.status === 500 && errorData.message) {
-        // Handle AzuraCast's specific error messages (like cooldown periods)
-        return errorToResponse(
-          new ApiError(errorData.message, 400, 'AZURACAST_RESTRICTION')
-        );
-      } else {
-        return errorToResponse(
-          new ApiError(
-            errorData.message || `Failed to submit song request: ${response.status}`,
-            response.status,
-            'EXTERNAL_API_ERROR'
-          )
-        );
-      }
     }
 
-    // Try to parse the response, but handle cases where it might not be JSON
-    let responseData;
+    let responseData: unknown;
     try {
-      responseData = await response.json();
-    } catch {
-      // If response is not JSON, treat as success
-      responseData = { success: true };
+      responseData = await getRadioProvider().submitRequest(station, song.request_url);
+    } catch (error) {
+      await ledger.cancel(ledgerRequest.id);
+      throw error;
     }
 
-    return NextResponse.json({
-      success: true,
-      message: 'Song request submitted successfully!',
-      data: responseData,
-    });
+    return withListenerCookie(
+      NextResponse.json({
+        success: true,
+        message: 'Song request submitted successfully!',
+        request: ledgerRequest,
+        data: responseData,
+      }),
+      listener
+    );
 
   } catch (error) {
-    console.error('Error submitting song request:', error);
+    apiLogger.error('Error submitting song request', error);
 
     if (error instanceof ApiError) {
-      return errorToResponse(error);
+      return withListenerCookie(errorToResponse(error), listener);
     }
 
-    return errorToResponse(new ApiError('Failed to submit song request'));
+    return withListenerCookie(errorToResponse(new ApiError('Failed to submit song request')), listener);
   }
-}
\ No newline at end of file
+}
+
+export const POST = withRequestLogging(withRequestMetrics('/api/requests/submit', withRateLimit(handlePost)));
@@ -0,0 +1,79 @@
+/**
+ * API endpoint serving the station schedule as an iCalendar feed
+ *
+ * Calendar apps subscribe to this URL and poll it. It covers shows from now
+ * until the end of the longest range `/api/schedule` allows. Repeat `show`
+ * (playlist name or displayed title) to subscribe to specific shows only.
+ */
+import { NextRequest, NextResponse } from 'next/server';
+import { getRadioProvider } from '@/lib/providers';
+import { getStation, resolveStation } from '@/lib/stations';
+import { ApiError } from '@/lib/errors/api-errors';
+import { MAX_SCHEDULE_RANGE_SECONDS } from '@/lib/schedule';
+import { buildCalendar, filterEntriesByShow, ICS_CONTENT_TYPE } from '@/lib/ical';
+import { withRateLimit } from '@/lib/rate-limit/middleware';
+import { withRequestMetrics } from '@/lib/metrics';
+import { apiLogger } from '@/lib/logger';
+import { withRequestLogging } from '@/lib/logging';
+
+// Opt out of caching for this route
+export const dynamic = 'force-dynamic';
+
+/**
+ * Helper function to convert ApiError instances to NextResponse objects
+ */
+function errorToResponse(error: ApiError): NextResponse {
+  return NextResponse.json(
+    {
+      error: {
+        message: error.message,
+        code: error.code,
+      },
+    },
+    { status: error.statusCode }
+  );
+}
+
+async function handleGet(request: NextRequest) {
+  try {
+    const { searchParams } = request.nextUrl;
+    const station = resolveStation(searchParams.get('station'));
+    const shows = searchParams.getAll('show');
+
+    const now = Math.floor(Date.now() / 1000);
+    const to = now + MAX_SCHEDULE_RANGE_SECONDS;
+
+    const scheduleEntries = await getRadioProvider().getSchedule(station, now);
+    const entries = filterEntriesByShow(
+      scheduleEntries
+        .filter((entry) => entry.end_timestamp > now && entry.start_timestamp < to)
+        .sort((a, b) => a.start_timestamp - b.start_timestamp),
+      shows
+    );
+
+    const stationName = getStation(station)?.name ?? station;
+    const calendar = buildCalendar(entries, {
+      station,
+      name: `OADRO Radio – ${stationName}`,
+      now,
+    });
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': ICS_CONTENT_TYPE,
+        'Content-Disposition': `inline; filename="oadro-${station}-schedule.ics"`,
+        'Cache-Control': 'public, max-age=900', // Cache for 15 minutes
+      },
+    });
+  } catch (error) {
+    apiLogger.error('Error building schedule calendar', error);
+
+    if (error instanceof ApiError) {
+      return errorToResponse(error);
+    }
+
+    return errorToResponse(new ApiError('Failed to build schedule calendar'));
+  }
+}
+
+export const GET = withRequestLogging(withRequestMetrics('/api/schedule.ics', withRateLimit(handleGet)));
@@ -1,10 +1,26 @@
 /**
- * API endpoint for fetching AzuraCast schedule data
+ * API endpoint for fetching the station schedule from the radio provider
+ *
+ * Query parameters: `from` and `to` (unix seconds or ISO 8601; default now
+ * to a week ahead) and `tz` (IANA timezone, default UTC). Entries come back
+ * with durations, "starts in" values and local dates and times in `tz`,
+ * grouped by local day and marked when they recur weekly.
  */
-import { NextResponse } from 'next/server';
-import { AZURACAST_BASE_URL, AZURACAST_STATION_NAME } from '@/lib/config';
-import { ApiError } from '@/lib/errors/api-errors';
-import type { ScheduleEntry } from '@/lib/schedule-types';
+import { NextRequest, NextResponse } from 'next/server';
+import { getRadioProvider } from '@/lib/providers';
+import { resolveStation } from '@/lib/stations';
+import { ApiError, ValidationError } from '@/lib/errors/api-errors';
+import { parseTimestamp } from '@/lib/api-params';
+import {
+  buildSchedule,
+  DEFAULT_SCHEDULE_RANGE_SECONDS,
+  MAX_SCHEDULE_RANGE_SECONDS,
+  validateTimezone,
+} from '@/lib/schedule';
+import { withRateLimit } from '@/lib/rate-limit/middleware';
+import { withRequestMetrics } from '@/lib/metrics';
+import { apiLogger } from '@/lib/logger';
+import { withRequestLogging } from '@/lib/logging';
 
 // Opt out of caching for this route
 export const dynamic = 'force-dynamic';
@@ -24,46 +40,24 @@ function errorToResponse(error: ApiError): NextResponse {
   );
 }
 
-export async function GET() {
+async function handleGet(request: NextRequest) {
   try {
-    const scheduleUrl = `${AZURACAST_BASE_URL}/api/station/${AZURACAST_STATION_NAME}/schedule`;
-    
-    // Fetch schedule data from AzuraCast
-    const response = await fetch(scheduleUrl, {
-      headers: {
-        'Accept': 'application/json',
-        'Cache-Control': 'no-cache',
-      },
-    });
+    const { searchParams } = request.nextUrl;
+    const station = resolveStation(searchParams.get('station'));
+    const timezone = validateTimezone(searchParams.get('tz') || 'UTC');
 
-    if (!response.ok) {
-      console.error(
-        `Failed to fetch schedule: ${response.status} ${response.statusText}`
-      );
-      return errorToResponse(
-        new ApiError(
-          `Failed to fetch schedule data: ${response.status}`,
-          response.status,
-          'EXTERNAL_API_ERROR'
-        )
-      );
+    const now = Math.floor(Date.now() / 1000);
+    const from = parseTimestamp(searchParams.get('from'), 'from') ?? now;
+    const to = parseTimestamp(searchParams.get('to'), 'to') ?? from + DEFAULT_SCHEDULE_RANGE_SECONDS;
+    if (to <= from) {
+      throw new ValidationError('to must be after from');
+    }
+    if (to - from > MAX_SCHEDULE_RANGE_SECONDS) {
+      throw new ValidationError(`The range can span at most ${MAX_SCHEDULE_RANGE_SECONDS / 86400} days`);
     }
 
-    const scheduleEntries: ScheduleEntry[] = await response.json();
-    
-    // Process the schedule data
-    const currentEntry = scheduleEntries.find(entry => entry.is_now);
-    const now = Date.now() / 1000;
-    const nextEntry = scheduleEntries
-      .filter(entry => entry.start_timestamp > now)
-      .sort((a, b) => a.start_timestamp - b.start_timestamp)[0];
-
-    const processedData = {
-      entries: scheduleEntries,
-      currentEntry,
-      nextEntry,
-      lastUpdated: Date.now(),
-    };
+    const scheduleEntries = await getRadioProvider().getSchedule(station, from);
+    const processedData = buildSchedule(scheduleEntries, { from, to, timezone, now });
 
     return NextResponse.json(processedData, {
       headers: {
@@ -71,7 +65,7 @@ export async function GET() {
       },
     });
   } catch (error) {
-    console.error('Error fetching schedule data:', error);
+    apiLogger.error('Error fetching schedule data', error);
 
     if (error instanceof ApiError) {
       return errorToResponse(error);
@@ -79,4 +73,6 @@ export async function GET() {
 
     return errorToResponse(new ApiError('Failed to fetch schedule data'));
   }
-}
\ No newline at end of file
+}
+
+export const GET = withRequestLogging(withRequestMetrics('/api/schedule', withRateLimit(handleGet)));
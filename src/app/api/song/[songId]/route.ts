@@ -1,23 +1,65 @@
 /**
- * Song API endpoint - Database unavailable
- * This endpoint is no longer functional as the database has been removed from the application.
+ * API endpoint for per-song play statistics
+ *
+ * Stats are served from the local play-history store that the radio worker
+ * writes on every now_playing transition.
  */
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { getPlayHistoryStore } from '@/lib/play-history';
+import { resolveStation } from '@/lib/stations';
+import { ApiError, NotFoundError, ValidationError } from '@/lib/errors/api-errors';
+import { withRateLimit } from '@/lib/rate-limit/middleware';
+import { withRequestMetrics } from '@/lib/metrics';
+import { apiLogger } from '@/lib/logger';
+import { withRequestLogging } from '@/lib/logging';
 
+// Opt out of caching for this route
 export const dynamic = 'force-dynamic';
 
-export async function GET(
-  request: Request,
+/**
+ * Helper function to convert ApiError instances to NextResponse objects
+ */
+function errorToResponse(error: ApiError): NextResponse {
+  return NextResponse.json(
+    {
+      error: {
+        message: error.message,
+        code: error.code,
+      },
+    },
+    { status: error.statusCode }
+  );
+}
+
+async function handleGet(
+  request: NextRequest,
   { params }: { params: Promise<{ songId: string }> }
 ) {
-  const { songId } = await params;
-  if (!songId) {
-    return NextResponse.json({ error: 'songId is required' }, { status: 400 });
-  }
+  try {
+    const { songId } = await params;
+    if (!songId) {
+      throw new ValidationError('songId is required');
+    }
 
-  // Database has been removed - this endpoint is no longer functional
-  return Response.json(
-    { error: 'Song database is not available. The database has been removed from this application.' },
-    { status: 503 }
-  );
+    const station = resolveStation(request.nextUrl.searchParams.get('station'));
+    const stats = getPlayHistoryStore(station).getSongStats(songId);
+    if (!stats) {
+      throw new NotFoundError('No plays have been recorded for this song.');
+    }
+
+    return NextResponse.json(stats, {
+      headers: {
+        'Cache-Control': 'public, max-age=30',
+      },
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return errorToResponse(error);
+    }
+
+    apiLogger.error('Error fetching song stats', error);
+    return errorToResponse(new ApiError('Failed to fetch song stats'));
+  }
 }
+
+export const GET = withRequestLogging(withRequestMetrics('/api/song/[songId]', withRateLimit(handleGet)));
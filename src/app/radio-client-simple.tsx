@@ -19,6 +19,8 @@ import { AudioProvider } from '@/contexts/audio-context';
 import { MetadataProvider } from '@/contexts/metadata-context';
 import { useToast } from '@/hooks/use-toast';
 import { TIME } from '@/lib/constants';
+import { getStreamFormat, getStreamUrl } from '@/lib/config';
+import { useStationSelection } from '@/hooks/use-station';
 // Development banner removed
 import { useIsMobile } from '@/hooks/use-mobile';
 
@@ -37,12 +39,13 @@ export default function RadioClient({ children }: RadioClientProps) {
   const [isOnlineState, setIsOnlineState] = useState(true);
 
   // Custom Hooks for Core Logic (no auth needed)
-  const radio = useRadioMetadata(null, true); // No user, always initialized
+  const { station, stations, setStation } = useStationSelection();
+  const radio = useRadioMetadata(null, true, station); // No user, always initialized
   const audioPlayer = useAudioPlayer(radio.forceSseReconnect);
   
   // SWR hooks for instant API caching
-  const { data: stationInfo, error: stationError } = useStationInfo();
-  const { data: nowPlayingData, error: nowPlayingError } = useNowPlaying();
+  const { data: stationInfo, error: stationError } = useStationInfo(station);
+  const { data: nowPlayingData, error: nowPlayingError } = useNowPlaying(station);
 
   useMediaSession(
     radio.liveSong,
@@ -104,6 +107,15 @@ export default function RadioClient({ children }: RadioClientProps) {
     };
   }, []);
 
+  // Keep the stream on the selected station, preserving the chosen format
+  const { streamUrl, setStreamUrl } = audioPlayer;
+  useEffect(() => {
+    const stationStreamUrl = getStreamUrl(station, getStreamFormat(streamUrl));
+    if (streamUrl !== stationStreamUrl) {
+      setStreamUrl(stationStreamUrl);
+    }
+  }, [station, streamUrl, setStreamUrl]);
+
   // Keyboard navigation support
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -283,6 +295,10 @@ export default function RadioClient({ children }: RadioClientProps) {
       recentlyPlayed: radio.recentlyPlayed,
       upNext: radio.upNext,
       listenerCount: radio.listenerCount,
+      // Station selection
+      station,
+      stations,
+      setStation,
       // Audio controls
       isPlaying: audioPlayer.isPlaying,
       volume: audioPlayer.volume,
@@ -311,6 +327,9 @@ export default function RadioClient({ children }: RadioClientProps) {
       radio.recentlyPlayed,
       radio.upNext,
       radio.listenerCount,
+      station,
+      stations,
+      setStation,
       audioPlayer.isPlaying,
       audioPlayer.volume,
       audioPlayer.isMuted,
@@ -0,0 +1,245 @@
+'use client';
+
+import { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { Check, KeyRound, LogOut, RefreshCw, ShieldCheck, X } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useAdminToken, useModerationQueue } from '@/hooks/use-admin-requests';
+import { useRadio } from '@/contexts/radio-context-simple';
+import { useToast } from '@/hooks/use-toast';
+import type { ModeratedRequest } from '@/lib/request-types';
+
+function TokenForm({ onSubmit }: { onSubmit: (token: string) => void }) {
+  const [value, setValue] = useState('');
+
+  return (
+    <Card className="max-w-md mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="w-5 h-5" />
+          Moderator Sign In
+        </CardTitle>
+        <CardDescription>Enter the admin token to manage song requests.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (value.trim()) onSubmit(value.trim());
+          }}
+        >
+          <Label htmlFor="admin-token">Admin token</Label>
+          <Input
+            id="admin-token"
+            type="password"
+            autoComplete="off"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+          />
+          <Button type="submit" className="w-full" disabled={!value.trim()}>
+            Continue
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+function RejectButton({ request, disabled, onReject }: {
+  request: ModeratedRequest;
+  disabled: boolean;
+  onReject: (reason: string) => void;
+}) {
+  const [reason, setReason] = useState('');
+
+  return (
+    <AlertDialog onOpenChange={(open: boolean) => !open && setReason('')}>
+      <AlertDialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled}>
+          <X className="w-4 h-4 mr-1" />
+          Reject
+        </Button>
+      </AlertDialogTrigger>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Reject this request?</AlertDialogTitle>
+          <AlertDialogDescription>
+            &quot;{request.title}&quot; by {request.artist} won&apos;t be sent to the station. The listener
+            will see it as declined, with your note if you add one.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor={`reject-reason-${request.id}`}>Note for the listener (optional)</Label>
+          <Input
+            id={`reject-reason-${request.id}`}
+            value={reason}
+            maxLength={200}
+            onChange={(e) => setReason(e.target.value)}
+          />
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={() => onReject(reason)}>Reject request</AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+export default function AdminRequestsView() {
+  const { station } = useRadio();
+  const { token, setToken } = useAdminToken();
+  const { toast } = useToast();
+  const {
+    requests,
+    moderated,
+    isLoading,
+    error,
+    isUnauthorized,
+    pendingAction,
+    approve,
+    reject,
+    setModerated,
+    refresh,
+  } = useModerationQueue(station, token);
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    try {
+      await action();
+      toast({ title: success });
+    } catch (err) {
+      toast({
+        title: 'Action failed',
+        description: err instanceof Error ? err.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  if (!token) {
+    return (
+      <div className="w-full max-w-5xl mx-auto p-4">
+        <TokenForm onSubmit={setToken} />
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-5xl mx-auto space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Request Moderation</h1>
+          <p className="text-muted-foreground">Approve or reject song requests before they reach the station.</p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setToken(null)}>
+          <LogOut className="w-4 h-4 mr-2" />
+          Sign out
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertTitle>{isUnauthorized ? 'Access denied' : 'Could not load requests'}</AlertTitle>
+          <AlertDescription>{error.message}</AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardContent className="flex items-center justify-between gap-4 p-4">
+          <div className="flex items-center gap-3">
+            <ShieldCheck className="w-5 h-5 text-muted-foreground" />
+            <div>
+              <Label htmlFor="moderation-toggle" className="text-base">Hold new requests for approval</Label>
+              <p className="text-sm text-muted-foreground">
+                Turn this on during live shows. Requests already waiting stay in the queue when it&apos;s turned off.
+              </p>
+            </div>
+          </div>
+          <Switch
+            id="moderation-toggle"
+            checked={moderated}
+            disabled={isLoading || !!error || pendingAction === 'moderation'}
+            onCheckedChange={(enabled: boolean) =>
+              run(() => setModerated(enabled), enabled ? 'Moderation turned on' : 'Moderation turned off')
+            }
+          />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Held Requests ({requests.length})</CardTitle>
+          <Button variant="outline" size="sm" onClick={() => refresh()} disabled={isLoading}>
+            <RefreshCw className={`w-4 h-4 mr-2 ${isLoading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {requests.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">
+              {isLoading ? 'Loading requests...' : 'No requests are waiting for approval.'}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Song</TableHead>
+                  <TableHead>Requested</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {requests.map((request) => (
+                  <TableRow key={request.id}>
+                    <TableCell>
+                      <div className="font-medium">{request.title}</div>
+                      <div className="text-sm text-muted-foreground">{request.artist}</div>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {formatDistanceToNow(new Date(request.requestedAt * 1000), { addSuffix: true })}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          disabled={pendingAction !== null}
+                          onClick={() => run(() => approve(request.id), `Sent "${request.title}" to the station`)}
+                        >
+                          <Check className="w-4 h-4 mr-1" />
+                          Approve
+                        </Button>
+                        <RejectButton
+                          request={request}
+                          disabled={pendingAction !== null}
+                          onReject={(reason) => run(() => reject(request.id, reason), `Rejected "${request.title}"`)}
+                        />
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { Slider } from '@/components/ui/slider';
 import { useRadio } from '@/contexts/radio-context-simple';
 import PlayerTimeline from './player-timeline-simple';
+import StationSwitcher from './station-switcher';
 
 export default function AudioPlayer() {
   const {
@@ -39,6 +40,11 @@ export default function AudioPlayer() {
   return (
     <Card className="w-full max-w-md mx-auto bg-card/95 backdrop-blur-sm border-border/50 shadow-2xl">
       <CardContent className="p-6">
+        {/* Station Switcher - only shown when several stations are configured */}
+        <div className="mb-4 empty:hidden">
+          <StationSwitcher />
+        </div>
+
         {/* Album Art */}
         <div className="relative mb-4 group mx-auto w-48">
           <div className="aspect-square rounded-lg overflow-hidden bg-muted/50 border border-border/30">
@@ -0,0 +1,36 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { WifiOff } from 'lucide-react';
+import { useOfflineStatus } from '@/hooks/use-offline-status';
+
+const AGE_REFRESH_INTERVAL = 30000; // 30 seconds
+
+export default function OfflineBanner() {
+  const { isOffline, dataAsOf } = useOfflineStatus();
+  const [, setTick] = useState(0);
+
+  // Keep "X minutes ago" current while the banner is up
+  useEffect(() => {
+    if (!isOffline) return;
+    const intervalId = setInterval(() => setTick((tick) => tick + 1), AGE_REFRESH_INTERVAL);
+    return () => clearInterval(intervalId);
+  }, [isOffline]);
+
+  if (!isOffline) return null;
+
+  return (
+    <div
+      role="status"
+      className="flex items-center justify-center gap-2 border-b border-border/20 bg-muted/60 px-4 py-2 text-sm text-muted-foreground"
+    >
+      <WifiOff className="w-4 h-4 shrink-0" />
+      <span>
+        You&apos;re offline
+        {dataAsOf !== null && <>, showing data from {formatDistanceToNow(dataAsOf, { addSuffix: true })}</>}
+        .
+      </span>
+    </div>
+  );
+}
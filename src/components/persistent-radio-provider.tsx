@@ -9,6 +9,7 @@ import { SWRConfig } from 'swr';
 import ErrorBoundary from '@/components/error-boundary';
 import AsyncBoundary from '@/components/async-boundary';
 import PlayerErrorBoundary from '@/components/player-error-boundary';
+import OfflineBanner from '@/components/offline-banner';
 
 import { useRadioMetadata } from '@/hooks/use-radio-metadata-simple';
 import { useAudioPlayer } from '@/hooks/use-audio-player';
@@ -17,11 +18,14 @@ import { RadioProvider } from '@/contexts/radio-context-simple';
 import { AudioProvider } from '@/contexts/audio-context';
 import { MetadataProvider } from '@/contexts/metadata-context';
 import { useToast } from '@/hooks/use-toast';
+import { useRequestNotifications } from '@/hooks/use-requests';
 import { TIME } from '@/lib/constants';
+import { getStreamFormat, getStreamUrl } from '@/lib/config';
+import { useStationSelection } from '@/hooks/use-station';
 import { useIsMobile } from '@/hooks/use-mobile';
 
 // Performance optimizations
-import { registerServiceWorker, setupNetworkListeners, isOnline } from '@/lib/service-worker';
+import { registerServiceWorker } from '@/lib/service-worker';
 import { warmCache, useStationInfo, useNowPlaying } from '@/lib/api-cache';
 
 interface PersistentRadioProviderProps {
@@ -33,15 +37,16 @@ export default function PersistentRadioProvider({ children }: PersistentRadioPro
   const isMobile = useIsMobile();
   const pathname = usePathname();
   const [isAppInitialized, setIsAppInitialized] = useState(false);
-  const [isOnlineState, setIsOnlineState] = useState(true);
 
   // Custom Hooks for Core Logic (no auth needed)
-  const radio = useRadioMetadata(null, true); // No user, always initialized
+  const { station, stations, setStation } = useStationSelection();
+  const radio = useRadioMetadata(null, true, station); // No user, always initialized
   const audioPlayer = useAudioPlayer(radio.forceSseReconnect);
+  useRequestNotifications(station, radio.requestUpdate);
   
   // SWR hooks for instant API caching
-  const { data: stationInfo, error: stationError } = useStationInfo();
-  const { data: nowPlayingData, error: nowPlayingError } = useNowPlaying();
+  const { data: stationInfo, error: stationError } = useStationInfo(station);
+  const { data: nowPlayingData, error: nowPlayingError } = useNowPlaying(station);
 
   useMediaSession(
     radio.liveSong,
@@ -70,21 +75,10 @@ export default function PersistentRadioProvider({ children }: PersistentRadioPro
         // Warm up cache for instant loading
         await warmCache();
         
-        // Set up network listeners
-        const cleanupNetwork = setupNetworkListeners(
-          () => setIsOnlineState(true),
-          () => setIsOnlineState(false)
-        );
-
-        // Initialize online state
-        setIsOnlineState(isOnline());
-
         if (mounted) {
           setIsAppInitialized(true);
           console.log('[Performance] App performance optimizations initialized');
         }
-
-        return cleanupNetwork;
       } catch (error) {
         console.error('[Performance] Failed to initialize performance optimizations:', error);
         if (mounted) {
@@ -93,14 +87,22 @@ export default function PersistentRadioProvider({ children }: PersistentRadioPro
       }
     };
 
-    const cleanup = initializePerformance();
+    initializePerformance();
     
     return () => {
       mounted = false;
-      cleanup?.then(fn => fn?.());
     };
   }, []);
 
+  // Keep the stream on the selected station, preserving the chosen format
+  const { streamUrl, setStreamUrl } = audioPlayer;
+  useEffect(() => {
+    const stationStreamUrl = getStreamUrl(station, getStreamFormat(streamUrl));
+    if (streamUrl !== stationStreamUrl) {
+      setStreamUrl(stationStreamUrl);
+    }
+  }, [station, streamUrl, setStreamUrl]);
+
   // Keyboard navigation support
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
@@ -278,6 +280,10 @@ export default function PersistentRadioProvider({ children }: PersistentRadioPro
       recentlyPlayed: radio.recentlyPlayed,
       upNext: radio.upNext,
       listenerCount: radio.listenerCount,
+      // Station selection
+      station,
+      stations,
+      setStation,
       // Audio controls
       isPlaying: audioPlayer.isPlaying,
       volume: audioPlayer.volume,
@@ -306,6 +312,9 @@ export default function PersistentRadioProvider({ children }: PersistentRadioPro
       radio.recentlyPlayed,
       radio.upNext,
       radio.listenerCount,
+      station,
+      stations,
+      setStation,
       audioPlayer.isPlaying,
       audioPlayer.volume,
       audioPlayer.isMuted,
@@ -440,6 +449,9 @@ export default function PersistentRadioProvider({ children }: PersistentRadioPro
                 </nav>
               </div>
 
+              {/* Connectivity notice, shown while offline */}
+              <OfflineBanner />
+
               {/* Main content area */}
               <div className="flex-1 min-h-0 overflow-y-auto p-2 sm:p-4">
                 <ErrorBoundary isolate={true}>
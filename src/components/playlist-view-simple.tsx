@@ -2,10 +2,12 @@
 
 import { useMemo, memo, useCallback } from 'react';
 import Image from 'next/image';
-import { Music2, Clock, AlertCircle } from 'lucide-react';
+import { Music2, Clock, AlertCircle, Loader2, X } from 'lucide-react';
 
 import type { Song } from '@/lib/types';
 import { Card, CardHeader, CardTitle, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { DatePicker } from '@/components/ui/date-picker';
 import { formatDuration, cn } from '@/lib/utils';
 import HelpTooltip from './help-tooltip';
 import SongItemContent from './song-item-content-simple';
@@ -18,6 +20,13 @@ interface PlaylistViewProps {
   showDuration?: boolean;
   isLoading?: boolean;
   error?: string | null;
+  /** Shows a "Load more" button when provided and `hasMore` is true. */
+  onLoadMore?: () => void;
+  hasMore?: boolean;
+  isLoadingMore?: boolean;
+  /** Shows a calendar picker for browsing a specific day when provided. */
+  date?: Date;
+  onDateChange?: (date: Date | undefined) => void;
 }
 
 // Enhanced UpNext song item with better error handling and performance
@@ -135,6 +144,11 @@ export default function PlaylistView({
   showDuration = true,
   isLoading = false,
   error = null,
+  onLoadMore,
+  hasMore = false,
+  isLoadingMore = false,
+  date,
+  onDateChange,
 }: PlaylistViewProps) {
   // Memoize processed songs to avoid unnecessary re-renders
   const processedSongs = useMemo(() => {
@@ -199,7 +213,42 @@ export default function PlaylistView({
         {helpContent && <HelpTooltip title={title}>{helpContent}</HelpTooltip>}
       </CardHeader>
       <CardContent className="p-2">
+        {onDateChange && (
+          <div className="flex items-center gap-1 px-2 pb-2">
+            <DatePicker
+              date={date}
+              setDate={onDateChange}
+              placeholder="Browse by date"
+              className="h-8 text-xs"
+            />
+            {date && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 flex-shrink-0"
+                onClick={() => onDateChange(undefined)}
+                aria-label="Clear date"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        )}
         {renderContent()}
+        {onLoadMore && hasMore && !isLoading && !error && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full mt-1 text-xs text-muted-foreground"
+            onClick={onLoadMore}
+            disabled={isLoadingMore}
+          >
+            {isLoadingMore ? (
+              <Loader2 className="h-3 w-3 mr-2 animate-spin" />
+            ) : null}
+            Load more
+          </Button>
+        )}
       </CardContent>
     </Card>
   );
@@ -1,24 +1,28 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Search, Music, ChevronLeft, ChevronRight, ExternalLink, User, RefreshCw, Send, CheckCircle, XCircle } from 'lucide-react';
+import { Search, Music, ChevronLeft, ChevronRight, ExternalLink, User, RefreshCw, Send, CheckCircle, XCircle, Clock, ListMusic, X } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { formatDistanceToNow } from 'date-fns';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
-import { useFilteredRequests, useRequestSubmission, useRequestSearch } from '@/hooks/use-requests';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useFilteredRequests, usePendingRequests, useRequestOutbox, useRequestSubmission, useRequestSearch } from '@/hooks/use-requests';
+import { useRadio } from '@/contexts/radio-context-simple';
 import { cleanGenreString, extractPlatformLinks, getCreatorInfo, getSongDisplayText } from '@/lib/request-types';
-import type { RequestableSong } from '@/lib/request-types';
+import type { GenreFacet, ListenerRequest, ListenerRequestStatus, RequestableSong, RequestFilters, RequestSort, RequestSubmission } from '@/lib/request-types';
 
 interface SongCardProps {
   song: RequestableSong;
   onRequest: (requestUrl: string) => void;
+  onArtistSelect: (artist: string) => void;
   isRequesting: boolean;
 }
 
-function SongCard({ song, onRequest, isRequesting }: SongCardProps) {
+function SongCard({ song, onRequest, onArtistSelect, isRequesting }: SongCardProps) {
   return (
     <motion.div
       layout
@@ -56,7 +60,15 @@ function SongCard({ song, onRequest, isRequesting }: SongCardProps) {
               {song.song.title}
             </h3>
             <p className="text-sm text-muted-foreground line-clamp-1">
-              by {song.song.artist}
+              by{' '}
+              <button
+                type="button"
+                onClick={() => onArtistSelect(song.song.artist)}
+                className="hover:text-foreground hover:underline"
+                title={`Show all songs by ${song.song.artist}`}
+              >
+                {song.song.artist}
+              </button>
             </p>
           </div>
 
@@ -84,16 +96,29 @@ function SongCard({ song, onRequest, isRequesting }: SongCardProps) {
   );
 }
 
-function RequestSearch({ onSearchChange, isLoading }: {
-  onSearchChange: (search: string) => void;
+const SORT_LABELS: Record<RequestSort, string> = {
+  relevance: 'Best match',
+  title: 'Title',
+  artist: 'Artist',
+  'recently-played': 'Recently played',
+  popularity: 'Most played',
+};
+
+// Radix Select items can't have an empty value
+const ALL_GENRES = '__all__';
+
+function RequestSearch({ filters, genres, onFiltersChange, isLoading }: {
+  filters: RequestFilters;
+  genres: GenreFacet[];
+  onFiltersChange: (filters: Partial<RequestFilters>) => void;
   isLoading: boolean;
 }) {
   const { searchTerm, setSearchTerm, debouncedSearchTerm } = useRequestSearch();
 
   // Update parent component when debounced search term changes
   useEffect(() => {
-    onSearchChange(debouncedSearchTerm);
-  }, [debouncedSearchTerm]); // Remove onSearchChange from dependencies to prevent infinite loop
+    onFiltersChange({ search: debouncedSearchTerm });
+  }, [debouncedSearchTerm]); // Remove onFiltersChange from dependencies to prevent infinite loop
 
   return (
     <Card>
@@ -103,31 +128,108 @@ function RequestSearch({ onSearchChange, isLoading }: {
           Search Songs
         </CardTitle>
       </CardHeader>
-      <CardContent>
+      <CardContent className="space-y-3">
         <div className="relative">
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
           <Input
-            placeholder="Search by song title, artist name, or both..."
+            placeholder="Search by title, artist, album or lyrics..."
             value={searchTerm}
             onChange={(e) => setSearchTerm(e.target.value)}
             className="pl-10 text-base"
-            disabled={isLoading}
           />
         </div>
-        <p className="text-sm text-muted-foreground mt-2">
-          Type any part of the song title or artist name to find what you're looking for
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={filters.genre || ALL_GENRES}
+            onValueChange={(genre) => onFiltersChange({ genre: genre === ALL_GENRES ? '' : genre })}
+            disabled={isLoading}
+          >
+            <SelectTrigger className="w-48" aria-label="Filter by genre">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_GENRES}>All genres</SelectItem>
+              {genres.map(({ genre, count }) => (
+                <SelectItem key={genre} value={genre}>
+                  {genre} ({count})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select
+            value={filters.sort}
+            onValueChange={(sort) => onFiltersChange({ sort: sort as RequestSort })}
+            disabled={isLoading}
+          >
+            <SelectTrigger className="w-44" aria-label="Sort songs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SORT_LABELS) as RequestSort[]).map((sort) => (
+                <SelectItem key={sort} value={sort}>
+                  {SORT_LABELS[sort]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {filters.artist && (
+            <Badge variant="secondary" className="gap-1">
+              <User className="w-3 h-3" />
+              {filters.artist}
+              <button
+                type="button"
+                onClick={() => onFiltersChange({ artist: '' })}
+                aria-label={`Stop filtering by ${filters.artist}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Search is forgiving about accents and small typos
         </p>
       </CardContent>
     </Card>
   );
 }
 
+const SUBMISSION_STYLES = {
+  success: {
+    card: 'border-green-200 bg-green-50 dark:border-green-800 dark:bg-green-950/20',
+    icon: CheckCircle,
+    iconClass: 'text-green-600 dark:text-green-400',
+    title: 'Request Submitted!',
+    titleClass: 'text-green-800 dark:text-green-200',
+    messageClass: 'text-green-600 dark:text-green-400',
+  },
+  queued: {
+    card: 'border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/20',
+    icon: Clock,
+    iconClass: 'text-amber-600 dark:text-amber-400',
+    title: 'Request Saved',
+    titleClass: 'text-amber-800 dark:text-amber-200',
+    messageClass: 'text-amber-600 dark:text-amber-400',
+  },
+  failed: {
+    card: 'border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-950/20',
+    icon: XCircle,
+    iconClass: 'text-red-600 dark:text-red-400',
+    title: 'Request Failed',
+    titleClass: 'text-red-800 dark:text-red-200',
+    messageClass: 'text-red-600 dark:text-red-400',
+  },
+};
+
 function RequestStatus({ submission, onClear }: {
-  submission: any;
+  submission: RequestSubmission | null;
   onClear: () => void;
 }) {
   if (!submission) return null;
 
+  const style = SUBMISSION_STYLES[submission.success ? 'success' : submission.queued ? 'queued' : 'failed'];
+  const Icon = style.icon;
+
   return (
     <motion.div
       initial={{ opacity: 0, y: -20 }}
@@ -135,19 +237,15 @@ function RequestStatus({ submission, onClear }: {
       exit={{ opacity: 0, y: -20 }}
       className="mb-6"
     >
-      <Card className={submission.success ? 'border-green-200 bg-green-50 dark:border-green-800 dark:bg-green-950/20' : 'border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-950/20'}>
+      <Card className={style.card}>
         <CardContent className="p-4">
           <div className="flex items-center gap-3">
-            {submission.success ? (
-              <CheckCircle className="w-5 h-5 text-green-600 dark:text-green-400" />
-            ) : (
-              <XCircle className="w-5 h-5 text-red-600 dark:text-red-400" />
-            )}
+            <Icon className={`w-5 h-5 ${style.iconClass}`} />
             <div className="flex-1">
-              <p className={`font-medium ${submission.success ? 'text-green-800 dark:text-green-200' : 'text-red-800 dark:text-red-200'}`}>
-                {submission.success ? 'Request Submitted!' : 'Request Failed'}
+              <p className={`font-medium ${style.titleClass}`}>
+                {style.title}
               </p>
-              <p className={`text-sm ${submission.success ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+              <p className={`text-sm ${style.messageClass}`}>
                 {submission.message}
               </p>
             </div>
@@ -166,7 +264,64 @@ function RequestStatus({ submission, onClear }: {
   );
 }
 
+const REQUEST_STATUS_LABELS: Record<ListenerRequestStatus, { label: string; variant: 'default' | 'secondary' | 'outline' | 'destructive' }> = {
+  held: { label: 'Awaiting approval', variant: 'outline' },
+  pending: { label: 'Waiting', variant: 'outline' },
+  queued: { label: 'Up next', variant: 'default' },
+  playing: { label: 'On air now', variant: 'default' },
+  played: { label: 'Played', variant: 'secondary' },
+  expired: { label: 'Not played', variant: 'outline' },
+  rejected: { label: 'Declined', variant: 'destructive' },
+};
+
+function PendingRequests({ requests, cooldownEndsAt }: {
+  requests: ListenerRequest[];
+  cooldownEndsAt: number | null;
+}) {
+  if (requests.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListMusic className="w-5 h-5" />
+          Your Requests
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {requests.map((request) => {
+          const status = REQUEST_STATUS_LABELS[request.status];
+          return (
+            <div key={request.id} className="flex items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-foreground line-clamp-1">{request.title}</p>
+                <p className="text-sm text-muted-foreground line-clamp-1">
+                  by {request.artist} · requested {formatDistanceToNow(new Date(request.requestedAt * 1000), { addSuffix: true })}
+                </p>
+                {request.rejectionReason && (
+                  <p className="text-sm text-muted-foreground line-clamp-2">
+                    Moderator: {request.rejectionReason}
+                  </p>
+                )}
+              </div>
+              <Badge variant={status.variant} className="shrink-0">
+                {status.label}
+              </Badge>
+            </div>
+          );
+        })}
+        {cooldownEndsAt && (
+          <p className="text-sm text-muted-foreground pt-1">
+            You can request another song {formatDistanceToNow(new Date(cooldownEndsAt * 1000), { addSuffix: true })}.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function RequestsView() {
+  const { station } = useRadio();
   const {
     songs,
     totalPages,
@@ -175,6 +330,7 @@ export default function RequestsView() {
     hasPrev,
     totalFiltered,
     totalCount,
+    genres,
     filters,
     updateFilters,
     goToPage,
@@ -183,12 +339,16 @@ export default function RequestsView() {
     isLoading,
     error,
     refresh,
-  } = useFilteredRequests(9);
+  } = useFilteredRequests(9, station);
 
-  const { submitRequest, isSubmitting, lastSubmission, clearLastSubmission } = useRequestSubmission();
+  const { submitRequest, isSubmitting, lastSubmission, clearLastSubmission } = useRequestSubmission(station);
+  const { requests: pendingRequests, cooldownEndsAt, moderated } = usePendingRequests(station);
+  useRequestOutbox(station);
 
   const handleRequest = async (requestUrl: string) => {
-    await submitRequest(requestUrl);
+    // Kept with the request so a result delivered later can name the song
+    const song = songs.find((candidate) => candidate.request_url === requestUrl)?.song;
+    await submitRequest(requestUrl, song && { title: song.title, artist: song.artist });
   };
 
   if (error) {
@@ -219,6 +379,11 @@ export default function RequestsView() {
         <p className="text-muted-foreground">
           Browse our music library and request your favorite songs to be played on the radio
         </p>
+        {moderated && (
+          <p className="text-sm text-muted-foreground mt-2">
+            Requests are being reviewed by a moderator and will be sent to the station once approved.
+          </p>
+        )}
       </div>
 
       {/* Request Status */}
@@ -231,9 +396,14 @@ export default function RequestsView() {
         )}
       </AnimatePresence>
 
+      {/* Listener's own requests */}
+      <PendingRequests requests={pendingRequests} cooldownEndsAt={cooldownEndsAt} />
+
       {/* Search */}
       <RequestSearch
-        onSearchChange={(search) => updateFilters({ search })}
+        filters={filters}
+        genres={genres}
+        onFiltersChange={updateFilters}
         isLoading={isLoading}
       />
 
@@ -287,6 +457,7 @@ export default function RequestsView() {
                 key={song.request_id}
                 song={song}
                 onRequest={handleRequest}
+                onArtistSelect={(artist) => updateFilters({ artist })}
                 isRequesting={isSubmitting}
               />
             ))}
@@ -1,30 +1,100 @@
 'use client';
 
 import { useState } from 'react';
-import { Clock, Calendar, Music, ChevronRight, RefreshCw } from 'lucide-react';
+import { Bell, BellRing, Clock, Calendar, CalendarPlus, Music, ChevronRight, RefreshCw, Repeat, CalendarDays, Rss } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useSchedule, useCurrentSchedule, useUpcomingSchedule } from '@/hooks/use-schedule';
+import { useShowReminders } from '@/hooks/use-reminders';
+import { useToast } from '@/hooks/use-toast';
+import { useRadio } from '@/contexts/radio-context-simple';
+import { buildCalendar, getEventFileName, ICS_CONTENT_TYPE } from '@/lib/ical';
+import { API_ROUTES } from '@/lib/constants';
 import { 
   formatScheduleTime, 
   formatScheduleDate, 
+  formatLocalTime,
+  formatRecurrence,
+  formatWeekday,
   getScheduleDuration, 
   getTimeUntilNext, 
   simplifyPlaylistName 
 } from '@/lib/schedule-types';
-import type { ScheduleEntry } from '@/lib/schedule-types';
+import type { ScheduleDay, ScheduleEntry, ScheduleOccurrence } from '@/lib/schedule-types';
+
+// Downloads a single show as an .ics file the calendar app can import
+function downloadEvent(entry: ScheduleEntry, station: string) {
+  const calendar = buildCalendar([entry], { station });
+  const url = URL.createObjectURL(new Blob([calendar], { type: ICS_CONTENT_TYPE }));
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getEventFileName(entry);
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+// Opens the feed in the system calendar app, which keeps it up to date
+function subscribeToSchedule(station: string) {
+  const path = `${API_ROUTES.SCHEDULE_ICS}?station=${encodeURIComponent(station)}`;
+  window.location.href = `webcal://${window.location.host}${path}`;
+}
+
+type ShowReminders = ReturnType<typeof useShowReminders>;
+
+function ReminderButton({ entry, reminders }: { entry: ScheduleOccurrence; reminders: ShowReminders }) {
+  const { toast } = useToast();
+  const isSet = reminders.hasReminder(entry);
+  const label = isSet ? 'Cancel reminder' : 'Remind me';
+
+  const toggle = async () => {
+    try {
+      const enabled = await reminders.toggleReminder(entry);
+      toast({
+        title: enabled ? 'Reminder set' : 'Reminder cancelled',
+        description: enabled
+          ? `We'll notify you ${reminders.leadMinutes} minutes before ${simplifyPlaylistName(entry.title)} starts.`
+          : undefined,
+      });
+    } catch (error) {
+      toast({
+        title: 'Could not update reminder',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={toggle}
+      disabled={reminders.isPending(entry)}
+      aria-label={label}
+      aria-pressed={isSet}
+      title={label}
+    >
+      {isSet ? <BellRing className="w-4 h-4 text-primary" /> : <Bell className="w-4 h-4" />}
+    </Button>
+  );
+}
 
 interface ScheduleCardProps {
-  entry: ScheduleEntry;
+  entry: ScheduleOccurrence;
   isCurrent?: boolean;
   isNext?: boolean;
   showDate?: boolean;
+  reminders?: ShowReminders;
 }
 
-function ScheduleCard({ entry, isCurrent = false, isNext = false, showDate = true }: ScheduleCardProps) {
+function ScheduleCard({ entry, isCurrent = false, isNext = false, showDate = true, reminders }: ScheduleCardProps) {
+  const { station } = useRadio();
   const [isExpanded, setIsExpanded] = useState(false);
 
   return (
@@ -88,16 +158,37 @@ function ScheduleCard({ entry, isCurrent = false, isNext = false, showDate = tru
                 </div>
               )}
             </div>
+            {entry.recurrence && (
+              <div className="flex items-center gap-1 mt-1 text-xs text-muted-foreground">
+                <Repeat className="w-3 h-3" />
+                {formatRecurrence(entry.recurrence)}
+              </div>
+            )}
           </div>
           
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={() => setIsExpanded(!isExpanded)}
-            className="shrink-0"
-          >
-            <ChevronRight className={`w-4 h-4 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
-          </Button>
+          <div className="flex shrink-0 items-center">
+            {!isCurrent && reminders?.isAvailable && entry.startsIn > 0 && (
+              <ReminderButton entry={entry} reminders={reminders} />
+            )}
+            {!isCurrent && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => downloadEvent(entry, station)}
+                aria-label="Add to calendar"
+                title="Add to calendar"
+              >
+                <CalendarPlus className="w-4 h-4" />
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsExpanded(!isExpanded)}
+            >
+              <ChevronRight className={`w-4 h-4 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />
+            </Button>
+          </div>
         </div>
         
         <AnimatePresence>
@@ -125,7 +216,9 @@ function ScheduleCard({ entry, isCurrent = false, isNext = false, showDate = tru
 }
 
 function CurrentScheduleSection() {
-  const { currentEntry, nextEntry, timeRemaining, isLoading, error, refresh } = useCurrentSchedule();
+  const { station } = useRadio();
+  const { currentEntry, nextEntry, timeRemaining, isLoading, error, refresh } = useCurrentSchedule(station);
+  const reminders = useShowReminders(station);
 
   if (isLoading) {
     return (
@@ -199,7 +292,7 @@ function CurrentScheduleSection() {
         )}
         
         {nextEntry && (
-          <ScheduleCard entry={nextEntry} isNext={true} showDate={false} />
+          <ScheduleCard entry={nextEntry} isNext={true} showDate={false} reminders={reminders} />
         )}
       </CardContent>
     </Card>
@@ -207,7 +300,9 @@ function CurrentScheduleSection() {
 }
 
 function UpcomingScheduleSection() {
-  const { upcomingEntries, isLoading, error, refresh } = useUpcomingSchedule();
+  const { station } = useRadio();
+  const { upcomingEntries, isLoading, error, refresh } = useUpcomingSchedule(station);
+  const reminders = useShowReminders(station);
 
   if (isLoading) {
     return (
@@ -267,7 +362,7 @@ function UpcomingScheduleSection() {
           <div className="space-y-3">
             <AnimatePresence>
               {upcomingEntries.map((entry) => (
-                <ScheduleCard key={entry.id} entry={entry} />
+                <ScheduleCard key={entry.id} entry={entry} reminders={reminders} />
               ))}
             </AnimatePresence>
           </div>
@@ -281,9 +376,76 @@ function UpcomingScheduleSection() {
   );
 }
 
+function WeekDayColumn({ day }: { day: ScheduleDay }) {
+  const [year, month, date] = day.date.split('-').map(Number);
+  const label = new Date(Date.UTC(year, month - 1, date)).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+
+  return (
+    <div className="min-w-0 rounded-lg border bg-card">
+      <div className="border-b px-3 py-2">
+        <div className="text-sm font-semibold text-foreground">{formatWeekday(day.weekday, 'short')}</div>
+        <div className="text-xs text-muted-foreground">{label}</div>
+      </div>
+      <ul className="space-y-2 p-2">
+        {day.entries.map((entry) => (
+          <li
+            key={`${entry.id}-${entry.start_timestamp}`}
+            className={`rounded-md px-2 py-1.5 text-xs ${entry.is_now ? 'bg-primary/10 ring-1 ring-primary/30' : 'bg-muted/50'}`}
+          >
+            <div className="font-mono text-muted-foreground">{formatLocalTime(entry.localTime)}</div>
+            <div className="font-medium text-foreground line-clamp-2">{simplifyPlaylistName(entry.title)}</div>
+            {entry.recurrence && (
+              <div className="flex items-center gap-1 text-muted-foreground">
+                <Repeat className="w-3 h-3 shrink-0" />
+                Weekly
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function WeekScheduleSection() {
+  const { station } = useRadio();
+  const { days, timezone, isLoading, error } = useSchedule(station);
+
+  if (isLoading || error || days.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <CalendarDays className="w-5 h-5" />
+            This Week
+          </CardTitle>
+          <Button onClick={() => subscribeToSchedule(station)} variant="outline" size="sm">
+            <Rss className="w-4 h-4 mr-2" />
+            Subscribe in calendar
+          </Button>
+        </div>
+        <p className="text-sm text-muted-foreground">Times are shown in your timezone ({timezone.replace(/_/g, ' ')}).</p>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-3 sm:grid-cols-2 md:grid-cols-4 lg:grid-cols-7">
+          {days.slice(0, 7).map((day) => (
+            <WeekDayColumn key={day.date} day={day} />
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 export default function ScheduleView() {
   return (
-    <div className="w-full max-w-4xl mx-auto p-4 space-y-6">
+    <div className="w-full max-w-6xl mx-auto p-4 space-y-6">
       <div className="text-center mb-8">
         <h1 className="text-3xl font-bold text-foreground mb-2">Radio Schedule</h1>
         <p className="text-muted-foreground">
@@ -295,6 +457,8 @@ export default function ScheduleView() {
         <CurrentScheduleSection />
         <UpcomingScheduleSection />
       </div>
+
+      <WeekScheduleSection />
     </div>
   );
-}
\ No newline at end of file
+}
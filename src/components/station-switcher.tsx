@@ -0,0 +1,32 @@
+'use client';
+
+import { Radio } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useRadio } from '@/contexts/radio-context-simple';
+
+export default function StationSwitcher() {
+  const { station, stations, setStation } = useRadio();
+
+  // Nothing to switch between with a single configured station
+  if (stations.length < 2) {
+    return null;
+  }
+
+  return (
+    <Select value={station} onValueChange={setStation}>
+      <SelectTrigger className="w-full" aria-label="Select station">
+        <div className="flex items-center gap-2">
+          <Radio className="w-4 h-4 text-muted-foreground" />
+          <SelectValue />
+        </div>
+      </SelectTrigger>
+      <SelectContent>
+        {stations.map((option) => (
+          <SelectItem key={option.id} value={option.id}>
+            {option.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -1,11 +1,43 @@
 'use client';
 
+import { useCallback, useMemo, useState } from 'react';
 import AudioPlayer from '@/components/audio-player-simple';
 import PlaylistView from '@/components/playlist-view-simple';
 import { useRadio } from '@/contexts/radio-context-simple';
+import { usePlayHistory } from '@/hooks/use-history';
+import { getDayRange, type HistoryFilters } from '@/lib/history-types';
 
 export default function RadioView() {
-  const { recentlyPlayed, upNext } = useRadio();
+  const { recentlyPlayed, upNext, station } = useRadio();
+
+  // Older plays are only fetched once the listener asks for them
+  const [historyDate, setHistoryDate] = useState<Date | undefined>();
+  const [isHistoryRequested, setIsHistoryRequested] = useState(false);
+
+  const historyFilters = useMemo<HistoryFilters>(
+    () => ({ station, ...(historyDate ? getDayRange(historyDate) : {}) }),
+    [station, historyDate]
+  );
+  const history = usePlayHistory(historyFilters, {
+    enabled: isHistoryRequested || historyDate !== undefined,
+  });
+
+  const historySongs = useMemo(() => {
+    if (historyDate) return history.songs;
+    if (!isHistoryRequested) return recentlyPlayed;
+
+    // The first history page overlaps with the live list, so de-duplicate by play ID
+    const seen = new Set(recentlyPlayed.map((song) => song.id));
+    return [...recentlyPlayed, ...history.songs.filter((song) => !seen.has(song.id))];
+  }, [historyDate, isHistoryRequested, recentlyPlayed, history.songs]);
+
+  const handleLoadMore = useCallback(() => {
+    if (!isHistoryRequested && !historyDate) {
+      setIsHistoryRequested(true);
+    } else {
+      history.loadMore();
+    }
+  }, [isHistoryRequested, historyDate, history]);
 
   return (
     <div className="w-full max-w-7xl mx-auto flex flex-col items-start gap-8 lg:grid lg:grid-cols-4 lg:items-start lg:pt-8 lg:pb-8">
@@ -13,11 +45,23 @@ export default function RadioView() {
       <div className="w-full flex justify-center order-3 lg:order-1 lg:mt-8">
         <PlaylistView
           title="Recently Played"
-          songs={recentlyPlayed}
+          songs={historySongs}
+          maxItems={Math.max(historySongs.length, 1)}
+          isLoading={historyDate !== undefined && history.isLoading}
+          error={historyDate !== undefined && history.error ? history.error.message : null}
+          onLoadMore={handleLoadMore}
+          hasMore={(!isHistoryRequested && !historyDate) || history.hasMore}
+          isLoadingMore={history.isLoading || history.isLoadingMore}
+          date={historyDate}
+          onDateChange={setHistoryDate}
           helpContent={
             <>
               <p>
-                This list shows the last 5 songs that were played on the radio.
+                This list shows the songs that were recently played on the radio.
+              </p>
+              <p>
+                Use &quot;Load more&quot; to go further back, or pick a date to
+                see everything played that day.
               </p>
             </>
           }
@@ -46,4 +90,4 @@ export default function RadioView() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -7,6 +7,7 @@ import {
   type RefObject,
 } from 'react';
 import type { Song } from '@/lib/types';
+import type { StationConfig } from '@/lib/stations';
 import type { useToast } from '@/hooks/use-toast';
 
 // Simplified context with only core radio functionality
@@ -17,6 +18,11 @@ export interface RadioContextType {
   upNext: Song[];
   listenerCount: number;
 
+  // Station Selection
+  station: string;
+  stations: readonly StationConfig[];
+  setStation: (station: string) => void;
+
   // Audio Player State
   isPlaying: boolean;
   volume: number;
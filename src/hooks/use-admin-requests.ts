@@ -0,0 +1,111 @@
+'use client';
+
+import { useState, useCallback, useEffect } from 'react';
+import useSWR from 'swr';
+import type { ModerationQueueData } from '@/lib/request-types';
+import { API_ROUTES } from '@/lib/constants';
+import { DEFAULT_STATION_ID } from '@/lib/stations';
+
+const MODERATION_REFRESH_INTERVAL = 10000; // 10 seconds
+const ADMIN_TOKEN_STORAGE_KEY = 'oadro_admin_token';
+
+class AdminApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'AdminApiError';
+  }
+}
+
+async function adminFetch(url: string, token: string, init?: RequestInit): Promise<ModerationQueueData> {
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      'Accept': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      ...(init?.body ? { 'Content-Type': 'application/json' } : {}),
+    },
+  });
+
+  const result = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new AdminApiError(result?.error?.message || `HTTP ${response.status}: ${response.statusText}`, response.status);
+  }
+
+  return result;
+}
+
+// Hook for the admin token, kept for the browser session only
+export function useAdminToken() {
+  const [token, setTokenState] = useState<string | null>(null);
+
+  useEffect(() => {
+    setTokenState(sessionStorage.getItem(ADMIN_TOKEN_STORAGE_KEY));
+  }, []);
+
+  const setToken = useCallback((value: string | null) => {
+    if (value) {
+      sessionStorage.setItem(ADMIN_TOKEN_STORAGE_KEY, value);
+    } else {
+      sessionStorage.removeItem(ADMIN_TOKEN_STORAGE_KEY);
+    }
+    setTokenState(value);
+  }, []);
+
+  return { token, setToken };
+}
+
+// Hook for the moderation queue and the actions moderators can take on it
+export function useModerationQueue(station: string = DEFAULT_STATION_ID, token: string | null) {
+  const url = `${API_ROUTES.ADMIN_REQUESTS}?station=${encodeURIComponent(station)}`;
+  const { data, error, isLoading, mutate } = useSWR<ModerationQueueData, AdminApiError>(
+    token ? [url, token] : null,
+    ([key, adminToken]: [string, string]) => adminFetch(key, adminToken),
+    {
+      refreshInterval: MODERATION_REFRESH_INTERVAL,
+      revalidateOnFocus: true,
+      // A bad token won't get better by retrying
+      shouldRetryOnError: (err) => err.status !== 401 && err.status !== 403,
+    }
+  );
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+
+  const runAction = useCallback(async (key: string, body: Record<string, unknown>) => {
+    if (!token) return;
+
+    setPendingAction(key);
+    try {
+      const queue = await adminFetch(url, token, { method: 'POST', body: JSON.stringify(body) });
+      await mutate(queue, { revalidate: false });
+    } finally {
+      setPendingAction(null);
+    }
+  }, [url, token, mutate]);
+
+  const approve = useCallback(
+    (id: string) => runAction(id, { action: 'approve', id }),
+    [runAction]
+  );
+
+  const reject = useCallback(
+    (id: string, reason?: string) => runAction(id, { action: 'reject', id, reason }),
+    [runAction]
+  );
+
+  const setModerated = useCallback(
+    (enabled: boolean) => runAction('moderation', { action: 'moderation', enabled }),
+    [runAction]
+  );
+
+  return {
+    requests: data?.requests || [],
+    moderated: data?.moderated ?? false,
+    isLoading,
+    error,
+    isUnauthorized: error?.status === 401 || error?.status === 403,
+    pendingAction,
+    approve,
+    reject,
+    setModerated,
+    refresh: mutate,
+  };
+}
@@ -0,0 +1,84 @@
+'use client';
+
+import { useCallback, useMemo } from 'react';
+import useSWRInfinite from 'swr/infinite';
+import type { HistoryFilters, HistoryPage } from '@/lib/history-types';
+import { buildHistoryQuery, DEFAULT_HISTORY_PAGE_SIZE } from '@/lib/history-types';
+import { API_ROUTES } from '@/lib/constants';
+import type { Song } from '@/lib/types';
+
+// Fetcher function for SWR
+const fetcher = async (url: string): Promise<HistoryPage> => {
+  const response = await fetch(url, {
+    headers: {
+      'Accept': 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  return response.json();
+};
+
+interface UsePlayHistoryOptions {
+  /** When false, nothing is fetched until the hook is enabled. */
+  enabled?: boolean;
+  pageSize?: number;
+}
+
+// Hook for the paginated station-wide play history
+export function usePlayHistory(
+  filters: HistoryFilters,
+  { enabled = true, pageSize = DEFAULT_HISTORY_PAGE_SIZE }: UsePlayHistoryOptions = {}
+) {
+  const getKey = useCallback(
+    (pageIndex: number, previousPage: HistoryPage | null) => {
+      if (!enabled) return null;
+      if (previousPage && !previousPage.nextCursor) return null;
+
+      const cursor = pageIndex === 0 ? null : previousPage?.nextCursor;
+      return `${API_ROUTES.HISTORY}?${buildHistoryQuery(filters, cursor, pageSize)}`;
+    },
+    [enabled, filters, pageSize]
+  );
+
+  const { data, error, isLoading, isValidating, size, setSize, mutate } =
+    useSWRInfinite<HistoryPage>(getKey, fetcher, {
+      revalidateFirstPage: false,
+      revalidateOnFocus: false,
+      onError: (error) => {
+        console.warn('[History] Fetch error:', error.message);
+      },
+    });
+
+  const songs = useMemo<Song[]>(
+    () => (data ? data.flatMap((page) => page.songs) : []),
+    [data]
+  );
+
+  const lastPage = data?.[data.length - 1];
+  const hasMore = !data || Boolean(lastPage?.nextCursor);
+  const isLoadingMore = isValidating && data !== undefined && size > data.length;
+
+  const loadMore = useCallback(() => {
+    if (hasMore) {
+      setSize((current) => current + 1);
+    }
+  }, [hasMore, setSize]);
+
+  const refresh = useCallback(() => {
+    mutate();
+  }, [mutate]);
+
+  return {
+    songs,
+    hasMore,
+    loadMore,
+    isLoading,
+    isLoadingMore,
+    error,
+    refresh,
+  };
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { useState, useEffect, useRef } from 'react';
+import { isOnline, setupNetworkListeners } from '@/lib/service-worker';
+
+// Hook for the browser's connectivity and the age of the data shown while offline.
+// The service worker reports every response it serves from its caches.
+export function useOfflineStatus() {
+  const [isOffline, setIsOffline] = useState(false);
+  const [dataAsOf, setDataAsOf] = useState<number | null>(null);
+  const isOfflineRef = useRef(false);
+
+  useEffect(() => {
+    const goOffline = () => {
+      isOfflineRef.current = true;
+      setIsOffline(true);
+      // Until a cached response says otherwise, data is as fresh as the moment we lost the network
+      setDataAsOf(Date.now());
+    };
+
+    if (!isOnline()) goOffline();
+
+    return setupNetworkListeners(
+      () => {
+        isOfflineRef.current = false;
+        setIsOffline(false);
+        setDataAsOf(null);
+      },
+      goOffline
+    );
+  }, []);
+
+  useEffect(() => {
+    if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type !== 'CACHED_RESPONSE' || !isOfflineRef.current) return;
+
+      const cachedAt = Number(event.data.cachedAt);
+      if (cachedAt > 0) {
+        setDataAsOf((current) => (current === null ? cachedAt : Math.min(current, cachedAt)));
+      }
+    };
+
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, []);
+
+  return { isOffline, dataAsOf };
+}
@@ -2,65 +2,18 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useDebounce } from '@/hooks/use-debounce';
-import type { Song } from '@/lib/types';
-import { API_ROUTES, UI } from '@/lib/constants';
+import type { HealthStatus, Song, StreamMode } from '@/lib/types';
+import { API_ROUTES } from '@/lib/constants';
+import { DEFAULT_STATION_ID } from '@/lib/stations';
+import { parseSsePayload, SSE_EVENT_TYPES } from '@/lib/sse-protocol';
+import type { ProviderNowPlaying } from '@/lib/providers';
+import type { ListenerRequest } from '@/lib/request-types';
 // Removed unused imports: request-deduplication and cache-service
 
-// Raw type from the Azuracast API response for better type safety
-interface AzuracastSongHistoryItem {
-  sh_id: number;
-  played_at: number;
-  duration: number;
-  song: {
-    id: string;
-    title: string;
-    artist: string;
-    art: string;
-    genre: string;
-    custom_fields?: {
-      creator_discord_id?: string | null;
-    };
-  };
-}
-
-interface AzuracastNowPlaying {
-  station: unknown;
-  listeners: { current: number };
-  live: unknown;
-  now_playing: {
-    sh_id: number;
-    played_at: number;
-    duration: number;
-    elapsed: number;
-    playlist?: string;
-    song: {
-      id: string;
-      title: string;
-      artist: string;
-      art: string;
-      genre: string;
-      custom_fields?: {
-        creator_discord_id?: string | null;
-      };
-    };
-    interaction_count?: number;
-  };
-  playing_next: {
-    cued_at: number;
-    duration: number;
-    song: {
-      id: string;
-      title: string;
-      artist: string;
-      art: string;
-      genre: string;
-      custom_fields?: {
-        creator_discord_id?: string | null;
-      };
-    };
-  };
-  song_history: AzuracastSongHistoryItem[];
-  is_online: boolean;
+/** The latest request_queued / request_fulfilled event on the station. */
+export interface RequestUpdate {
+  type: 'request_queued' | 'request_fulfilled';
+  request: ListenerRequest;
 }
 
 const defaultSong: Song = {
@@ -74,79 +27,24 @@ const defaultSong: Song = {
   elapsed: 0,
 };
 
-function transformApiData(data: AzuracastNowPlaying) {
-  let liveSong: Song | null = null;
-  if (data.now_playing?.song) {
-    const { now_playing: np } = data;
-    liveSong = {
-      id: np.sh_id,
-      songId: np.song.id,
-      title: np.song.title,
-      artist: np.song.artist,
-      albumArt: np.song.art,
-      genre: np.song.genre,
-      duration: np.duration,
-      elapsed: np.elapsed,
-      played_at: np.played_at,
-      interactionCount: np.interaction_count || 0,
-      creatorDiscordId: np.song.custom_fields?.creator_discord_id || null,
-      playlists: np.playlist ? [np.playlist] : [],
-    };
-  }
-
-  let upNext: Song[] = [];
-  if (data.playing_next?.song) {
-    const { playing_next: pn } = data;
-    upNext = [
-      {
-        id: pn.cued_at,
-        songId: pn.song.id,
-        title: pn.song.title,
-        artist: pn.song.artist,
-        albumArt: pn.song.art,
-        genre: pn.song.genre,
-        duration: pn.duration,
-        creatorDiscordId: pn.song.custom_fields?.creator_discord_id || null,
-      },
-    ];
-  }
-
-  const recentlyPlayed = (data.song_history || [])
-    .slice(0, UI.RECENT_SONGS_COUNT)
-    .map(
-      (item): Song => ({
-        id: item.sh_id,
-        songId: item.song.id,
-        title: item.song.title,
-        artist: item.song.artist,
-        albumArt: item.song.art,
-        genre: item.song.genre,
-        duration: item.duration,
-        played_at: item.played_at,
-        interactionCount: 0,
-        creatorDiscordId: item.song.custom_fields?.creator_discord_id || null,
-      })
-    );
-
-  return {
-    liveSong,
-    upNext,
-    recentlyPlayed,
-    listenerCount: data.listeners?.current || 0,
-  };
-}
-
 export function useRadioMetadata(
   user: null, // Always null for simplified version
-  isDatabaseInitialized: boolean
+  isDatabaseInitialized: boolean,
+  station: string = DEFAULT_STATION_ID
 ) {
   const [liveSong, setLiveSong] = useState<Song>(defaultSong);
   const [recentlyPlayed, setRecentlyPlayed] = useState<Song[]>([]);
   const [rawRecentlyPlayed, setRawRecentlyPlayed] = useState<Song[]>([]);
   const [upNext, setUpNext] = useState<Song[]>([]);
   const [listenerCount, setListenerCount] = useState<number>(0);
+  const [isUpstreamConnected, setIsUpstreamConnected] = useState(true);
+  const [streamHealth, setStreamHealth] = useState<HealthStatus | null>(null);
+  const [streamMode, setStreamMode] = useState<StreamMode>('live');
+  const [requestUpdate, setRequestUpdate] = useState<RequestUpdate | null>(null);
 
   const eventSourceRef = useRef<EventSource | null>(null);
+  // Last SSE event seen, so a forced reconnect only replays what was missed
+  const lastEventRef = useRef<{ station: string; id: string } | null>(null);
   const debouncedRecentlyPlayed = useDebounce(rawRecentlyPlayed, 1500);
 
   // Use raw recently played data immediately without debounce delay
@@ -161,53 +59,82 @@ export function useRadioMetadata(
       eventSourceRef.current.close();
     }
 
-    const sseUri = API_ROUTES.RADIO_STREAM;
+    const params = new URLSearchParams({ station });
+    if (lastEventRef.current?.station === station) {
+      params.set('lastEventId', lastEventRef.current.id);
+    }
+    const sseUri = `${API_ROUTES.RADIO_STREAM}?${params.toString()}`;
     const eventSource = new EventSource(sseUri);
     eventSourceRef.current = eventSource;
 
-    const processNowPlayingData = (npData: AzuracastNowPlaying) => {
-      if (!npData || !npData.is_online) {
-        setLiveSong((current) => ({
-          ...current,
-          title: 'Stream Offline',
-          artist: 'OADRO Radio',
-        }));
-        setUpNext([]);
-        setRecentlyPlayed([]);
-        setListenerCount(0);
+    const handleStreamEvent = (event: Event) => {
+      const { data: rawData, lastEventId } = event as MessageEvent;
+      if (lastEventId) {
+        lastEventRef.current = { station, id: lastEventId };
+      }
+
+      const payload = parseSsePayload(rawData);
+      if (!payload) {
+        console.error(`[SSE] Ignoring malformed ${event.type} event`);
         return;
       }
 
-      const {
-        liveSong: newLiveSong,
-        upNext: newUpNext,
-        recentlyPlayed: newRecentlyPlayed,
-        listenerCount: newListenerCount,
-      } = transformApiData(npData);
+      switch (payload.type) {
+        case 'now_playing': {
+          const {
+            liveSong: newLiveSong,
+            upNext: newUpNext,
+            recentlyPlayed: newRecentlyPlayed,
+            listenerCount: newListenerCount,
+          } = payload.data;
+
+          setListenerCount(newListenerCount);
+          setUpNext(newUpNext);
+          setRawRecentlyPlayed(newRecentlyPlayed);
+
+          if (newLiveSong) {
+            setLiveSong(newLiveSong);
+          }
+          break;
+        }
+
+        case 'stream_status':
+          setStreamMode(payload.data.mode ?? 'live');
+          if (!payload.data.isOnline) {
+            setLiveSong((current) => ({
+              ...current,
+              title: 'Stream Offline',
+              artist: 'OADRO Radio',
+            }));
+            setUpNext([]);
+            setRawRecentlyPlayed([]);
+            setListenerCount(0);
+          }
+          break;
 
-      setListenerCount(newListenerCount);
-      setUpNext(newUpNext);
-      setRawRecentlyPlayed(newRecentlyPlayed);
+        case 'connection_failed':
+          console.warn(`[SSE] Server lost its upstream connection: ${payload.data.reason}`);
+          setIsUpstreamConnected(false);
+          break;
 
-      if (newLiveSong) {
-        setLiveSong(newLiveSong);
-      }
-    };
+        case 'connection_restored':
+          setIsUpstreamConnected(true);
+          break;
 
-    const handleNowPlaying = (event: Event) => {
-      try {
-        const data = JSON.parse((event as MessageEvent).data);
-        const npData = data.pub?.data?.np;
-        if (npData) {
-          processNowPlayingData(npData);
-        }
-      } catch (err) {
-        console.error('Error parsing now_playing event:', err);
+        case 'health_check':
+          setStreamHealth(payload.data);
+          break;
+
+        case 'request_queued':
+        case 'request_fulfilled':
+          setRequestUpdate({ type: payload.type, request: payload.data });
+          break;
       }
     };
 
-    // Use only specific event listeners to avoid race conditions
-    eventSource.addEventListener('now_playing', handleNowPlaying);
+    SSE_EVENT_TYPES.forEach((type) => {
+      eventSource.addEventListener(type, handleStreamEvent);
+    });
 
     eventSource.onerror = (error) => {
       const readyState = eventSource.readyState;
@@ -230,17 +157,26 @@ export function useRadioMetadata(
         eventSourceRef.current.close();
       }
     };
-  }, []); // Empty dependency array ensures this runs only once on mount
+  }, [station]); // Reconnect only when the selected station changes
 
   // Fetch initial data immediately for faster loading
   useEffect(() => {
+    // Clear the previous station's data while the new station loads
+    setLiveSong(defaultSong);
+    setUpNext([]);
+    setRawRecentlyPlayed([]);
+    setListenerCount(0);
+    setIsUpstreamConnected(true);
+    setStreamHealth(null);
+    setStreamMode('live');
+    setRequestUpdate(null);
+
     const fetchInitialData = async () => {
       try {
-        const response = await fetch('https://radio.oadro.com/api/nowplaying/oadro');
+        const response = await fetch(`${API_ROUTES.RADIO_META}?station=${encodeURIComponent(station)}`);
         if (response.ok) {
-          const data = await response.json();
-          if (data && data.is_online) {
-            const transformedData = transformApiData(data);
+          const transformedData: ProviderNowPlaying = await response.json();
+          if (transformedData.isOnline) {
             setListenerCount(transformedData.listenerCount);
             setUpNext(transformedData.upNext);
             setRawRecentlyPlayed(transformedData.recentlyPlayed);
@@ -256,7 +192,7 @@ export function useRadioMetadata(
 
     // Fetch initial data immediately
     fetchInitialData();
-  }, []);
+  }, [station]);
 
   // Initialize SSE connection when the hook mounts
   useEffect(() => {
@@ -286,6 +222,10 @@ export function useRadioMetadata(
     recentlyPlayed,
     upNext,
     listenerCount,
+    isUpstreamConnected,
+    streamHealth,
+    streamMode,
+    requestUpdate,
     forceSseReconnect,
   };
 }
\ No newline at end of file
@@ -0,0 +1,175 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import useSWR, { useSWRConfig } from 'swr';
+import type { ScheduleEntry } from '@/lib/schedule-types';
+import type { ShowReminder } from '@/lib/push-reminders';
+import { API_ROUTES } from '@/lib/constants';
+import { DEFAULT_STATION_ID } from '@/lib/stations';
+
+interface RemindersData {
+  publicKey: string;
+  leadMinutes: number;
+  reminders: ShowReminder[];
+}
+
+class RemindersApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'RemindersApiError';
+  }
+}
+
+async function remindersFetch(url: string, init?: RequestInit): Promise<RemindersData> {
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      'Accept': 'application/json',
+      ...(init?.body ? { 'Content-Type': 'application/json' } : {}),
+    },
+  });
+
+  const result = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new RemindersApiError(result?.error?.message || `HTTP ${response.status}: ${response.statusText}`, response.status);
+  }
+
+  return result;
+}
+
+function getRemindersUrl(endpoint: string | null): string {
+  return endpoint
+    ? `${API_ROUTES.REMINDERS}?endpoint=${encodeURIComponent(endpoint)}`
+    : API_ROUTES.REMINDERS;
+}
+
+function isPushSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window
+  );
+}
+
+// applicationServerKey wants the raw key bytes
+function decodeBase64Url(value: string): ArrayBuffer {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes.buffer;
+}
+
+// Hook for setting web push reminders on upcoming shows
+export function useShowReminders(station: string = DEFAULT_STATION_ID) {
+  const [registration, setRegistration] = useState<ServiceWorkerRegistration | null>(null);
+  const [endpoint, setEndpoint] = useState<string | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isPushSupported()) return;
+
+    let cancelled = false;
+    navigator.serviceWorker.getRegistration()
+      .then(async (found) => {
+        if (cancelled || !found) return;
+        setRegistration(found);
+        const subscription = await found.pushManager.getSubscription();
+        if (!cancelled) setEndpoint(subscription?.endpoint ?? null);
+      })
+      .catch((error) => {
+        console.warn('[Reminders] Could not read push subscription:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const { mutate: mutateKey } = useSWRConfig();
+  const { data, error, mutate } = useSWR<RemindersData, RemindersApiError>(
+    registration ? getRemindersUrl(endpoint) : null,
+    (key: string) => remindersFetch(key),
+    {
+      revalidateOnFocus: true,
+      // 501 means reminders are turned off on the server
+      shouldRetryOnError: (err) => err.status !== 501,
+    }
+  );
+
+  const findReminder = useCallback(
+    (entry: ScheduleEntry) =>
+      data?.reminders.find(
+        (reminder) =>
+          reminder.station === station &&
+          reminder.entryId === entry.id &&
+          reminder.startTimestamp === entry.start_timestamp
+      ),
+    [data, station]
+  );
+
+  const subscribe = useCallback(async (): Promise<PushSubscription> => {
+    if (!registration || !data) {
+      throw new Error('Reminders are not available in this browser');
+    }
+
+    const permission = await Notification.requestPermission();
+    if (permission !== 'granted') {
+      throw new Error('Allow notifications to get show reminders');
+    }
+
+    const existing = await registration.pushManager.getSubscription();
+    if (existing) return existing;
+
+    return registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeBase64Url(data.publicKey),
+    });
+  }, [registration, data]);
+
+  const toggleReminder = useCallback(async (entry: ScheduleEntry): Promise<boolean> => {
+    const key = `${entry.id}-${entry.start_timestamp}`;
+    const existing = findReminder(entry);
+
+    setPendingId(key);
+    try {
+      if (existing && endpoint) {
+        const result = await remindersFetch(API_ROUTES.REMINDERS, {
+          method: 'DELETE',
+          body: JSON.stringify({ endpoint, id: existing.id }),
+        });
+        await mutate(result, { revalidate: false });
+        return false;
+      }
+
+      const subscription = await subscribe();
+      const result = await remindersFetch(API_ROUTES.REMINDERS, {
+        method: 'POST',
+        body: JSON.stringify({
+          subscription: subscription.toJSON(),
+          station,
+          entryId: entry.id,
+          startTimestamp: entry.start_timestamp,
+        }),
+      });
+      // The key changes once the browser has subscribed, so seed the new one
+      await mutateKey(getRemindersUrl(subscription.endpoint), result, { revalidate: false });
+      setEndpoint(subscription.endpoint);
+      return true;
+    } finally {
+      setPendingId(null);
+    }
+  }, [endpoint, findReminder, mutate, mutateKey, station, subscribe]);
+
+  return {
+    isAvailable: !!registration && !!data,
+    leadMinutes: data?.leadMinutes,
+    error,
+    hasReminder: (entry: ScheduleEntry) => !!findReminder(entry),
+    isPending: (entry: ScheduleEntry) => pendingId === `${entry.id}-${entry.start_timestamp}`,
+    toggleReminder,
+  };
+}
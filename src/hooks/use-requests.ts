@@ -1,14 +1,32 @@
 'use client';
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
-import useSWR from 'swr';
-import type { RequestData, RequestableSong, RequestFilters, RequestSubmission } from '@/lib/request-types';
-import { filterSongs, paginateSongs, DEFAULT_FILTERS } from '@/lib/request-types';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import useSWR, { useSWRConfig } from 'swr';
+import type { ListenerRequest, PendingRequestsData, RequestData, RequestFilters, RequestSubmission } from '@/lib/request-types';
+import { DEFAULT_FILTERS } from '@/lib/request-types';
+import { API_ROUTES } from '@/lib/constants';
+import { DEFAULT_STATION_ID } from '@/lib/stations';
+import { useToast } from '@/hooks/use-toast';
+import {
+  OUTBOX_RESULTS_MESSAGE,
+  isOutboxSupported,
+  queueRequest,
+  registerOutboxSync,
+  replayOutbox,
+  takeResults,
+  type OutboxResult,
+} from '@/lib/request-outbox';
+import type { RequestUpdate } from '@/hooks/use-radio-metadata-simple';
 
 const REQUESTS_REFRESH_INTERVAL = 300000; // 5 minutes
+const PENDING_REQUESTS_REFRESH_INTERVAL = 15000; // 15 seconds
+
+function getPendingRequestsKey(station: string): string {
+  return `${API_ROUTES.REQUESTS_PENDING}?station=${encodeURIComponent(station)}`;
+}
 
 // Fetcher function for SWR
-const fetcher = async (url: string): Promise<RequestData> => {
+const fetcher = async <T = RequestData>(url: string): Promise<T> => {
   const response = await fetch(url, {
     headers: {
       'Accept': 'application/json',
@@ -23,9 +41,24 @@ const fetcher = async (url: string): Promise<RequestData> => {
   return response.json();
 };
 
-export function useRequests() {
-  const { data, error, isLoading, mutate } = useSWR<RequestData>(
-    '/api/requests',
+function getRequestsKey(station: string, filters: RequestFilters, page: number, pageSize: number): string {
+  const params = new URLSearchParams({ station, page: String(page), pageSize: String(pageSize) });
+  if (filters.search) params.set('q', filters.search);
+  if (filters.genre) params.set('genre', filters.genre);
+  if (filters.artist) params.set('artist', filters.artist);
+  if (filters.sort !== DEFAULT_FILTERS.sort) params.set('sort', filters.sort);
+  return `${API_ROUTES.REQUESTS}?${params.toString()}`;
+}
+
+// Fetches one page of requestable songs; searching and sorting happen on the server
+export function useRequests(
+  station: string = DEFAULT_STATION_ID,
+  filters: RequestFilters = DEFAULT_FILTERS,
+  page: number = 1,
+  pageSize: number = 20
+) {
+  const { data, error, isLoading, isValidating, mutate } = useSWR<RequestData>(
+    getRequestsKey(station, filters, page, pageSize),
     fetcher,
     {
       refreshInterval: REQUESTS_REFRESH_INTERVAL,
@@ -34,6 +67,8 @@ export function useRequests() {
       dedupingInterval: 60000, // 1 minute
       errorRetryCount: 3,
       errorRetryInterval: 5000,
+      // Keep showing the current page while the next one loads
+      keepPreviousData: true,
       onError: (error) => {
         console.warn('[Requests] Fetch error:', error.message);
       },
@@ -49,6 +84,7 @@ export function useRequests() {
     songs: data?.songs || [],
     totalCount: data?.totalCount || 0,
     isLoading,
+    isValidating,
     error,
     refresh,
     lastUpdated: data?.lastUpdated,
@@ -56,41 +92,24 @@ export function useRequests() {
 }
 
 // Hook for filtered and paginated requests
-export function useFilteredRequests(pageSize: number = 20) {
-  const { requestData, isLoading, error, refresh } = useRequests();
+export function useFilteredRequests(pageSize: number = 20, station: string = DEFAULT_STATION_ID) {
   const [filters, setFilters] = useState<RequestFilters>(DEFAULT_FILTERS);
   const [currentPage, setCurrentPage] = useState(1);
+  const { requestData, isLoading, isValidating, error, refresh } = useRequests(station, filters, currentPage, pageSize);
 
-  // Reset page when filters change
+  // Start from the first page when the station changes
   useEffect(() => {
     setCurrentPage(1);
-  }, [filters]);
-
-  // Memoized filtered and paginated results
-  const filteredResults = useMemo(() => {
-    if (!requestData?.songs) {
-      return {
-        songs: [],
-        totalPages: 0,
-        currentPage: 1,
-        hasNext: false,
-        hasPrev: false,
-        totalFiltered: 0,
-      };
-    }
-
-    const filtered = filterSongs(requestData.songs, filters);
-    const paginated = paginateSongs(filtered, currentPage, pageSize);
-
-    return {
-      ...paginated,
-      totalFiltered: filtered.length,
-    };
-  }, [requestData?.songs, filters, currentPage, pageSize]);
+  }, [station]);
 
+  const totalPages = requestData?.totalPages ?? 0;
+  const page = requestData?.page ?? currentPage;
+  const hasNext = page < totalPages;
+  const hasPrev = page > 1;
 
   const updateFilters = useCallback((newFilters: Partial<RequestFilters>) => {
     setFilters(prev => ({ ...prev, ...newFilters }));
+    setCurrentPage(1);
   }, []);
 
   const goToPage = useCallback((page: number) => {
@@ -98,47 +117,117 @@ export function useFilteredRequests(pageSize: number = 20) {
   }, []);
 
   const nextPage = useCallback(() => {
-    if (filteredResults.hasNext) {
-      setCurrentPage(prev => prev + 1);
+    if (hasNext) {
+      setCurrentPage(page + 1);
     }
-  }, [filteredResults.hasNext]);
+  }, [hasNext, page]);
 
   const prevPage = useCallback(() => {
-    if (filteredResults.hasPrev) {
-      setCurrentPage(prev => prev - 1);
+    if (hasPrev) {
+      setCurrentPage(page - 1);
     }
-  }, [filteredResults.hasPrev]);
+  }, [hasPrev, page]);
 
   return {
-    songs: filteredResults.songs,
-    totalPages: filteredResults.totalPages,
-    currentPage: filteredResults.currentPage,
-    hasNext: filteredResults.hasNext,
-    hasPrev: filteredResults.hasPrev,
-    totalFiltered: filteredResults.totalFiltered,
+    songs: requestData?.songs || [],
+    totalPages,
+    currentPage: page,
+    hasNext,
+    hasPrev,
+    totalFiltered: requestData?.totalFiltered || 0,
     totalCount: requestData?.totalCount || 0,
+    genres: requestData?.facets.genres || [],
     filters,
     updateFilters,
     goToPage,
     nextPage,
     prevPage,
-    isLoading,
+    // Only the first load counts; later pages and searches keep the previous results on screen
+    isLoading: isLoading && !requestData,
+    isValidating,
     error,
     refresh,
   };
 }
 
+// Hook for the current listener's recent requests, refreshed as they get played
+export function usePendingRequests(
+  station: string = DEFAULT_STATION_ID,
+  refreshInterval: number = PENDING_REQUESTS_REFRESH_INTERVAL
+) {
+  const { data, error, isLoading, mutate } = useSWR<PendingRequestsData>(
+    getPendingRequestsKey(station),
+    (url: string) => fetcher<PendingRequestsData>(url),
+    {
+      refreshInterval,
+      revalidateOnFocus: true,
+      onError: (error) => {
+        console.warn('[Requests] Pending requests fetch error:', error.message);
+      },
+    }
+  );
+
+  return {
+    requests: data?.requests || [],
+    cooldownEndsAt: data?.cooldownEndsAt ?? null,
+    maxPending: data?.maxPending,
+    moderated: data?.moderated ?? false,
+    isLoading,
+    error,
+    refresh: mutate,
+  };
+}
+
 // Hook for submitting song requests
-export function useRequestSubmission() {
+export function useRequestSubmission(station: string = DEFAULT_STATION_ID) {
+  const { mutate } = useSWRConfig();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [lastSubmission, setLastSubmission] = useState<RequestSubmission | null>(null);
 
-  const submitRequest = useCallback(async (requestUrl: string): Promise<RequestSubmission> => {
+  // Keeps the request for replay; the result is shown by useRequestOutbox
+  const queueForLater = useCallback(async (
+    requestUrl: string,
+    song?: { title: string; artist: string }
+  ): Promise<RequestSubmission | null> => {
+    if (!isOutboxSupported()) return null;
+
+    const requestId = requestUrl.split('/').pop() || '';
+    try {
+      const added = await queueRequest({ station, requestId, requestUrl, title: song?.title, artist: song?.artist });
+      if (added && !(await registerOutboxSync())) {
+        console.log('[Requests] Background Sync unavailable, request will be sent on the next visit');
+      }
+      return {
+        request_id: requestId,
+        success: false,
+        queued: true,
+        message: added
+          ? "You're offline. Your request will be sent when the connection is back."
+          : 'This song is already waiting to be sent.',
+      };
+    } catch (error) {
+      console.warn('[Requests] Could not queue request:', error);
+      return null;
+    }
+  }, [station]);
+
+  const submitRequest = useCallback(async (
+    requestUrl: string,
+    song?: { title: string; artist: string }
+  ): Promise<RequestSubmission> => {
     setIsSubmitting(true);
     setLastSubmission(null);
 
     try {
-      const response = await fetch('/api/requests/submit', {
+      if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+        const queued = await queueForLater(requestUrl, song);
+        if (queued) {
+          setLastSubmission(queued);
+          return queued;
+        }
+      }
+
+      const response = await fetch(`${API_ROUTES.REQUESTS_SUBMIT}?station=${encodeURIComponent(station)}`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -152,13 +241,20 @@ export function useRequestSubmission() {
         request_id: requestUrl.split('/').pop() || '',
         success: response.ok && result.success,
         message: result.message || (response.ok ? 'Request submitted successfully!' : result.error?.message || 'Failed to submit request'),
+        reason: result.error?.reason,
+        retryAfter: result.error?.retryAfter,
       };
 
       setLastSubmission(submission);
+      mutate(getPendingRequestsKey(station));
+      if (submission.success) {
+        askForNotificationPermission();
+      }
       return submission;
 
     } catch (error) {
-      const submission: RequestSubmission = {
+      // fetch only throws when the request never reached the server
+      const submission: RequestSubmission = await queueForLater(requestUrl, song) ?? {
         request_id: '',
         success: false,
         message: error instanceof Error ? error.message : 'Network error occurred',
@@ -170,7 +266,7 @@ export function useRequestSubmission() {
     } finally {
       setIsSubmitting(false);
     }
-  }, []);
+  }, [station, mutate, queueForLater]);
 
   const clearLastSubmission = useCallback(() => {
     setLastSubmission(null);
@@ -184,6 +280,130 @@ export function useRequestSubmission() {
   };
 }
 
+// Asks once, right after a successful request, so listeners can be told
+// when their song comes on while the tab is in the background
+function askForNotificationPermission(): void {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'default') return;
+
+  Notification.requestPermission().catch((error) => {
+    console.warn('[Requests] Notification permission request failed:', error);
+  });
+}
+
+function describeRequestUpdate({ type, request }: RequestUpdate): { title: string; description: string } {
+  const song = `"${request.title}" by ${request.artist}`;
+  return type === 'request_fulfilled'
+    ? { title: 'Your request is on air', description: `${song} is playing now.` }
+    : { title: 'Your request is up next', description: `${song} is coming up next.` };
+}
+
+const isWaiting = (request: ListenerRequest) => request.status === 'pending' || request.status === 'queued';
+
+// Hook that tells the listener when one of their own requests is queued or
+// starts playing. Updates arrive over SSE for every listener on the station,
+// so only those matching a request this listener is still waiting on count.
+export function useRequestNotifications(
+  station: string = DEFAULT_STATION_ID,
+  update: RequestUpdate | null
+) {
+  const { toast } = useToast();
+  // Only refreshed when an update arrives; the requests page polls on its own
+  const { requests, refresh } = usePendingRequests(station, 0);
+  const notifiedRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!update) return;
+
+    const own = requests.find((request) => request.id === update.request.id);
+    const key = `${update.type}:${update.request.id}`;
+    if (!own || !isWaiting(own) || notifiedRef.current.has(key)) return;
+    // Replayed on reconnect after the listener already knows it's queued
+    if (update.type === 'request_queued' && own.status === 'queued') return;
+
+    notifiedRef.current.add(key);
+    const { title, description } = describeRequestUpdate(update);
+    toast({ title, description });
+
+    if (
+      typeof Notification !== 'undefined' &&
+      Notification.permission === 'granted' &&
+      document.visibilityState === 'hidden'
+    ) {
+      try {
+        new Notification(title, { body: description, icon: update.request.art || undefined, tag: key });
+      } catch (error) {
+        // Some mobile browsers only allow notifications from a service worker
+        console.warn('[Requests] Could not show notification:', error);
+      }
+    }
+
+    refresh();
+  }, [update, requests, toast, refresh]);
+}
+
+function describeOutboxResult(result: OutboxResult): { title: string; description: string } {
+  const song = result.title ? `"${result.title}"${result.artist ? ` by ${result.artist}` : ''}` : 'Your song';
+  return result.success
+    ? { title: 'Offline request sent', description: `${song} has been requested.` }
+    : { title: 'Offline request failed', description: `${song}: ${result.message}` };
+}
+
+// Hook that shows the outcome of requests queued while offline. The service
+// worker replays them through Background Sync; where that isn't available
+// they're sent from the page when it loads.
+export function useRequestOutbox(station: string = DEFAULT_STATION_ID) {
+  const { toast } = useToast();
+  const { mutate } = useSWRConfig();
+
+  useEffect(() => {
+    if (!isOutboxSupported()) return;
+
+    let cancelled = false;
+    const showResults = async () => {
+      try {
+        const results = await takeResults(station);
+        if (cancelled || results.length === 0) return;
+
+        results.forEach((result) => {
+          const { title, description } = describeOutboxResult(result);
+          toast({ title, description, variant: result.success ? 'default' : 'destructive' });
+        });
+        mutate(getPendingRequestsKey(station));
+      } catch (error) {
+        console.warn('[Requests] Could not read queued request results:', error);
+      }
+    };
+
+    const replay = async () => {
+      try {
+        // Registering again is harmless and tells us whether the worker will do it
+        if (!(await registerOutboxSync())) {
+          await replayOutbox();
+        }
+      } catch (error) {
+        console.warn('[Requests] Replaying queued requests failed:', error);
+      }
+      await showResults();
+    };
+
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type === OUTBOX_RESULTS_MESSAGE) {
+        showResults();
+      }
+    };
+
+    replay();
+    navigator.serviceWorker?.addEventListener('message', handleMessage);
+    window.addEventListener('online', replay);
+
+    return () => {
+      cancelled = true;
+      navigator.serviceWorker?.removeEventListener('message', handleMessage);
+      window.removeEventListener('online', replay);
+    };
+  }, [station, toast, mutate]);
+}
+
 // Hook for search functionality with debouncing
 export function useRequestSearch(delay: number = 300) {
   const [searchTerm, setSearchTerm] = useState('');
@@ -2,8 +2,8 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import useSWR from 'swr';
-import type { ScheduleData, ScheduleEntry } from '@/lib/schedule-types';
-import { getCurrentScheduleEntry, getNextScheduleEntry } from '@/lib/schedule-types';
+import type { ScheduleData, ScheduleOccurrence } from '@/lib/schedule-types';
+import { DEFAULT_STATION_ID } from '@/lib/stations';
 
 const SCHEDULE_REFRESH_INTERVAL = 60000; // 1 minute
 
@@ -23,9 +23,19 @@ const fetcher = async (url: string): Promise<ScheduleData> => {
   return response.json();
 };
 
-export function useSchedule() {
+/** The listener's timezone, so the server groups days and formats times for them. */
+function getListenerTimezone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+export function useSchedule(station: string = DEFAULT_STATION_ID) {
+  const [timezone] = useState(getListenerTimezone);
   const { data, error, isLoading, mutate } = useSWR<ScheduleData>(
-    '/api/schedule',
+    `/api/schedule?station=${encodeURIComponent(station)}&tz=${encodeURIComponent(timezone)}`,
     fetcher,
     {
       refreshInterval: SCHEDULE_REFRESH_INTERVAL,
@@ -47,6 +57,8 @@ export function useSchedule() {
   return {
     scheduleData: data,
     entries: data?.entries || [],
+    days: data?.days || [],
+    timezone: data?.timezone ?? timezone,
     currentEntry: data?.currentEntry,
     nextEntry: data?.nextEntry,
     isLoading,
@@ -57,9 +69,9 @@ export function useSchedule() {
 }
 
 // Hook for getting upcoming schedule entries (next 24 hours)
-export function useUpcomingSchedule() {
-  const { scheduleData, isLoading, error, refresh } = useSchedule();
-  const [upcomingEntries, setUpcomingEntries] = useState<ScheduleEntry[]>([]);
+export function useUpcomingSchedule(station: string = DEFAULT_STATION_ID) {
+  const { scheduleData, isLoading, error, refresh } = useSchedule(station);
+  const [upcomingEntries, setUpcomingEntries] = useState<ScheduleOccurrence[]>([]);
 
   useEffect(() => {
     if (!scheduleData?.entries) {
@@ -67,12 +79,11 @@ export function useUpcomingSchedule() {
       return;
     }
 
-    const now = Date.now() / 1000;
-    const next24Hours = now + (24 * 60 * 60); // 24 hours from now
+    // startsIn is computed by the server, so a wrong client clock doesn't matter
+    const next24Hours = 24 * 60 * 60;
 
     const upcoming = scheduleData.entries
-      .filter(entry => entry.start_timestamp >= now && entry.start_timestamp <= next24Hours)
-      .sort((a, b) => a.start_timestamp - b.start_timestamp)
+      .filter(entry => entry.startsIn >= 0 && entry.startsIn <= next24Hours)
       .slice(0, 10); // Limit to next 10 entries
 
     setUpcomingEntries(upcoming);
@@ -87,8 +98,8 @@ export function useUpcomingSchedule() {
 }
 
 // Hook for current schedule status
-export function useCurrentSchedule() {
-  const { scheduleData, isLoading, error, refresh } = useSchedule();
+export function useCurrentSchedule(station: string = DEFAULT_STATION_ID) {
+  const { scheduleData, isLoading, error, refresh } = useSchedule(station);
   const [timeRemaining, setTimeRemaining] = useState<number>(0);
 
   useEffect(() => {
@@ -97,9 +108,11 @@ export function useCurrentSchedule() {
       return;
     }
 
+    // Count down from the server's clock rather than trusting the client's
+    const receivedAt = Date.now() / 1000;
     const updateTimeRemaining = () => {
-      const now = Date.now() / 1000;
-      const remaining = scheduleData.currentEntry!.end_timestamp - now;
+      const serverNow = scheduleData.generatedAt + (Date.now() / 1000 - receivedAt);
+      const remaining = scheduleData.currentEntry!.end_timestamp - serverNow;
       setTimeRemaining(Math.max(0, remaining));
     };
 
@@ -107,7 +120,7 @@ export function useCurrentSchedule() {
     const interval = setInterval(updateTimeRemaining, 1000);
 
     return () => clearInterval(interval);
-  }, [scheduleData?.currentEntry]);
+  }, [scheduleData?.currentEntry, scheduleData?.generatedAt]);
 
   return {
     currentEntry: scheduleData?.currentEntry,
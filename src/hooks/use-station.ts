@@ -0,0 +1,34 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { DEFAULT_STATION_ID, STATIONS, isKnownStation } from '@/lib/stations';
+
+const STATION_STORAGE_KEY = 'oadro_station';
+
+// Hook for the listener's selected station, persisted across visits
+export function useStationSelection() {
+  const [station, setStationState] = useState<string>(DEFAULT_STATION_ID);
+
+  // Load the saved station from localStorage on mount
+  useEffect(() => {
+    const savedStation = localStorage.getItem(STATION_STORAGE_KEY);
+    if (savedStation && isKnownStation(savedStation)) {
+      setStationState(savedStation);
+    }
+  }, []); // Runs once on client mount
+
+  const setStation = useCallback((nextStation: string) => {
+    if (!isKnownStation(nextStation)) {
+      console.warn(`[Station] Ignoring unknown station "${nextStation}"`);
+      return;
+    }
+    setStationState(nextStation);
+    localStorage.setItem(STATION_STORAGE_KEY, nextStation);
+  }, []);
+
+  return {
+    station,
+    stations: STATIONS,
+    setStation,
+  };
+}
@@ -0,0 +1,10 @@
+/**
+ * Runs once when a server process starts.
+ */
+export async function register() {
+  // Node-only transports can't load in the edge runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { configureServerLogging } = await import('./lib/logging');
+    configureServerLogging();
+  }
+}
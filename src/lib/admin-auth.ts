@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Bearer token checks for the admin and metrics APIs.
+ *
+ * Admin routes are protected by a single shared token from `ADMIN_API_TOKEN`.
+ * Without it configured, every admin request is refused. `/api/metrics`
+ * only asks for a token when `METRICS_TOKEN` is set.
+ */
+
+import crypto from 'crypto';
+import type { NextRequest } from 'next/server';
+import { ADMIN_API_TOKEN, METRICS_TOKEN } from './env';
+import { ForbiddenError, UnauthorizedError } from './errors/api-errors';
+
+function tokensMatch(given: string, expected: string): boolean {
+  // Compare digests so the comparison takes the same time whatever the length
+  const a = crypto.createHash('sha256').update(given).digest();
+  const b = crypto.createHash('sha256').update(expected).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+function requireBearerToken(request: NextRequest, expected: string, name: string): void {
+  const match = /^Bearer\s+(.+)$/i.exec(request.headers.get('authorization') ?? '');
+  if (!match) {
+    throw new UnauthorizedError(`Missing ${name}`);
+  }
+
+  if (!tokensMatch(match[1].trim(), expected)) {
+    throw new ForbiddenError(`Invalid ${name}`);
+  }
+}
+
+/**
+ * Checks the request's `Authorization: Bearer <token>` header.
+ *
+ * @throws UnauthorizedError if no token was sent
+ * @throws ForbiddenError if the token is wrong or the admin API is disabled
+ */
+export function requireAdmin(request: NextRequest): void {
+  if (!ADMIN_API_TOKEN) {
+    throw new ForbiddenError('The admin API is disabled. Set ADMIN_API_TOKEN to enable it.');
+  }
+
+  requireBearerToken(request, ADMIN_API_TOKEN, 'admin token');
+}
+
+/**
+ * Checks the metrics token, if one is configured.
+ *
+ * @throws UnauthorizedError if no token was sent
+ * @throws ForbiddenError if the token is wrong
+ */
+export function requireMetricsAccess(request: NextRequest): void {
+  if (!METRICS_TOKEN) return;
+
+  requireBearerToken(request, METRICS_TOKEN, 'metrics token');
+}
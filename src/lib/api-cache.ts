@@ -4,6 +4,8 @@
 
 import useSWR from 'swr';
 import { AZURACAST_BASE_URL, AZURACAST_STATION_NAME } from './config';
+import { API_ROUTES } from './constants';
+import type { ProviderNowPlaying } from './providers';
 
 // Cache configuration for different data types
 const CACHE_CONFIG = {
@@ -61,11 +63,18 @@ const fetcher = async (url: string) => {
   }
 };
 
+// Now playing is normalised by the radio provider on the server
+const nowPlayingFetcher = (url: string): Promise<ProviderNowPlaying> => fetcher(url);
+
+function getNowPlayingUrl(station: string): string {
+  return `${API_ROUTES.RADIO_META}?station=${encodeURIComponent(station)}`;
+}
+
 // Hook for now playing data with optimized caching
-export function useNowPlaying() {
+export function useNowPlaying(station: string = AZURACAST_STATION_NAME) {
   const { data, error, isLoading, mutate } = useSWR(
-    `${AZURACAST_BASE_URL}/api/nowplaying/${AZURACAST_STATION_NAME}`,
-    fetcher,
+    getNowPlayingUrl(station),
+    nowPlayingFetcher,
     {
       ...CACHE_CONFIG.nowPlaying,
       onError: (error) => {
@@ -73,16 +82,16 @@ export function useNowPlaying() {
       },
       onSuccess: (data) => {
         // Prefetch album art if available
-        if (data?.now_playing?.song?.art) {
+        if (data.liveSong?.albumArt) {
           const img = new Image();
-          img.src = data.now_playing.song.art;
+          img.src = data.liveSong.albumArt;
         }
       },
     }
   );
 
   return {
-    data: data ? transformNowPlayingData(data) : null,
+    data: data ?? null,
     error,
     isLoading,
     refresh: mutate,
@@ -90,9 +99,9 @@ export function useNowPlaying() {
 }
 
 // Hook for station information with longer cache
-export function useStationInfo() {
+export function useStationInfo(station: string = AZURACAST_STATION_NAME) {
   const { data, error, isLoading } = useSWR(
-    `${AZURACAST_BASE_URL}/api/station/${AZURACAST_STATION_NAME}`,
+    `${AZURACAST_BASE_URL}/api/station/${station}`,
     fetcher,
     CACHE_CONFIG.stationInfo
   );
@@ -104,70 +113,21 @@ export function useStationInfo() {
   };
 }
 
-// Transform AzuraCast data to our internal format
-function transformNowPlayingData(data: any) {
-  if (!data) return null;
-
-  const nowPlaying = data.now_playing;
-  const song = nowPlaying?.song;
-
-  return {
-    liveSong: {
-      id: nowPlaying?.sh_id || Date.now(),
-      songId: song?.id,
-      title: song?.title || 'Unknown Title',
-      artist: song?.artist || 'Unknown Artist',
-      albumArt: song?.art,
-      genre: song?.genre,
-      duration: nowPlaying?.duration || 0,
-      elapsed: nowPlaying?.elapsed || 0,
-      played_at: nowPlaying?.played_at,
-      interactionCount: 0,
-      creatorDiscordId: song?.custom_fields?.creator_discord_id || null,
-      playlists: nowPlaying?.playlist ? [nowPlaying.playlist] : [],
-    },
-    upNext: data.playing_next ? [transformSong(data.playing_next)] : [],
-    recentlyPlayed: (data.song_history || []).slice(0, 5).map(transformSong),
-    listenerCount: data.listeners?.current || 0,
-    isOnline: data.is_online || false,
-  };
-}
-
-function transformSong(songData: any) {
-  if (!songData?.song) return null;
-
-  return {
-    id: songData.sh_id || songData.cued_at || Date.now(),
-    songId: songData.song.id,
-    title: songData.song.title || 'Unknown Title',
-    artist: songData.song.artist || 'Unknown Artist',
-    albumArt: songData.song.art,
-    genre: songData.song.genre,
-    duration: songData.duration || 0,
-    elapsed: songData.elapsed || 0,
-    played_at: songData.played_at,
-    interactionCount: songData.interaction_count || 0,
-    creatorDiscordId: songData.song.custom_fields?.creator_discord_id || null,
-    playlists: songData.playlist ? [songData.playlist] : [],
-  };
-}
-
 // Preload critical data
-export function preloadNowPlaying() {
+export function preloadNowPlaying(station: string = AZURACAST_STATION_NAME) {
   // This will populate the SWR cache before components mount
-  return fetcher(`${AZURACAST_BASE_URL}/api/nowplaying/${AZURACAST_STATION_NAME}`)
-    .then(transformNowPlayingData)
+  return nowPlayingFetcher(getNowPlayingUrl(station))
     .catch(() => null);
 }
 
 // Cache warming function for initial load
-export async function warmCache() {
+export async function warmCache(station: string = AZURACAST_STATION_NAME) {
   try {
     // Preload now playing data
-    await preloadNowPlaying();
+    await preloadNowPlaying(station);
     
     // Preload station info
-    await fetcher(`${AZURACAST_BASE_URL}/api/station/${AZURACAST_STATION_NAME}`);
+    await fetcher(`${AZURACAST_BASE_URL}/api/station/${station}`);
     
     console.log('[API Cache] Cache warmed successfully');
   } catch (error) {
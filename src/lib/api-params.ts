@@ -0,0 +1,48 @@
+/**
+ * @fileoverview Parsing of API route input shared by several routes.
+ *
+ * Everything here throws a {@link ValidationError} for input the client got
+ * wrong, so routes answer with a 400 rather than failing on it later.
+ */
+
+import { ValidationError } from './errors/api-errors';
+
+/**
+ * Reads a request body that must be a JSON object.
+ *
+ * @throws ValidationError if the body isn't JSON, or is JSON but not an object
+ */
+export async function readJsonObject(request: Request): Promise<Record<string, unknown>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new ValidationError('Request body must be JSON');
+  }
+
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new ValidationError('Request body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+}
+
+/**
+ * Parses a timestamp query parameter given either as unix seconds or as an
+ * ISO 8601 string.
+ *
+ * @param name the parameter's name, for the error message
+ * @returns unix seconds, or undefined if the parameter is missing
+ */
+export function parseTimestamp(value: string | null, name: string): number | undefined {
+  if (!value) return undefined;
+
+  if (/^\d+$/.test(value)) {
+    return parseInt(value, 10);
+  }
+
+  const parsed = Date.parse(value);
+  if (isNaN(parsed)) {
+    throw new ValidationError(`Invalid ${name} timestamp: ${value}`);
+  }
+  return Math.floor(parsed / 1000);
+}
@@ -0,0 +1,231 @@
+/**
+ * @fileoverview Validated parsing of AzuraCast now-playing payloads.
+ *
+ * This is the single place that turns AzuraCast's `/api/nowplaying/{station}`
+ * (and SSE `pub.data.np`) payloads into our `NowPlaying` shape. Payloads are
+ * checked against a small schema first, and a validation error names the
+ * field that failed, e.g. `now_playing.song.title: expected string, got number`.
+ */
+
+import { UI } from './constants';
+import type {
+  AzuracastNowPlaying,
+  AzuracastNowPlayingSong,
+  AzuracastSongHistoryItem,
+  NowPlaying,
+  OnDemandLinks,
+  Song,
+} from './types';
+
+export class AzuraCastValidationError extends Error {
+  constructor(public readonly path: string, public readonly reason: string) {
+    super(`${path || '<root>'}: ${reason}`);
+    this.name = 'AzuraCastValidationError';
+  }
+}
+
+// --- Minimal schema combinators ---
+
+type Schema<T> = (value: unknown, path: string) => T;
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function primitive<T>(type: 'string' | 'number' | 'boolean'): Schema<T> {
+  return (value, path) => {
+    if (typeof value !== type || (type === 'number' && !Number.isFinite(value))) {
+      throw new AzuraCastValidationError(path, `expected ${type}, got ${describe(value)}`);
+    }
+    return value as T;
+  };
+}
+
+const string = primitive<string>('string');
+const number = primitive<number>('number');
+const boolean = primitive<boolean>('boolean');
+
+function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path) => (value === undefined ? undefined : schema(value, path));
+}
+
+function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return (value, path) => (value === null || value === undefined ? null : schema(value, path));
+}
+
+function array<T>(schema: Schema<T>): Schema<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) {
+      throw new AzuraCastValidationError(path, `expected array, got ${describe(value)}`);
+    }
+    return value.map((item, index) => schema(item, `${path}[${index}]`));
+  };
+}
+
+function record<T>(schema: Schema<T>): Schema<Record<string, T>> {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new AzuraCastValidationError(path, `expected object, got ${describe(value)}`);
+    }
+    const result: Record<string, T> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = schema(item, path ? `${path}.${key}` : key);
+    }
+    return result;
+  };
+}
+
+function object<T extends object>(shape: { [K in keyof T]: Schema<T[K]> }): Schema<T> {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new AzuraCastValidationError(path, `expected object, got ${describe(value)}`);
+    }
+
+    // Unknown fields are ignored so upstream additions don't break parsing
+    const result = {} as T;
+    for (const key of Object.keys(shape) as Array<keyof T>) {
+      const fieldPath = path ? `${path}.${String(key)}` : String(key);
+      const field = shape[key]((value as Record<string, unknown>)[key as string], fieldPath);
+      if (field !== undefined) {
+        result[key] = field;
+      }
+    }
+    return result;
+  };
+}
+
+// --- AzuraCast schemas ---
+
+const songSchema = object<AzuracastNowPlayingSong>({
+  id: string,
+  title: string,
+  artist: string,
+  art: string,
+  genre: optional(string),
+  custom_fields: optional(
+    // AzuraCast sends an empty array instead of an object when no fields are set
+    (value, path) => (Array.isArray(value) && value.length === 0 ? {} : record(nullable(string))(value, path))
+  ),
+});
+
+const historyItemSchema = object<AzuracastSongHistoryItem>({
+  sh_id: number,
+  played_at: number,
+  duration: number,
+  playlist: optional(nullable(string)),
+  song: songSchema,
+});
+
+const nowPlayingSchema = object<AzuracastNowPlaying>({
+  is_online: boolean,
+  listeners: object({ current: number }),
+  now_playing: nullable(
+    object<NonNullable<AzuracastNowPlaying['now_playing']>>({
+      sh_id: number,
+      played_at: number,
+      duration: number,
+      elapsed: number,
+      playlist: optional(nullable(string)),
+      song: songSchema,
+      interaction_count: optional(number),
+    })
+  ),
+  playing_next: nullable(
+    object<NonNullable<AzuracastNowPlaying['playing_next']>>({
+      cued_at: number,
+      duration: number,
+      playlist: optional(nullable(string)),
+      song: songSchema,
+    })
+  ),
+  song_history: (value, path) => (value === undefined ? [] : array(historyItemSchema)(value, path)),
+});
+
+/**
+ * Validates a now-playing payload from AzuraCast.
+ *
+ * @throws AzuraCastValidationError naming the first field that doesn't match
+ */
+export function parseAzuraCastNowPlaying(value: unknown): AzuracastNowPlaying {
+  return nowPlayingSchema(value, '');
+}
+
+// --- Transforms ---
+
+const ON_DEMAND_FIELDS: ReadonlyArray<keyof OnDemandLinks> = [
+  'song_suno',
+  'song_youtube',
+  'song_spotify',
+  'song_soundcloud',
+  'song_bandcamp',
+];
+
+/**
+ * Extracts on-demand platform links from a song's custom fields, or null if
+ * none are set.
+ */
+export function toOnDemandLinks(customFields: AzuracastNowPlayingSong['custom_fields']): OnDemandLinks | null {
+  if (!customFields) return null;
+
+  const links: OnDemandLinks = {};
+  let hasLinks = false;
+  for (const field of ON_DEMAND_FIELDS) {
+    const url = customFields[field];
+    links[field] = url || null;
+    hasLinks ||= Boolean(url);
+  }
+  return hasLinks ? links : null;
+}
+
+function toSong(
+  id: number,
+  song: AzuracastNowPlayingSong,
+  details: { duration: number; elapsed?: number; played_at?: number; playlist?: string | null; interaction_count?: number }
+): Song {
+  return {
+    id,
+    songId: song.id,
+    title: song.title || 'Unknown Title',
+    artist: song.artist || 'Unknown Artist',
+    albumArt: song.art,
+    genre: song.genre || '',
+    duration: details.duration,
+    elapsed: details.elapsed ?? 0,
+    played_at: details.played_at,
+    interactionCount: details.interaction_count ?? 0,
+    creatorDiscordId: song.custom_fields?.creator_discord_id || null,
+    playlists: details.playlist ? [details.playlist] : [],
+    onDemand: toOnDemandLinks(song.custom_fields),
+  };
+}
+
+/**
+ * Converts a validated AzuraCast payload to our normalised `NowPlaying`.
+ */
+export function toNowPlaying(
+  data: AzuracastNowPlaying,
+  recentLimit: number = UI.RECENT_SONGS_COUNT
+): NowPlaying {
+  const { now_playing: np, playing_next: next } = data;
+
+  return {
+    liveSong: np ? toSong(np.sh_id, np.song, np) : null,
+    upNext: next ? [toSong(next.cued_at, next.song, next)] : [],
+    recentlyPlayed: data.song_history
+      .slice(0, recentLimit)
+      .map((item) => toSong(item.sh_id, item.song, item)),
+    listenerCount: data.listeners.current,
+  };
+}
+
+/**
+ * Validates and converts a raw payload in one step.
+ *
+ * @throws AzuraCastValidationError if the payload doesn't match the schema
+ */
+export function parseNowPlaying(value: unknown, recentLimit?: number): NowPlaying & { isOnline: boolean } {
+  const data = parseAzuraCastNowPlaying(value);
+  return { ...toNowPlaying(data, recentLimit), isOnline: data.is_online };
+}
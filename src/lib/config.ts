@@ -6,6 +6,7 @@
 import type { VisualizerConfig } from './types';
 
 import { NEXT_PUBLIC_AZURACAST_BASE_URL, NEXT_PUBLIC_AZURACAST_STATION_NAME } from './env';
+import { getRadioProvider, type StreamFormat } from './providers';
 
 // --- AzuraCast Connection ---
 // Base URL and station name are validated from environment variables
@@ -13,10 +14,24 @@ export const AZURACAST_BASE_URL = NEXT_PUBLIC_AZURACAST_BASE_URL;
 export const AZURACAST_STATION_NAME = NEXT_PUBLIC_AZURACAST_STATION_NAME;
 
 // --- Radio Stream URLs ---
-// These are now derived from the base configuration for consistency.
-export const HLS_STREAM_URL = `${AZURACAST_BASE_URL}/hls/${AZURACAST_STATION_NAME}/live.m3u8`;
-export const MP3_320_STREAM_URL = `${AZURACAST_BASE_URL}/listen/${AZURACAST_STATION_NAME}/320kbps.mp3`;
-export const MP3_192_STREAM_URL = `${AZURACAST_BASE_URL}/listen/${AZURACAST_STATION_NAME}/radio.mp3`;
+// These are derived per station by the configured radio provider.
+export type { StreamFormat };
+
+export function getStreamUrl(station: string, format: StreamFormat): string {
+  return getRadioProvider().getStreamUrl(station, format);
+}
+
+/** Infers which stream format a stream URL points at. */
+export function getStreamFormat(streamUrl: string): StreamFormat {
+  if (streamUrl.endsWith('.m3u8')) return 'hls';
+  if (streamUrl.includes('320kbps')) return 'mp3_320';
+  return 'mp3_192';
+}
+
+// Stream URLs for the default station
+export const HLS_STREAM_URL = getStreamUrl(AZURACAST_STATION_NAME, 'hls');
+export const MP3_320_STREAM_URL = getStreamUrl(AZURACAST_STATION_NAME, 'mp3_320');
+export const MP3_192_STREAM_URL = getStreamUrl(AZURACAST_STATION_NAME, 'mp3_192');
 
 // --- Audio Processing ---
 /** Must be a power of 2 between 32 and 32768. Determines frequency resolution. */
@@ -9,6 +9,13 @@
 export const API_ROUTES = {
   RADIO_STREAM: '/api/radio-stream',
   RADIO_META: '/api/radio-meta',
+  HISTORY: '/api/history',
+  REQUESTS: '/api/requests',
+  REQUESTS_SUBMIT: '/api/requests/submit',
+  REQUESTS_PENDING: '/api/requests/pending',
+  SCHEDULE_ICS: '/api/schedule.ics',
+  REMINDERS: '/api/reminders',
+  ADMIN_REQUESTS: '/api/admin/requests',
   // Removed unused API routes for simplified version
 };
 
@@ -37,11 +44,31 @@ export const UI = {
   ANIMATION_DURATION: 0.5,
 };
 
+// Song request limits enforced by the request ledger (in seconds)
+export const REQUEST_LIMITS = {
+  // Minimum time between two requests from the same listener
+  COOLDOWN_SECONDS: 5 * 60,
+
+  // A song can't be requested again this soon after it was played or requested
+  REPEAT_WINDOW_SECONDS: 60 * 60,
+
+  // Requests a listener can have waiting to be played at once
+  MAX_PENDING_PER_LISTENER: 2,
+
+  // Requests all listeners behind one address can have waiting at once. Kept
+  // well above the per-listener cap, as a whole household or NAT may share it
+  MAX_PENDING_PER_ADDRESS: 10,
+
+  // Pending requests are given up on after this long
+  PENDING_EXPIRY_SECONDS: 3 * 60 * 60,
+};
+
 // Default export for easier importing of all constants
 const constants = {
   API_ROUTES,
   TIME,
   UI,
+  REQUEST_LIMITS,
 };
 
 export default constants;
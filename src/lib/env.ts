@@ -3,13 +3,49 @@
  * This ensures all required environment variables are present and valid
  */
 
+import { isLogLevel, type LogLevel } from './logger';
+
 interface EnvConfig {
   NEXT_PUBLIC_AZURACAST_BASE_URL: string;
   NEXT_PUBLIC_AZURACAST_STATION_NAME: string;
+  NEXT_PUBLIC_AZURACAST_STATIONS: string;
+  NEXT_PUBLIC_RADIO_PROVIDER: 'azuracast' | 'icecast';
+  NEXT_PUBLIC_ICECAST_BASE_URL: string;
   NODE_ENV: 'development' | 'production' | 'test';
   PORT?: string;
+  PLAY_HISTORY_DIR: string;
+  PUBSUB_ADAPTER: 'memory' | 'socket';
+  PUBSUB_SOCKET_PATH: string;
+  LOCK_STORE: 'memory' | 'file';
+  LOCK_DIR: string;
+  REQUEST_DATA_DIR: string;
+  ADMIN_API_TOKEN: string;
+  METRICS_TOKEN: string;
+  VAPID_PUBLIC_KEY: string;
+  VAPID_PRIVATE_KEY: string;
+  VAPID_SUBJECT: string;
+  PUSH_REMINDER_LEAD_MINUTES: number;
+  PUSH_DATA_DIR: string;
+  RATE_LIMIT_STORE: 'memory' | 'redis';
+  RATE_LIMIT_REDIS_URL: string;
+  RATE_LIMIT_POLICIES_FILE: string;
+  SSE_MAX_CONNECTIONS: number;
+  SSE_MAX_CONNECTIONS_PER_CLIENT: number;
+  SSE_IDLE_TIMEOUT_SECONDS: number;
+  HEALTH_CHECK_TIMEOUT_MS: number;
+  HEALTH_CHECK_CACHE_SECONDS: number;
+  LOG_LEVEL: LogLevel | '';
+  LOG_LEVELS: string;
+  LOG_TRANSPORTS: LogTransportName[];
+  LOG_FILE_PATH: string;
+  LOG_FILE_MAX_MB: number;
+  LOG_FILE_MAX_FILES: number;
+  LOG_HTTP_URL: string;
+  LOG_HTTP_TOKEN: string;
 }
 
+type LogTransportName = 'stdout' | 'file' | 'http';
+
 function validateUrl(url: string, name: string): string {
   try {
     new URL(url);
@@ -34,6 +70,208 @@ function validateString(value: string | undefined, name: string, required = true
   return value.trim();
 }
 
+function validateStationList(value: string | undefined, name: string): string {
+  if (!value) return '';
+
+  for (const entry of value.split(',')) {
+    // Stray commas, as in "a,b,", are ignored like they are by parseStations
+    if (!entry.trim()) continue;
+
+    const [shortcode] = entry.split(':');
+    if (!/^[a-z0-9_-]+$/i.test(shortcode.trim())) {
+      throw new Error(`Invalid station shortcode in ${name}: "${entry.trim()}"`);
+    }
+  }
+
+  return value.trim();
+}
+
+function validatePubSubAdapter(value: string | undefined): 'memory' | 'socket' {
+  if (!value) return 'memory';
+
+  if (value !== 'memory' && value !== 'socket') {
+    throw new Error(`Invalid PUBSUB_ADAPTER: ${value}. Must be 'memory' or 'socket'`);
+  }
+
+  return value;
+}
+
+function validateRadioProvider(value: string | undefined): 'azuracast' | 'icecast' {
+  if (!value) return 'azuracast';
+
+  if (value !== 'azuracast' && value !== 'icecast') {
+    throw new Error(`Invalid NEXT_PUBLIC_RADIO_PROVIDER: ${value}. Must be 'azuracast' or 'icecast'`);
+  }
+
+  return value;
+}
+
+function validateIcecastBaseUrl(
+  value: string | undefined,
+  radioProvider: 'azuracast' | 'icecast'
+): string {
+  if (!value) {
+    if (radioProvider === 'icecast') {
+      throw new Error('Missing required environment variable: NEXT_PUBLIC_ICECAST_BASE_URL');
+    }
+    return '';
+  }
+
+  return validateUrl(value.replace(/\/+$/, ''), 'NEXT_PUBLIC_ICECAST_BASE_URL');
+}
+
+function validateLockStore(
+  value: string | undefined,
+  pubSubAdapter: 'memory' | 'socket'
+): 'memory' | 'file' {
+  // Processes only need a shared lease when they share events
+  if (!value) return pubSubAdapter === 'socket' ? 'file' : 'memory';
+
+  if (value !== 'memory' && value !== 'file') {
+    throw new Error(`Invalid LOCK_STORE: ${value}. Must be 'memory' or 'file'`);
+  }
+
+  return value;
+}
+
+function validateRateLimitStore(value: string | undefined): 'memory' | 'redis' {
+  if (!value) return 'memory';
+
+  if (value !== 'memory' && value !== 'redis') {
+    throw new Error(`Invalid RATE_LIMIT_STORE: ${value}. Must be 'memory' or 'redis'`);
+  }
+
+  return value;
+}
+
+function validateRedisUrl(value: string | undefined, rateLimitStore: 'memory' | 'redis'): string {
+  if (!value) {
+    if (rateLimitStore === 'redis') {
+      throw new Error('Missing required environment variable: RATE_LIMIT_REDIS_URL');
+    }
+    return '';
+  }
+
+  const url = validateUrl(value.trim(), 'RATE_LIMIT_REDIS_URL');
+  if (!/^rediss?:\/\//.test(url)) {
+    throw new Error('RATE_LIMIT_REDIS_URL must be a redis:// or rediss:// URL');
+  }
+
+  return url;
+}
+
+function validateBearerToken(value: string | undefined, name: string): string {
+  if (!value) return '';
+
+  // The token is the only thing guarding its API, so refuse weak ones
+  if (value.trim().length < 24) {
+    throw new Error(`${name} must be at least 24 characters long`);
+  }
+
+  return value.trim();
+}
+
+function validateVapidKeys(
+  publicKey: string | undefined,
+  privateKey: string | undefined
+): { publicKey: string; privateKey: string } {
+  if (!publicKey && !privateKey) return { publicKey: '', privateKey: '' };
+  if (!publicKey || !privateKey) {
+    throw new Error('VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY must be set together');
+  }
+
+  // Raw P-256 keys: an uncompressed public point and a private scalar
+  if (Buffer.from(publicKey.trim(), 'base64url').length !== 65) {
+    throw new Error('VAPID_PUBLIC_KEY must be a base64url-encoded uncompressed P-256 public key');
+  }
+  if (Buffer.from(privateKey.trim(), 'base64url').length !== 32) {
+    throw new Error('VAPID_PRIVATE_KEY must be a base64url-encoded P-256 private key');
+  }
+
+  return { publicKey: publicKey.trim(), privateKey: privateKey.trim() };
+}
+
+function validateVapidSubject(value: string | undefined): string {
+  if (!value) return 'https://radio.oadro.com';
+
+  if (!/^(mailto:|https:\/\/)/.test(value.trim())) {
+    throw new Error(`Invalid VAPID_SUBJECT: ${value}. Must be a mailto: or https: URL`);
+  }
+
+  return value.trim();
+}
+
+function validateReminderLeadMinutes(value: string | undefined): number {
+  if (!value) return 10;
+
+  const minutes = parseInt(value, 10);
+  if (isNaN(minutes) || minutes < 1 || minutes > 1440) {
+    throw new Error(`Invalid PUSH_REMINDER_LEAD_MINUTES: ${value}. Must be between 1 and 1440`);
+  }
+
+  return minutes;
+}
+
+function validateLogLevel(value: string | undefined, name: string): LogLevel | '' {
+  if (!value) return '';
+
+  if (!isLogLevel(value)) {
+    throw new Error(`Invalid ${name}: ${value}. Must be 'debug', 'info', 'warn' or 'error'`);
+  }
+
+  return value;
+}
+
+// "Context=level" pairs separated by commas, e.g. "RadioWorker=debug,HTTP=warn"
+function validateLogLevels(value: string | undefined): string {
+  if (!value) return '';
+
+  for (const entry of value.split(',')) {
+    if (!entry.trim()) continue;
+
+    const [context, level] = entry.split('=').map((part) => part.trim());
+    if (!context || !level) {
+      throw new Error(`Invalid LOG_LEVELS entry: ${entry}. Expected "Context=level"`);
+    }
+    validateLogLevel(level, `LOG_LEVELS level for ${context}`);
+  }
+
+  return value.trim();
+}
+
+function validateLogTransports(value: string | undefined, httpUrl: string | undefined): LogTransportName[] {
+  if (!value) return ['stdout'];
+
+  const transports = [...new Set(value.split(',').map((name) => name.trim()).filter(Boolean))];
+  for (const transport of transports) {
+    if (transport !== 'stdout' && transport !== 'file' && transport !== 'http') {
+      throw new Error(`Invalid LOG_TRANSPORTS entry: ${transport}. Must be 'stdout', 'file' or 'http'`);
+    }
+  }
+  if (transports.includes('http') && !httpUrl) {
+    throw new Error('Missing required environment variable: LOG_HTTP_URL');
+  }
+
+  return transports as LogTransportName[];
+}
+
+function validateIntegerInRange(
+  value: string | undefined,
+  name: string,
+  fallback: number,
+  min: number,
+  max: number
+): number {
+  if (!value) return fallback;
+
+  const number = parseInt(value, 10);
+  if (isNaN(number) || number < min || number > max) {
+    throw new Error(`Invalid ${name}: ${value}. Must be between ${min} and ${max}`);
+  }
+
+  return number;
+}
+
 function validateNodeEnv(value: string | undefined): 'development' | 'production' | 'test' {
   const validEnvs = ['development', 'production', 'test'] as const;
   
@@ -59,6 +297,11 @@ function validatePort(value: string | undefined): string | undefined {
 // Validate and export environment configuration
 function createEnvConfig(): EnvConfig {
   try {
+    const pubSubAdapter = validatePubSubAdapter(process.env.PUBSUB_ADAPTER);
+    const radioProvider = validateRadioProvider(process.env.NEXT_PUBLIC_RADIO_PROVIDER);
+    const vapidKeys = validateVapidKeys(process.env.VAPID_PUBLIC_KEY, process.env.VAPID_PRIVATE_KEY);
+    const rateLimitStore = validateRateLimitStore(process.env.RATE_LIMIT_STORE);
+
     const config: EnvConfig = {
       NEXT_PUBLIC_AZURACAST_BASE_URL: validateUrl(
         process.env.NEXT_PUBLIC_AZURACAST_BASE_URL || 'https://radio.oadro.com',
@@ -68,8 +311,92 @@ function createEnvConfig(): EnvConfig {
         process.env.NEXT_PUBLIC_AZURACAST_STATION_NAME || 'oadro',
         'NEXT_PUBLIC_AZURACAST_STATION_NAME'
       ),
+      NEXT_PUBLIC_AZURACAST_STATIONS: validateStationList(
+        process.env.NEXT_PUBLIC_AZURACAST_STATIONS,
+        'NEXT_PUBLIC_AZURACAST_STATIONS'
+      ),
+      NEXT_PUBLIC_RADIO_PROVIDER: radioProvider,
+      NEXT_PUBLIC_ICECAST_BASE_URL: validateIcecastBaseUrl(
+        process.env.NEXT_PUBLIC_ICECAST_BASE_URL,
+        radioProvider
+      ),
       NODE_ENV: validateNodeEnv(process.env.NODE_ENV),
-      PORT: validatePort(process.env.PORT)
+      PORT: validatePort(process.env.PORT),
+      PLAY_HISTORY_DIR: validateString(
+        process.env.PLAY_HISTORY_DIR || '.data/play-history',
+        'PLAY_HISTORY_DIR'
+      ),
+      PUBSUB_ADAPTER: pubSubAdapter,
+      PUBSUB_SOCKET_PATH: validateString(
+        process.env.PUBSUB_SOCKET_PATH || '.data/pubsub.sock',
+        'PUBSUB_SOCKET_PATH'
+      ),
+      LOCK_STORE: validateLockStore(process.env.LOCK_STORE, pubSubAdapter),
+      LOCK_DIR: validateString(
+        process.env.LOCK_DIR || '.data/locks',
+        'LOCK_DIR'
+      ),
+      REQUEST_DATA_DIR: validateString(
+        process.env.REQUEST_DATA_DIR || '.data/requests',
+        'REQUEST_DATA_DIR'
+      ),
+      ADMIN_API_TOKEN: validateBearerToken(process.env.ADMIN_API_TOKEN, 'ADMIN_API_TOKEN'),
+      METRICS_TOKEN: validateBearerToken(process.env.METRICS_TOKEN, 'METRICS_TOKEN'),
+      VAPID_PUBLIC_KEY: vapidKeys.publicKey,
+      VAPID_PRIVATE_KEY: vapidKeys.privateKey,
+      VAPID_SUBJECT: validateVapidSubject(process.env.VAPID_SUBJECT),
+      PUSH_REMINDER_LEAD_MINUTES: validateReminderLeadMinutes(process.env.PUSH_REMINDER_LEAD_MINUTES),
+      PUSH_DATA_DIR: validateString(
+        process.env.PUSH_DATA_DIR || '.data/push',
+        'PUSH_DATA_DIR'
+      ),
+      RATE_LIMIT_STORE: rateLimitStore,
+      RATE_LIMIT_REDIS_URL: validateRedisUrl(process.env.RATE_LIMIT_REDIS_URL, rateLimitStore),
+      RATE_LIMIT_POLICIES_FILE: validateString(
+        process.env.RATE_LIMIT_POLICIES_FILE,
+        'RATE_LIMIT_POLICIES_FILE',
+        false
+      ),
+      SSE_MAX_CONNECTIONS: validateIntegerInRange(process.env.SSE_MAX_CONNECTIONS, 'SSE_MAX_CONNECTIONS', 1000, 1, 100000),
+      SSE_MAX_CONNECTIONS_PER_CLIENT: validateIntegerInRange(
+        process.env.SSE_MAX_CONNECTIONS_PER_CLIENT,
+        'SSE_MAX_CONNECTIONS_PER_CLIENT',
+        5,
+        1,
+        1000
+      ),
+      SSE_IDLE_TIMEOUT_SECONDS: validateIntegerInRange(
+        process.env.SSE_IDLE_TIMEOUT_SECONDS,
+        'SSE_IDLE_TIMEOUT_SECONDS',
+        30 * 60,
+        30,
+        24 * 60 * 60
+      ),
+      HEALTH_CHECK_TIMEOUT_MS: validateIntegerInRange(
+        process.env.HEALTH_CHECK_TIMEOUT_MS,
+        'HEALTH_CHECK_TIMEOUT_MS',
+        5000,
+        100,
+        60000
+      ),
+      HEALTH_CHECK_CACHE_SECONDS: validateIntegerInRange(
+        process.env.HEALTH_CHECK_CACHE_SECONDS,
+        'HEALTH_CHECK_CACHE_SECONDS',
+        10,
+        0,
+        300
+      ),
+      LOG_LEVEL: validateLogLevel(process.env.LOG_LEVEL, 'LOG_LEVEL'),
+      LOG_LEVELS: validateLogLevels(process.env.LOG_LEVELS),
+      LOG_TRANSPORTS: validateLogTransports(process.env.LOG_TRANSPORTS, process.env.LOG_HTTP_URL),
+      LOG_FILE_PATH: validateString(
+        process.env.LOG_FILE_PATH || '.data/logs/app.log',
+        'LOG_FILE_PATH'
+      ),
+      LOG_FILE_MAX_MB: validateIntegerInRange(process.env.LOG_FILE_MAX_MB, 'LOG_FILE_MAX_MB', 10, 1, 1024),
+      LOG_FILE_MAX_FILES: validateIntegerInRange(process.env.LOG_FILE_MAX_FILES, 'LOG_FILE_MAX_FILES', 5, 1, 100),
+      LOG_HTTP_URL: process.env.LOG_HTTP_URL ? validateUrl(process.env.LOG_HTTP_URL.trim(), 'LOG_HTTP_URL') : '',
+      LOG_HTTP_TOKEN: validateString(process.env.LOG_HTTP_TOKEN, 'LOG_HTTP_TOKEN', false)
     };
 
     // Log configuration in development
@@ -77,6 +404,11 @@ function createEnvConfig(): EnvConfig {
       console.log('[ENV] Configuration loaded:', {
         ...config,
         // Don't log sensitive values in production
+        ADMIN_API_TOKEN: config.ADMIN_API_TOKEN ? '[set]' : '',
+        METRICS_TOKEN: config.METRICS_TOKEN ? '[set]' : '',
+        VAPID_PRIVATE_KEY: config.VAPID_PRIVATE_KEY ? '[set]' : '',
+        RATE_LIMIT_REDIS_URL: config.RATE_LIMIT_REDIS_URL ? '[set]' : '',
+        LOG_HTTP_TOKEN: config.LOG_HTTP_TOKEN ? '[set]' : '',
       });
     }
 
@@ -94,8 +426,40 @@ export const env = createEnvConfig();
 export const {
   NEXT_PUBLIC_AZURACAST_BASE_URL,
   NEXT_PUBLIC_AZURACAST_STATION_NAME,
+  NEXT_PUBLIC_AZURACAST_STATIONS,
+  NEXT_PUBLIC_RADIO_PROVIDER,
+  NEXT_PUBLIC_ICECAST_BASE_URL,
   NODE_ENV,
-  PORT
+  PORT,
+  PLAY_HISTORY_DIR,
+  PUBSUB_ADAPTER,
+  PUBSUB_SOCKET_PATH,
+  LOCK_STORE,
+  LOCK_DIR,
+  REQUEST_DATA_DIR,
+  ADMIN_API_TOKEN,
+  METRICS_TOKEN,
+  VAPID_PUBLIC_KEY,
+  VAPID_PRIVATE_KEY,
+  VAPID_SUBJECT,
+  PUSH_REMINDER_LEAD_MINUTES,
+  PUSH_DATA_DIR,
+  RATE_LIMIT_STORE,
+  RATE_LIMIT_REDIS_URL,
+  RATE_LIMIT_POLICIES_FILE,
+  SSE_MAX_CONNECTIONS,
+  SSE_MAX_CONNECTIONS_PER_CLIENT,
+  SSE_IDLE_TIMEOUT_SECONDS,
+  HEALTH_CHECK_TIMEOUT_MS,
+  HEALTH_CHECK_CACHE_SECONDS,
+  LOG_LEVEL,
+  LOG_LEVELS,
+  LOG_TRANSPORTS,
+  LOG_FILE_PATH,
+  LOG_FILE_MAX_MB,
+  LOG_FILE_MAX_FILES,
+  LOG_HTTP_URL,
+  LOG_HTTP_TOKEN
 } = env;
 
 // Runtime environment checks
@@ -2,6 +2,8 @@
  * API Error classes for structured error handling
  */
 
+import type { RequestRejectionReason } from '../request-types';
+
 export class ApiError extends Error {
   public readonly statusCode: number;
   public readonly code: string;
@@ -49,4 +51,35 @@ export class ForbiddenError extends ApiError {
     super(message, 403, 'FORBIDDEN');
     this.name = 'ForbiddenError';
   }
-}
\ No newline at end of file
+}
+
+export class NotSupportedError extends ApiError {
+  constructor(message: string = 'Not supported') {
+    super(message, 501, 'NOT_SUPPORTED');
+    this.name = 'NotSupportedError';
+  }
+}
+
+export class RequestRejectedError extends ApiError {
+  public readonly reason: RequestRejectionReason;
+  /** Seconds until the request may be retried, if waiting will help. */
+  public readonly retryAfter?: number;
+
+  constructor(message: string, reason: RequestRejectionReason, retryAfter?: number) {
+    super(message, reason === 'COOLDOWN' || reason === 'TOO_MANY_PENDING' ? 429 : 409, reason);
+    this.name = 'RequestRejectedError';
+    this.reason = reason;
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class RateLimitedError extends ApiError {
+  /** Seconds until the client may try again. */
+  public readonly retryAfter: number;
+
+  constructor(retryAfter: number) {
+    super(`Rate limit exceeded. Try again in ${retryAfter} seconds.`, 429, 'RATE_LIMITED');
+    this.name = 'RateLimitedError';
+    this.retryAfter = retryAfter;
+  }
+}
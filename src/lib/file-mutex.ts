@@ -0,0 +1,55 @@
+/**
+ * @fileoverview Cross-process mutex for files shared by every process on the
+ * host.
+ *
+ * The mutex is a `.mutex` file created with `O_EXCL`, so only one process can
+ * hold it. A mutex file older than `MUTEX_STALE_MS` was left behind by a
+ * crashed process and is taken over.
+ */
+
+import fs from 'fs';
+
+const MUTEX_RETRY_MS = 25;
+const MUTEX_MAX_ATTEMPTS = 200;
+/** A mutex file older than this was left behind by a crashed process. */
+const MUTEX_STALE_MS = 10000;
+
+/**
+ * Runs `fn` while holding the mutex at `mutexPath`.
+ *
+ * @throws Error if the mutex can't be acquired within about five seconds
+ */
+export async function withFileMutex<T>(mutexPath: string, fn: () => Promise<T>): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const handle = await fs.promises.open(mutexPath, 'wx');
+      await handle.close();
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') throw error;
+
+      const stat = await fs.promises.stat(mutexPath).catch(() => null);
+      if (stat && Date.now() - stat.mtimeMs > MUTEX_STALE_MS) {
+        await fs.promises.rm(mutexPath, { force: true });
+        continue;
+      }
+      if (attempt >= MUTEX_MAX_ATTEMPTS) {
+        throw new Error(`Timed out waiting for mutex ${mutexPath}`);
+      }
+      await new Promise((resolve) => setTimeout(resolve, MUTEX_RETRY_MS));
+    }
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await fs.promises.rm(mutexPath, { force: true });
+  }
+}
+
+/** Writes to a temporary file, then renames it, so readers never see a partial file. */
+export async function writeFileAtomic(filePath: string, data: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await fs.promises.writeFile(tempPath, data);
+  await fs.promises.rename(tempPath, filePath);
+}
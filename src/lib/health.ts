@@ -0,0 +1,302 @@
+/**
+ * @fileoverview Liveness, readiness and deep health checks.
+ *
+ * - Liveness only says the process can answer requests.
+ * - Readiness checks the radio workers: in the leader process every station's
+ *   worker must be connected with a fresh heartbeat, and other processes need
+ *   a live leader to relay from.
+ * - The deep check adds the upstream APIs (now playing latency, schedule,
+ *   requests), the HLS manifest and memory use.
+ *
+ * Every check is bounded by `HEALTH_CHECK_TIMEOUT_MS`. Results are reused for
+ * `HEALTH_CHECK_CACHE_SECONDS`, and concurrent probes share a check that is
+ * still running, so load balancer probes can't multiply upstream requests.
+ */
+
+import v8 from 'v8';
+import { NextResponse } from 'next/server';
+import { HEALTH_CHECK_CACHE_SECONDS, HEALTH_CHECK_TIMEOUT_MS } from './env';
+import { getRadioProvider } from './providers';
+import { getRadioLeaderStatus, getRadioWorkers } from './radio-simple';
+import { getSseConnections, type SseConnectionStats } from './sse-connections';
+import { DEFAULT_STATION_ID, STATIONS } from './stations';
+import type { LeaderStatus } from './leader-election';
+
+export type CheckStatus = 'pass' | 'warn' | 'fail';
+
+export type HealthStatus = 'healthy' | 'degraded' | 'unhealthy';
+
+export interface CheckResult {
+  status: CheckStatus;
+  /** Milliseconds the check took, for checks that call out. */
+  responseTime?: number;
+  message?: string;
+  details?: Record<string, unknown>;
+  /** When the result was produced; older than the request if it came from the cache. */
+  checkedAt: string;
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  timestamp: string;
+  /** Seconds since the process started. */
+  uptime: number;
+  version: string;
+  checks: Record<string, CheckResult>;
+  /** Radio worker lease as seen by the process that served this request. */
+  leadership?: LeaderStatus;
+  /** Open SSE streams in the process that served this request. */
+  streams?: SseConnectionStats;
+}
+
+type Check = () => Promise<Omit<CheckResult, 'checkedAt'>>;
+
+// Memory use is relative to V8's heap limit, not the current heap size
+const MEMORY_WARN_PERCENT = 70;
+const MEMORY_FAIL_PERCENT = 90;
+
+export class HealthCheckTimeoutError extends Error {
+  constructor(name: string, timeoutMs: number) {
+    super(`${name} check timed out after ${timeoutMs}ms`);
+    this.name = 'HealthCheckTimeoutError';
+  }
+}
+
+export function withTimeout<T>(promise: Promise<T>, timeoutMs: number, name: string): Promise<T> {
+  let timeoutId: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => reject(new HealthCheckTimeoutError(name, timeoutMs)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timeoutId));
+}
+
+/**
+ * Runs named checks with a timeout and keeps each result for `ttlMs`. A check
+ * that throws or times out is reported as failed, and that result is cached too.
+ */
+export class HealthCheckCache {
+  private results = new Map<string, { result: CheckResult; expiresAt: number }>();
+  private running = new Map<string, Promise<CheckResult>>();
+
+  constructor(
+    private readonly timeoutMs: number,
+    private readonly ttlMs: number,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  run(name: string, check: Check): Promise<CheckResult> {
+    const cached = this.results.get(name);
+    if (cached && cached.expiresAt > this.now()) {
+      return Promise.resolve(cached.result);
+    }
+
+    let pending = this.running.get(name);
+    if (!pending) {
+      pending = this.execute(name, check).finally(() => this.running.delete(name));
+      this.running.set(name, pending);
+    }
+    return pending;
+  }
+
+  private async execute(name: string, check: Check): Promise<CheckResult> {
+    const startedAt = this.now();
+    let result: CheckResult;
+
+    try {
+      result = { ...(await withTimeout(check(), this.timeoutMs, name)), checkedAt: new Date(startedAt).toISOString() };
+    } catch (error) {
+      result = {
+        status: 'fail',
+        responseTime: this.now() - startedAt,
+        message: error instanceof Error ? error.message : 'Unknown error',
+        checkedAt: new Date(startedAt).toISOString(),
+      };
+    }
+
+    this.results.set(name, { result, expiresAt: this.now() + this.ttlMs });
+    return result;
+  }
+}
+
+let healthChecks: HealthCheckCache | null = null;
+
+function getHealthChecks(): HealthCheckCache {
+  if (!healthChecks) {
+    healthChecks = new HealthCheckCache(HEALTH_CHECK_TIMEOUT_MS, HEALTH_CHECK_CACHE_SECONDS * 1000);
+  }
+  return healthChecks;
+}
+
+/** Times an upstream call; errors fail the check. */
+async function timed(call: () => Promise<string>): Promise<Omit<CheckResult, 'checkedAt'>> {
+  const startedAt = Date.now();
+  const message = await call();
+  return { status: 'pass', responseTime: Date.now() - startedAt, message };
+}
+
+async function checkRadioWorkers(): Promise<Omit<CheckResult, 'checkedAt'>> {
+  const leadership = getRadioLeaderStatus();
+
+  if (!leadership.isLeader) {
+    const { lease } = leadership;
+    if (lease && lease.holderId !== leadership.holderId && lease.expiresAt > Date.now()) {
+      return { status: 'pass', message: `Relaying events from ${lease.holderId}` };
+    }
+    return { status: 'fail', message: 'No process holds the radio worker lease', details: { lastError: leadership.lastError } };
+  }
+
+  const workers = getRadioWorkers().filter((worker) => worker.isStarted());
+  const started = new Set(workers.map((worker) => worker.getState().station));
+  const missing = STATIONS.map(({ id }) => id).filter((id) => !started.has(id));
+  if (missing.length > 0) {
+    return { status: 'fail', message: `Radio worker not started for ${missing.join(', ')}` };
+  }
+
+  const stations = Object.fromEntries(
+    workers.map((worker) => {
+      const state = worker.getState();
+      const health = worker.getHealthStatus();
+      return [state.station, { ...health, mode: state.mode, timeSinceLastHeartbeat: state.timeSinceLastHeartbeat }];
+    })
+  );
+  const statuses = Object.values(stations).map(({ status }) => status);
+
+  if (statuses.includes('unhealthy')) {
+    return { status: 'fail', message: 'Radio worker has lost its connection', details: stations };
+  }
+  if (statuses.includes('degraded')) {
+    return { status: 'warn', message: 'Radio worker is reconnecting or polling', details: stations };
+  }
+  return { status: 'pass', message: 'Connected with a fresh heartbeat', details: stations };
+}
+
+function checkNowPlaying(): Promise<Omit<CheckResult, 'checkedAt'>> {
+  return timed(async () => {
+    const nowPlaying = await getRadioProvider().getNowPlaying(DEFAULT_STATION_ID);
+    return nowPlaying.isOnline ? 'Station is on air' : 'Station is off air';
+  });
+}
+
+async function checkSchedule(): Promise<Omit<CheckResult, 'checkedAt'>> {
+  const provider = getRadioProvider();
+  if (!provider.capabilities.schedule) {
+    return { status: 'pass', message: `Not supported by ${provider.name}` };
+  }
+  return timed(async () => `${(await provider.getSchedule(DEFAULT_STATION_ID)).length} upcoming entries`);
+}
+
+async function checkRequests(): Promise<Omit<CheckResult, 'checkedAt'>> {
+  const provider = getRadioProvider();
+  if (!provider.capabilities.requests) {
+    return { status: 'pass', message: `Not supported by ${provider.name}` };
+  }
+  return timed(async () => `${(await provider.getRequestableSongs(DEFAULT_STATION_ID)).length} requestable songs`);
+}
+
+async function checkHlsManifest(): Promise<Omit<CheckResult, 'checkedAt'>> {
+  const url = getRadioProvider().getStreamUrl(DEFAULT_STATION_ID, 'hls');
+  const startedAt = Date.now();
+  const response = await fetch(url, {
+    headers: { 'User-Agent': 'OADRO-HealthCheck/1.0' },
+    signal: AbortSignal.timeout(HEALTH_CHECK_TIMEOUT_MS),
+  });
+  const responseTime = Date.now() - startedAt;
+
+  if (!response.ok) {
+    await response.body?.cancel();
+    return { status: 'fail', responseTime, message: `HTTP ${response.status}`, details: { url } };
+  }
+
+  // Providers without HLS hand back the audio stream itself; don't download it
+  if (!url.endsWith('.m3u8')) {
+    await response.body?.cancel();
+    return { status: 'pass', responseTime, message: 'Stream reachable', details: { url } };
+  }
+
+  const manifest = await response.text();
+  if (!manifest.startsWith('#EXTM3U')) {
+    return { status: 'fail', responseTime, message: 'Response is not an HLS playlist', details: { url } };
+  }
+  return { status: 'pass', responseTime, message: 'Manifest reachable', details: { url } };
+}
+
+async function checkMemory(): Promise<Omit<CheckResult, 'checkedAt'>> {
+  const usage = process.memoryUsage();
+  const heapLimit = v8.getHeapStatistics().heap_size_limit;
+  const percentage = Math.round((usage.heapUsed / heapLimit) * 100);
+  const toMB = (bytes: number) => Math.round(bytes / 1024 / 1024);
+
+  return {
+    status: percentage > MEMORY_FAIL_PERCENT ? 'fail' : percentage > MEMORY_WARN_PERCENT ? 'warn' : 'pass',
+    message: `Heap ${toMB(usage.heapUsed)}MB of ${toMB(heapLimit)}MB (${percentage}%)`,
+    details: { heapUsed: usage.heapUsed, heapLimit, rss: usage.rss, external: usage.external },
+  };
+}
+
+export function createReport(status: HealthStatus, checks: Record<string, CheckResult>): HealthReport {
+  return {
+    status,
+    timestamp: new Date().toISOString(),
+    uptime: Math.floor(process.uptime()),
+    version: process.env.npm_package_version || '0.1.0',
+    checks,
+  };
+}
+
+/**
+ * Overall status: a failed critical check makes the process unhealthy; any
+ * other failure or warning only degrades it.
+ */
+function summarize(checks: Record<string, CheckResult>, critical: string[]): HealthStatus {
+  const results = Object.entries(checks);
+  if (results.some(([name, result]) => critical.includes(name) && result.status === 'fail')) {
+    return 'unhealthy';
+  }
+  return results.some(([, result]) => result.status !== 'pass') ? 'degraded' : 'healthy';
+}
+
+export function getLiveness(): HealthReport {
+  return createReport('healthy', {});
+}
+
+export async function getReadiness(): Promise<HealthReport> {
+  const radio = await getHealthChecks().run('radio', checkRadioWorkers);
+  const checks = { radio };
+
+  return {
+    ...createReport(summarize(checks, ['radio']), checks),
+    leadership: getRadioLeaderStatus(),
+  };
+}
+
+export async function getDeepHealth(): Promise<HealthReport> {
+  const cache = getHealthChecks();
+  const [radio, nowPlaying, schedule, requests, hls, memory] = await Promise.all([
+    cache.run('radio', checkRadioWorkers),
+    cache.run('nowPlaying', checkNowPlaying),
+    cache.run('schedule', checkSchedule),
+    cache.run('requests', checkRequests),
+    cache.run('hls', checkHlsManifest),
+    cache.run('memory', checkMemory),
+  ]);
+  const checks = { radio, nowPlaying, schedule, requests, hls, memory };
+
+  // Listeners keep hearing the stream while the upstream APIs are down
+  return {
+    ...createReport(summarize(checks, ['radio']), checks),
+    leadership: getRadioLeaderStatus(),
+    streams: getSseConnections().getStats(),
+  };
+}
+
+/** 503 only when unhealthy, so a degraded process keeps its traffic. */
+export function toHealthResponse(report: HealthReport): NextResponse {
+  return NextResponse.json(report, {
+    status: report.status === 'unhealthy' ? 503 : 200,
+    headers: {
+      'Cache-Control': 'no-cache, no-store, must-revalidate',
+      'Pragma': 'no-cache',
+      'Expires': '0',
+    },
+  });
+}
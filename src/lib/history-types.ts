@@ -0,0 +1,60 @@
+/**
+ * Types for the station-wide play history API
+ */
+
+import type { Song } from './types';
+
+export interface HistoryPage {
+  songs: Song[];
+  /** Opaque cursor for the next (older) page, or null when exhausted. */
+  nextCursor: string | null;
+  lastUpdated: number;
+}
+
+export interface HistoryFilters {
+  /** Inclusive lower bound as a unix timestamp in seconds. */
+  from?: number;
+  /** Inclusive upper bound as a unix timestamp in seconds. */
+  to?: number;
+  artist?: string;
+  genre?: string;
+  /** Station shortcode; the API falls back to the default station. */
+  station?: string;
+}
+
+export const DEFAULT_HISTORY_PAGE_SIZE = 20;
+export const MAX_HISTORY_PAGE_SIZE = 100;
+
+// Helper functions for history data
+export function buildHistoryQuery(
+  filters: HistoryFilters,
+  cursor?: string | null,
+  limit: number = DEFAULT_HISTORY_PAGE_SIZE
+): string {
+  const params = new URLSearchParams();
+
+  if (filters.from !== undefined) params.set('from', String(filters.from));
+  if (filters.to !== undefined) params.set('to', String(filters.to));
+  if (filters.artist) params.set('artist', filters.artist);
+  if (filters.genre) params.set('genre', filters.genre);
+  if (filters.station) params.set('station', filters.station);
+  if (cursor) params.set('cursor', cursor);
+  params.set('limit', String(limit));
+
+  return params.toString();
+}
+
+/**
+ * Returns filters covering a single calendar day in the local timezone.
+ */
+export function getDayRange(date: Date): Pick<HistoryFilters, 'from' | 'to'> {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  const end = new Date(date);
+  end.setHours(23, 59, 59, 999);
+
+  return {
+    from: Math.floor(start.getTime() / 1000),
+    to: Math.floor(end.getTime() / 1000),
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * @fileoverview iCalendar (RFC 5545) export of schedule entries.
+ *
+ * Used by `/api/schedule.ics` for calendar subscriptions and by the schedule
+ * page for single-show downloads, so both produce identical events. Times
+ * are always written in UTC, which every calendar app converts to local time.
+ */
+
+import { simplifyPlaylistName, type ScheduleEntry } from './schedule-types';
+
+export const ICS_CONTENT_TYPE = 'text/calendar; charset=utf-8';
+
+const PRODUCT_ID = '-//OADRO Radio//Schedule//EN';
+// Fixed rather than taken from the request, so UIDs match across hosts
+const UID_DOMAIN = 'radio.oadro.com';
+const MAX_LINE_OCTETS = 75;
+
+export interface CalendarOptions {
+  station: string;
+  /** Shown as the calendar's name by apps that support X-WR-CALNAME. */
+  name?: string;
+  /** Unix timestamp (seconds) written as DTSTAMP. */
+  now?: number;
+}
+
+/** Escapes TEXT values (RFC 5545 §3.3.11). */
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/** 20240611T200000Z */
+function formatUtc(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * Folds a content line to at most 75 octets per line (RFC 5545 §3.1),
+ * without splitting multi-byte characters.
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards the limit
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+
+  return parts.join('\r\n ');
+}
+
+/** Stable across refetches: AzuraCast schedule item IDs plus the start time. */
+export function getEventUid(entry: ScheduleEntry, station: string): string {
+  return `${station}-${entry.type}-${entry.id}-${entry.start_timestamp}@${UID_DOMAIN}`;
+}
+
+function buildEvent(entry: ScheduleEntry, options: CalendarOptions, dtstamp: string): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${getEventUid(entry, options.station)}`,
+    `DTSTAMP:${dtstamp}`,
+    `DTSTART:${formatUtc(entry.start_timestamp)}`,
+    `DTEND:${formatUtc(entry.end_timestamp)}`,
+    `SUMMARY:${escapeText(simplifyPlaylistName(entry.title))}`,
+  ];
+  if (entry.description) {
+    lines.push(`DESCRIPTION:${escapeText(entry.description)}`);
+  }
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Builds a VCALENDAR with one VEVENT per entry. Lines are CRLF-terminated
+ * and folded, as RFC 5545 requires.
+ */
+export function buildCalendar(entries: ScheduleEntry[], options: CalendarOptions): string {
+  const dtstamp = formatUtc(options.now ?? Math.floor(Date.now() / 1000));
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+  if (options.name) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+  }
+  for (const entry of entries) {
+    lines.push(...buildEvent(entry, options, dtstamp));
+  }
+  lines.push('END:VCALENDAR');
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Keeps entries for the given shows, matched case-insensitively against the
+ * playlist name or the displayed title. No shows means every entry.
+ */
+export function filterEntriesByShow(entries: ScheduleEntry[], shows: string[]): ScheduleEntry[] {
+  const wanted = new Set(shows.map((show) => show.trim().toLowerCase()).filter(Boolean));
+  if (wanted.size === 0) return entries;
+
+  return entries.filter((entry) =>
+    [entry.name, entry.title, simplifyPlaylistName(entry.title)].some((name) => wanted.has(name.toLowerCase()))
+  );
+}
+
+/** File name for a single show's download, e.g. "synthwave-hour-2024-06-11.ics". */
+export function getEventFileName(entry: ScheduleEntry): string {
+  const slug = simplifyPlaylistName(entry.title)
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '') || 'show';
+  const date = new Date(entry.start_timestamp * 1000).toISOString().slice(0, 10);
+  return `${slug}-${date}.ics`;
+}
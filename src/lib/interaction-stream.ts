@@ -1,31 +1,140 @@
 /**
  * Simple pub/sub system for the simplified version
+ *
+ * Events are keyed by station so each station's subscribers only receive
+ * updates from that station's worker. Every published event is stamped with a
+ * monotonically increasing ID, and a short backlog is kept per station so new
+ * subscribers can be sent the latest snapshot and reconnecting clients can
+ * catch up from their `Last-Event-ID`.
+ *
+ * Delivery goes through a `PubSubAdapter`, so with a cross-process backend the
+ * events published by the primary process reach subscribers in every process.
  */
 
-import type { NowPlaying, StreamStatus } from './types';
+import type { InteractionEvent } from './types';
+import { DEFAULT_STATION_ID } from './stations';
+import { createPubSubAdapter, type PubSubAdapter, type StreamEvent } from './pubsub';
+import { createLogger } from './logger';
 
-export type PubSubEvent =
-  | { type: 'now_playing'; data: NowPlaying }
-  | { type: 'stream_status'; data: StreamStatus };
+const log = createLogger('PubSub');
 
-type EventHandler = (event: PubSubEvent) => void;
+export type PubSubEvent = InteractionEvent;
+export type { StreamEvent } from './pubsub';
 
-const subscribers: Set<EventHandler> = new Set();
+type EventHandler = (event: StreamEvent) => void;
 
-export function subscribe(handler: EventHandler): () => void {
-  subscribers.add(handler);
-  
-  return () => {
-    subscribers.delete(handler);
-  };
+/** Number of recent events kept per station for `Last-Event-ID` catch-up. */
+const EVENT_BACKLOG_SIZE = 50;
+
+interface StationChannel {
+  subscribers: Set<EventHandler>;
+  latestByType: Map<PubSubEvent['type'], StreamEvent>;
+  backlog: StreamEvent[];
 }
 
-export function publish(event: PubSubEvent): void {
-  subscribers.forEach(handler => {
+const channelsByStation: Map<string, StationChannel> = new Map();
+
+let adapter: PubSubAdapter | null = null;
+
+// IDs are seeded from the clock so they keep increasing across server restarts
+let lastEventId = 0;
+
+function nextEventId(): number {
+  lastEventId = Math.max(lastEventId + 1, Date.now());
+  return lastEventId;
+}
+
+/**
+ * Returns the pub/sub backend, creating the configured one on first use.
+ */
+export function getPubSubAdapter(): PubSubAdapter {
+  if (!adapter) {
+    adapter = createPubSubAdapter();
+    log.info('Using pub/sub adapter', { adapter: adapter.name });
+  }
+  return adapter;
+}
+
+function deliver(channel: StationChannel, station: string, event: StreamEvent): void {
+  // Snapshots replayed by a cross-process hub may already have been seen
+  const latest = channel.latestByType.get(event.type);
+  if (latest && latest.id >= event.id) return;
+
+  // Keep IDs monotonic if this process later becomes the publisher
+  lastEventId = Math.max(lastEventId, event.id);
+
+  channel.latestByType.set(event.type, event);
+  channel.backlog.push(event);
+  if (channel.backlog.length > EVENT_BACKLOG_SIZE) {
+    channel.backlog.shift();
+  }
+
+  channel.subscribers.forEach(handler => {
     try {
       handler(event);
     } catch (error) {
-      console.error('[PubSub] Error in event handler:', error);
+      log.error('Error in event handler', error, { station });
     }
   });
-}
\ No newline at end of file
+}
+
+function getChannel(station: string): StationChannel {
+  let channel = channelsByStation.get(station);
+  if (!channel) {
+    const newChannel: StationChannel = { subscribers: new Set(), latestByType: new Map(), backlog: [] };
+    getPubSubAdapter().subscribe(station, event => deliver(newChannel, station, event));
+    channelsByStation.set(station, newChannel);
+    channel = newChannel;
+  }
+  return channel;
+}
+
+export function subscribe(handler: EventHandler, station: string = DEFAULT_STATION_ID): () => void {
+  const { subscribers } = getChannel(station);
+  subscribers.add(handler);
+
+  return () => {
+    subscribers.delete(handler);
+  };
+}
+
+export function publish(event: PubSubEvent, station: string = DEFAULT_STATION_ID): void {
+  // Make sure this process is listening before its own event comes back
+  getChannel(station);
+
+  getPubSubAdapter().publish(station, {
+    ...event,
+    timestamp: event.timestamp ?? Date.now(),
+    id: nextEventId(),
+  });
+}
+
+/**
+ * Returns the most recent event of each type for a station, oldest first.
+ */
+export function getLatestEvents(station: string = DEFAULT_STATION_ID): StreamEvent[] {
+  const channel = getChannel(station);
+
+  return [...channel.latestByType.values()].sort((a, b) => a.id - b.id);
+}
+
+/**
+ * Returns the events a subscriber should be sent on connect.
+ *
+ * Clients reconnecting with a `Last-Event-ID` still covered by the backlog get
+ * exactly the events they missed. Everyone else (first connect, or an ID that
+ * has already fallen out of the backlog) gets the latest snapshot instead.
+ */
+export function getReplayEvents(
+  station: string = DEFAULT_STATION_ID,
+  lastSeenId?: number
+): StreamEvent[] {
+  const channel = getChannel(station);
+
+  const oldest = channel.backlog[0];
+  if (lastSeenId === undefined || !oldest || lastSeenId < oldest.id - 1) {
+    return getLatestEvents(station);
+  }
+
+  return channel.backlog.filter(event => event.id > lastSeenId);
+}
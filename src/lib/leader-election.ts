@@ -0,0 +1,269 @@
+/**
+ * @fileoverview Lease-based leader election for the radio worker.
+ *
+ * Each process tries to hold the `LOCK_ID` lease, renewing it every third of
+ * `LOCK_TTL_SECONDS`. A lease that has not been renewed within its TTL is
+ * stale and can be taken over by another process. Only the leader opens the
+ * upstream AzuraCast connection; everyone else relays its events.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LOCK_COLLECTION, LOCK_ID, LOCK_TTL_SECONDS } from './config';
+import { LOCK_DIR, LOCK_STORE } from './env';
+import { withFileMutex, writeFileAtomic } from './file-mutex';
+import { createLogger } from './logger';
+
+const log = createLogger('LeaderElection');
+
+export interface Lease {
+  holderId: string;
+  acquiredAt: number;
+  renewedAt: number;
+  expiresAt: number;
+}
+
+export interface LeaseStore {
+  /**
+   * Acquires or renews the lease for `holderId`. Returns null if another
+   * holder has a lease that has not expired yet.
+   */
+  tryAcquire(lockId: string, holderId: string, ttlMs: number): Promise<Lease | null>;
+  release(lockId: string, holderId: string): Promise<void>;
+  read(lockId: string): Promise<Lease | null>;
+}
+
+function nextLease(current: Lease | null, holderId: string, ttlMs: number): Lease | null {
+  const now = Date.now();
+  if (current && current.holderId !== holderId && current.expiresAt > now) {
+    return null;
+  }
+
+  return {
+    holderId,
+    acquiredAt: current?.holderId === holderId ? current.acquiredAt : now,
+    renewedAt: now,
+    expiresAt: now + ttlMs,
+  };
+}
+
+/**
+ * Lease store for a single process. Every process holding its own store is
+ * always the leader, which matches running without a shared pub/sub backend.
+ */
+export class MemoryLeaseStore implements LeaseStore {
+  private leases = new Map<string, Lease>();
+
+  async tryAcquire(lockId: string, holderId: string, ttlMs: number): Promise<Lease | null> {
+    const lease = nextLease(this.leases.get(lockId) ?? null, holderId, ttlMs);
+    if (lease) {
+      this.leases.set(lockId, lease);
+    }
+    return lease;
+  }
+
+  async release(lockId: string, holderId: string): Promise<void> {
+    if (this.leases.get(lockId)?.holderId === holderId) {
+      this.leases.delete(lockId);
+    }
+  }
+
+  async read(lockId: string): Promise<Lease | null> {
+    return this.leases.get(lockId) ?? null;
+  }
+}
+
+/**
+ * Lease store shared by every process on the host through JSON files in
+ * `<directory>/<lockId>.json`. Updates are serialised with an exclusive
+ * `.mutex` file so two processes can't both take over a stale lease.
+ */
+export class FileLeaseStore implements LeaseStore {
+  private readonly directory: string;
+
+  constructor(directory: string) {
+    this.directory = directory;
+    fs.mkdirSync(directory, { recursive: true });
+  }
+
+  async tryAcquire(lockId: string, holderId: string, ttlMs: number): Promise<Lease | null> {
+    return this.withMutex(lockId, async () => {
+      const lease = nextLease(await this.read(lockId), holderId, ttlMs);
+      if (lease) {
+        await this.write(lockId, lease);
+      }
+      return lease;
+    });
+  }
+
+  async release(lockId: string, holderId: string): Promise<void> {
+    await this.withMutex(lockId, async () => {
+      const current = await this.read(lockId);
+      if (current?.holderId === holderId) {
+        await fs.promises.rm(this.leasePath(lockId), { force: true });
+      }
+    });
+  }
+
+  async read(lockId: string): Promise<Lease | null> {
+    try {
+      return JSON.parse(await fs.promises.readFile(this.leasePath(lockId), 'utf8')) as Lease;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private leasePath(lockId: string): string {
+    return path.join(this.directory, `${lockId}.json`);
+  }
+
+  private async write(lockId: string, lease: Lease): Promise<void> {
+    await writeFileAtomic(this.leasePath(lockId), JSON.stringify(lease));
+  }
+
+  private withMutex<T>(lockId: string, fn: () => Promise<T>): Promise<T> {
+    return withFileMutex(`${this.leasePath(lockId)}.mutex`, fn);
+  }
+}
+
+export interface LeaderElectionOptions {
+  store: LeaseStore;
+  lockId: string;
+  ttlMs: number;
+  holderId?: string;
+}
+
+export interface LeaderStatus {
+  lockId: string;
+  holderId: string;
+  isLeader: boolean;
+  /** The lease as last seen in the store, whoever holds it. */
+  lease: Lease | null;
+  lastError?: string;
+}
+
+export class LeaderElection {
+  private readonly store: LeaseStore;
+  private readonly lockId: string;
+  private readonly ttlMs: number;
+  private readonly holderId: string;
+
+  private isRunning = false;
+  private isLeaderFlag = false;
+  private lease: Lease | null = null;
+  private lastError: string | undefined;
+  private timeoutId: NodeJS.Timeout | null = null;
+  private listeners = new Set<(isLeader: boolean) => void>();
+
+  constructor({ store, lockId, ttlMs, holderId }: LeaderElectionOptions) {
+    this.store = store;
+    this.lockId = lockId;
+    this.ttlMs = ttlMs;
+    this.holderId = holderId ?? `${os.hostname()}:${process.pid}`;
+  }
+
+  start(): void {
+    if (this.isRunning) return;
+    this.isRunning = true;
+    void this.tick();
+  }
+
+  async stop(): Promise<void> {
+    this.isRunning = false;
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+    }
+
+    if (this.isLeaderFlag) {
+      try {
+        await this.store.release(this.lockId, this.holderId);
+      } catch (error) {
+        log.error('Failed to release lease', error, { lockId: this.lockId });
+      }
+      this.lease = null;
+      this.setLeader(false);
+    }
+  }
+
+  isLeader(): boolean {
+    return this.isLeaderFlag;
+  }
+
+  onChange(listener: (isLeader: boolean) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  getStatus(): LeaderStatus {
+    return {
+      lockId: this.lockId,
+      holderId: this.holderId,
+      isLeader: this.isLeaderFlag,
+      lease: this.lease,
+      ...(this.lastError && { lastError: this.lastError }),
+    };
+  }
+
+  private async tick(): Promise<void> {
+    try {
+      const lease = await this.store.tryAcquire(this.lockId, this.holderId, this.ttlMs);
+      this.lease = lease ?? (await this.store.read(this.lockId));
+      this.lastError = undefined;
+      this.setLeader(lease !== null);
+    } catch (error) {
+      this.lastError = error instanceof Error ? error.message : String(error);
+      log.error('Failed to renew lease', error, { lockId: this.lockId });
+
+      // Keep leading until our last lease runs out, since nobody else can take it sooner
+      if (this.isLeaderFlag && (!this.lease || this.lease.expiresAt <= Date.now())) {
+        this.setLeader(false);
+      }
+    }
+
+    if (this.isRunning) {
+      this.timeoutId = setTimeout(() => this.tick(), this.ttlMs / 3);
+    }
+  }
+
+  private setLeader(isLeader: boolean): void {
+    if (isLeader === this.isLeaderFlag) return;
+
+    this.isLeaderFlag = isLeader;
+    log.info(isLeader ? 'Acquired lease' : 'Lost lease', { lockId: this.lockId, holderId: this.holderId });
+    this.listeners.forEach((listener) => listener(isLeader));
+  }
+}
+
+let leaderElection: LeaderElection | null = null;
+
+function createLeaseStore(): LeaseStore {
+  switch (LOCK_STORE) {
+    case 'file':
+      return new FileLeaseStore(path.resolve(LOCK_DIR, LOCK_COLLECTION));
+    case 'memory':
+    default:
+      return new MemoryLeaseStore();
+  }
+}
+
+/**
+ * Gets the process-wide election for the radio worker lease. The election is
+ * created idle; call `start()` to begin competing for the lease.
+ */
+export function getLeaderElection(): LeaderElection {
+  if (!leaderElection) {
+    leaderElection = new LeaderElection({
+      store: createLeaseStore(),
+      lockId: LOCK_ID,
+      ttlMs: LOCK_TTL_SECONDS * 1000,
+    });
+  }
+  return leaderElection;
+}
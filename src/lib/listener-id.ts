@@ -0,0 +1,47 @@
+/**
+ * @fileoverview Anonymous listener identity for per-listener request limits.
+ *
+ * Listeners are identified by a random ID in an HTTP-only cookie, issued the
+ * first time they use a request endpoint. The cookie is under the client's
+ * control, so a looser limit also applies to the client's address: dropping
+ * the cookie doesn't get a listener an unlimited set of fresh limits.
+ */
+
+import crypto from 'crypto';
+import type { NextRequest, NextResponse } from 'next/server';
+import { getClientIdentifier } from './rate-limit/middleware';
+
+const LISTENER_COOKIE = 'oadro_listener';
+const LISTENER_COOKIE_MAX_AGE = 365 * 24 * 60 * 60; // 1 year
+const LISTENER_ID_PATTERN = /^[a-f0-9-]{36}$/;
+
+export interface ListenerIdentity {
+  id: string;
+  /** The client's address, as used for rate limiting. */
+  clientId: string;
+  /** True if the ID was just issued and still needs to be set as a cookie. */
+  isNew: boolean;
+}
+
+export function getListenerIdentity(request: NextRequest): ListenerIdentity {
+  const clientId = getClientIdentifier(request);
+  const existing = request.cookies.get(LISTENER_COOKIE)?.value;
+  if (existing && LISTENER_ID_PATTERN.test(existing)) {
+    return { id: existing, clientId, isNew: false };
+  }
+  return { id: crypto.randomUUID(), clientId, isNew: true };
+}
+
+/** Sets the listener cookie on a response if the ID was newly issued. */
+export function withListenerCookie<T extends NextResponse>(response: T, listener: ListenerIdentity): T {
+  if (listener.isNew) {
+    response.cookies.set(LISTENER_COOKIE, listener.id, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      path: '/',
+      maxAge: LISTENER_COOKIE_MAX_AGE,
+    });
+  }
+  return response;
+}
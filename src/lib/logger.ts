@@ -1,87 +1,247 @@
 /**
- * Enhanced logging utility with structured logging and different log levels
+ * Structured logging with pluggable transports, per-context levels and
+ * sampling for noisy messages.
+ *
+ * Entries go to every configured transport. On the server the default is one
+ * JSON object per line on stdout; in the browser it is the console. Server
+ * code adds file and HTTP transports and request ids through
+ * `configureServerLogging` in `./logging`, which keeps Node-only modules out
+ * of client bundles.
  */
 
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
+export const LOG_LEVELS: readonly LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export type LogFields = Record<string, unknown>;
+
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+}
+
 export interface LogEntry {
   level: LogLevel;
   message: string;
   timestamp: string;
-  context?: string;
-  metadata?: Record<string, any>;
-  error?: Error;
+  context: string;
+  /** Id of the API request being handled, if any. */
+  requestId?: string;
+  /** Set on sampled messages: only one in this many calls was logged. */
+  sampled?: number;
+  error?: SerializedError;
+  metadata?: LogFields;
+}
+
+export interface LogTransport {
+  readonly name: string;
+  write(entry: LogEntry): void;
+  /** Sends anything still buffered. */
+  flush?(): Promise<void>;
+  close?(): Promise<void>;
+}
+
+export function isLogLevel(value: string): value is LogLevel {
+  return (LOG_LEVELS as readonly string[]).includes(value);
+}
+
+function serializeError(error: unknown): SerializedError {
+  if (error instanceof Error) {
+    return { name: error.name, message: error.message, stack: error.stack };
+  }
+  return { name: 'Error', message: String(error) };
+}
+
+/** One JSON object, without a trailing newline. Metadata fields sit at the top level. */
+export function formatLogLine(entry: LogEntry): string {
+  const { metadata, ...fields } = entry;
+  const extra: LogFields = {};
+  for (const [key, value] of Object.entries(metadata ?? {})) {
+    extra[key] = value instanceof Error ? serializeError(value) : value;
+  }
+
+  // Reserved fields win over metadata with the same name
+  return JSON.stringify({ ...extra, ...fields }, (_key, value) =>
+    typeof value === 'bigint' ? value.toString() : value
+  );
+}
+
+/** Readable output for the browser console. */
+export class ConsoleTransport implements LogTransport {
+  readonly name = 'console';
+
+  write(entry: LogEntry): void {
+    const prefix = `[${entry.level.toUpperCase()}][${entry.context}] ${entry.message}`;
+    const details = { ...entry.metadata, ...(entry.error && { error: entry.error }) };
+    const args = Object.keys(details).length > 0 ? [prefix, details] : [prefix];
+
+    switch (entry.level) {
+      case 'debug':
+        console.debug(...args);
+        break;
+      case 'info':
+        console.log(...args);
+        break;
+      case 'warn':
+        console.warn(...args);
+        break;
+      case 'error':
+        console.error(...args);
+        break;
+    }
+  }
+}
+
+/** JSON lines on stdout. */
+export class StdoutTransport implements LogTransport {
+  readonly name = 'stdout';
+
+  write(entry: LogEntry): void {
+    console.log(formatLogLine(entry));
+  }
+}
+
+const isBrowser = typeof window !== 'undefined';
+const isDevelopment = process.env.NODE_ENV === 'development';
+
+const settings = {
+  transports: [isBrowser ? new ConsoleTransport() : new StdoutTransport()] as LogTransport[],
+  // Browsers only show warnings and errors outside development
+  defaultLevel: (isDevelopment ? 'debug' : isBrowser ? 'warn' : 'info') as LogLevel,
+  levels: new Map<string, LogLevel>(),
+  contextProvider: null as (() => Pick<LogEntry, 'requestId'> | undefined) | null,
+};
+
+// Calls seen per sampled message, keyed by context and message
+const sampleCounts = new Map<string, number>();
+const MAX_SAMPLED_MESSAGES = 1000;
+
+export interface LoggingOptions {
+  transports?: LogTransport[];
+  level?: LogLevel;
+  /** Levels for individual contexts, e.g. `{ RadioWorker: 'debug' }`. */
+  levels?: Record<string, LogLevel>;
+}
+
+export function configureLogging({ transports, level, levels }: LoggingOptions): void {
+  if (transports) settings.transports = transports;
+  if (level) settings.defaultLevel = level;
+  if (levels) settings.levels = new Map(Object.entries(levels));
+}
+
+/**
+ * Sets the level for a context and the contexts nested under it
+ * (`API` covers `API:Schedule`). `null` goes back to the default level.
+ */
+export function setLogLevel(context: string, level: LogLevel | null): void {
+  if (level) {
+    settings.levels.set(context, level);
+  } else {
+    settings.levels.delete(context);
+  }
 }
 
-class Logger {
-  private context: string;
-  private isDevelopment: boolean;
+export function getLogLevels(): { default: LogLevel; contexts: Record<string, LogLevel> } {
+  return { default: settings.defaultLevel, contexts: Object.fromEntries(settings.levels) };
+}
 
-  constructor(context: string = 'App') {
-    this.context = context;
-    this.isDevelopment = process.env.NODE_ENV === 'development';
+/** The level in effect for a context: its own, its closest parent's or the default. */
+export function getLogLevel(context: string): LogLevel {
+  for (let name = context; name; name = name.slice(0, Math.max(name.lastIndexOf(':'), 0))) {
+    const level = settings.levels.get(name);
+    if (level) return level;
   }
+  return settings.defaultLevel;
+}
+
+/** Supplies fields for the work in progress, such as the current request id. */
+export function setLogContextProvider(provider: (() => Pick<LogEntry, 'requestId'> | undefined) | null): void {
+  settings.contextProvider = provider;
+}
 
-  private formatMessage(level: LogLevel, message: string, metadata?: Record<string, any>): LogEntry {
-    return {
+export async function flushLogs(): Promise<void> {
+  await Promise.all(settings.transports.map((transport) => transport.flush?.()));
+}
+
+export class Logger {
+  constructor(
+    private readonly context: string = 'App',
+    private readonly fields: LogFields = {},
+    private readonly sampleEvery = 1
+  ) {}
+
+  private log(level: LogLevel, message: string, metadata?: LogFields, error?: unknown): void {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(getLogLevel(this.context))) return;
+    if (!this.shouldSample(message)) return;
+
+    const entry: LogEntry = {
       level,
       message,
       timestamp: new Date().toISOString(),
       context: this.context,
-      metadata
+      ...settings.contextProvider?.(),
     };
-  }
+    if (this.sampleEvery > 1) entry.sampled = this.sampleEvery;
+    if (error !== undefined) entry.error = serializeError(error);
 
-  private shouldLog(level: LogLevel): boolean {
-    if (this.isDevelopment) return true;
-    
-    // In production, only log warnings and errors
-    return level === 'warn' || level === 'error';
-  }
+    const fields = { ...this.fields, ...metadata };
+    if (Object.keys(fields).length > 0) entry.metadata = fields;
 
-  private sendToMonitoring(entry: LogEntry): void {
-    // In production, send to monitoring service
-    if (process.env.NODE_ENV === 'production' && typeof window !== 'undefined') {
-      // Placeholder for monitoring service integration
-      // Example: Sentry, LogRocket, etc.
-      if (entry.level === 'error' && entry.error) {
-        // Sentry.captureException(entry.error, { extra: entry.metadata });
+    for (const transport of settings.transports) {
+      try {
+        transport.write(entry);
+      } catch (transportError) {
+        // Never let logging take down the caller
+        console.error(`[Logger] Transport "${transport.name}" failed:`, transportError);
       }
     }
   }
 
-  debug(message: string, metadata?: Record<string, any>): void {
-    if (!this.shouldLog('debug')) return;
-    
-    const entry = this.formatMessage('debug', message, metadata);
-    console.debug(`[DEBUG][${this.context}] ${message}`, metadata);
-    this.sendToMonitoring(entry);
+  /** Lets through the first call and then every `sampleEvery`th call with the same message. */
+  private shouldSample(message: string): boolean {
+    if (this.sampleEvery <= 1) return true;
+
+    const key = `${this.context}\u0000${message}`;
+    const count = sampleCounts.get(key) ?? 0;
+    if (!sampleCounts.has(key) && sampleCounts.size >= MAX_SAMPLED_MESSAGES) {
+      sampleCounts.clear();
+    }
+    sampleCounts.set(key, count + 1);
+    return count % this.sampleEvery === 0;
+  }
+
+  debug(message: string, metadata?: LogFields): void {
+    this.log('debug', message, metadata);
   }
 
-  info(message: string, metadata?: Record<string, any>): void {
-    if (!this.shouldLog('info')) return;
-    
-    const entry = this.formatMessage('info', message, metadata);
-    console.log(`[INFO][${this.context}] ${message}`, metadata);
-    this.sendToMonitoring(entry);
+  info(message: string, metadata?: LogFields): void {
+    this.log('info', message, metadata);
   }
 
-  warn(message: string, metadata?: Record<string, any>): void {
-    if (!this.shouldLog('warn')) return;
-    
-    const entry = this.formatMessage('warn', message, metadata);
-    console.warn(`[WARN][${this.context}] ${message}`, metadata);
-    this.sendToMonitoring(entry);
+  warn(message: string, metadata?: LogFields): void {
+    this.log('warn', message, metadata);
   }
 
-  error(message: string, error?: Error, metadata?: Record<string, any>): void {
-    const entry = { ...this.formatMessage('error', message, metadata), error };
-    console.error(`[ERROR][${this.context}] ${message}`, { error, ...metadata });
-    this.sendToMonitoring(entry);
+  error(message: string, error?: unknown, metadata?: LogFields): void {
+    this.log('error', message, metadata, error);
   }
 
   withContext(context: string): Logger {
-    return new Logger(`${this.context}:${context}`);
+    return new Logger(`${this.context}:${context}`, this.fields, this.sampleEvery);
+  }
+
+  /** Adds fields to every entry, e.g. `{ station }`. */
+  child(fields: LogFields): Logger {
+    return new Logger(this.context, { ...this.fields, ...fields }, this.sampleEvery);
+  }
+
+  /**
+   * For messages logged on every heartbeat or poll: only one call in
+   * `every` with the same message is logged, and the entry says so.
+   */
+  sample(every: number): Logger {
+    return new Logger(this.context, this.fields, Math.max(1, Math.floor(every)));
   }
 }
 
@@ -89,10 +249,10 @@ class Logger {
 export const logger = new Logger();
 
 // Create context-specific loggers
-export const createLogger = (context: string): Logger => new Logger(context);
+export const createLogger = (context: string, fields?: LogFields): Logger => new Logger(context, fields);
 
 // Specialized loggers for different parts of the application
 export const audioLogger = createLogger('Audio');
 export const apiLogger = createLogger('API');
 export const uiLogger = createLogger('UI');
-export const performanceLogger = createLogger('Performance');
\ No newline at end of file
+export const performanceLogger = createLogger('Performance');
@@ -0,0 +1,100 @@
+/**
+ * @fileoverview Server logging setup from the `LOG_*` environment variables.
+ * Runs once per server process from `src/instrumentation.ts`.
+ */
+
+import {
+  LOG_FILE_MAX_FILES,
+  LOG_FILE_MAX_MB,
+  LOG_FILE_PATH,
+  LOG_HTTP_TOKEN,
+  LOG_HTTP_URL,
+  LOG_LEVEL,
+  LOG_LEVELS,
+  LOG_TRANSPORTS,
+} from '../env';
+import { configureLogging, flushLogs, StdoutTransport, type LogLevel, type LogTransport } from '../logger';
+import { getProcessLogPath, HttpBatchTransport, RotatingFileTransport } from './transports';
+
+export { getRequestId, withRequestLogging } from './request-context';
+export {
+  getProcessLogPath,
+  HttpBatchTransport,
+  RotatingFileTransport,
+  type HttpBatchOptions,
+  type RotatingFileOptions,
+} from './transports';
+
+let isConfigured = false;
+const shutdownHooks = new Set<() => Promise<void> | void>();
+
+// Longest a shutdown waits for hooks and buffered entries
+const SHUTDOWN_FLUSH_TIMEOUT_MS = 5000;
+
+/**
+ * Runs `hook` on SIGTERM or SIGINT, before the remaining log entries are
+ * flushed, e.g. to hand over a lease rather than leave it to expire.
+ */
+export function onShutdown(hook: () => Promise<void> | void): void {
+  shutdownHooks.add(hook);
+}
+
+/** Parses `LOG_LEVELS`, which env.ts has already validated. */
+export function parseLogLevels(value: string): Record<string, LogLevel> {
+  const levels: Record<string, LogLevel> = {};
+  for (const entry of value.split(',')) {
+    const [context, level] = entry.split('=').map((part) => part.trim());
+    if (context && level) levels[context] = level as LogLevel;
+  }
+  return levels;
+}
+
+export function createLogTransports(): LogTransport[] {
+  return LOG_TRANSPORTS.map((name) => {
+    switch (name) {
+      case 'file':
+        return new RotatingFileTransport(getProcessLogPath(LOG_FILE_PATH), {
+          maxBytes: LOG_FILE_MAX_MB * 1024 * 1024,
+          maxFiles: LOG_FILE_MAX_FILES,
+        });
+      case 'http':
+        return new HttpBatchTransport(LOG_HTTP_URL, { token: LOG_HTTP_TOKEN || undefined });
+      case 'stdout':
+      default:
+        return new StdoutTransport();
+    }
+  });
+}
+
+export function configureServerLogging(): void {
+  if (isConfigured) return;
+  isConfigured = true;
+
+  configureLogging({
+    transports: createLogTransports(),
+    level: LOG_LEVEL || undefined,
+    levels: parseLogLevels(LOG_LEVELS),
+  });
+
+  // Batched entries would otherwise be lost when the process exits.
+  // `beforeExit` doesn't fire for signals, so those run the shutdown hooks and flush too.
+  process.once('beforeExit', () => void flushLogs());
+  flushOnSignal('SIGTERM');
+  flushOnSignal('SIGINT');
+}
+
+function flushOnSignal(signal: NodeJS.Signals): void {
+  process.once(signal, () => {
+    const timeout = new Promise<void>((resolve) => setTimeout(resolve, SHUTDOWN_FLUSH_TIMEOUT_MS).unref());
+    const shutdown = async () => {
+      await Promise.allSettled([...shutdownHooks].map(async (hook) => hook()));
+      await flushLogs();
+    };
+    void Promise.race([shutdown(), timeout]).finally(() => {
+      // With no other handler left, end the process as Node would have
+      if (process.listenerCount(signal) === 0) {
+        process.kill(process.pid, signal);
+      }
+    });
+  });
+}
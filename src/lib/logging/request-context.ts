@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Request ids for API routes.
+ *
+ * `withRequestLogging` gives every request an id, taken from a sane
+ * `X-Request-Id` header or freshly generated. Entries logged while the
+ * request is handled carry it, the response echoes it, and one access log
+ * line is written when the handler returns.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+import type { NextRequest } from 'next/server';
+import { createLogger, setLogContextProvider } from '../logger';
+
+type RouteHandler<Context> = (request: NextRequest, context: Context) => Promise<Response>;
+
+const requestContext = new AsyncLocalStorage<{ requestId: string }>();
+const accessLogger = createLogger('HTTP');
+
+// Ids from proxies are passed through only if they can't break log lines
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+setLogContextProvider(() => requestContext.getStore());
+
+export function getRequestId(): string | undefined {
+  return requestContext.getStore()?.requestId;
+}
+
+export function withRequestLogging<Context>(handler: RouteHandler<Context>): RouteHandler<Context> {
+  return (request, context) => {
+    const header = request.headers.get('x-request-id');
+    const requestId = header && REQUEST_ID_PATTERN.test(header) ? header : crypto.randomUUID();
+
+    return requestContext.run({ requestId }, async () => {
+      const startedAt = performance.now();
+      const fields = { method: request.method, path: request.nextUrl.pathname };
+
+      try {
+        const response = await handler(request, context);
+        try {
+          response.headers.set('X-Request-Id', requestId);
+        } catch {
+          // Responses passed through from fetch() have immutable headers
+        }
+
+        accessLogger.info('Request completed', {
+          ...fields,
+          status: response.status,
+          durationMs: Math.round(performance.now() - startedAt),
+        });
+        return response;
+      } catch (error) {
+        accessLogger.error('Request failed', error, {
+          ...fields,
+          durationMs: Math.round(performance.now() - startedAt),
+        });
+        throw error;
+      }
+    });
+  };
+}
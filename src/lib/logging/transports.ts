@@ -0,0 +1,203 @@
+/**
+ * @fileoverview Server-side log transports: a size-rotated file and a batching
+ * HTTP sink. Both write the same JSON lines as the stdout transport.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { formatLogLine, type LogEntry, type LogTransport } from '../logger';
+
+export interface RotatingFileOptions {
+  /** Size at which the file is rotated. */
+  maxBytes: number;
+  /** Files kept, counting the one being written: `app.log`, `app.log.1`, ... */
+  maxFiles: number;
+}
+
+/**
+ * The log file for one process: `app.log` becomes `app.<pid>.log`. Processes
+ * sharing `LOG_FILE_PATH` would otherwise rotate each other's files.
+ */
+export function getProcessLogPath(filePath: string, pid: number = process.pid): string {
+  const { dir, name, ext } = path.parse(filePath);
+  return path.join(dir, `${name}.${pid}${ext}`);
+}
+
+/**
+ * Appends JSON lines to a file. Once the file reaches `maxBytes` it is renamed
+ * to `<file>.1`, older files shift up by one, and the oldest is deleted. Only
+ * one process may write to a file; see {@link getProcessLogPath}.
+ */
+export class RotatingFileTransport implements LogTransport {
+  readonly name = 'file';
+
+  private stream: fs.WriteStream;
+  private size: number;
+
+  constructor(private readonly filePath: string, private readonly options: RotatingFileOptions) {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    this.size = fs.existsSync(filePath) ? fs.statSync(filePath).size : 0;
+    this.stream = this.open();
+  }
+
+  private open(): fs.WriteStream {
+    // Opened synchronously, so the file exists by the time it may be rotated
+    const stream = fs.createWriteStream(this.filePath, { fd: fs.openSync(this.filePath, 'a') });
+    stream.on('error', (error) => {
+      console.error(`[Logger] Writing ${this.filePath} failed:`, error);
+    });
+    return stream;
+  }
+
+  write(entry: LogEntry): void {
+    const line = `${formatLogLine(entry)}\n`;
+    const bytes = Buffer.byteLength(line);
+    if (this.size > 0 && this.size + bytes > this.options.maxBytes) {
+      this.rotate();
+    }
+
+    this.stream.write(line);
+    this.size += bytes;
+  }
+
+  private rotate(): void {
+    // Buffered lines still land in the renamed file, which the stream keeps open
+    this.stream.end();
+
+    try {
+      const oldest = `${this.filePath}.${this.options.maxFiles - 1}`;
+      if (this.options.maxFiles > 1) {
+        fs.rmSync(oldest, { force: true });
+        for (let index = this.options.maxFiles - 2; index >= 1; index--) {
+          const file = `${this.filePath}.${index}`;
+          if (fs.existsSync(file)) fs.renameSync(file, `${this.filePath}.${index + 1}`);
+        }
+        fs.renameSync(this.filePath, `${this.filePath}.1`);
+      } else {
+        fs.rmSync(this.filePath, { force: true });
+      }
+    } catch (error) {
+      console.error(`[Logger] Rotating ${this.filePath} failed:`, error);
+    }
+
+    this.stream = this.open();
+    this.size = 0;
+  }
+
+  flush(): Promise<void> {
+    return new Promise((resolve) => {
+      if (this.stream.writableNeedDrain) {
+        this.stream.once('drain', () => resolve());
+      } else {
+        resolve();
+      }
+    });
+  }
+
+  close(): Promise<void> {
+    return new Promise((resolve) => this.stream.end(() => resolve()));
+  }
+}
+
+export interface HttpBatchOptions {
+  /** Sent as `Authorization: Bearer <token>` when set. */
+  token?: string;
+  /** Entries per request. */
+  batchSize?: number;
+  flushIntervalMs?: number;
+  /** Entries kept while the sink is unreachable; the oldest are dropped first. */
+  maxBuffered?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * Posts entries to an HTTP endpoint as newline-delimited JSON, once
+ * `batchSize` entries are waiting or every `flushIntervalMs`. Entries that
+ * can't be delivered are retried with the next batch.
+ */
+export class HttpBatchTransport implements LogTransport {
+  readonly name = 'http';
+
+  private buffer: string[] = [];
+  private sending: Promise<boolean> | null = null;
+  private dropped = 0;
+  private hasReportedFailure = false;
+  private readonly timer: NodeJS.Timeout;
+  private readonly batchSize: number;
+  private readonly maxBuffered: number;
+  private readonly timeoutMs: number;
+
+  constructor(private readonly url: string, private readonly options: HttpBatchOptions = {}) {
+    this.batchSize = options.batchSize ?? 100;
+    this.maxBuffered = options.maxBuffered ?? 10_000;
+    this.timeoutMs = options.timeoutMs ?? 5000;
+    this.timer = setInterval(() => void this.flush(), options.flushIntervalMs ?? 5000);
+    this.timer.unref?.();
+  }
+
+  write(entry: LogEntry): void {
+    this.buffer.push(formatLogLine(entry));
+    if (this.buffer.length > this.maxBuffered) {
+      this.dropped += this.buffer.length - this.maxBuffered;
+      this.buffer.splice(0, this.buffer.length - this.maxBuffered);
+    }
+
+    if (this.buffer.length >= this.batchSize) {
+      void this.flush();
+    }
+  }
+
+  /** Sends everything buffered, one batch at a time. */
+  async flush(): Promise<void> {
+    while (this.buffer.length > 0) {
+      if (!this.sending) {
+        this.sending = this.send().finally(() => {
+          this.sending = null;
+        });
+      }
+      const sent = await this.sending;
+      if (!sent) return;
+    }
+  }
+
+  // Resolves false if the batch has to wait for a later attempt
+  private async send(): Promise<boolean> {
+    const batch = this.buffer.splice(0, this.batchSize);
+    if (batch.length === 0) return true;
+
+    try {
+      const response = await fetch(this.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-ndjson',
+          ...(this.options.token && { 'Authorization': `Bearer ${this.options.token}` }),
+        },
+        body: `${batch.join('\n')}\n`,
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      if (this.dropped > 0 || this.hasReportedFailure) {
+        console.warn(`[Logger] Log sink reachable again; ${this.dropped} entries were dropped meanwhile`);
+        this.dropped = 0;
+        this.hasReportedFailure = false;
+      }
+      return true;
+    } catch (error) {
+      this.buffer.unshift(...batch);
+      // Logging this through the logger would feed the failing sink
+      if (!this.hasReportedFailure) {
+        console.error(`[Logger] Sending logs to ${this.url} failed:`, error);
+        this.hasReportedFailure = true;
+      }
+      return false;
+    }
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.timer);
+    await this.flush();
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * @fileoverview The app's metrics, served by `/api/metrics`.
+ *
+ * Counters and histograms are recorded where things happen. Gauges describing
+ * current state (open streams, listeners, heartbeat age) are filled in by the
+ * metrics route when it is scraped.
+ */
+
+import type { NextRequest } from 'next/server';
+import { MetricsRegistry } from './registry';
+
+export { OPENMETRICS_CONTENT_TYPE, MetricsRegistry, Counter, Gauge, Histogram, type Labels } from './registry';
+
+export const metrics = new MetricsRegistry();
+
+// --- Upstream (radio provider live feed) ---
+export const upstreamConnectionAttempts = metrics.counter('oadro_upstream_connection_attempts', {
+  help: 'Connection attempts to the radio provider live feed.',
+  labelNames: ['station'],
+});
+export const upstreamConnectionSuccesses = metrics.counter('oadro_upstream_connection_successes', {
+  help: 'Connections to the radio provider live feed that opened.',
+  labelNames: ['station'],
+});
+export const upstreamConnectionFailures = metrics.counter('oadro_upstream_connection_failures', {
+  help: 'Radio provider live feed connections that failed or dropped.',
+  labelNames: ['station'],
+});
+export const upstreamReconnectSeconds = metrics.histogram('oadro_upstream_reconnect_seconds', {
+  help: 'Time from losing the radio provider live feed to having it back.',
+  labelNames: ['station'],
+  unit: 'seconds',
+  buckets: [1, 2, 5, 10, 30, 60, 120, 300, 900],
+});
+export const upstreamHeartbeatAgeSeconds = metrics.gauge('oadro_upstream_heartbeat_age_seconds', {
+  help: 'Time since the last message on the live feed, for workers running in this process.',
+  labelNames: ['station'],
+  unit: 'seconds',
+});
+
+// --- Listeners ---
+export const sseSubscribers = metrics.gauge('oadro_sse_subscribers', {
+  help: 'Open /api/radio-stream connections in this process.',
+  labelNames: ['station'],
+});
+export const listeners = metrics.gauge('oadro_listeners', {
+  help: 'Stream listeners reported by the radio provider.',
+  labelNames: ['station'],
+});
+
+// --- API ---
+export const httpRequests = metrics.counter('oadro_http_requests', {
+  help: 'API requests by route, method and response status.',
+  labelNames: ['route', 'method', 'status'],
+});
+export const httpRequestDurationSeconds = metrics.histogram('oadro_http_request_duration_seconds', {
+  help: 'Time until an API route returned its response (streams count until their headers are sent).',
+  labelNames: ['route', 'method'],
+  unit: 'seconds',
+});
+export const rateLimitRejections = metrics.counter('oadro_rate_limit_rejections', {
+  help: 'API requests refused by a rate limit policy.',
+  labelNames: ['policy'],
+});
+
+type RouteHandler<Context> = (request: NextRequest, context: Context) => Promise<Response>;
+
+/**
+ * Counts a route's requests and times its handler. `route` is the route's
+ * path pattern, e.g. `/api/song/[songId]`, so dynamic segments don't each
+ * become a series.
+ */
+export function withRequestMetrics<Context>(route: string, handler: RouteHandler<Context>): RouteHandler<Context> {
+  return async (request, context) => {
+    const startedAt = performance.now();
+    let status = 500;
+
+    try {
+      const response = await handler(request, context);
+      status = response.status;
+      return response;
+    } finally {
+      httpRequests.inc({ route, method: request.method, status: String(status) });
+      httpRequestDurationSeconds.observe({ route, method: request.method }, (performance.now() - startedAt) / 1000);
+    }
+  };
+}
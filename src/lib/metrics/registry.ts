@@ -0,0 +1,202 @@
+/**
+ * @fileoverview Minimal metrics registry rendering the OpenMetrics text format.
+ *
+ * Supports counters, gauges and histograms with labels, which is all the app
+ * exposes. Values live in the process that recorded them.
+ */
+
+export type Labels = Record<string, string>;
+
+export const OPENMETRICS_CONTENT_TYPE = 'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+export const DEFAULT_DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+interface MetricOptions {
+  help: string;
+  labelNames?: string[];
+  /** Base unit, which must also end the metric name, e.g. `seconds`. */
+  unit?: string;
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatNumber(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  if (Number.isNaN(value)) return 'NaN';
+  return Number.isInteger(value) ? value.toFixed(1) : String(value);
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+abstract class Metric<Series> {
+  protected series = new Map<string, { labels: Labels; value: Series }>();
+
+  constructor(
+    readonly name: string,
+    protected readonly type: 'counter' | 'gauge' | 'histogram',
+    protected readonly options: MetricOptions
+  ) {
+    if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(name)) {
+      throw new Error(`Invalid metric name: ${name}`);
+    }
+    if (options.unit && !name.endsWith(`_${options.unit}`)) {
+      throw new Error(`Metric ${name} must end with its unit (${options.unit})`);
+    }
+  }
+
+  /** Forgets every series, e.g. before a gauge is refilled from current state. */
+  reset(): void {
+    this.series.clear();
+  }
+
+  protected getSeries(labels: Labels, create: () => Series): Series {
+    const names = this.options.labelNames ?? [];
+    const unknown = Object.keys(labels).find((name) => !names.includes(name));
+    if (unknown) {
+      throw new Error(`Unknown label "${unknown}" for metric ${this.name}`);
+    }
+
+    // Fixed label order, so the same labels always hit the same series
+    const ordered: Labels = {};
+    names.forEach((name) => {
+      ordered[name] = labels[name] ?? '';
+    });
+
+    const key = JSON.stringify(ordered);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: ordered, value: create() };
+      this.series.set(key, entry);
+    }
+    return entry.value;
+  }
+
+  render(): string[] {
+    const lines = [`# TYPE ${this.name} ${this.type}`];
+    if (this.options.unit) {
+      lines.push(`# UNIT ${this.name} ${this.options.unit}`);
+    }
+    lines.push(`# HELP ${this.name} ${this.options.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+
+    for (const { labels, value } of this.series.values()) {
+      lines.push(...this.renderSeries(labels, value));
+    }
+    return lines;
+  }
+
+  protected abstract renderSeries(labels: Labels, value: Series): string[];
+}
+
+export class Counter extends Metric<{ value: number }> {
+  constructor(name: string, options: MetricOptions) {
+    super(name, 'counter', options);
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    if (amount < 0) {
+      throw new Error(`Counter ${this.name} can only go up`);
+    }
+    this.getSeries(labels, () => ({ value: 0 })).value += amount;
+  }
+
+  protected renderSeries(labels: Labels, { value }: { value: number }): string[] {
+    return [`${this.name}_total${formatLabels(labels)} ${formatNumber(value)}`];
+  }
+}
+
+export class Gauge extends Metric<{ value: number }> {
+  constructor(name: string, options: MetricOptions) {
+    super(name, 'gauge', options);
+  }
+
+  set(labels: Labels, value: number): void {
+    this.getSeries(labels, () => ({ value: 0 })).value = value;
+  }
+
+  protected renderSeries(labels: Labels, { value }: { value: number }): string[] {
+    return [`${this.name}${formatLabels(labels)} ${formatNumber(value)}`];
+  }
+}
+
+interface HistogramSeries {
+  /** Observations per bucket, not cumulative. */
+  counts: number[];
+  count: number;
+  sum: number;
+}
+
+export class Histogram extends Metric<HistogramSeries> {
+  private readonly buckets: number[];
+
+  constructor(name: string, options: MetricOptions & { buckets?: number[] }) {
+    super(name, 'histogram', options);
+    this.buckets = [...(options.buckets ?? DEFAULT_DURATION_BUCKETS)].sort((a, b) => a - b);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const series = this.getSeries(labels, () => ({
+      counts: new Array(this.buckets.length).fill(0),
+      count: 0,
+      sum: 0,
+    }));
+
+    const index = this.buckets.findIndex((bound) => value <= bound);
+    if (index !== -1) series.counts[index]++;
+    series.count++;
+    series.sum += value;
+  }
+
+  protected renderSeries(labels: Labels, series: HistogramSeries): string[] {
+    const lines: string[] = [];
+    let cumulative = 0;
+
+    this.buckets.forEach((bound, index) => {
+      cumulative += series.counts[index];
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatNumber(bound) })} ${cumulative}`);
+    });
+    lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${series.count}`);
+    lines.push(`${this.name}_count${formatLabels(labels)} ${series.count}`);
+    lines.push(`${this.name}_sum${formatLabels(labels)} ${formatNumber(series.sum)}`);
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics = new Map<string, { name: string; render(): string[] }>();
+
+  counter(name: string, options: MetricOptions): Counter {
+    return this.register(new Counter(name, options));
+  }
+
+  gauge(name: string, options: MetricOptions): Gauge {
+    return this.register(new Gauge(name, options));
+  }
+
+  histogram(name: string, options: MetricOptions & { buckets?: number[] }): Histogram {
+    return this.register(new Histogram(name, options));
+  }
+
+  /** Every metric in the OpenMetrics text format, ending with `# EOF`. */
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(...metric.render());
+    }
+    lines.push('# EOF');
+    return `${lines.join('\n')}\n`;
+  }
+
+  private register<T extends { name: string; render(): string[] }>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
@@ -0,0 +1,441 @@
+/**
+ * @fileoverview Embedded play-history store.
+ *
+ * Every `now_playing` transition seen by a station's radio worker is appended
+ * to that station's JSON-lines log on local disk. An in-memory index keyed by
+ * song ID is rebuilt from the log on startup, so per-song statistics can be
+ * served without an external database. Processes that don't run the worker
+ * index the log's new lines whenever it has grown.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { NowPlaying, Song } from './types';
+import { PLAY_HISTORY_DIR } from './env';
+import { createLogger } from './logger';
+import { DEFAULT_STATION_ID } from './stations';
+
+const log = createLogger('PlayHistory');
+
+const LOG_FILE_NAME = 'plays.jsonl';
+
+/** A single play of a song, as recorded in the log. */
+export interface PlayRecord {
+  shId: number;
+  songId: string;
+  title: string;
+  artist: string;
+  albumArt: string;
+  genre: string;
+  duration: number;
+  playlists: string[];
+  /** Unix timestamp (seconds) at which the song started playing. */
+  playedAt: number;
+  /** Unix timestamp (seconds) at which the next song replaced this one. */
+  endedAt?: number;
+  /** Time-weighted average listener count while the song was playing. */
+  averageListeners?: number;
+}
+
+/** Aggregated statistics for one song across all recorded plays. */
+export interface SongStats {
+  songId: string;
+  title: string;
+  artist: string;
+  albumArt: string;
+  genre: string;
+  duration: number;
+  playCount: number;
+  firstPlayedAt: number;
+  lastPlayedAt: number;
+  averageListeners: number | null;
+}
+
+/** Filters accepted by {@link PlayHistoryStore.queryPlays}. */
+export interface PlayQuery {
+  /** Only return plays older than the play with this `sh_id`. */
+  before?: number;
+  /** Inclusive lower bound on `playedAt` (unix seconds). */
+  from?: number;
+  /** Inclusive upper bound on `playedAt` (unix seconds). */
+  to?: number;
+  artist?: string;
+  genre?: string;
+  limit: number;
+}
+
+type LogLine =
+  | ({ kind: 'start' } & PlayRecord)
+  | { kind: 'end'; shId: number; endedAt: number; averageListeners: number };
+
+/** The play from a log line, without the line's `kind`. */
+function toPlayRecord(line: { kind: 'start' } & PlayRecord): PlayRecord {
+  const record: PlayRecord = {
+    shId: line.shId,
+    songId: line.songId,
+    title: line.title,
+    artist: line.artist,
+    albumArt: line.albumArt,
+    genre: line.genre,
+    duration: line.duration,
+    playlists: line.playlists,
+    playedAt: line.playedAt,
+  };
+  if (line.endedAt !== undefined) record.endedAt = line.endedAt;
+  if (line.averageListeners !== undefined) record.averageListeners = line.averageListeners;
+  return record;
+}
+
+/** Listener samples accumulated for the song that is currently playing. */
+interface ActivePlay {
+  record: PlayRecord;
+  weightedListeners: number;
+  sampledMs: number;
+  lastSampleAt: number;
+  lastListenerCount: number;
+}
+
+export class PlayHistoryStore {
+  private readonly logPath: string;
+  private plays: PlayRecord[] = [];
+  private playsByShId = new Map<number, PlayRecord>();
+  private playsBySongId = new Map<string, PlayRecord[]>();
+  private active: ActivePlay | null = null;
+  private writeChain: Promise<void> = Promise.resolve();
+  /** Bytes of the log already indexed, up to the end of a complete line. */
+  private loadedBytes = 0;
+
+  constructor(directory: string) {
+    this.logPath = path.join(directory, LOG_FILE_NAME);
+
+    try {
+      fs.mkdirSync(directory, { recursive: true });
+    } catch (error) {
+      log.error('Failed to create directory', error, { directory });
+    }
+
+    this.loadFromLog();
+  }
+
+  /**
+   * Records a now-playing snapshot. A new `sh_id` closes the previous play and
+   * opens a new one; the same `sh_id` only contributes a listener sample.
+   */
+  public recordNowPlaying(nowPlaying: NowPlaying): void {
+    const { liveSong, listenerCount } = nowPlaying;
+    if (!liveSong || !liveSong.songId) return;
+
+    // Another process may have led the station until now
+    this.syncWithLog();
+    const now = Date.now();
+
+    if (this.active && this.active.record.shId === liveSong.id) {
+      this.addListenerSample(this.active, listenerCount, now);
+      return;
+    }
+
+    this.closeActivePlay(now);
+
+    // A restarted worker may see a play that is already in the log
+    const existing = this.playsByShId.get(liveSong.id);
+    if (existing) {
+      this.active = {
+        record: existing,
+        weightedListeners: 0,
+        sampledMs: 0,
+        lastSampleAt: now,
+        lastListenerCount: listenerCount,
+      };
+      return;
+    }
+
+    const record: PlayRecord = {
+      shId: liveSong.id,
+      songId: liveSong.songId,
+      title: liveSong.title,
+      artist: liveSong.artist,
+      albumArt: liveSong.albumArt,
+      genre: liveSong.genre,
+      duration: liveSong.duration,
+      playlists: liveSong.playlists ?? [],
+      playedAt: liveSong.played_at ?? Math.floor(now / 1000),
+    };
+
+    this.indexPlay(record);
+    this.append({ kind: 'start', ...record });
+
+    this.active = {
+      record,
+      weightedListeners: 0,
+      sampledMs: 0,
+      lastSampleAt: now,
+      lastListenerCount: listenerCount,
+    };
+  }
+
+  /**
+   * Closes the currently playing song, e.g. when the stream goes offline.
+   */
+  public closeActivePlay(now: number = Date.now()): void {
+    const active = this.active;
+    if (!active) return;
+
+    this.addListenerSample(active, active.lastListenerCount, now);
+    this.active = null;
+
+    const averageListeners = this.currentAverage(active, now);
+    const endedAt = Math.floor(now / 1000);
+
+    active.record.endedAt = endedAt;
+    active.record.averageListeners = averageListeners;
+
+    this.append({ kind: 'end', shId: active.record.shId, endedAt, averageListeners });
+  }
+
+  /**
+   * Returns aggregated statistics for a song, or null if it was never recorded.
+   */
+  public getSongStats(songId: string): SongStats | null {
+    this.syncWithLog();
+    const plays = this.playsBySongId.get(songId);
+    if (!plays || plays.length === 0) return null;
+
+    return this.buildSongStats(songId, plays);
+  }
+
+  /**
+   * Returns statistics for every recorded song, keyed by song ID. Cheaper than
+   * calling {@link getSongStats} for each song of a large catalogue.
+   */
+  public getAllSongStats(): Map<string, SongStats> {
+    this.syncWithLog();
+    const stats = new Map<string, SongStats>();
+    for (const [songId, plays] of this.playsBySongId) {
+      if (plays.length > 0) {
+        stats.set(songId, this.buildSongStats(songId, plays));
+      }
+    }
+    return stats;
+  }
+
+  private buildSongStats(songId: string, plays: PlayRecord[]): SongStats {
+    const latest = plays[plays.length - 1];
+    let listenerSum = 0;
+    let listenerPlays = 0;
+
+    for (const play of plays) {
+      const average = play === this.active?.record
+        ? this.currentAverage(this.active)
+        : play.averageListeners;
+
+      if (typeof average === 'number') {
+        listenerSum += average;
+        listenerPlays++;
+      }
+    }
+
+    return {
+      songId,
+      title: latest.title,
+      artist: latest.artist,
+      albumArt: latest.albumArt,
+      genre: latest.genre,
+      duration: latest.duration,
+      playCount: plays.length,
+      firstPlayedAt: plays[0].playedAt,
+      lastPlayedAt: latest.playedAt,
+      averageListeners: listenerPlays > 0
+        ? Math.round((listenerSum / listenerPlays) * 10) / 10
+        : null,
+    };
+  }
+
+  /**
+   * Returns recorded plays, newest first, matching the given filters. When more
+   * plays match than `limit`, `nextBefore` holds the `sh_id` to pass as
+   * `before` to fetch the next page.
+   */
+  public queryPlays(query: PlayQuery): { plays: PlayRecord[]; nextBefore: number | null } {
+    this.syncWithLog();
+    const artist = query.artist?.toLowerCase();
+    const genre = query.genre?.toLowerCase();
+
+    let index = this.plays.length - 1;
+    if (query.before !== undefined) {
+      const cursor = this.playsByShId.get(query.before);
+      index = cursor ? this.plays.indexOf(cursor) - 1 : -1;
+    }
+
+    const plays: PlayRecord[] = [];
+    for (; index >= 0; index--) {
+      const play = this.plays[index];
+
+      if (query.to !== undefined && play.playedAt > query.to) continue;
+      // Plays are appended in order, so nothing older can match either
+      if (query.from !== undefined && play.playedAt < query.from) break;
+      if (artist && !play.artist.toLowerCase().includes(artist)) continue;
+      if (genre && !play.genre.toLowerCase().includes(genre)) continue;
+
+      if (plays.length === query.limit) {
+        return { plays, nextBefore: plays[plays.length - 1].shId };
+      }
+      plays.push(play);
+    }
+
+    return { plays, nextBefore: null };
+  }
+
+  /**
+   * Converts a recorded play back into the shared `Song` shape.
+   */
+  public toSong(play: PlayRecord): Song {
+    const plays = this.playsBySongId.get(play.songId) ?? [];
+
+    return {
+      id: play.shId,
+      songId: play.songId,
+      title: play.title,
+      artist: play.artist,
+      albumArt: play.albumArt,
+      genre: play.genre,
+      duration: play.duration,
+      played_at: play.playedAt,
+      playlists: play.playlists,
+      playCount: plays.length,
+      firstPlayedAt: plays[0]?.playedAt,
+    };
+  }
+
+  /** Waits for all pending log writes to be flushed. */
+  public flush(): Promise<void> {
+    return this.writeChain;
+  }
+
+  private currentAverage(active: ActivePlay, now: number = Date.now()): number {
+    const pendingMs = Math.max(0, now - active.lastSampleAt);
+    const totalMs = active.sampledMs + pendingMs;
+    if (totalMs <= 0) return active.lastListenerCount;
+
+    const total = active.weightedListeners + active.lastListenerCount * pendingMs;
+    return Math.round((total / totalMs) * 10) / 10;
+  }
+
+  private addListenerSample(active: ActivePlay, listenerCount: number, now: number): void {
+    const elapsedMs = Math.max(0, now - active.lastSampleAt);
+    active.weightedListeners += active.lastListenerCount * elapsedMs;
+    active.sampledMs += elapsedMs;
+    active.lastSampleAt = now;
+    active.lastListenerCount = listenerCount;
+  }
+
+  private indexPlay(record: PlayRecord): void {
+    this.plays.push(record);
+    this.playsByShId.set(record.shId, record);
+
+    const songPlays = this.playsBySongId.get(record.songId);
+    if (songPlays) {
+      songPlays.push(record);
+    } else {
+      this.playsBySongId.set(record.songId, [record]);
+    }
+  }
+
+  private loadFromLog(): void {
+    let skipped: number;
+    try {
+      skipped = this.readNewLines();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log.error('Failed to read play log', error, { path: this.logPath });
+      }
+      return;
+    }
+
+    log.info('Loaded play log', { path: this.logPath, plays: this.plays.length, skippedLines: skipped });
+  }
+
+  /** Indexes lines appended to the log since it was last read, e.g. by the leader. */
+  private syncWithLog(): void {
+    try {
+      const { size } = fs.statSync(this.logPath);
+      if (size < this.loadedBytes) {
+        // The log was replaced, so index it from scratch
+        this.plays = [];
+        this.playsByShId.clear();
+        this.playsBySongId.clear();
+        this.loadedBytes = 0;
+      }
+      if (size > this.loadedBytes) {
+        this.readNewLines();
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log.error('Failed to read play log', error, { path: this.logPath });
+      }
+    }
+  }
+
+  /** Indexes the log's complete lines past `loadedBytes`; returns how many were unreadable. */
+  private readNewLines(): number {
+    const fd = fs.openSync(this.logPath, 'r');
+    let chunk: Buffer;
+    try {
+      chunk = Buffer.alloc(Math.max(0, fs.fstatSync(fd).size - this.loadedBytes));
+      fs.readSync(fd, chunk, 0, chunk.length, this.loadedBytes);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    // A line still being written is picked up once it is complete
+    const end = chunk.lastIndexOf(0x0a) + 1;
+    this.loadedBytes += end;
+
+    let skipped = 0;
+    for (const line of chunk.subarray(0, end).toString('utf8').split('\n')) {
+      if (!line.trim()) continue;
+
+      try {
+        const entry = JSON.parse(line) as LogLine;
+        if (entry.kind === 'start') {
+          if (!this.playsByShId.has(entry.shId)) {
+            this.indexPlay(toPlayRecord(entry));
+          }
+        } else if (entry.kind === 'end') {
+          const record = this.playsByShId.get(entry.shId);
+          if (record) {
+            record.endedAt = entry.endedAt;
+            record.averageListeners = entry.averageListeners;
+          }
+        }
+      } catch {
+        // A partially written line is expected after a crash
+        skipped++;
+      }
+    }
+    return skipped;
+  }
+
+  private append(line: LogLine): void {
+    const serialized = `${JSON.stringify(line)}\n`;
+    this.writeChain = this.writeChain
+      .then(() => fs.promises.appendFile(this.logPath, serialized, 'utf8'))
+      .catch((error) => {
+        log.error('Failed to append to play log', error, { path: this.logPath });
+      });
+  }
+}
+
+// One store per station, each in its own subdirectory
+const playHistoryStores = new Map<string, PlayHistoryStore>();
+
+/**
+ * Gets or creates the process-wide play-history store for a station.
+ */
+export function getPlayHistoryStore(station: string = DEFAULT_STATION_ID): PlayHistoryStore {
+  let store = playHistoryStores.get(station);
+  if (!store) {
+    store = new PlayHistoryStore(path.resolve(PLAY_HISTORY_DIR, station));
+    playHistoryStores.set(station, store);
+  }
+  return store;
+}
@@ -0,0 +1,138 @@
+/**
+ * @fileoverview AzuraCast implementation of RadioProvider.
+ *
+ * Now playing data arrives over AzuraCast's Centrifugo SSE feed and is
+ * validated by the AzuraCast adapter; schedules, requests and stream URLs map
+ * directly onto AzuraCast's station API.
+ */
+
+import { ApiError } from '../errors/api-errors';
+import { createLogger } from '../logger';
+import { parseNowPlaying } from '../azuracast-adapter';
+import type { ScheduleEntry } from '../schedule-types';
+import type { RequestableSong } from '../request-types';
+import type { ProviderNowPlaying, RadioProvider, StreamFormat } from './types';
+
+const log = createLogger('AzuraCast');
+
+const SCHEDULE_ROWS = 200;
+
+async function fetchJson<T>(url: string, description: string): Promise<T> {
+  const response = await fetch(url, {
+    headers: {
+      'Accept': 'application/json',
+      'Cache-Control': 'no-cache',
+    },
+  });
+
+  if (!response.ok) {
+    log.error(`Failed to fetch ${description}`, undefined, { status: response.status, statusText: response.statusText });
+    throw new ApiError(
+      `Failed to fetch ${description}: ${response.status}`,
+      response.status,
+      'EXTERNAL_API_ERROR'
+    );
+  }
+
+  return response.json();
+}
+
+export class AzuraCastProvider implements RadioProvider {
+  readonly name = 'azuracast';
+  readonly capabilities = { liveFeed: true, schedule: true, requests: true };
+
+  constructor(private readonly baseUrl: string) {}
+
+  async getNowPlaying(station: string): Promise<ProviderNowPlaying> {
+    return parseNowPlaying(await fetchJson(`${this.baseUrl}/api/nowplaying/${station}`, 'now playing'));
+  }
+
+  getLiveFeedUrl(station: string): string {
+    const connect = JSON.stringify({ subs: { [`station:${station}`]: {} } });
+    return `${this.baseUrl}/api/live/nowplaying/sse?cf_connect=${encodeURIComponent(connect)}`;
+  }
+
+  parseLiveFeedMessage(data: unknown): ProviderNowPlaying | null {
+    const np = (data as { pub?: { data?: { np?: unknown } } } | null)?.pub?.data?.np;
+    return np ? parseNowPlaying(np) : null;
+  }
+
+  getSchedule(station: string, from?: number): Promise<ScheduleEntry[]> {
+    // AzuraCast returns 5 rows by default, too few to spot weekly shows
+    const params = new URLSearchParams({ rows: String(SCHEDULE_ROWS) });
+    if (from !== undefined) {
+      params.set('now', new Date(from * 1000).toISOString());
+    }
+    return fetchJson(`${this.baseUrl}/api/station/${station}/schedule?${params.toString()}`, 'schedule data');
+  }
+
+  getRequestableSongs(station: string): Promise<RequestableSong[]> {
+    return fetchJson(`${this.baseUrl}/api/station/${station}/requests`, 'requestable songs');
+  }
+
+  async submitRequest(station: string, requestUrl: string): Promise<unknown> {
+    // Build the full URL if it's a relative path
+    const fullUrl = requestUrl.startsWith('http') ? requestUrl : `${this.baseUrl}${requestUrl}`;
+
+    // Only forward requests for the selected station on this AzuraCast instance
+    if (!fullUrl.startsWith(`${this.baseUrl}/api/station/${station}/`)) {
+      throw new ApiError('Invalid request URL', 400, 'INVALID_REQUEST_URL');
+    }
+
+    const response = await fetch(fullUrl, {
+      method: 'POST',
+      headers: {
+        'Accept': 'application/json',
+        'Content-Type': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      let errorData;
+      try {
+        errorData = await response.json();
+      } catch {
+        errorData = { message: await response.text() };
+      }
+
+      log.error('Failed to submit request', undefined, {
+        status: response.status,
+        statusText: response.statusText,
+        response: errorData,
+      });
+
+      // Handle specific AzuraCast error responses
+      if (response.status === 429) {
+        throw new ApiError('Too many requests. Please wait before requesting another song.', 429, 'RATE_LIMITED');
+      } else if (response.status === 404) {
+        throw new ApiError('Song not found or no longer available for request.', 404, 'SONG_NOT_FOUND');
+      } else if (response.status === 500 && errorData.message) {
+        // AzuraCast reports its own restrictions (like cooldown periods) as 500s
+        throw new ApiError(errorData.message, 400, 'AZURACAST_RESTRICTION');
+      }
+      throw new ApiError(
+        errorData.message || `Failed to submit song request: ${response.status}`,
+        response.status,
+        'EXTERNAL_API_ERROR'
+      );
+    }
+
+    try {
+      return await response.json();
+    } catch {
+      // If response is not JSON, treat as success
+      return { success: true };
+    }
+  }
+
+  getStreamUrl(station: string, format: StreamFormat): string {
+    switch (format) {
+      case 'hls':
+        return `${this.baseUrl}/hls/${station}/live.m3u8`;
+      case 'mp3_320':
+        return `${this.baseUrl}/listen/${station}/320kbps.mp3`;
+      case 'mp3_192':
+        return `${this.baseUrl}/listen/${station}/radio.mp3`;
+    }
+  }
+}
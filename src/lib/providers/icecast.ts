@@ -0,0 +1,199 @@
+/**
+ * @fileoverview Icecast implementation of RadioProvider.
+ *
+ * Icecast only exposes what is on air right now, through `status-json.xsl`,
+ * so there is no live feed, schedule or request queue. Each station is the
+ * mount point of the same name (`/oadro` for station `oadro`). Because Icecast
+ * has no play IDs or history, the provider tracks title changes itself:
+ * a new title starts a new play, and the previous one moves to recently played.
+ */
+
+import { UI } from '../constants';
+import { ApiError, NotSupportedError } from '../errors/api-errors';
+import { createLogger } from '../logger';
+import type { Song } from '../types';
+import type { ScheduleEntry } from '../schedule-types';
+import type { RequestableSong } from '../request-types';
+import type { ProviderNowPlaying, RadioProvider, StreamFormat } from './types';
+
+const log = createLogger('Icecast');
+
+/** One mount in `icestats.source`; Icecast omits fields the source doesn't send. */
+export interface IcecastSource {
+  listenurl?: string;
+  listeners?: number;
+  title?: string;
+  artist?: string;
+  genre?: string;
+  server_name?: string;
+  stream_start_iso8601?: string;
+}
+
+export interface IcecastStatus {
+  icestats?: {
+    // A single mount is sent as an object rather than a one-element array
+    source?: IcecastSource | IcecastSource[];
+  };
+}
+
+interface TrackedPlay {
+  key: string;
+  song: Song;
+}
+
+/** Stable song ID derived from artist and title (32-bit FNV-1a, hex). */
+function toSongId(artist: string, title: string): string {
+  let hash = 0x811c9dc5;
+  const text = `${artist}\u0000${title}`.toLowerCase();
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Splits Icecast metadata into artist and title. Most sources only send a
+ * combined "Artist - Title" string.
+ */
+export function splitIcecastTitle(source: IcecastSource): { artist: string; title: string } {
+  const title = source.title?.trim() ?? '';
+  if (source.artist?.trim()) {
+    return { artist: source.artist.trim(), title };
+  }
+
+  const separator = title.indexOf(' - ');
+  if (separator === -1) {
+    return { artist: '', title };
+  }
+  return { artist: title.slice(0, separator).trim(), title: title.slice(separator + 3).trim() };
+}
+
+/** Finds the source serving a station's mount. */
+export function findIcecastSource(status: IcecastStatus, station: string): IcecastSource | null {
+  const sources = status.icestats?.source;
+  const list = Array.isArray(sources) ? sources : sources ? [sources] : [];
+
+  return list.find((source) => {
+    if (!source.listenurl) return false;
+    try {
+      return new URL(source.listenurl).pathname === `/${station}`;
+    } catch {
+      return false;
+    }
+  }) ?? null;
+}
+
+export class IcecastProvider implements RadioProvider {
+  readonly name = 'icecast';
+  readonly capabilities = { liveFeed: false, schedule: false, requests: false };
+
+  private currentPlays = new Map<string, TrackedPlay>();
+  private recentPlays = new Map<string, Song[]>();
+
+  constructor(private readonly baseUrl: string) {}
+
+  async getNowPlaying(station: string): Promise<ProviderNowPlaying> {
+    const response = await fetch(`${this.baseUrl}/status-json.xsl`, {
+      headers: { 'Accept': 'application/json' },
+    });
+
+    if (!response.ok) {
+      log.error('Failed to fetch now playing', undefined, { status: response.status, statusText: response.statusText });
+      throw new ApiError(
+        `Failed to fetch now playing: ${response.status}`,
+        response.status,
+        'EXTERNAL_API_ERROR'
+      );
+    }
+
+    return this.toNowPlaying(station, await response.json());
+  }
+
+  /**
+   * Converts a status document to a snapshot for one station, updating the
+   * tracked play if the title changed.
+   */
+  toNowPlaying(station: string, status: IcecastStatus, now: number = Date.now()): ProviderNowPlaying {
+    const source = findIcecastSource(status, station);
+    const recentlyPlayed = this.recentPlays.get(station) ?? [];
+
+    if (!source || !source.title) {
+      return {
+        liveSong: null,
+        upNext: [],
+        recentlyPlayed,
+        listenerCount: source?.listeners ?? 0,
+        isOnline: Boolean(source),
+      };
+    }
+
+    const { artist, title } = splitIcecastTitle(source);
+    const key = `${artist}\u0000${title}`;
+    const nowSeconds = Math.floor(now / 1000);
+    let play = this.currentPlays.get(station);
+
+    if (play?.key !== key) {
+      if (play) {
+        this.recentPlays.set(
+          station,
+          [play.song, ...recentlyPlayed].slice(0, UI.RECENT_SONGS_COUNT)
+        );
+      }
+
+      play = {
+        key,
+        song: {
+          // Play IDs only need to change with each track, and must keep increasing
+          id: Math.max(nowSeconds, (play?.song.id ?? 0) + 1),
+          songId: toSongId(artist, title),
+          title: title || 'Unknown Title',
+          artist: artist || 'Unknown Artist',
+          albumArt: '',
+          genre: source.genre || '',
+          duration: 0,
+          elapsed: 0,
+          played_at: nowSeconds,
+          interactionCount: 0,
+          creatorDiscordId: null,
+          playlists: [],
+          onDemand: null,
+        },
+      };
+      this.currentPlays.set(station, play);
+    }
+
+    return {
+      liveSong: { ...play.song, elapsed: nowSeconds - (play.song.played_at ?? nowSeconds) },
+      upNext: [],
+      recentlyPlayed: this.recentPlays.get(station) ?? [],
+      listenerCount: source.listeners ?? 0,
+      isOnline: true,
+    };
+  }
+
+  getLiveFeedUrl(): null {
+    return null;
+  }
+
+  parseLiveFeedMessage(): null {
+    return null;
+  }
+
+  async getSchedule(): Promise<ScheduleEntry[]> {
+    throw new NotSupportedError('Schedules are not available from Icecast');
+  }
+
+  async getRequestableSongs(): Promise<RequestableSong[]> {
+    throw new NotSupportedError('Song requests are not available from Icecast');
+  }
+
+  async submitRequest(): Promise<unknown> {
+    throw new NotSupportedError('Song requests are not available from Icecast');
+  }
+
+  /** Icecast serves one format per mount, so every format maps to the station's mount. */
+  getStreamUrl(station: string, _format: StreamFormat): string {
+    return `${this.baseUrl}/${station}`;
+  }
+}
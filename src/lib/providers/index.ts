@@ -0,0 +1,42 @@
+/**
+ * @fileoverview Selects the radio backend from `NEXT_PUBLIC_RADIO_PROVIDER`.
+ */
+
+import {
+  NEXT_PUBLIC_AZURACAST_BASE_URL,
+  NEXT_PUBLIC_ICECAST_BASE_URL,
+  NEXT_PUBLIC_RADIO_PROVIDER,
+} from '../env';
+import { AzuraCastProvider } from './azuracast';
+import { IcecastProvider } from './icecast';
+import type { RadioProvider } from './types';
+
+export type {
+  ProviderNowPlaying,
+  RadioProvider,
+  RadioProviderCapabilities,
+  RadioProviderName,
+  StreamFormat,
+} from './types';
+export { AzuraCastProvider } from './azuracast';
+export { IcecastProvider } from './icecast';
+
+let provider: RadioProvider | null = null;
+
+export function createRadioProvider(): RadioProvider {
+  switch (NEXT_PUBLIC_RADIO_PROVIDER) {
+    case 'icecast':
+      return new IcecastProvider(NEXT_PUBLIC_ICECAST_BASE_URL);
+    case 'azuracast':
+    default:
+      return new AzuraCastProvider(NEXT_PUBLIC_AZURACAST_BASE_URL);
+  }
+}
+
+/** The configured provider, shared so stateful providers see every update. */
+export function getRadioProvider(): RadioProvider {
+  if (!provider) {
+    provider = createRadioProvider();
+  }
+  return provider;
+}
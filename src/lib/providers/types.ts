@@ -0,0 +1,54 @@
+/**
+ * Types for the pluggable radio backend (AzuraCast, Icecast, ...)
+ */
+
+import type { NowPlaying } from '../types';
+import type { ScheduleEntry } from '../schedule-types';
+import type { RequestableSong } from '../request-types';
+
+export type RadioProviderName = 'azuracast' | 'icecast';
+
+export type StreamFormat = 'hls' | 'mp3_320' | 'mp3_192';
+
+/** A normalised now playing snapshot together with the station's on-air state. */
+export type ProviderNowPlaying = NowPlaying & { isOnline: boolean };
+
+export interface RadioProviderCapabilities {
+  /** Pushes now playing updates over SSE; otherwise the worker polls. */
+  liveFeed: boolean;
+  schedule: boolean;
+  requests: boolean;
+}
+
+export interface RadioProvider {
+  readonly name: RadioProviderName;
+  readonly capabilities: RadioProviderCapabilities;
+
+  getNowPlaying(station: string): Promise<ProviderNowPlaying>;
+
+  /** SSE URL for live now playing updates, or null if the provider has none. */
+  getLiveFeedUrl(station: string): string | null;
+
+  /**
+   * Extracts a now playing snapshot from a live feed message. Returns null for
+   * messages that don't carry one, such as acknowledgements and heartbeats.
+   */
+  parseLiveFeedMessage(data: unknown): ProviderNowPlaying | null;
+
+  /**
+   * Lists scheduled shows from `from` (Unix seconds, default now) onwards.
+   * Providers may return fewer or more entries than the caller needs.
+   */
+  getSchedule(station: string, from?: number): Promise<ScheduleEntry[]>;
+
+  getRequestableSongs(station: string): Promise<RequestableSong[]>;
+
+  /**
+   * Submits a song request and returns the upstream response body.
+   *
+   * @throws ApiError with a client-facing message if the request is refused
+   */
+  submitRequest(station: string, requestUrl: string): Promise<unknown>;
+
+  getStreamUrl(station: string, format: StreamFormat): string;
+}
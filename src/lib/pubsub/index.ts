@@ -0,0 +1,22 @@
+/**
+ * @fileoverview Selects the pub/sub backend from `PUBSUB_ADAPTER`.
+ */
+
+import { PUBSUB_ADAPTER, PUBSUB_SOCKET_PATH } from '../env';
+import { MemoryPubSubAdapter } from './memory-adapter';
+import { SocketPubSubAdapter } from './socket-adapter';
+import type { PubSubAdapter } from './types';
+
+export type { PubSubAdapter, StreamEvent, StreamEventHandler } from './types';
+export { MemoryPubSubAdapter } from './memory-adapter';
+export { SocketPubSubAdapter } from './socket-adapter';
+
+export function createPubSubAdapter(): PubSubAdapter {
+  switch (PUBSUB_ADAPTER) {
+    case 'socket':
+      return new SocketPubSubAdapter(PUBSUB_SOCKET_PATH);
+    case 'memory':
+    default:
+      return new MemoryPubSubAdapter();
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * @fileoverview In-process pub/sub adapter.
+ *
+ * The default backend: events never leave the process that published them.
+ */
+
+import type { PubSubAdapter, StreamEvent, StreamEventHandler } from './types';
+
+export class MemoryPubSubAdapter implements PubSubAdapter {
+  readonly name = 'memory';
+
+  private handlersByStation = new Map<string, Set<StreamEventHandler>>();
+
+  publish(station: string, event: StreamEvent): void {
+    this.handlersByStation.get(station)?.forEach((handler) => handler(event));
+  }
+
+  subscribe(station: string, handler: StreamEventHandler): () => void {
+    const handlers = this.handlersByStation.get(station) ?? new Set<StreamEventHandler>();
+    this.handlersByStation.set(station, handlers);
+    handlers.add(handler);
+
+    return () => {
+      handlers.delete(handler);
+    };
+  }
+
+  async close(): Promise<void> {
+    this.handlersByStation.clear();
+  }
+}
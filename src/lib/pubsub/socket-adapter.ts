@@ -0,0 +1,281 @@
+/**
+ * @fileoverview Cross-process pub/sub adapter over a Unix domain socket.
+ *
+ * The first process to start binds the socket and becomes the hub; later
+ * processes connect to it as clients. Every message sent to the
+ * hub is re-broadcast to the other clients, so all processes see the same
+ * events. If the hub goes away, the remaining processes take turns holding a
+ * lock file next to the socket; the first to get it binds the socket and the
+ * others find it listening and connect.
+ *
+ * Messages are newline-delimited JSON: `{ "station": string, "event": StreamEvent }`.
+ */
+
+import fs from 'fs';
+import net from 'net';
+import path from 'path';
+import { withFileMutex } from '../file-mutex';
+import { createLogger } from '../logger';
+import type { PubSubAdapter, StreamEvent, StreamEventHandler } from './types';
+
+interface SocketMessage {
+  station: string;
+  event: StreamEvent;
+}
+
+const log = createLogger('PubSub');
+
+const RECONNECT_DELAY_MS = 250;
+
+export class SocketPubSubAdapter implements PubSubAdapter {
+  readonly name = 'socket';
+
+  private readonly socketPath: string;
+  private handlersByStation = new Map<string, Set<StreamEventHandler>>();
+  /** Latest event per station and type, sent to clients when they connect. */
+  private latestEvents = new Map<string, SocketMessage>();
+
+  // Hub state
+  private server: net.Server | null = null;
+  private clients = new Set<net.Socket>();
+
+  // Client state
+  private connection: net.Socket | null = null;
+
+  private reconnectTimeoutId: NodeJS.Timeout | null = null;
+  private isClosed = false;
+
+  constructor(socketPath: string) {
+    this.socketPath = path.resolve(socketPath);
+    fs.mkdirSync(path.dirname(this.socketPath), { recursive: true });
+    this.connect();
+  }
+
+  publish(station: string, event: StreamEvent): void {
+    const message: SocketMessage = { station, event };
+    this.rememberLatest(message);
+    this.deliver(message);
+
+    if (this.server) {
+      this.broadcast(message);
+    } else if (this.connection) {
+      this.connection.write(`${JSON.stringify(message)}\n`);
+    } else {
+      log.warn('Not connected to the hub, event delivered locally only', { station });
+    }
+  }
+
+  subscribe(station: string, handler: StreamEventHandler): () => void {
+    const handlers = this.handlersByStation.get(station) ?? new Set<StreamEventHandler>();
+    this.handlersByStation.set(station, handlers);
+    handlers.add(handler);
+
+    return () => {
+      handlers.delete(handler);
+    };
+  }
+
+  /** Whether this process is currently the hub that relays between clients. */
+  isHub(): boolean {
+    return this.server !== null;
+  }
+
+  async close(): Promise<void> {
+    this.isClosed = true;
+
+    if (this.reconnectTimeoutId) {
+      clearTimeout(this.reconnectTimeoutId);
+      this.reconnectTimeoutId = null;
+    }
+
+    this.connection?.destroy();
+    this.connection = null;
+
+    if (this.server) {
+      const server = this.server;
+      this.server = null;
+      this.clients.forEach((client) => client.destroy());
+      this.clients.clear();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  private connect(): void {
+    if (this.isClosed) return;
+
+    const socket = net.createConnection(this.socketPath);
+    let isConnected = false;
+
+    socket.on('connect', () => {
+      isConnected = true;
+      this.connection = socket;
+      log.info('Connected to hub', { socketPath: this.socketPath });
+    });
+
+    this.readMessages(socket, (message) => {
+      this.rememberLatest(message);
+      this.deliver(message);
+    });
+
+    socket.on('error', (error: NodeJS.ErrnoException) => {
+      if (isConnected) {
+        log.warn('Hub connection error', { error });
+        return;
+      }
+
+      if (error.code === 'ENOENT' || error.code === 'ECONNREFUSED') {
+        // No hub is listening, so try to become it
+        this.becomeHub();
+      } else {
+        log.error('Failed to connect to hub', error, { socketPath: this.socketPath });
+        this.scheduleReconnect();
+      }
+    });
+
+    socket.on('close', () => {
+      if (!isConnected || this.isClosed) return;
+
+      this.connection = null;
+      log.warn('Lost connection to hub, reconnecting');
+      this.scheduleReconnect();
+    });
+  }
+
+  private becomeHub(): void {
+    if (this.isClosed) return;
+
+    withFileMutex(`${this.socketPath}.lock`, () => this.bindUnlessHubRunning())
+      .then((isHub) => {
+        if (!isHub) this.scheduleReconnect();
+      })
+      .catch((error) => {
+        log.error('Failed to start hub', error, { socketPath: this.socketPath });
+        this.scheduleReconnect();
+      });
+  }
+
+  /**
+   * Binds the socket unless another process already did. Runs under the
+   * lock file, so only one process at a time can unlink and re-bind it.
+   */
+  private async bindUnlessHubRunning(): Promise<boolean> {
+    // Another process may have become the hub while we waited for the lock
+    if (this.isClosed || (await this.isHubListening())) return false;
+
+    // A previous hub may have exited without cleaning up its socket file
+    await fs.promises.rm(this.socketPath, { force: true });
+
+    const server = net.createServer((client) => this.acceptClient(client));
+    try {
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(this.socketPath, () => {
+          server.off('error', reject);
+          resolve();
+        });
+      });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EADDRINUSE') {
+        log.error('Failed to start hub', error, { socketPath: this.socketPath });
+      }
+      return false;
+    }
+
+    if (this.isClosed) {
+      server.close();
+      return true;
+    }
+
+    server.on('error', (error) => {
+      log.error('Hub error', error);
+    });
+    this.server = server;
+    log.info('Listening as hub', { socketPath: this.socketPath });
+    return true;
+  }
+
+  private isHubListening(): Promise<boolean> {
+    return new Promise((resolve) => {
+      const probe = net.createConnection(this.socketPath);
+      probe.once('connect', () => {
+        probe.destroy();
+        resolve(true);
+      });
+      probe.once('error', () => resolve(false));
+    });
+  }
+
+  private acceptClient(client: net.Socket): void {
+    this.clients.add(client);
+
+    // Bring the new process up to date straight away
+    this.latestEvents.forEach((message) => {
+      client.write(`${JSON.stringify(message)}\n`);
+    });
+
+    this.readMessages(client, (message) => {
+      this.rememberLatest(message);
+      this.deliver(message);
+      this.broadcast(message, client);
+    });
+
+    client.on('error', (error) => {
+      log.warn('Client connection error', { error });
+    });
+
+    client.on('close', () => {
+      this.clients.delete(client);
+    });
+  }
+
+  private readMessages(socket: net.Socket, onMessage: (message: SocketMessage) => void): void {
+    let buffer = '';
+
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+
+      let newlineIndex = buffer.indexOf('\n');
+      while (newlineIndex !== -1) {
+        const line = buffer.slice(0, newlineIndex);
+        buffer = buffer.slice(newlineIndex + 1);
+        newlineIndex = buffer.indexOf('\n');
+
+        if (!line) continue;
+        try {
+          onMessage(JSON.parse(line));
+        } catch (error) {
+          log.error('Dropping malformed message', error);
+        }
+      }
+    });
+  }
+
+  private broadcast(message: SocketMessage, except?: net.Socket): void {
+    const line = `${JSON.stringify(message)}\n`;
+    this.clients.forEach((client) => {
+      if (client !== except) {
+        client.write(line);
+      }
+    });
+  }
+
+  private deliver({ station, event }: SocketMessage): void {
+    this.handlersByStation.get(station)?.forEach((handler) => handler(event));
+  }
+
+  private rememberLatest(message: SocketMessage): void {
+    this.latestEvents.set(`${message.station}:${message.event.type}`, message);
+  }
+
+  private scheduleReconnect(): void {
+    if (this.isClosed || this.reconnectTimeoutId) return;
+
+    // Jitter so surviving processes don't all race for the socket at once
+    const delay = RECONNECT_DELAY_MS + Math.random() * RECONNECT_DELAY_MS;
+    this.reconnectTimeoutId = setTimeout(() => {
+      this.reconnectTimeoutId = null;
+      this.connect();
+    }, delay);
+  }
+}
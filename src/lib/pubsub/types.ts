@@ -0,0 +1,21 @@
+/**
+ * Types for the pluggable pub/sub backend behind interaction-stream
+ */
+
+import type { InteractionEvent } from '../types';
+
+/** A published event together with its stream-wide ID. */
+export type StreamEvent = InteractionEvent & { id: number };
+
+export type StreamEventHandler = (event: StreamEvent) => void;
+
+export interface PubSubAdapter {
+  readonly name: string;
+
+  /** Delivers an event to every subscriber of the station, in every process. */
+  publish(station: string, event: StreamEvent): void;
+
+  subscribe(station: string, handler: StreamEventHandler): () => void;
+
+  close(): Promise<void>;
+}
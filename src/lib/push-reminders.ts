@@ -0,0 +1,258 @@
+/**
+ * @fileoverview Store of push subscriptions and the show reminders set on them.
+ *
+ * Everything lives in one JSON file under `PUSH_DATA_DIR`. Each change holds
+ * a `.mutex` file while it re-reads the file and replaces it atomically, so
+ * reminders set through any process are seen by the leader process that
+ * sends them and concurrent changes don't overwrite each other.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { isProduction, PUSH_DATA_DIR } from './env';
+import { ValidationError } from './errors/api-errors';
+import { withFileMutex, writeFileAtomic } from './file-mutex';
+import { createLogger } from './logger';
+import type { ScheduleEntry } from './schedule-types';
+import type { PushSubscriptionData } from './web-push';
+
+const log = createLogger('PushReminders');
+
+const STORE_FILE_NAME = 'reminders.json';
+const MAX_REMINDERS_PER_SUBSCRIPTION = 50;
+
+/**
+ * Push services of the major browsers. Pushes are sent from the server, so
+ * endpoints anywhere else could point it at internal addresses.
+ */
+const PUSH_SERVICE_HOSTS = [
+  'fcm.googleapis.com', // Chrome, Edge, Opera
+  'updates.push.services.mozilla.com', // Firefox
+  'push.apple.com', // Safari
+  'notify.windows.com', // Windows
+];
+
+/** A reminder for one occurrence of a show. */
+export interface ShowReminder {
+  /** `{station}-{type}-{entryId}-{startTimestamp}`; see {@link getReminderId}. */
+  id: string;
+  station: string;
+  entryId: number;
+  title: string;
+  /** Unix timestamp (seconds) at which the show starts. */
+  startTimestamp: number;
+  createdAt: number;
+}
+
+interface StoredSubscription {
+  subscription: PushSubscriptionData;
+  reminders: ShowReminder[];
+}
+
+interface StoreFile {
+  subscriptions: Record<string, StoredSubscription>;
+}
+
+/** A reminder that is due, with the subscription to send it to. */
+export interface DueReminder {
+  subscription: PushSubscriptionData;
+  reminder: ShowReminder;
+}
+
+/** Whether an endpoint is an HTTPS URL on one of the known push services. */
+export function isPushServiceEndpoint(endpoint: URL): boolean {
+  const hostname = endpoint.hostname.toLowerCase();
+  return (
+    endpoint.protocol === 'https:' &&
+    (endpoint.port === '' || endpoint.port === '443') &&
+    PUSH_SERVICE_HOSTS.some((host) => hostname === host || hostname.endsWith(`.${host}`))
+  );
+}
+
+/**
+ * Checks a subscription sent by a browser. Endpoints must be on a known push
+ * service, except outside production so the mock push service can be used.
+ *
+ * @throws ValidationError if the subscription is malformed
+ */
+export function parsePushSubscription(value: unknown): PushSubscriptionData {
+  const subscription = value as Partial<PushSubscriptionData> | null;
+  if (
+    !subscription ||
+    typeof subscription.endpoint !== 'string' ||
+    typeof subscription.keys?.p256dh !== 'string' ||
+    typeof subscription.keys?.auth !== 'string'
+  ) {
+    throw new ValidationError('A push subscription with an endpoint and keys is required');
+  }
+
+  let endpoint: URL;
+  try {
+    endpoint = new URL(subscription.endpoint);
+  } catch {
+    throw new ValidationError('Invalid push subscription endpoint');
+  }
+  if (isProduction && !isPushServiceEndpoint(endpoint)) {
+    throw new ValidationError('Push subscription endpoints must be on a known push service');
+  }
+  if (endpoint.protocol !== 'https:' && endpoint.protocol !== 'http:') {
+    throw new ValidationError('Push subscription endpoints must use HTTPS');
+  }
+
+  if (
+    Buffer.from(subscription.keys.p256dh, 'base64url').length !== 65 ||
+    Buffer.from(subscription.keys.auth, 'base64url').length !== 16
+  ) {
+    throw new ValidationError('Invalid push subscription keys');
+  }
+
+  return {
+    endpoint: subscription.endpoint,
+    expirationTime: subscription.expirationTime ?? null,
+    keys: { p256dh: subscription.keys.p256dh, auth: subscription.keys.auth },
+  };
+}
+
+export function getReminderId(station: string, entry: Pick<ScheduleEntry, 'id' | 'type' | 'start_timestamp'>): string {
+  return `${station}-${entry.type}-${entry.id}-${entry.start_timestamp}`;
+}
+
+export class PushReminderStore {
+  private readonly filePath: string;
+
+  constructor(directory: string) {
+    this.filePath = path.join(directory, STORE_FILE_NAME);
+
+    try {
+      fs.mkdirSync(directory, { recursive: true });
+    } catch (error) {
+      log.error('Failed to create directory', error, { directory });
+    }
+  }
+
+  /** Reminders set on a subscription, soonest first. */
+  public async getReminders(endpoint: string): Promise<ShowReminder[]> {
+    const reminders = (await this.read()).subscriptions[endpoint]?.reminders ?? [];
+    return [...reminders].sort((a, b) => a.startTimestamp - b.startTimestamp);
+  }
+
+  /**
+   * Sets a reminder for a show, saving or refreshing the subscription.
+   * Setting the same reminder twice is a no-op.
+   *
+   * @throws ValidationError if the subscription already has too many reminders
+   */
+  public addReminder(
+    subscription: PushSubscriptionData,
+    station: string,
+    entry: ScheduleEntry,
+    now: number = Math.floor(Date.now() / 1000)
+  ): Promise<ShowReminder> {
+    return this.update((data) => {
+      const stored = data.subscriptions[subscription.endpoint] ?? { subscription, reminders: [] };
+      // Browsers may rotate keys for the same endpoint
+      stored.subscription = subscription;
+      data.subscriptions[subscription.endpoint] = stored;
+
+      const id = getReminderId(station, entry);
+      const existing = stored.reminders.find((reminder) => reminder.id === id);
+      if (existing) return existing;
+
+      if (stored.reminders.length >= MAX_REMINDERS_PER_SUBSCRIPTION) {
+        throw new ValidationError(`You can set at most ${MAX_REMINDERS_PER_SUBSCRIPTION} reminders`);
+      }
+
+      const reminder: ShowReminder = {
+        id,
+        station,
+        entryId: entry.id,
+        title: entry.title,
+        startTimestamp: entry.start_timestamp,
+        createdAt: now,
+      };
+      stored.reminders.push(reminder);
+      return reminder;
+    });
+  }
+
+  /** Removes a reminder; the subscription goes too once it has none left. */
+  public async removeReminder(endpoint: string, reminderId: string): Promise<void> {
+    await this.update((data) => {
+      const stored = data.subscriptions[endpoint];
+      if (!stored) return;
+
+      stored.reminders = stored.reminders.filter((reminder) => reminder.id !== reminderId);
+      if (stored.reminders.length === 0) {
+        delete data.subscriptions[endpoint];
+      }
+    });
+  }
+
+  /** Forgets a subscription and all of its reminders, e.g. once it has expired. */
+  public async removeSubscription(endpoint: string): Promise<void> {
+    await this.update((data) => {
+      delete data.subscriptions[endpoint];
+    });
+  }
+
+  /**
+   * Removes and returns reminders for shows starting within `leadSeconds`.
+   * Reminders for shows that have already started are dropped unsent.
+   */
+  public takeDueReminders(now: number, leadSeconds: number): Promise<DueReminder[]> {
+    return this.update((data) => {
+      const due: DueReminder[] = [];
+      for (const [endpoint, stored] of Object.entries(data.subscriptions)) {
+        stored.reminders = stored.reminders.filter((reminder) => {
+          if (reminder.startTimestamp - leadSeconds > now) return true;
+          if (reminder.startTimestamp > now) {
+            due.push({ subscription: stored.subscription, reminder });
+          }
+          return false;
+        });
+
+        if (stored.reminders.length === 0) {
+          delete data.subscriptions[endpoint];
+        }
+      }
+      return due;
+    });
+  }
+
+  private async read(): Promise<StoreFile> {
+    try {
+      return JSON.parse(await fs.promises.readFile(this.filePath, 'utf8')) as StoreFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { subscriptions: {} };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Applies a change to the stored data while holding the store's mutex.
+   * Throws rather than writing if the file can't be read, which would
+   * otherwise replace every subscription with the change alone.
+   */
+  private update<T>(change: (data: StoreFile) => T): Promise<T> {
+    return withFileMutex(`${this.filePath}.mutex`, async () => {
+      const data = await this.read();
+      const result = change(data);
+      await writeFileAtomic(this.filePath, JSON.stringify(data));
+      return result;
+    });
+  }
+}
+
+let pushReminderStore: PushReminderStore | null = null;
+
+/**
+ * Gets the process-wide reminder store.
+ */
+export function getPushReminderStore(): PushReminderStore {
+  if (!pushReminderStore) {
+    pushReminderStore = new PushReminderStore(path.resolve(PUSH_DATA_DIR));
+  }
+  return pushReminderStore;
+}
@@ -1,39 +1,126 @@
 /**
  * @fileoverview Simplified radio system initialization
+ *
+ * Workers only connect to AzuraCast in the process holding the radio worker
+ * lease. The leader runs a worker for every configured station; other
+ * processes relay the leader's events and take over if its lease goes stale
+ * or is released on shutdown. The leader also sends show reminders.
  */
 
 import { SimpleRadioWorker } from './radio-worker-simple';
+import { DEFAULT_STATION_ID, STATIONS } from './stations';
+import { getLeaderElection, type LeaderElection, type LeaderStatus } from './leader-election';
+import { getReminderSender } from './reminder-sender';
+import { createLogger } from './logger';
+import { onShutdown } from './logging';
 
-// Global singleton instance
-let globalRadioWorker: SimpleRadioWorker | null = null;
+// One global worker instance per station
+const globalRadioWorkers = new Map<string, SimpleRadioWorker>();
+
+let isWatchingLeadership = false;
+
+const log = createLogger('RadioWorker');
+
+function startWorker(worker: SimpleRadioWorker, station: string): Promise<boolean> {
+  log.info('Starting worker singleton', { station });
+  return worker.start().then((result) => {
+    log.info('Worker singleton start completed', { station, started: result });
+    return result;
+  }).catch((error) => {
+    log.error('Failed to start worker singleton', error, { station });
+    return false;
+  });
+}
+
+function getOrCreateWorker(station: string): SimpleRadioWorker {
+  let worker = globalRadioWorkers.get(station);
+  if (!worker) {
+    log.debug('Creating worker singleton', { station });
+    worker = new SimpleRadioWorker(station);
+    globalRadioWorkers.set(station, worker);
+  }
+  return worker;
+}
 
 /**
- * Gets or creates the global radio worker instance
+ * Joins the leader election on first use. Gaining the lease starts a worker
+ * for every station so followers always have something to relay; losing it
+ * stops them.
  */
-export function getRadioWorker(): SimpleRadioWorker {
-  if (!globalRadioWorker) {
-    console.log('[SINGLETON] Creating new global SimpleRadioWorker instance');
-    globalRadioWorker = new SimpleRadioWorker();
-    
-    console.log('[SINGLETON] Starting new global SimpleRadioWorker instance...');
-    globalRadioWorker.start().then((result) => {
-      console.log(`[SINGLETON] SimpleRadioWorker singleton start() completed with result: ${result}`);
-      console.log('[SINGLETON] SimpleRadioWorker singleton initialization complete. This message should appear only once per process.');
-    }).catch((error) => {
-      console.error('[SINGLETON] Failed to start SimpleRadioWorker:', error);
-    });
+function watchLeadership(): LeaderElection {
+  const election = getLeaderElection();
+  if (isWatchingLeadership) return election;
+  isWatchingLeadership = true;
+
+  election.onChange((isLeader) => {
+    log.info(`Process is ${isLeader ? 'now' : 'no longer'} the radio worker leader`);
+    if (isLeader) {
+      STATIONS.forEach(({ id }) => startWorker(getOrCreateWorker(id), id));
+      getReminderSender()?.start();
+    } else {
+      globalRadioWorkers.forEach((worker) => worker.stop());
+      getReminderSender()?.stop();
+    }
+  });
+  election.start();
+  // Release the lease on a graceful restart, so another process can take
+  // over straight away instead of once the lease expires
+  onShutdown(() => election.stop());
+
+  return election;
+}
+
+/**
+ * Gets or creates the global radio worker instance for a station
+ */
+export function getRadioWorker(station: string = DEFAULT_STATION_ID): SimpleRadioWorker {
+  const isNew = !globalRadioWorkers.has(station);
+  const worker = getOrCreateWorker(station);
+
+  if (isNew) {
+    if (watchLeadership().isLeader()) {
+      startWorker(worker, station);
+    } else {
+      log.info('Not the leader, relaying events from the leader process', { station });
+    }
   } else {
-    console.log('[SINGLETON] Returning existing global SimpleRadioWorker instance');
+    log.debug('Returning existing worker singleton', { station });
   }
-  
-  return globalRadioWorker;
+
+  return worker;
 }
 
 // Export the singleton instance
-/**
- * Gets the singleton radio worker instance (lazy initialization)
- * Only creates the instance when actually needed at runtime
- */
-export function getRadioWorkerSingleton(): SimpleRadioWorker {
-  return getRadioWorker();
-}
\ No newline at end of file
+/**
+ * Gets the singleton radio worker instance for a station (lazy initialization)
+ * Only creates the instance when actually needed at runtime
+ */
+export function getRadioWorkerSingleton(station: string = DEFAULT_STATION_ID): SimpleRadioWorker {
+  return getRadioWorker(station);
+}
+
+/**
+ * Ensures the station's worker is running if this process is the leader.
+ *
+ * @returns true if the worker was started by this call
+ */
+export async function ensureRadioWorkerStarted(station: string = DEFAULT_STATION_ID): Promise<boolean> {
+  const worker = getRadioWorker(station);
+  if (!watchLeadership().isLeader()) {
+    return false;
+  }
+  return worker.start();
+}
+
+/** Workers created in this process; only the leader's are started. */
+export function getRadioWorkers(): SimpleRadioWorker[] {
+  return [...globalRadioWorkers.values()];
+}
+
+/**
+ * Returns this process's view of the radio worker lease, joining the election
+ * if it hasn't already.
+ */
+export function getRadioLeaderStatus(): LeaderStatus {
+  return watchLeadership().getStatus();
+}
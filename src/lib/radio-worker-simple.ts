@@ -5,11 +5,33 @@
 
 import { publish } from './interaction-stream';
 import EventSource from 'eventsource';
-import { AZURACAST_BASE_URL, AZURACAST_STATION_NAME } from './config';
+import { DEFAULT_STATION_ID } from './stations';
+import { getPlayHistoryStore } from './play-history';
+import { getRequestLedger, type RequestTransition } from './request-ledger';
+import { getRadioProvider, type ProviderNowPlaying, type RadioProvider } from './providers';
+import {
+  upstreamConnectionAttempts,
+  upstreamConnectionFailures,
+  upstreamConnectionSuccesses,
+  upstreamReconnectSeconds,
+} from './metrics';
+import { createLogger, type Logger } from './logger';
+import type { NowPlaying, StreamMode } from './types';
 
 // Static counter to track instances
 let instanceCounter = 0;
 
+// Polling fallback timing
+const MIN_POLL_INTERVAL_MS = 5000;
+const MAX_POLL_INTERVAL_MS = 30000;
+const MAX_POLL_ERROR_BACKOFF_MS = 60000;
+const POLL_TRACK_CHANGE_GRACE_MS = 2000;
+// Polls failing in a row before the worker reports itself unhealthy
+const MAX_POLL_ERRORS = 3;
+const SSE_PROBE_INTERVAL_MS = 60000;
+// Logs one in this many now playing updates
+const NOW_PLAYING_LOG_SAMPLE = 20;
+
 // Connection state tracking
 interface ConnectionMetrics {
   totalConnections: number;
@@ -21,6 +43,7 @@ interface ConnectionMetrics {
 }
 
 interface SimpleRadioState {
+  station: string;
   isStarted: boolean;
   eventSource: EventSource | null;
   instanceId: number;
@@ -28,7 +51,14 @@ interface SimpleRadioState {
   maxReconnectAttempts: number;
   reconnectDelay: number;
   isReconnecting: boolean;
+  hasLostConnection: boolean;
+  mode: StreamMode;
+  isOnline: boolean;
+  pollErrorCount: number;
   lastHeartbeat: number;
+  /** When the live feed was lost, until it is back. */
+  disconnectedAt: number | null;
+  reconnectCount: number;
   connectionMetrics: ConnectionMetrics;
 }
 
@@ -36,9 +66,16 @@ export class SimpleRadioWorker {
   private state: SimpleRadioState;
   private reconnectTimeoutId: NodeJS.Timeout | null = null;
   private heartbeatTimeoutId: NodeJS.Timeout | null = null;
-
-  constructor() {
+  private pollTimeoutId: NodeJS.Timeout | null = null;
+  private readonly provider: RadioProvider;
+  private readonly log: Logger;
+  // One reference, so stop() removes the same listener that start() added
+  private readonly onSignal = () => this.stop();
+
+  constructor(station: string = DEFAULT_STATION_ID, provider: RadioProvider = getRadioProvider()) {
+    this.provider = provider;
     this.state = {
+      station,
       isStarted: false,
       eventSource: null,
       instanceId: ++instanceCounter,
@@ -46,7 +83,13 @@ export class SimpleRadioWorker {
       maxReconnectAttempts: 10,
       reconnectDelay: 1000, // Start with 1 second
       isReconnecting: false,
+      hasLostConnection: false,
+      mode: 'live',
+      isOnline: false,
+      pollErrorCount: 0,
       lastHeartbeat: Date.now(),
+      disconnectedAt: null,
+      reconnectCount: 0,
       connectionMetrics: {
         totalConnections: 0,
         successfulConnections: 0,
@@ -57,7 +100,12 @@ export class SimpleRadioWorker {
       },
     };
 
-    console.log(`[SimpleRadioWorker] Instance #${this.state.instanceId} created.`);
+    this.log = createLogger('RadioWorker', { station, instance: this.state.instanceId });
+    this.log.info('Worker created');
+  }
+
+  public getStation(): string {
+    return this.state.station;
   }
 
   public isStarted(): boolean {
@@ -70,54 +118,86 @@ export class SimpleRadioWorker {
 
   public async start(): Promise<boolean> {
     if (this.isStarted()) {
-      console.log(`[SimpleRadioWorker] Instance #${this.state.instanceId} already started.`);
+      this.log.debug('Worker already started');
       return false;
     }
 
-    console.log(`[SimpleRadioWorker] Starting instance #${this.state.instanceId}`);
+    this.log.info('Starting worker');
     this.state.isStarted = true;
 
     // Handle process termination gracefully
     if (typeof process !== 'undefined') {
-      process.on('SIGINT', this.stop.bind(this));
-      process.on('SIGTERM', this.stop.bind(this));
+      process.on('SIGINT', this.onSignal);
+      process.on('SIGTERM', this.onSignal);
     }
 
-    // Connect to SSE stream
-    this.connectToSSE();
+    // Connect to SSE stream, or poll if the provider has no live feed
+    if (this.provider.capabilities.liveFeed) {
+      this.connectToSSE();
+    } else {
+      this.startPolling();
+    }
 
     return true;
   }
 
   private connectToSSE(): void {
     if (this.state.isReconnecting) {
-      console.log('[SimpleRadioWorker] Already attempting to reconnect, skipping...');
+      this.log.debug('Already attempting to reconnect, skipping');
       return;
     }
 
     this.state.isReconnecting = true;
     this.state.connectionMetrics.totalConnections++;
     this.state.connectionMetrics.lastConnectionTime = Date.now();
+    upstreamConnectionAttempts.inc({ station: this.state.station });
 
-    console.log(`[SimpleRadioWorker] Connecting to SSE stream (attempt ${this.state.reconnectAttempts + 1}/${this.state.maxReconnectAttempts})...`);
-    
-    const sseUrl = `${AZURACAST_BASE_URL}/api/live/nowplaying/sse?cf_connect=%7B%22subs%22%3A%7B%22station%3A${AZURACAST_STATION_NAME}%22%3A%7B%7D%7D%7D`;
+    this.log.info('Connecting to live feed', {
+      attempt: this.state.reconnectAttempts + 1,
+      maxAttempts: this.state.maxReconnectAttempts,
+    });
     
-    console.log(`[SimpleRadioWorker] SSE URL: ${sseUrl}`);
+    const sseUrl = this.provider.getLiveFeedUrl(this.state.station);
+    if (!sseUrl) {
+      this.state.isReconnecting = false;
+      return;
+    }
+
+    this.log.debug('Live feed URL', { url: sseUrl });
 
     try {
       const eventSource = new EventSource(sseUrl);
       this.state.eventSource = eventSource;
 
       eventSource.onopen = () => {
-        console.log('[SimpleRadioWorker] SSE connection opened successfully');
+        this.log.info('Live feed connected');
         this.state.isReconnecting = false;
         this.state.reconnectAttempts = 0;
         this.state.reconnectDelay = 1000; // Reset delay
         this.state.connectionMetrics.successfulConnections++;
         this.state.connectionMetrics.lastSuccessfulConnection = Date.now();
         this.state.lastHeartbeat = Date.now();
+        upstreamConnectionSuccesses.inc({ station: this.state.station });
+        this.recordReconnect();
         
+        // SSE is back, so polling is no longer needed
+        if (this.state.mode === 'polling') {
+          this.log.info('Live feed recovered, leaving polling fallback');
+          this.stopPolling();
+          this.setMode('live');
+        }
+
+        // Let subscribers know the upstream is back after a failure
+        if (this.state.hasLostConnection) {
+          this.state.hasLostConnection = false;
+          publish({
+            type: 'connection_restored',
+            data: {
+              metrics: this.getConnectionMetrics(),
+            },
+          }, this.state.station);
+        }
+
         // Start heartbeat monitoring
         this.startHeartbeatMonitoring();
       };
@@ -126,53 +206,27 @@ export class SimpleRadioWorker {
         this.state.lastHeartbeat = Date.now();
         
         try {
-          const data = JSON.parse(event.data);
-          
-          // Handle different message types
-          if (data.channel && data.pub && data.pub.data && data.pub.data.np) {
-            // This is a now playing update
-            console.log(`[SimpleRadioWorker] Now playing: "${data.pub.data.np.now_playing?.song?.title}" by ${data.pub.data.np.now_playing?.song?.artist}`);
-            
-            publish({
-              type: 'now_playing',
-              data: {
-                liveSong: this.transformSong(data.pub.data.np.now_playing),
-                upNext: data.pub.data.np.playing_next ? [this.transformSong(data.pub.data.np.playing_next)] : [],
-                recentlyPlayed: (data.pub.data.np.song_history || []).slice(0, 5).map((item: any) => this.transformSong(item)),
-                listenerCount: data.pub.data.np.listeners?.current || 0,
-              },
-            });
-
-            publish({
-              type: 'stream_status',
-              data: {
-                isOnline: data.pub.data.np.is_online || false,
-              },
-            });
-          } else if (data.connect) {
-            // Connection acknowledgment
-            console.log('[SimpleRadioWorker] SSE connection acknowledged');
-          } else if (Object.keys(data).length === 0) {
-            // Heartbeat
-            console.log('[SimpleRadioWorker] SSE heartbeat received');
-          } else {
-            console.log('[SimpleRadioWorker] Unknown SSE message type:', Object.keys(data));
+          // Acknowledgements and heartbeats carry no snapshot
+          const nowPlaying = this.provider.parseLiveFeedMessage(JSON.parse(event.data));
+          if (nowPlaying) {
+            this.handleNowPlaying(nowPlaying);
           }
         } catch (error) {
-          console.error('[SimpleRadioWorker] Error parsing SSE message:', error);
-          console.log('[SimpleRadioWorker] Raw message:', event.data.substring(0, 200));
+          this.log.error('Error parsing live feed message', error, { raw: event.data.substring(0, 200) });
         }
       };
 
       eventSource.onerror = (error: any) => {
-        console.warn('[SimpleRadioWorker] SSE connection error:', error);
+        this.log.warn('Live feed connection error', { error: error?.message ?? String(error) });
         this.state.connectionMetrics.failedConnections++;
+        upstreamConnectionFailures.inc({ station: this.state.station });
         this.handleConnectionError();
       };
 
     } catch (error) {
-      console.error('[SimpleRadioWorker] Failed to create EventSource:', error);
+      this.log.error('Failed to create EventSource', error);
       this.state.connectionMetrics.failedConnections++;
+      upstreamConnectionFailures.inc({ station: this.state.station });
       this.handleConnectionError();
     }
   }
@@ -185,9 +239,11 @@ export class SimpleRadioWorker {
 
     // Set up heartbeat monitoring (expect heartbeat every 30 seconds, timeout after 60)
     this.heartbeatTimeoutId = setTimeout(() => {
+      this.publishHealthCheck();
+
       const timeSinceLastHeartbeat = Date.now() - this.state.lastHeartbeat;
       if (timeSinceLastHeartbeat > 60000) { // 60 seconds
-        console.warn('[SimpleRadioWorker] Heartbeat timeout detected, reconnecting...');
+        this.log.warn('Heartbeat timeout, reconnecting', { timeSinceLastHeartbeat });
         this.handleConnectionError();
       } else {
         // Continue monitoring
@@ -196,8 +252,32 @@ export class SimpleRadioWorker {
     }, 30000); // Check every 30 seconds
   }
 
+  private publishHealthCheck(): void {
+    publish({
+      type: 'health_check',
+      data: {
+        ...this.getHealthStatus(),
+        timestamp: Date.now(),
+      },
+    }, this.state.station);
+  }
+
+  private recordReconnect(): void {
+    if (this.state.disconnectedAt === null) return;
+
+    const reconnectMs = Date.now() - this.state.disconnectedAt;
+    this.state.disconnectedAt = null;
+    this.state.reconnectCount++;
+
+    const metrics = this.state.connectionMetrics;
+    metrics.averageReconnectTime += (reconnectMs - metrics.averageReconnectTime) / this.state.reconnectCount;
+    upstreamReconnectSeconds.observe({ station: this.state.station }, reconnectMs / 1000);
+  }
+
   private handleConnectionError(): void {
     this.state.isReconnecting = false;
+    this.state.hasLostConnection = true;
+    this.state.disconnectedAt ??= Date.now();
     
     // Clear heartbeat monitoring
     if (this.heartbeatTimeoutId) {
@@ -211,16 +291,23 @@ export class SimpleRadioWorker {
       this.state.eventSource = null;
     }
 
+    // While polling, a failed probe just waits for the next one
+    if (this.state.mode === 'polling') {
+      this.scheduleSseProbe();
+      return;
+    }
+
     // Check if we should attempt reconnection
     if (this.state.reconnectAttempts >= this.state.maxReconnectAttempts) {
-      console.error('[SimpleRadioWorker] Max reconnection attempts reached, giving up');
+      this.log.error('Max reconnection attempts reached, falling back to polling');
       publish({
         type: 'connection_failed',
         data: {
           reason: 'Max reconnection attempts exceeded',
           metrics: this.getConnectionMetrics(),
         },
-      });
+      }, this.state.station);
+      this.startPolling();
       return;
     }
 
@@ -228,7 +315,7 @@ export class SimpleRadioWorker {
     const jitter = Math.random() * 1000;
     const delay = Math.min(this.state.reconnectDelay + jitter, 30000); // Max 30 seconds
     
-    console.log(`[SimpleRadioWorker] Attempting to reconnect in ${Math.round(delay)}ms...`);
+    this.log.info('Reconnecting', { delayMs: Math.round(delay) });
     
     // Clear existing timeout
     if (this.reconnectTimeoutId) {
@@ -244,39 +331,169 @@ export class SimpleRadioWorker {
     }, delay);
   }
 
-  private transformSong(songData: any): any {
-    if (!songData || !songData.song) {
-      return null;
+  private handleNowPlaying({ isOnline, ...nowPlaying }: ProviderNowPlaying): void {
+    // Every live feed message and poll ends up here
+    this.log.sample(NOW_PLAYING_LOG_SAMPLE).debug('Now playing', {
+      title: nowPlaying.liveSong?.title,
+      artist: nowPlaying.liveSong?.artist,
+    });
+
+    this.state.isOnline = isOnline;
+
+    this.recordPlayHistory(nowPlaying, isOnline);
+
+    publish({
+      type: 'now_playing',
+      data: nowPlaying,
+    }, this.state.station);
+
+    void this.publishRequestUpdates(nowPlaying);
+    this.publishStreamStatus();
+  }
+
+  /**
+   * Lets listeners know when a song they requested is up next or on air.
+   */
+  private async publishRequestUpdates(nowPlaying: NowPlaying): Promise<void> {
+    let transitions: RequestTransition[];
+    try {
+      transitions = await getRequestLedger().observeNowPlaying(this.state.station, nowPlaying);
+    } catch (error) {
+      this.log.error('Failed to match song requests to now playing', error);
+      return;
     }
 
-    return {
-      id: songData.sh_id || songData.cued_at || Date.now(),
-      songId: songData.song.id,
-      title: songData.song.title || 'Unknown Title',
-      artist: songData.song.artist || 'Unknown Artist',
-      albumArt: songData.song.art,
-      genre: songData.song.genre,
-      duration: songData.duration || 0,
-      elapsed: songData.elapsed || 0,
-      played_at: songData.played_at,
-      interactionCount: songData.interaction_count || 0,
-      creatorDiscordId: songData.song.custom_fields?.creator_discord_id || null,
-      playlists: songData.playlist ? [songData.playlist] : [],
-    };
+    for (const { type, request } of transitions) {
+      this.log.info('Song request status changed', { songRequestId: request.id, title: request.title, status: request.status });
+      publish({ type, data: request }, this.state.station);
+    }
+  }
+
+  private publishStreamStatus(): void {
+    publish({
+      type: 'stream_status',
+      data: {
+        isOnline: this.state.isOnline,
+        mode: this.state.mode,
+      },
+    }, this.state.station);
+  }
+
+  private setMode(mode: StreamMode): void {
+    if (this.state.mode === mode) return;
+
+    this.state.mode = mode;
+    this.publishStreamStatus();
+  }
+
+  /**
+   * Degraded mode: poll the now playing API while probing SSE in the background.
+   */
+  private startPolling(): void {
+    if (this.state.mode === 'polling') return;
+
+    this.setMode('polling');
+    this.state.pollErrorCount = 0;
+    this.poll();
+    if (this.provider.capabilities.liveFeed) {
+      this.scheduleSseProbe();
+    }
+  }
+
+  private stopPolling(): void {
+    if (this.pollTimeoutId) {
+      clearTimeout(this.pollTimeoutId);
+      this.pollTimeoutId = null;
+    }
+    if (this.reconnectTimeoutId) {
+      clearTimeout(this.reconnectTimeoutId);
+      this.reconnectTimeoutId = null;
+    }
+  }
+
+  private async poll(): Promise<void> {
+    let delay: number;
+
+    try {
+      const np = await this.provider.getNowPlaying(this.state.station);
+      if (!this.state.isStarted || this.state.mode !== 'polling') return;
+
+      this.state.pollErrorCount = 0;
+      // A successful poll is as good as a live feed heartbeat
+      this.state.lastHeartbeat = Date.now();
+      this.handleNowPlaying(np);
+      delay = this.getPollInterval(np);
+    } catch (error) {
+      this.log.warn('Polling now playing failed', { error: error instanceof Error ? error.message : String(error) });
+      this.state.pollErrorCount++;
+      delay = Math.min(
+        MIN_POLL_INTERVAL_MS * 2 ** this.state.pollErrorCount,
+        MAX_POLL_ERROR_BACKOFF_MS
+      );
+    }
+
+    if (this.state.isStarted && this.state.mode === 'polling') {
+      this.pollTimeoutId = setTimeout(() => this.poll(), delay);
+    }
+  }
+
+  /**
+   * Polls just after the current track should end, but at least every
+   * MAX_POLL_INTERVAL_MS so listener counts stay fresh.
+   */
+  private getPollInterval(np: NowPlaying): number {
+    const duration = np.liveSong?.duration || 0;
+    const elapsed = np.liveSong?.elapsed || 0;
+    const remainingMs = (duration - elapsed) * 1000 + POLL_TRACK_CHANGE_GRACE_MS;
+
+    return Math.min(Math.max(remainingMs, MIN_POLL_INTERVAL_MS), MAX_POLL_INTERVAL_MS);
+  }
+
+  private scheduleSseProbe(): void {
+    if (this.reconnectTimeoutId) {
+      clearTimeout(this.reconnectTimeoutId);
+    }
+
+    this.reconnectTimeoutId = setTimeout(() => {
+      this.reconnectTimeoutId = null;
+      if (this.state.isStarted && this.state.mode === 'polling') {
+        this.log.debug('Probing live feed while polling');
+        this.connectToSSE();
+      }
+    }, SSE_PROBE_INTERVAL_MS);
+  }
+
+  private recordPlayHistory(nowPlaying: NowPlaying, isOnline: boolean): void {
+    try {
+      const store = getPlayHistoryStore(this.state.station);
+      if (isOnline) {
+        store.recordNowPlaying(nowPlaying);
+      } else {
+        store.closeActivePlay();
+      }
+    } catch (error) {
+      // History is best-effort and must never interrupt the live stream
+      this.log.error('Failed to record play history', error);
+    }
   }
 
   public forceReconnect(): void {
-    console.log('[SimpleRadioWorker] Force reconnection requested');
+    this.log.info('Force reconnection requested');
     this.state.reconnectAttempts = 0;
     this.state.reconnectDelay = 1000;
     this.handleConnectionError();
   }
 
   public stop(): void {
-    console.log(`[SimpleRadioWorker] Stopping instance #${this.state.instanceId}...`);
+    this.log.info('Stopping worker');
     
     this.state.isStarted = false;
     this.state.isReconnecting = false;
+    this.state.disconnectedAt = null;
+
+    // Leave polling so a later start() begins with a fresh SSE connection
+    this.stopPolling();
+    this.state.mode = 'live';
 
     // Clear timeouts
     if (this.reconnectTimeoutId) {
@@ -297,18 +514,20 @@ export class SimpleRadioWorker {
 
     // Remove listeners (only if process is available)
     if (typeof process !== 'undefined') {
-      process.removeListener('SIGINT', this.stop.bind(this));
-      process.removeListener('SIGTERM', this.stop.bind(this));
+      process.removeListener('SIGINT', this.onSignal);
+      process.removeListener('SIGTERM', this.onSignal);
     }
 
-    console.log(`[SimpleRadioWorker] Instance #${this.state.instanceId} stopped successfully`);
+    this.log.info('Worker stopped');
   }
 
   public getState() {
     return {
+      station: this.state.station,
       isStarted: this.state.isStarted,
       hasConnection: !!this.state.eventSource,
       isReconnecting: this.state.isReconnecting,
+      mode: this.state.mode,
       reconnectAttempts: this.state.reconnectAttempts,
       connectionMetrics: this.getConnectionMetrics(),
       lastHeartbeat: this.state.lastHeartbeat,
@@ -332,6 +551,30 @@ export class SimpleRadioWorker {
       };
     }
 
+    if (this.state.mode === 'polling' && this.state.pollErrorCount >= MAX_POLL_ERRORS) {
+      return {
+        status: 'unhealthy',
+        details: `Polling now playing API failed ${this.state.pollErrorCount} times in a row`,
+        metrics,
+      };
+    }
+
+    if (this.state.mode === 'polling' && !this.provider.capabilities.liveFeed) {
+      return {
+        status: 'healthy',
+        details: 'Polling now playing API',
+        metrics,
+      };
+    }
+
+    if (this.state.mode === 'polling') {
+      return {
+        status: 'degraded',
+        details: 'SSE unavailable, polling now playing API',
+        metrics,
+      };
+    }
+
     if (this.state.isReconnecting) {
       return {
         status: 'degraded',
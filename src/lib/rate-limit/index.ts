@@ -0,0 +1,48 @@
+/**
+ * @fileoverview Selects the rate limit store from `RATE_LIMIT_STORE` and
+ * holds the policies and limiter shared by every API route.
+ */
+
+import { RATE_LIMIT_POLICIES_FILE, RATE_LIMIT_REDIS_URL, RATE_LIMIT_STORE } from '../env';
+import { createLogger } from '../logger';
+import { MemoryRateLimitStore } from './memory-store';
+import { loadRateLimitPolicies } from './policies';
+import { RespRateLimitStore } from './resp-store';
+import { SlidingWindowRateLimiter } from './sliding-window';
+import type { RateLimitPolicy, RateLimitStore } from './types';
+
+const log = createLogger('RateLimit');
+
+export type { RateLimitHit, RateLimitPolicy, RateLimitResult, RateLimitStore } from './types';
+export { MemoryRateLimitStore } from './memory-store';
+export { RespRateLimitStore } from './resp-store';
+export { SlidingWindowRateLimiter } from './sliding-window';
+export { DEFAULT_RATE_LIMIT_POLICIES, findRateLimitPolicy, loadRateLimitPolicies, parseRateLimitPolicies } from './policies';
+
+export function createRateLimitStore(): RateLimitStore {
+  switch (RATE_LIMIT_STORE) {
+    case 'redis':
+      return new RespRateLimitStore(RATE_LIMIT_REDIS_URL);
+    case 'memory':
+    default:
+      return new MemoryRateLimitStore();
+  }
+}
+
+let rateLimiter: SlidingWindowRateLimiter | null = null;
+let rateLimitPolicies: RateLimitPolicy[] | null = null;
+
+export function getRateLimiter(): SlidingWindowRateLimiter {
+  if (!rateLimiter) {
+    rateLimiter = new SlidingWindowRateLimiter(createRateLimitStore());
+    log.info('Using rate limit store', { store: rateLimiter.storeName });
+  }
+  return rateLimiter;
+}
+
+export function getRateLimitPolicies(): RateLimitPolicy[] {
+  if (!rateLimitPolicies) {
+    rateLimitPolicies = loadRateLimitPolicies(RATE_LIMIT_POLICIES_FILE || undefined);
+  }
+  return rateLimitPolicies;
+}
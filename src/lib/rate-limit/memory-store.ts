@@ -0,0 +1,60 @@
+/**
+ * @fileoverview In-process rate limit counters, for a single server process.
+ */
+
+import type { RateLimitStore } from './types';
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+interface Counter {
+  value: number;
+  expiresAt: number;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+
+  private counters = new Map<string, Counter>();
+  private sweepIntervalId: NodeJS.Timeout | null = null;
+
+  async increment(key: string, delta: number, ttlMs: number): Promise<number> {
+    const now = Date.now();
+    let counter = this.counters.get(key);
+    if (!counter || counter.expiresAt <= now) {
+      counter = { value: 0, expiresAt: now + ttlMs };
+      this.counters.set(key, counter);
+      this.startSweeping();
+    }
+
+    counter.value += delta;
+    return counter.value;
+  }
+
+  async get(keys: string[]): Promise<number[]> {
+    const now = Date.now();
+    return keys.map((key) => {
+      const counter = this.counters.get(key);
+      return counter && counter.expiresAt > now ? counter.value : 0;
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.sweepIntervalId) {
+      clearInterval(this.sweepIntervalId);
+      this.sweepIntervalId = null;
+    }
+    this.counters.clear();
+  }
+
+  private startSweeping(): void {
+    if (this.sweepIntervalId) return;
+
+    this.sweepIntervalId = setInterval(() => {
+      const now = Date.now();
+      for (const [key, counter] of this.counters) {
+        if (counter.expiresAt <= now) this.counters.delete(key);
+      }
+    }, SWEEP_INTERVAL_MS);
+    this.sweepIntervalId.unref();
+  }
+}
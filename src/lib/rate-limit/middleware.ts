@@ -0,0 +1,117 @@
+/**
+ * @fileoverview Rate limiting for API route handlers.
+ *
+ * Wrap a route's exported handlers with `withRateLimit`. Limits come from the
+ * policy covering the request's path and method. It runs around the handler
+ * rather than in Next's edge middleware because the edge runtime can't open
+ * the socket the Redis store needs, and because `skipSuccessfulRequests` and
+ * `skipFailedRequests` depend on the response status.
+ */
+
+import { NextResponse, type NextRequest } from 'next/server';
+import { RateLimitedError } from '../errors/api-errors';
+import { createLogger } from '../logger';
+import { rateLimitRejections } from '../metrics';
+import { getRateLimiter, getRateLimitPolicies } from '.';
+import { findRateLimitPolicy } from './policies';
+import type { RateLimitPolicy, RateLimitResult } from './types';
+import type { RateLimitDecision } from './sliding-window';
+
+const log = createLogger('RateLimit');
+
+type RouteHandler<Context> = (request: NextRequest, context: Context) => Promise<Response>;
+
+/**
+ * The client's address as seen by the proxy in front of the app. Only the
+ * proxy's own hop can be trusted: it sets `X-Real-IP` and appends the peer
+ * address to `X-Forwarded-For`, while earlier forwarded entries are whatever
+ * the client sent.
+ */
+export function getClientIdentifier(request: NextRequest): string {
+  const realIp = request.headers.get('x-real-ip')?.trim();
+  if (realIp) {
+    return realIp;
+  }
+
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',');
+  return forwarded?.[forwarded.length - 1].trim() || '127.0.0.1';
+}
+
+function shouldSkip(policy: RateLimitPolicy, status: number): boolean {
+  return status >= 400 ? !!policy.skipFailedRequests : !!policy.skipSuccessfulRequests;
+}
+
+function setRateLimitHeaders(headers: Headers, result: RateLimitResult): void {
+  headers.set('X-RateLimit-Limit', String(result.limit));
+  headers.set('X-RateLimit-Remaining', String(result.remaining));
+  headers.set('X-RateLimit-Reset', new Date(result.resetAt).toISOString());
+}
+
+function rateLimitedResponse(result: RateLimitResult): NextResponse {
+  const error = new RateLimitedError(result.retryAfter ?? 1);
+  const response = NextResponse.json(
+    {
+      error: {
+        message: error.message,
+        code: error.code,
+        retryAfter: error.retryAfter,
+      },
+    },
+    {
+      status: error.statusCode,
+      headers: { 'Retry-After': String(error.retryAfter) },
+    }
+  );
+  setRateLimitHeaders(response.headers, result);
+  return response;
+}
+
+/**
+ * Counts the request against its policy and refuses it with a 429 once the
+ * client is over the limit. If the store can't be reached the request is let
+ * through uncounted.
+ */
+export function withRateLimit<Context>(handler: RouteHandler<Context>): RouteHandler<Context> {
+  return async (request, context) => {
+    const policy = findRateLimitPolicy(getRateLimitPolicies(), request.nextUrl.pathname, request.method);
+    if (!policy) {
+      return handler(request, context);
+    }
+
+    const limiter = getRateLimiter();
+    let decision: RateLimitDecision | null = null;
+    try {
+      decision = await limiter.consume(getClientIdentifier(request), policy);
+    } catch (error) {
+      log.warn('Store unavailable, request not counted', { error });
+    }
+
+    if (decision && !decision.result.allowed) {
+      rateLimitRejections.inc({ policy: policy.path });
+      return rateLimitedResponse(decision.result);
+    }
+
+    const settle = (status: number) => {
+      if (!decision?.hit || !shouldSkip(policy, status)) return;
+
+      decision.result.remaining = Math.min(decision.result.limit, decision.result.remaining + 1);
+      limiter.refund(decision.hit, policy).catch((error) => {
+        log.warn('Could not uncount a skipped request', { error });
+      });
+    };
+
+    let response: Response;
+    try {
+      response = await handler(request, context);
+    } catch (error) {
+      settle(500);
+      throw error;
+    }
+
+    settle(response.status);
+    if (decision) {
+      setRateLimitHeaders(response.headers, decision.result);
+    }
+    return response;
+  };
+}
@@ -0,0 +1,105 @@
+/**
+ * @fileoverview Per-route rate limit policies.
+ *
+ * The defaults below can be overridden with a JSON file named by
+ * `RATE_LIMIT_POLICIES_FILE`, holding an array of policies. A policy in the
+ * file replaces the default with the same `path`; others are added.
+ */
+
+import fs from 'fs';
+import type { RateLimitPolicy } from './types';
+
+const MINUTE_MS = 60 * 1000;
+
+export const DEFAULT_RATE_LIMIT_POLICIES: RateLimitPolicy[] = [
+  { path: '/api', limit: 100, windowMs: MINUTE_MS },
+  // The deep check and /api/health itself; the live and ready probes aren't rate limited
+  { path: '/api/health', limit: 120, windowMs: MINUTE_MS },
+  { path: '/api/radio-stream', limit: 10, windowMs: MINUTE_MS },
+  { path: '/api/radio-meta', limit: 60, windowMs: MINUTE_MS },
+  { path: '/api/song', limit: 30, windowMs: MINUTE_MS },
+  { path: '/api/history', limit: 30, windowMs: MINUTE_MS },
+  // Invalid and refused submits count too, or they could be retried endlessly
+  { path: '/api/requests/submit', methods: ['POST'], limit: 10, windowMs: MINUTE_MS },
+  // Only wrong tokens count, to slow down guessing
+  { path: '/api/admin', limit: 20, windowMs: 15 * MINUTE_MS, skipSuccessfulRequests: true },
+];
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Checks policies read from configuration.
+ *
+ * @throws Error naming the first invalid policy
+ */
+export function parseRateLimitPolicies(value: unknown): RateLimitPolicy[] {
+  if (!Array.isArray(value)) {
+    throw new Error('Rate limit policies must be an array');
+  }
+
+  return value.map((entry, index) => {
+    const policy = entry as Partial<RateLimitPolicy> | null;
+    const label = `Rate limit policy ${index}`;
+
+    if (!policy || typeof policy.path !== 'string' || !policy.path.startsWith('/api')) {
+      throw new Error(`${label}: path must start with /api`);
+    }
+    if (!isPositiveInteger(policy.limit) || !isPositiveInteger(policy.windowMs)) {
+      throw new Error(`${label} (${policy.path}): limit and windowMs must be positive integers`);
+    }
+    if (policy.methods !== undefined && (!Array.isArray(policy.methods) || policy.methods.some((method) => typeof method !== 'string'))) {
+      throw new Error(`${label} (${policy.path}): methods must be an array of HTTP methods`);
+    }
+    if (policy.skipSuccessfulRequests && policy.skipFailedRequests) {
+      throw new Error(`${label} (${policy.path}): skipping both successful and failed requests counts nothing`);
+    }
+
+    return {
+      path: policy.path.replace(/\/+$/, ''),
+      methods: policy.methods?.map((method) => method.toUpperCase()),
+      limit: policy.limit,
+      windowMs: policy.windowMs,
+      skipSuccessfulRequests: policy.skipSuccessfulRequests === true,
+      skipFailedRequests: policy.skipFailedRequests === true,
+    };
+  });
+}
+
+/** Reads the policies file, if any, over the defaults. */
+export function loadRateLimitPolicies(file?: string): RateLimitPolicy[] {
+  if (!file) return DEFAULT_RATE_LIMIT_POLICIES;
+
+  let configured: RateLimitPolicy[];
+  try {
+    configured = parseRateLimitPolicies(JSON.parse(fs.readFileSync(file, 'utf8')));
+  } catch (error) {
+    throw new Error(`Invalid RATE_LIMIT_POLICIES_FILE ${file}: ${error instanceof Error ? error.message : error}`);
+  }
+
+  const configuredPaths = new Set(configured.map((policy) => policy.path));
+  return [
+    ...DEFAULT_RATE_LIMIT_POLICIES.filter((policy) => !configuredPaths.has(policy.path)),
+    ...configured,
+  ];
+}
+
+/** The policy with the longest path that covers the request, if any. */
+export function findRateLimitPolicy(
+  policies: RateLimitPolicy[],
+  pathname: string,
+  method: string
+): RateLimitPolicy | undefined {
+  let match: RateLimitPolicy | undefined;
+
+  for (const policy of policies) {
+    const coversPath = pathname === policy.path || pathname.startsWith(`${policy.path}/`);
+    const coversMethod = !policy.methods || policy.methods.includes(method.toUpperCase());
+    if (coversPath && coversMethod && (!match || policy.path.length > match.path.length)) {
+      match = policy;
+    }
+  }
+
+  return match;
+}
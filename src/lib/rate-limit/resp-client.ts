@@ -0,0 +1,258 @@
+/**
+ * @fileoverview Minimal client for the Redis serialization protocol (RESP2).
+ *
+ * Just enough to keep rate limit counters in Redis, Valkey or anything else
+ * that speaks the protocol. Commands are pipelined over a single connection
+ * and replies are matched to them in order. The connection is opened on first
+ * use and reopened after it drops. `redis://` and `rediss://` URLs may carry
+ * a username, password and database number.
+ */
+
+import net from 'net';
+import tls from 'tls';
+
+/** A reply error, e.g. `WRONGTYPE ...`. Inside arrays (EXEC results) errors are values. */
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RespError';
+  }
+}
+
+export type RespValue = string | number | null | RespError | RespValue[];
+
+export type RespCommand = Array<string | number>;
+
+export interface RespClientOptions {
+  connectTimeoutMs?: number;
+  /** A command without a reply after this long drops the connection. */
+  commandTimeoutMs?: number;
+}
+
+interface PendingReply {
+  resolve: (value: RespValue) => void;
+  reject: (error: Error) => void;
+}
+
+export function encodeCommand(command: RespCommand): string {
+  let encoded = `*${command.length}\r\n`;
+  for (const arg of command) {
+    const value = String(arg);
+    encoded += `$${Buffer.byteLength(value)}\r\n${value}\r\n`;
+  }
+  return encoded;
+}
+
+/**
+ * Parses the reply starting at `offset`.
+ *
+ * @returns the reply and the offset after it, or null if the buffer ends first
+ * @throws RespError on data that isn't RESP
+ */
+export function parseReply(buffer: Buffer, offset = 0): { value: RespValue; offset: number } | null {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd === -1) return null;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, offset: next };
+    case '-':
+      return { value: new RespError(line), offset: next };
+    case ':':
+      return { value: Number(line), offset: next };
+    case '$': {
+      const length = Number(line);
+      if (length < 0) return { value: null, offset: next };
+      if (buffer.length < next + length + 2) return null;
+      return { value: buffer.toString('utf8', next, next + length), offset: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count < 0) return { value: null, offset: next };
+
+      const items: RespValue[] = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position);
+        if (!item) return null;
+        items.push(item.value);
+        position = item.offset;
+      }
+      return { value: items, offset: position };
+    }
+    default:
+      throw new RespError(`Unexpected RESP type byte '${type}'`);
+  }
+}
+
+export class RespClient {
+  private readonly url: URL;
+  private readonly connectTimeoutMs: number;
+  private readonly commandTimeoutMs: number;
+
+  private socket: net.Socket | null = null;
+  private connecting: Promise<net.Socket> | null = null;
+  private pending: PendingReply[] = [];
+  private buffer: Buffer = Buffer.alloc(0);
+  private isClosed = false;
+
+  constructor(url: string, options: RespClientOptions = {}) {
+    this.url = new URL(url);
+    if (this.url.protocol !== 'redis:' && this.url.protocol !== 'rediss:') {
+      throw new Error(`Unsupported Redis URL protocol: ${this.url.protocol}`);
+    }
+    this.connectTimeoutMs = options.connectTimeoutMs ?? 2000;
+    this.commandTimeoutMs = options.commandTimeoutMs ?? 1000;
+  }
+
+  /**
+   * Sends one command.
+   *
+   * @throws RespError if the server answers with an error
+   */
+  async command(...command: RespCommand): Promise<RespValue> {
+    const [reply] = await this.pipeline([command]);
+    if (reply instanceof RespError) throw reply;
+    return reply;
+  }
+
+  /**
+   * Writes several commands to the same connection in one go, which keeps a
+   * MULTI ... EXEC block together. Error replies are returned, not thrown.
+   */
+  async pipeline(commands: RespCommand[]): Promise<RespValue[]> {
+    if (this.isClosed) {
+      throw new Error('Redis client is closed');
+    }
+
+    const socket = await this.connect();
+    return this.send(socket, commands);
+  }
+
+  async close(): Promise<void> {
+    this.isClosed = true;
+    const socket = this.socket ?? (await this.connecting?.catch(() => null));
+    if (!socket || socket.destroyed) return;
+
+    await new Promise<void>((resolve) => {
+      socket.once('close', () => resolve());
+      socket.end();
+    });
+  }
+
+  private send(socket: net.Socket, commands: RespCommand[]): Promise<RespValue[]> {
+    const replies = commands.map(
+      () =>
+        new Promise<RespValue>((resolve, reject) => {
+          this.pending.push({ resolve, reject });
+        })
+    );
+
+    // Replies are matched by order, so a missing one leaves the connection unusable
+    const timeoutId = setTimeout(() => {
+      socket.destroy(new Error(`Redis did not reply within ${this.commandTimeoutMs}ms`));
+    }, this.commandTimeoutMs);
+
+    socket.write(commands.map(encodeCommand).join(''));
+    return Promise.all(replies).finally(() => clearTimeout(timeoutId));
+  }
+
+  private connect(): Promise<net.Socket> {
+    if (this.socket) return Promise.resolve(this.socket);
+
+    if (!this.connecting) {
+      this.connecting = this.open().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private open(): Promise<net.Socket> {
+    const host = this.url.hostname;
+    const port = Number(this.url.port) || 6379;
+    const secure = this.url.protocol === 'rediss:';
+
+    return new Promise((resolve, reject) => {
+      const socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+      let lastError: Error | null = null;
+
+      socket.setNoDelay(true);
+      socket.setTimeout(this.connectTimeoutMs, () => {
+        socket.destroy(new Error(`Could not connect to Redis at ${host}:${port} within ${this.connectTimeoutMs}ms`));
+      });
+
+      socket.on('data', (chunk) => this.handleData(socket, chunk));
+      socket.on('error', (error) => {
+        lastError = error;
+      });
+      socket.on('close', () => {
+        const error = lastError ?? new Error('Connection to Redis closed');
+        if (this.socket === socket) {
+          this.socket = null;
+        }
+        this.buffer = Buffer.alloc(0);
+        this.failPending(error);
+        reject(error);
+      });
+
+      socket.once(secure ? 'secureConnect' : 'connect', () => {
+        socket.setTimeout(0);
+        this.handshake(socket)
+          .then(() => {
+            this.socket = socket;
+            resolve(socket);
+          })
+          .catch((error) => {
+            socket.destroy(error);
+          });
+      });
+    });
+  }
+
+  private async handshake(socket: net.Socket): Promise<void> {
+    const commands: RespCommand[] = [];
+    if (this.url.password) {
+      const password = decodeURIComponent(this.url.password);
+      commands.push(this.url.username ? ['AUTH', decodeURIComponent(this.url.username), password] : ['AUTH', password]);
+    }
+
+    const database = this.url.pathname.replace(/^\//, '');
+    if (database) {
+      commands.push(['SELECT', database]);
+    }
+
+    if (commands.length === 0) return;
+
+    const replies = await this.send(socket, commands);
+    const error = replies.find((reply) => reply instanceof RespError);
+    if (error) throw error;
+  }
+
+  private handleData(socket: net.Socket, chunk: Buffer): void {
+    this.buffer = this.buffer.length > 0 ? Buffer.concat([this.buffer, chunk]) : chunk;
+
+    try {
+      let offset = 0;
+      let reply = parseReply(this.buffer, offset);
+      while (reply) {
+        offset = reply.offset;
+        this.pending.shift()?.resolve(reply.value);
+        reply = offset < this.buffer.length ? parseReply(this.buffer, offset) : null;
+      }
+      this.buffer = this.buffer.subarray(offset);
+    } catch (error) {
+      socket.destroy(error as Error);
+    }
+  }
+
+  private failPending(error: Error): void {
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach((reply) => reply.reject(error));
+  }
+}
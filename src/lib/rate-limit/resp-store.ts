@@ -0,0 +1,56 @@
+/**
+ * @fileoverview Rate limit counters kept in Redis, shared by every process
+ * and server that points at the same instance.
+ */
+
+import { RespClient, RespError, type RespClientOptions } from './resp-client';
+import type { RateLimitStore } from './types';
+
+export interface RespRateLimitStoreOptions extends RespClientOptions {
+  /** Prepended to every key, so one Redis can serve several apps. */
+  keyPrefix?: string;
+}
+
+export class RespRateLimitStore implements RateLimitStore {
+  readonly name = 'redis';
+
+  private readonly client: RespClient;
+  private readonly keyPrefix: string;
+
+  constructor(url: string, options: RespRateLimitStoreOptions = {}) {
+    this.client = new RespClient(url, options);
+    this.keyPrefix = options.keyPrefix ?? 'oadro:';
+  }
+
+  async increment(key: string, delta: number, ttlMs: number): Promise<number> {
+    const prefixed = this.keyPrefix + key;
+    // One transaction, so a counter can't be created without its expiry
+    const replies = await this.client.pipeline([
+      ['MULTI'],
+      ['SET', prefixed, 0, 'PX', Math.ceil(ttlMs), 'NX'],
+      ['INCRBY', prefixed, delta],
+      ['EXEC'],
+    ]);
+
+    const results = replies[3];
+    if (results instanceof RespError) throw results;
+    if (!Array.isArray(results) || typeof results[1] !== 'number') {
+      throw new Error('Redis transaction did not return a counter');
+    }
+    return results[1];
+  }
+
+  async get(keys: string[]): Promise<number[]> {
+    if (keys.length === 0) return [];
+
+    const values = await this.client.command('MGET', ...keys.map((key) => this.keyPrefix + key));
+    if (!Array.isArray(values)) {
+      throw new Error('Unexpected reply to MGET');
+    }
+    return values.map((value) => (typeof value === 'string' ? Number(value) || 0 : 0));
+  }
+
+  close(): Promise<void> {
+    return this.client.close();
+  }
+}
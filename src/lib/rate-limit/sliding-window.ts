@@ -0,0 +1,94 @@
+/**
+ * @fileoverview Sliding window rate limiter.
+ *
+ * Each client has a counter per fixed window. A request is measured against
+ * the current window's count plus the previous window's count, weighted by
+ * how much of the previous window still falls inside the sliding one. That
+ * approximates a true sliding log with two counters per client. The counters
+ * only ever change through atomic increments, so any number of processes can
+ * share a store.
+ */
+
+import type { RateLimitHit, RateLimitPolicy, RateLimitResult, RateLimitStore } from './types';
+
+export interface RateLimitDecision {
+  result: RateLimitResult;
+  /** Set when the request was counted. */
+  hit?: RateLimitHit;
+}
+
+export class SlidingWindowRateLimiter {
+  constructor(private readonly store: RateLimitStore) {}
+
+  get storeName(): string {
+    return this.store.name;
+  }
+
+  /** Counts a request from `client` unless it would go over the policy's limit. */
+  async consume(client: string, policy: RateLimitPolicy, now: number = Date.now()): Promise<RateLimitDecision> {
+    const { limit, windowMs } = policy;
+    const window = Math.floor(now / windowMs);
+    const windowStart = window * windowMs;
+    const key = this.getKey(client, policy, window);
+    // Counters are read as the previous window for one more window
+    const ttlMs = windowMs * 2;
+
+    const [current, [previous]] = await Promise.all([
+      this.store.increment(key, 1, ttlMs),
+      this.store.get([this.getKey(client, policy, window - 1)]),
+    ]);
+
+    const overlap = 1 - (now - windowStart) / windowMs;
+    const estimate = previous * overlap + current;
+    const resetAt = windowStart + windowMs * 2;
+
+    if (estimate <= limit) {
+      return {
+        result: { allowed: true, limit, remaining: Math.max(0, Math.floor(limit - estimate)), resetAt },
+        hit: { key, window },
+      };
+    }
+
+    // Refused requests don't count against the client
+    await this.store.increment(key, -1, ttlMs);
+
+    const retryAt = this.findRetryTime(previous, current - 1, policy, windowStart);
+    return {
+      result: {
+        allowed: false,
+        limit,
+        remaining: 0,
+        resetAt,
+        retryAfter: Math.max(1, Math.ceil((retryAt - now) / 1000)),
+      },
+    };
+  }
+
+  /** Takes back a counted request, e.g. one the policy skips after seeing its response. */
+  async refund(hit: RateLimitHit, policy: RateLimitPolicy, now: number = Date.now()): Promise<void> {
+    // Once the window has slid past the hit it no longer counts anyway
+    if (Math.floor(now / policy.windowMs) > hit.window + 1) return;
+
+    await this.store.increment(hit.key, -1, policy.windowMs * 2);
+  }
+
+  private getKey(client: string, policy: RateLimitPolicy, window: number): string {
+    return `rl:${policy.path}:${client}:${window}`;
+  }
+
+  /** Earliest time one more request fits, given the counts of the previous and current windows. */
+  private findRetryTime(previous: number, current: number, policy: RateLimitPolicy, windowStart: number): number {
+    const { limit, windowMs } = policy;
+
+    // Later in this window, as the previous window's weight drops
+    const room = limit - 1 - current;
+    if (room >= 0 && previous > 0) {
+      return windowStart + (1 - room / previous) * windowMs;
+    }
+
+    // In the next window, when this window's count becomes the weighted one
+    const nextWindowStart = windowStart + windowMs;
+    if (current <= limit - 1) return nextWindowStart;
+    return nextWindowStart + (1 - (limit - 1) / current) * windowMs;
+  }
+}
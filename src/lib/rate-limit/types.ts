@@ -0,0 +1,54 @@
+/**
+ * Types for the rate limiter and its pluggable counter store
+ */
+
+/**
+ * Counters shared by every process that enforces the same limits. Values are
+ * integers that expire on their own, so a store never needs cleaning up.
+ */
+export interface RateLimitStore {
+  readonly name: string;
+
+  /**
+   * Adds `delta` (which may be negative) to a counter and returns the new
+   * value. A counter that doesn't exist yet starts at 0 and expires after
+   * `ttlMs`; later increments leave the expiry alone.
+   */
+  increment(key: string, delta: number, ttlMs: number): Promise<number>;
+
+  /** Current values of the counters, 0 for those that don't exist. */
+  get(keys: string[]): Promise<number[]>;
+
+  close(): Promise<void>;
+}
+
+/** Limit for the API routes under one path prefix. */
+export interface RateLimitPolicy {
+  /** Path prefix, e.g. `/api/requests/submit`. The longest matching prefix wins. */
+  path: string;
+  /** Methods the policy counts; all of them when omitted. */
+  methods?: string[];
+  /** Requests allowed per client in any `windowMs` period. */
+  limit: number;
+  windowMs: number;
+  /** Don't count responses with a status below 400. */
+  skipSuccessfulRequests?: boolean;
+  /** Don't count responses with a status of 400 or above. */
+  skipFailedRequests?: boolean;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** When the client will have its full allowance again (ms). */
+  resetAt: number;
+  /** Seconds until a refused client may try again. */
+  retryAfter?: number;
+}
+
+/** A counted request, needed to take the hit back if it shouldn't count. */
+export interface RateLimitHit {
+  key: string;
+  window: number;
+}
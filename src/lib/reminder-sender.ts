@@ -0,0 +1,150 @@
+/**
+ * @fileoverview Sends show reminders as web push messages.
+ *
+ * Runs in the process holding the radio worker lease, so each reminder is
+ * sent once however many processes serve the app. Every tick takes the
+ * reminders that are due from the store and pushes them; subscriptions the
+ * push service reports as gone are forgotten.
+ */
+
+import { PUSH_REMINDER_LEAD_MINUTES, VAPID_PRIVATE_KEY, VAPID_PUBLIC_KEY, VAPID_SUBJECT } from './env';
+import { createLogger } from './logger';
+import { getPushReminderStore, type DueReminder, type PushReminderStore } from './push-reminders';
+import { simplifyPlaylistName } from './schedule-types';
+import { getStation } from './stations';
+import { sendPushNotification, WebPushError, type VapidDetails } from './web-push';
+
+const log = createLogger('Reminders');
+
+const TICK_INTERVAL_MS = 30 * 1000;
+
+/** What the service worker receives in `event.data.json()`. */
+export interface ShowReminderPayload {
+  type: 'show_reminder';
+  title: string;
+  body: string;
+  /** Page opened when the notification is clicked. */
+  url: string;
+  /** Replaces an earlier notification for the same reminder. */
+  tag: string;
+  /** Show start, in milliseconds. */
+  timestamp: number;
+}
+
+export interface ReminderSenderOptions {
+  store: PushReminderStore;
+  vapid: VapidDetails;
+  leadSeconds: number;
+  send?: typeof sendPushNotification;
+}
+
+export function buildReminderPayload({ reminder }: DueReminder, now: number): ShowReminderPayload {
+  const minutes = Math.max(1, Math.round((reminder.startTimestamp - now) / 60));
+  const stationName = getStation(reminder.station)?.name ?? reminder.station;
+
+  return {
+    type: 'show_reminder',
+    title: `${simplifyPlaylistName(reminder.title)} starts soon`,
+    body: `Starting in ${minutes} minute${minutes === 1 ? '' : 's'} on ${stationName}.`,
+    url: `/schedule?station=${encodeURIComponent(reminder.station)}`,
+    tag: reminder.id,
+    timestamp: reminder.startTimestamp * 1000,
+  };
+}
+
+export class ReminderSender {
+  private readonly options: Required<ReminderSenderOptions>;
+  private intervalId: NodeJS.Timeout | null = null;
+  private isSending = false;
+
+  constructor(options: ReminderSenderOptions) {
+    this.options = { send: sendPushNotification, ...options };
+  }
+
+  start(): void {
+    if (this.intervalId) return;
+
+    log.info('Starting reminder sender');
+    this.intervalId = setInterval(() => void this.sendDueReminders(), TICK_INTERVAL_MS);
+    this.intervalId.unref();
+    void this.sendDueReminders();
+  }
+
+  stop(): void {
+    if (!this.intervalId) return;
+
+    log.info('Stopping reminder sender');
+    clearInterval(this.intervalId);
+    this.intervalId = null;
+  }
+
+  /**
+   * Sends every reminder that is due.
+   *
+   * @returns the number of reminders delivered to a push service
+   */
+  async sendDueReminders(now: number = Math.floor(Date.now() / 1000)): Promise<number> {
+    // A slow push service must not let ticks overlap
+    if (this.isSending) return 0;
+    this.isSending = true;
+
+    try {
+      const { store, vapid, leadSeconds, send } = this.options;
+      const due = await store.takeDueReminders(now, leadSeconds);
+
+      const results = await Promise.all(
+        due.map(async (item) => {
+          try {
+            await send(item.subscription, buildReminderPayload(item, now), {
+              vapid,
+              // Not worth delivering once the show has started
+              ttl: Math.max(60, item.reminder.startTimestamp - now),
+              urgency: 'high',
+            });
+            return true;
+          } catch (error) {
+            if (error instanceof WebPushError && error.isGone) {
+              await store.removeSubscription(item.subscription.endpoint);
+            } else {
+              log.error('Failed to send reminder', error, { reminderId: item.reminder.id });
+            }
+            return false;
+          }
+        })
+      );
+
+      const delivered = results.filter(Boolean).length;
+      if (due.length > 0) {
+        log.info('Sent due reminders', { delivered, due: due.length });
+      }
+      return delivered;
+    } catch (error) {
+      log.error('Failed to send due reminders', error);
+      return 0;
+    } finally {
+      this.isSending = false;
+    }
+  }
+}
+
+export function isPushConfigured(): boolean {
+  return Boolean(VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY);
+}
+
+let reminderSender: ReminderSender | null = null;
+
+/**
+ * Gets the process-wide reminder sender, or null when VAPID keys aren't set.
+ */
+export function getReminderSender(): ReminderSender | null {
+  if (!isPushConfigured()) return null;
+
+  if (!reminderSender) {
+    reminderSender = new ReminderSender({
+      store: getPushReminderStore(),
+      vapid: { publicKey: VAPID_PUBLIC_KEY, privateKey: VAPID_PRIVATE_KEY, subject: VAPID_SUBJECT },
+      leadSeconds: PUSH_REMINDER_LEAD_MINUTES * 60,
+    });
+  }
+  return reminderSender;
+}
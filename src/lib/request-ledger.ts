@@ -0,0 +1,534 @@
+/**
+ * @fileoverview Server-side ledger of song requests.
+ *
+ * Every request that passes through `/api/requests/submit` is recorded here
+ * before it is forwarded to the radio provider. The ledger refuses requests
+ * that would break the station's request rules (per-listener cooldown, a cap
+ * on pending requests, and no repeats of recently played or requested songs)
+ * and tracks each request until the song is played or the request expires.
+ * Cooldown and cap apply to the listener's cookie ID. A looser cap on waiting
+ * requests applies to their address, so clearing cookies only goes so far
+ * without one listener holding up everyone behind the same address.
+ *
+ * The ledger lives in a {@link LedgerStore}: memory for a single process, or
+ * a JSON file shared by every process when they share a lease store
+ * (`LOCK_STORE=file`), so limits, moderation and the leader's now playing
+ * matching see requests submitted through any process. Play state comes from
+ * the station's play history and the latest relayed now playing event. The
+ * radio worker also feeds it every now playing update through
+ * {@link RequestLedger.observeNowPlaying}, which reports the requests that
+ * were just queued or went on air so they can be pushed to listeners.
+ *
+ * While moderation is on for a station, new requests are recorded as 'held'
+ * and only forwarded once a moderator approves them.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { REQUEST_LIMITS } from './constants';
+import { LOCK_STORE, REQUEST_DATA_DIR } from './env';
+import { NotFoundError, RequestRejectedError } from './errors/api-errors';
+import { withFileMutex, writeFileAtomic } from './file-mutex';
+import { getLatestEvents } from './interaction-stream';
+import type { ListenerIdentity } from './listener-id';
+import { getPlayHistoryStore } from './play-history';
+import type {
+  ListenerRequest,
+  ModeratedRequest,
+  PendingRequestsData,
+  RequestableSong,
+} from './request-types';
+import type { NowPlaying } from './types';
+
+/** Where the ledger learns which songs have been played. */
+export interface PlaySource {
+  /** Unix timestamp (seconds) of the song's most recent play, or null. */
+  getLastPlayedAt(station: string, songId: string): number | null;
+  /** Song ID of the song on air right now, or null. */
+  getLiveSongId(station: string): string | null;
+}
+
+export interface RequestLedgerOptions {
+  plays: PlaySource;
+  /** Defaults to a {@link MemoryLedgerStore}. */
+  store?: LedgerStore;
+  cooldownSeconds?: number;
+  repeatWindowSeconds?: number;
+  maxPendingPerListener?: number;
+  maxPendingPerAddress?: number;
+  pendingExpirySeconds?: number;
+  /** Clock in milliseconds. */
+  now?: () => number;
+}
+
+export interface LedgerEntry extends ModeratedRequest {
+  listenerId: string;
+  clientId: string;
+}
+
+/** The listener making or looking up requests. */
+export type LedgerListener = Pick<ListenerIdentity, 'id' | 'clientId'>;
+
+export interface LedgerState {
+  /** Newest first. */
+  entries: LedgerEntry[];
+  moderatedStations: string[];
+}
+
+/** Where the ledger keeps its entries and moderation settings. */
+export interface LedgerStore {
+  /** A copy of the current state; changes to it are not saved. */
+  read(): Promise<LedgerState>;
+  /**
+   * Applies `change` to the current state and saves it, with no other update
+   * in between. Nothing is saved if `change` throws.
+   */
+  update<T>(change: (state: LedgerState) => T): Promise<T>;
+}
+
+function emptyState(): LedgerState {
+  return { entries: [], moderatedStations: [] };
+}
+
+/** Ledger state for a single process. */
+export class MemoryLedgerStore implements LedgerStore {
+  private state = emptyState();
+
+  async read(): Promise<LedgerState> {
+    return structuredClone(this.state);
+  }
+
+  async update<T>(change: (state: LedgerState) => T): Promise<T> {
+    const state = structuredClone(this.state);
+    const value = change(state);
+    this.state = state;
+    return value;
+  }
+}
+
+/**
+ * Ledger state shared by every process on the host through one JSON file.
+ * Updates are serialised with an exclusive `.mutex` file next to it.
+ */
+export class FileLedgerStore implements LedgerStore {
+  private readonly filePath: string;
+
+  constructor(directory: string) {
+    this.filePath = path.join(directory, 'ledger.json');
+    fs.mkdirSync(directory, { recursive: true });
+  }
+
+  async read(): Promise<LedgerState> {
+    try {
+      return JSON.parse(await fs.promises.readFile(this.filePath, 'utf8')) as LedgerState;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return emptyState();
+      }
+      throw error;
+    }
+  }
+
+  update<T>(change: (state: LedgerState) => T): Promise<T> {
+    return withFileMutex(`${this.filePath}.mutex`, async () => {
+      const state = await this.read();
+      const value = change(state);
+      await writeFileAtomic(this.filePath, JSON.stringify(state));
+      return value;
+    });
+  }
+}
+
+/** A request whose status changed because of a now playing update. */
+export interface RequestTransition {
+  type: 'request_queued' | 'request_fulfilled';
+  request: ListenerRequest;
+}
+
+// Played and expired requests stay visible to their listener for a day
+const RETENTION_SECONDS = 24 * 60 * 60;
+
+/** Forwarded to the station and not yet on air. */
+function isForwarded(entry: LedgerEntry): boolean {
+  return entry.status === 'pending' || entry.status === 'queued';
+}
+
+// Held and queued requests still count against the listener's pending cap
+function isWaiting(entry: LedgerEntry): boolean {
+  return entry.status === 'held' || isForwarded(entry);
+}
+
+function formatWait(seconds: number): string {
+  const minutes = Math.ceil(seconds / 60);
+  return minutes <= 1 ? 'a minute' : `${minutes} minutes`;
+}
+
+export class RequestLedger {
+  private readonly plays: PlaySource;
+  private readonly store: LedgerStore;
+  private readonly cooldownSeconds: number;
+  private readonly repeatWindowSeconds: number;
+  private readonly maxPendingPerListener: number;
+  private readonly maxPendingPerAddress: number;
+  private readonly pendingExpirySeconds: number;
+  private readonly now: () => number;
+
+  constructor(options: RequestLedgerOptions) {
+    this.plays = options.plays;
+    this.store = options.store ?? new MemoryLedgerStore();
+    this.cooldownSeconds = options.cooldownSeconds ?? REQUEST_LIMITS.COOLDOWN_SECONDS;
+    this.repeatWindowSeconds = options.repeatWindowSeconds ?? REQUEST_LIMITS.REPEAT_WINDOW_SECONDS;
+    this.maxPendingPerListener = options.maxPendingPerListener ?? REQUEST_LIMITS.MAX_PENDING_PER_LISTENER;
+    this.maxPendingPerAddress = options.maxPendingPerAddress ?? REQUEST_LIMITS.MAX_PENDING_PER_ADDRESS;
+    this.pendingExpirySeconds = options.pendingExpirySeconds ?? REQUEST_LIMITS.PENDING_EXPIRY_SECONDS;
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Checks a request against the rules and records it as pending, or as held
+   * if the station is moderated. Call {@link cancel} if forwarding a pending
+   * request to the provider fails.
+   *
+   * @throws RequestRejectedError explaining why the request was refused
+   */
+  reserve(station: string, listener: LedgerListener, song: RequestableSong): Promise<ListenerRequest> {
+    return this.store.update((state) => {
+      const now = this.nowSeconds();
+      this.refresh(state, station, now);
+
+      const listenerEntries = this.getListenerEntries(state, station, listener);
+
+      const cooldownEndsAt = this.getCooldownEndsAt(listenerEntries, now);
+      if (cooldownEndsAt !== null) {
+        const retryAfter = cooldownEndsAt - now;
+        throw new RequestRejectedError(
+          `You can request another song in ${formatWait(retryAfter)}.`,
+          'COOLDOWN',
+          retryAfter
+        );
+      }
+
+      const pending = listenerEntries.filter(isWaiting);
+      if (pending.length >= this.maxPendingPerListener) {
+        throw new RequestRejectedError(
+          `You already have ${pending.length} requests waiting to be played. Try again once one of them is on air.`,
+          'TOO_MANY_PENDING'
+        );
+      }
+
+      const addressPending = state.entries.filter(
+        (entry) => entry.station === station && entry.clientId === listener.clientId && isWaiting(entry)
+      );
+      if (addressPending.length >= this.maxPendingPerAddress) {
+        throw new RequestRejectedError(
+          'Too many requests from your network are waiting to be played. Try again once some of them are on air.',
+          'TOO_MANY_PENDING'
+        );
+      }
+
+      const lastPlayedAt = this.plays.getLastPlayedAt(station, song.song.id);
+      if (this.plays.getLiveSongId(station) === song.song.id) {
+        throw new RequestRejectedError(`"${song.song.title}" is playing right now.`, 'RECENTLY_PLAYED');
+      }
+      if (lastPlayedAt !== null && now - lastPlayedAt < this.repeatWindowSeconds) {
+        const retryAfter = lastPlayedAt + this.repeatWindowSeconds - now;
+        throw new RequestRejectedError(
+          `"${song.song.title}" was played recently. It can be requested again in ${formatWait(retryAfter)}.`,
+          'RECENTLY_PLAYED',
+          retryAfter
+        );
+      }
+
+      const lastRequest = state.entries.find(
+        (entry) =>
+          entry.station === station &&
+          entry.status !== 'rejected' &&
+          entry.songId === song.song.id &&
+          now - entry.requestedAt < this.repeatWindowSeconds
+      );
+      if (lastRequest) {
+        throw new RequestRejectedError(
+          isWaiting(lastRequest)
+            ? `"${song.song.title}" has already been requested and is coming up soon.`
+            : `"${song.song.title}" was requested recently.`,
+          'RECENTLY_REQUESTED',
+          isWaiting(lastRequest) ? undefined : lastRequest.requestedAt + this.repeatWindowSeconds - now
+        );
+      }
+
+      const entry: LedgerEntry = {
+        id: crypto.randomUUID(),
+        station,
+        listenerId: listener.id,
+        clientId: listener.clientId,
+        requestId: song.request_id,
+        requestUrl: song.request_url,
+        songId: song.song.id,
+        title: song.song.title,
+        artist: song.song.artist,
+        art: song.song.art,
+        requestedAt: now,
+        status: state.moderatedStations.includes(station) ? 'held' : 'pending',
+      };
+      state.entries.unshift(entry);
+
+      return this.toListenerRequest(entry);
+    });
+  }
+
+  /** Forgets a reserved request that the provider didn't accept. */
+  async cancel(id: string): Promise<void> {
+    await this.store.update((state) => {
+      state.entries = state.entries.filter((entry) => entry.id !== id);
+    });
+  }
+
+  async isModerated(station: string): Promise<boolean> {
+    return (await this.store.read()).moderatedStations.includes(station);
+  }
+
+  /**
+   * Turns moderation on or off for new requests. Requests already held stay
+   * in the queue until a moderator deals with them or they expire.
+   */
+  async setModerated(station: string, moderated: boolean): Promise<void> {
+    await this.store.update((state) => {
+      const others = state.moderatedStations.filter((candidate) => candidate !== station);
+      state.moderatedStations = moderated ? [...others, station] : others;
+    });
+  }
+
+  /** The station's held requests, oldest first. */
+  async getHeldRequests(station: string): Promise<ModeratedRequest[]> {
+    const state = await this.store.read();
+    this.refresh(state, station, this.nowSeconds());
+
+    return state.entries
+      .filter((entry) => entry.station === station && entry.status === 'held')
+      .reverse()
+      .map((entry) => this.toModeratedRequest(entry));
+  }
+
+  /**
+   * Marks a held request as pending so it can be forwarded to the provider.
+   * Call {@link hold} if forwarding fails.
+   *
+   * @throws NotFoundError if the station has no held request with this ID
+   */
+  approve(station: string, id: string): Promise<ModeratedRequest> {
+    return this.store.update((state) => {
+      const entry = this.findHeld(state, station, id);
+      entry.status = 'pending';
+      return this.toModeratedRequest(entry);
+    });
+  }
+
+  /** Puts an approved request back on hold after the provider refused it. */
+  async hold(id: string): Promise<void> {
+    await this.store.update((state) => {
+      const entry = state.entries.find((candidate) => candidate.id === id);
+      if (entry?.status === 'pending') {
+        entry.status = 'held';
+      }
+    });
+  }
+
+  /**
+   * Refuses a held request. Rejected requests stay visible to the listener
+   * but free up their slot and don't block others from requesting the song.
+   *
+   * @throws NotFoundError if the station has no held request with this ID
+   */
+  reject(station: string, id: string, reason?: string): Promise<ModeratedRequest> {
+    return this.store.update((state) => {
+      const entry = this.findHeld(state, station, id);
+      entry.status = 'rejected';
+      if (reason) {
+        entry.rejectionReason = reason;
+      }
+      return this.toModeratedRequest(entry);
+    });
+  }
+
+  /** The listener's recent requests, newest first, with up-to-date statuses. */
+  async getListenerRequests(station: string, listener: LedgerListener): Promise<PendingRequestsData> {
+    const now = this.nowSeconds();
+    const state = await this.store.read();
+    this.refresh(state, station, now);
+
+    const ownEntries = this.getListenerEntries(state, station, listener);
+
+    return {
+      requests: ownEntries.map((entry) => this.toListenerRequest(entry)),
+      cooldownEndsAt: this.getCooldownEndsAt(ownEntries, now),
+      maxPending: this.maxPendingPerListener,
+      moderated: state.moderatedStations.includes(station),
+    };
+  }
+
+  /**
+   * Matches the station's waiting requests against a now playing update.
+   * Requests for the live song become 'playing' and requests for an up next
+   * song become 'queued'; each change is returned once.
+   */
+  async observeNowPlaying(station: string, nowPlaying: NowPlaying): Promise<RequestTransition[]> {
+    const now = this.nowSeconds();
+    // Most updates change no requests, so check on a copy before writing
+    if (this.applyNowPlaying(await this.store.read(), station, nowPlaying, now).length === 0) {
+      return [];
+    }
+
+    return this.store.update((state) => {
+      const transitions = this.applyNowPlaying(state, station, nowPlaying, now);
+      // Match before refreshing, which would otherwise mark the live song's
+      // requests as playing from the play source without reporting them
+      this.refresh(state, station, now);
+      return transitions;
+    });
+  }
+
+  private applyNowPlaying(
+    state: LedgerState,
+    station: string,
+    nowPlaying: NowPlaying,
+    now: number
+  ): RequestTransition[] {
+    const { liveSong, upNext } = nowPlaying;
+    const transitions: RequestTransition[] = [];
+
+    for (const entry of state.entries) {
+      if (entry.station !== station || !isForwarded(entry)) continue;
+
+      const playedAt = liveSong?.played_at ?? now;
+      if (liveSong?.songId === entry.songId && playedAt >= entry.requestedAt) {
+        entry.status = 'playing';
+        entry.playedAt = playedAt;
+        transitions.push({ type: 'request_fulfilled', request: this.toListenerRequest(entry) });
+      } else if (entry.status === 'pending' && upNext.some((song) => song.songId === entry.songId)) {
+        entry.status = 'queued';
+        transitions.push({ type: 'request_queued', request: this.toListenerRequest(entry) });
+      }
+    }
+    return transitions;
+  }
+
+  /** Updates statuses from play state and drops entries past retention. */
+  private refresh(state: LedgerState, station: string, now: number): void {
+    const liveSongId = this.plays.getLiveSongId(station);
+
+    state.entries = state.entries.filter((entry) => now - entry.requestedAt < RETENTION_SECONDS);
+
+    for (const entry of state.entries) {
+      if (entry.station !== station || ['played', 'expired', 'rejected'].includes(entry.status)) continue;
+
+      if (entry.status === 'held') {
+        if (now - entry.requestedAt >= this.pendingExpirySeconds) {
+          entry.status = 'expired';
+        }
+        continue;
+      }
+
+      const lastPlayedAt = this.plays.getLastPlayedAt(station, entry.songId);
+      if (lastPlayedAt !== null && lastPlayedAt >= entry.requestedAt) {
+        entry.playedAt = lastPlayedAt;
+        entry.status = liveSongId === entry.songId ? 'playing' : 'played';
+      } else if (isForwarded(entry) && now - entry.requestedAt >= this.pendingExpirySeconds) {
+        entry.status = 'expired';
+      }
+    }
+  }
+
+  private getListenerEntries(state: LedgerState, station: string, listener: LedgerListener): LedgerEntry[] {
+    return state.entries.filter((entry) => entry.station === station && entry.listenerId === listener.id);
+  }
+
+  private getCooldownEndsAt(listenerEntries: LedgerEntry[], now: number): number | null {
+    // Entries are newest first
+    const latest = listenerEntries[0];
+    if (!latest) return null;
+
+    const endsAt = latest.requestedAt + this.cooldownSeconds;
+    return endsAt > now ? endsAt : null;
+  }
+
+  private findHeld(state: LedgerState, station: string, id: string): LedgerEntry {
+    // Moderators only act on the queue of the station they have open
+    const entry = state.entries.find((candidate) => candidate.id === id && candidate.station === station);
+    // Held requests may have expired since the moderator loaded the queue
+    if (entry) this.refresh(state, station, this.nowSeconds());
+
+    if (!entry || entry.status !== 'held') {
+      throw new NotFoundError('Held request not found. It may have expired or been handled already.');
+    }
+    return entry;
+  }
+
+  private toListenerRequest(entry: LedgerEntry): ListenerRequest {
+    const request: ListenerRequest = {
+      id: entry.id,
+      requestId: entry.requestId,
+      songId: entry.songId,
+      title: entry.title,
+      artist: entry.artist,
+      art: entry.art,
+      requestedAt: entry.requestedAt,
+      status: entry.status,
+    };
+    if (entry.playedAt !== undefined) request.playedAt = entry.playedAt;
+    if (entry.rejectionReason !== undefined) request.rejectionReason = entry.rejectionReason;
+    return request;
+  }
+
+  private toModeratedRequest(entry: LedgerEntry): ModeratedRequest {
+    return { ...this.toListenerRequest(entry), station: entry.station, requestUrl: entry.requestUrl };
+  }
+
+  private nowSeconds(): number {
+    return Math.floor(this.now() / 1000);
+  }
+}
+
+/**
+ * Reads plays from the station's play history, plus the latest relayed now
+ * playing event so processes that don't run the worker see plays too.
+ */
+const streamPlaySource: PlaySource = {
+  getLastPlayedAt(station, songId) {
+    let lastPlayedAt = getPlayHistoryStore(station).getSongStats(songId)?.lastPlayedAt ?? null;
+
+    const nowPlaying = getLatestEvents(station).find((event) => event.type === 'now_playing');
+    if (nowPlaying?.type === 'now_playing') {
+      const { liveSong, recentlyPlayed } = nowPlaying.data;
+      for (const song of liveSong ? [liveSong, ...recentlyPlayed] : recentlyPlayed) {
+        if (song.songId === songId && song.played_at && song.played_at > (lastPlayedAt ?? 0)) {
+          lastPlayedAt = song.played_at;
+        }
+      }
+    }
+
+    return lastPlayedAt;
+  },
+
+  getLiveSongId(station) {
+    const nowPlaying = getLatestEvents(station).find((event) => event.type === 'now_playing');
+    return nowPlaying?.type === 'now_playing' ? nowPlaying.data.liveSong?.songId ?? null : null;
+  },
+};
+
+let requestLedger: RequestLedger | null = null;
+
+function createLedgerStore(): LedgerStore {
+  // Processes sharing a lease also share the ledger
+  return LOCK_STORE === 'file' ? new FileLedgerStore(path.resolve(REQUEST_DATA_DIR)) : new MemoryLedgerStore();
+}
+
+/**
+ * Gets the process-wide request ledger.
+ */
+export function getRequestLedger(): RequestLedger {
+  if (!requestLedger) {
+    requestLedger = new RequestLedger({ plays: streamPlaySource, store: createLedgerStore() });
+  }
+  return requestLedger;
+}
@@ -0,0 +1,209 @@
+/**
+ * @fileoverview Outbox for song requests made without a working connection.
+ *
+ * Requests that can't reach the server are kept in IndexedDB and replayed by
+ * the service worker through Background Sync, or by the page on its next load
+ * where Background Sync isn't available. `public/sw.js` uses the same
+ * database layout and replay rules. Entries are keyed by station and
+ * `request_id`, so tapping "Request" twice queues the song once. Replay
+ * outcomes are kept until the requests page has shown them.
+ */
+
+import { API_ROUTES } from './constants';
+import type { RequestRejectionReason } from './request-types';
+
+const OFFLINE_DB_NAME = 'oadro-offline';
+const OFFLINE_DB_VERSION = 2;
+const HISTORY_STORE = 'history';
+const OUTBOX_STORE = 'request-outbox';
+const RESULTS_STORE = 'request-results';
+
+export const OUTBOX_SYNC_TAG = 'request-outbox';
+/** Posted by the service worker after it has stored new results. */
+export const OUTBOX_RESULTS_MESSAGE = 'REQUEST_OUTBOX_RESULTS';
+
+// Server errors are retried; after this many the request is reported as failed
+const MAX_REPLAY_ATTEMPTS = 5;
+
+export interface OutboxRequest {
+  /** `{station}:{requestId}` */
+  key: string;
+  station: string;
+  requestId: string;
+  requestUrl: string;
+  title?: string;
+  artist?: string;
+  queuedAt: number;
+  attempts: number;
+}
+
+export interface OutboxResult {
+  key: string;
+  station: string;
+  requestId: string;
+  title?: string;
+  artist?: string;
+  success: boolean;
+  message: string;
+  reason?: RequestRejectionReason;
+  completedAt: number;
+}
+
+export function isOutboxSupported(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function openOfflineDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const open = indexedDB.open(OFFLINE_DB_NAME, OFFLINE_DB_VERSION);
+    open.onupgradeneeded = () => {
+      const db = open.result;
+      // Whichever of the page or the service worker opens it first creates every store
+      if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+        db.createObjectStore(HISTORY_STORE, { keyPath: 'url' }).createIndex('cachedAt', 'cachedAt');
+      }
+      if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+        db.createObjectStore(OUTBOX_STORE, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(RESULTS_STORE)) {
+        db.createObjectStore(RESULTS_STORE, { keyPath: 'key' });
+      }
+    };
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => reject(open.error);
+  });
+}
+
+/** Runs one transaction and resolves with the last request's result once it commits. */
+async function transact<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openOfflineDb();
+  try {
+    return await new Promise((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = operation(transaction.objectStore(storeName));
+      transaction.oncomplete = () => resolve(request ? request.result : undefined);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Queues a request for replay.
+ *
+ * @returns false if the same song was already queued for the station
+ */
+export async function queueRequest(
+  request: Pick<OutboxRequest, 'station' | 'requestId' | 'requestUrl' | 'title' | 'artist'>
+): Promise<boolean> {
+  const key = `${request.station}:${request.requestId}`;
+  const existing = await transact<OutboxRequest>(OUTBOX_STORE, 'readonly', (store) => store.get(key));
+  if (existing) return false;
+
+  await transact(OUTBOX_STORE, 'readwrite', (store) => {
+    store.put({ ...request, key, queuedAt: Date.now(), attempts: 0 } satisfies OutboxRequest);
+  });
+  return true;
+}
+
+/** Removes and returns a station's replay results, oldest first. */
+export async function takeResults(station: string): Promise<OutboxResult[]> {
+  const all = (await transact<OutboxResult[]>(RESULTS_STORE, 'readonly', (store) => store.getAll())) ?? [];
+  const results = all.filter((result) => result.station === station);
+  if (results.length === 0) return [];
+
+  await transact(RESULTS_STORE, 'readwrite', (store) => {
+    results.forEach((result) => store.delete(result.key));
+  });
+  return results.sort((a, b) => a.completedAt - b.completedAt);
+}
+
+/**
+ * Asks the service worker to replay the outbox when the connection is back.
+ *
+ * @returns false where Background Sync isn't available
+ */
+export async function registerOutboxSync(): Promise<boolean> {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return false;
+
+  try {
+    const registration = await navigator.serviceWorker.getRegistration();
+    const sync = (registration as (ServiceWorkerRegistration & { sync?: { register(tag: string): Promise<void> } }) | undefined)?.sync;
+    if (!sync) return false;
+
+    await sync.register(OUTBOX_SYNC_TAG);
+    return true;
+  } catch (error) {
+    console.warn('[RequestOutbox] Background Sync registration failed:', error);
+    return false;
+  }
+}
+
+function toResult(request: OutboxRequest, success: boolean, message: string, reason?: RequestRejectionReason): OutboxResult {
+  return {
+    key: request.key,
+    station: request.station,
+    requestId: request.requestId,
+    title: request.title,
+    artist: request.artist,
+    success,
+    message,
+    reason,
+    completedAt: Date.now(),
+  };
+}
+
+/**
+ * Sends every queued request from the page. Stops at the first network
+ * failure, leaving the rest queued for the next attempt.
+ *
+ * @returns the number of requests that got a final answer
+ */
+export async function replayOutbox(): Promise<number> {
+  const queued = (await transact<OutboxRequest[]>(OUTBOX_STORE, 'readonly', (store) => store.getAll())) ?? [];
+  let completed = 0;
+
+  for (const request of queued.sort((a, b) => a.queuedAt - b.queuedAt)) {
+    let response: Response;
+    try {
+      response = await fetch(`${API_ROUTES.REQUESTS_SUBMIT}?station=${encodeURIComponent(request.station)}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ request_url: request.requestUrl }),
+      });
+    } catch {
+      return completed;
+    }
+
+    const body = await response.json().catch(() => null);
+    let result: OutboxResult | null = null;
+    if (response.ok && body?.success) {
+      result = toResult(request, true, body.message || 'Request submitted successfully!');
+    } else if (response.status < 500 || request.attempts + 1 >= MAX_REPLAY_ATTEMPTS) {
+      result = toResult(request, false, body?.error?.message || `Request failed (HTTP ${response.status})`, body?.error?.reason);
+    }
+
+    if (result) {
+      const finished = result;
+      await transact(RESULTS_STORE, 'readwrite', (store) => {
+        store.put(finished);
+      });
+      await transact(OUTBOX_STORE, 'readwrite', (store) => {
+        store.delete(request.key);
+      });
+      completed++;
+    } else {
+      await transact(OUTBOX_STORE, 'readwrite', (store) => {
+        store.put({ ...request, attempts: request.attempts + 1 });
+      });
+    }
+  }
+
+  return completed;
+}
@@ -0,0 +1,292 @@
+/**
+ * @fileoverview Search, sorting, faceting and paging of requestable songs.
+ *
+ * Runs on the server for `/api/requests` so clients only download the page
+ * they show. Matching ignores case and accents and tolerates small typos:
+ * every word of the query has to match a word of the title, artist, album or
+ * lyrics, and matches in the title and artist rank highest.
+ */
+
+import { ValidationError } from './errors/api-errors';
+import {
+  cleanGenreString,
+  REQUEST_SORTS,
+  type GenreFacet,
+  type RequestableSong,
+  type RequestData,
+  type RequestQuery,
+  type RequestSort,
+} from './request-types';
+
+export const DEFAULT_REQUEST_PAGE_SIZE = 20;
+export const MAX_REQUEST_PAGE_SIZE = 100;
+
+/** Play statistics used by the 'recently-played' and 'popularity' sorts. */
+export interface SongPlayStats {
+  playCount: number;
+  /** Unix timestamp (seconds). */
+  lastPlayedAt: number;
+}
+
+type SearchField = 'title' | 'artist' | 'album' | 'lyrics';
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 4,
+  artist: 3,
+  album: 2,
+  lyrics: 1,
+};
+
+// Lyrics are long, so they're only matched by substring, never fuzzily
+const FUZZY_FIELDS: readonly SearchField[] = ['title', 'artist', 'album'];
+
+/** Lowercases and strips accents and punctuation, so "Beyoncé!" matches "beyonce". */
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+function tokenize(text: string): string[] {
+  const normalized = normalizeSearchText(text);
+  return normalized ? normalized.split(' ') : [];
+}
+
+/** Typos allowed for a query word: none for short words, more for long ones. */
+function maxTypos(word: string): number {
+  if (word.length < 4) return 0;
+  return word.length < 8 ? 1 : 2;
+}
+
+/**
+ * Edit distance counting a swap of neighbouring letters as one typo, giving
+ * up once it's known to exceed `limit`.
+ */
+function editDistance(a: string, b: string, limit: number): number {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) return limit + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+interface IndexedSong {
+  song: RequestableSong;
+  fields: Record<SearchField, { text: string; words: string[] }>;
+  genre: string;
+  artistKey: string;
+}
+
+// Catalogue songs are cached server-side, so each is only normalised once
+const songIndex = new WeakMap<RequestableSong, IndexedSong>();
+
+function indexSong(song: RequestableSong): IndexedSong {
+  let indexed = songIndex.get(song);
+  if (!indexed) {
+    indexed = buildIndexedSong(song);
+    songIndex.set(song, indexed);
+  }
+  return indexed;
+}
+
+function buildIndexedSong(song: RequestableSong): IndexedSong {
+  const field = (value: string | undefined) => {
+    const text = normalizeSearchText(value ?? '');
+    return { text, words: text ? text.split(' ') : [] };
+  };
+
+  return {
+    song,
+    fields: {
+      title: field(song.song.title),
+      artist: field(song.song.artist),
+      album: field(song.song.album),
+      lyrics: field(song.song.lyrics),
+    },
+    genre: cleanGenreString(song.song.genre ?? ''),
+    artistKey: normalizeSearchText(song.song.artist ?? ''),
+  };
+}
+
+/**
+ * Scores how well a query word matches a song: an exact word scores double
+ * a prefix or substring, which scores double a match within the typo budget.
+ * Returns 0 if the word doesn't match at all.
+ */
+function scoreWord(indexed: IndexedSong, word: string): number {
+  let best = 0;
+  const typos = maxTypos(word);
+
+  for (const [name, weight] of Object.entries(FIELD_WEIGHTS) as [SearchField, number][]) {
+    const { text, words } = indexed.fields[name];
+    if (!text) continue;
+
+    if (words.includes(word)) {
+      best = Math.max(best, weight * 4);
+    } else if (text.includes(word)) {
+      best = Math.max(best, weight * 2);
+    } else if (typos > 0 && FUZZY_FIELDS.includes(name)) {
+      if (words.some((candidate) => editDistance(word, candidate, typos) <= typos)) {
+        best = Math.max(best, weight);
+      }
+    }
+  }
+
+  return best;
+}
+
+function scoreSong(indexed: IndexedSong, queryWords: string[]): number {
+  let total = 0;
+  for (const word of queryWords) {
+    const score = scoreWord(indexed, word);
+    if (score === 0) return 0;
+    total += score;
+  }
+  return total;
+}
+
+function buildGenreFacets(songs: IndexedSong[]): GenreFacet[] {
+  const counts = new Map<string, GenreFacet>();
+  for (const { genre } of songs) {
+    if (!genre) continue;
+    const key = genre.toLowerCase();
+    const facet = counts.get(key);
+    if (facet) {
+      facet.count++;
+    } else {
+      counts.set(key, { genre, count: 1 });
+    }
+  }
+
+  return [...counts.values()].sort((a, b) => b.count - a.count || a.genre.localeCompare(b.genre));
+}
+
+const byTitle = (a: RequestableSong, b: RequestableSong) =>
+  a.song.title.localeCompare(b.song.title, undefined, { sensitivity: 'base' });
+
+const byArtist = (a: RequestableSong, b: RequestableSong) =>
+  a.song.artist.localeCompare(b.song.artist, undefined, { sensitivity: 'base' }) || byTitle(a, b);
+
+/**
+ * Parses and validates the query string of `/api/requests`.
+ *
+ * @throws ValidationError for an unknown sort or a malformed page number
+ */
+export function parseRequestQuery(params: URLSearchParams): RequestQuery {
+  const sort = params.get('sort') || 'relevance';
+  if (!REQUEST_SORTS.includes(sort as RequestSort)) {
+    throw new ValidationError(`Invalid sort "${sort}". Use one of: ${REQUEST_SORTS.join(', ')}`);
+  }
+
+  const parsePositive = (name: string, fallback: number): number => {
+    const raw = params.get(name);
+    if (raw === null || raw === '') return fallback;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < 1) {
+      throw new ValidationError(`${name} must be a positive integer`);
+    }
+    return value;
+  };
+
+  return {
+    q: (params.get('q') ?? '').trim(),
+    genre: (params.get('genre') ?? '').trim(),
+    artist: (params.get('artist') ?? '').trim(),
+    sort: sort as RequestSort,
+    page: parsePositive('page', 1),
+    pageSize: Math.min(parsePositive('pageSize', DEFAULT_REQUEST_PAGE_SIZE), MAX_REQUEST_PAGE_SIZE),
+  };
+}
+
+/**
+ * Filters, sorts and pages a station's requestable songs.
+ *
+ * @param getStats play statistics for a song ID, or null if it was never played
+ */
+export function searchRequestableSongs(
+  songs: RequestableSong[],
+  query: RequestQuery,
+  getStats: (songId: string) => SongPlayStats | null,
+  lastUpdated: number
+): RequestData {
+  const queryWords = tokenize(query.q);
+  const artistKey = normalizeSearchText(query.artist);
+  const genreKey = query.genre.toLowerCase();
+
+  // Facets ignore the genre filter so listeners can switch between genres
+  const scores = new Map<RequestableSong, number>();
+  const matching: IndexedSong[] = [];
+  for (const song of songs) {
+    const indexed = indexSong(song);
+    if (artistKey && indexed.artistKey !== artistKey) continue;
+
+    if (queryWords.length > 0) {
+      const score = scoreSong(indexed, queryWords);
+      if (score === 0) continue;
+      scores.set(song, score);
+    }
+    matching.push(indexed);
+  }
+
+  const filtered = matching
+    .filter((indexed) => !genreKey || indexed.genre.toLowerCase() === genreKey)
+    .map((indexed) => indexed.song);
+
+  // Looked up once per song rather than on every comparison
+  const playStats = new Map<RequestableSong, SongPlayStats | null>();
+  if (query.sort === 'recently-played' || query.sort === 'popularity') {
+    filtered.forEach((song) => playStats.set(song, getStats(song.song.id)));
+  }
+  const stats = (song: RequestableSong) => playStats.get(song) ?? null;
+  switch (query.sort) {
+    case 'relevance':
+      filtered.sort((a, b) => (scores.get(b) ?? 0) - (scores.get(a) ?? 0) || byTitle(a, b));
+      break;
+    case 'title':
+      filtered.sort(byTitle);
+      break;
+    case 'artist':
+      filtered.sort(byArtist);
+      break;
+    case 'recently-played':
+      // Songs that have never been played go last
+      filtered.sort((a, b) => (stats(b)?.lastPlayedAt ?? 0) - (stats(a)?.lastPlayedAt ?? 0) || byTitle(a, b));
+      break;
+    case 'popularity':
+      filtered.sort((a, b) => (stats(b)?.playCount ?? 0) - (stats(a)?.playCount ?? 0) || byTitle(a, b));
+      break;
+  }
+
+  const totalPages = Math.ceil(filtered.length / query.pageSize);
+  const page = Math.max(1, Math.min(query.page, totalPages));
+  const start = (page - 1) * query.pageSize;
+
+  return {
+    songs: filtered.slice(start, start + query.pageSize),
+    totalCount: songs.length,
+    totalFiltered: filtered.length,
+    page,
+    pageSize: query.pageSize,
+    totalPages,
+    facets: { genres: buildGenreFacets(matching) },
+    lastUpdated,
+  };
+}
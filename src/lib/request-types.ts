@@ -27,42 +27,125 @@ export interface RequestableSong {
   };
 }
 
+/** 'relevance' only applies to searches; without `q` it falls back to 'title'. */
+export type RequestSort = 'relevance' | 'title' | 'artist' | 'recently-played' | 'popularity';
+
+export const REQUEST_SORTS: readonly RequestSort[] = ['relevance', 'title', 'artist', 'recently-played', 'popularity'];
+
+/** Query parameters accepted by `/api/requests`. */
+export interface RequestQuery {
+  q: string;
+  genre: string;
+  artist: string;
+  sort: RequestSort;
+  page: number;
+  pageSize: number;
+}
+
+export interface GenreFacet {
+  genre: string;
+  count: number;
+}
+
+/** One page of requestable songs, as returned by `/api/requests`. */
 export interface RequestData {
   songs: RequestableSong[];
+  /** Size of the whole catalogue. */
   totalCount: number;
+  /** Number of songs matching the query, across all pages. */
+  totalFiltered: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+  facets: {
+    /** Genres of the songs matching `q` and `artist`, most common first. */
+    genres: GenreFacet[];
+  };
+  /** When the catalogue was fetched from the radio provider (ms). */
   lastUpdated: number;
 }
 
 export interface RequestFilters {
   search: string;
+  genre: string;
+  artist: string;
+  sort: RequestSort;
 }
 
+/** Why the request ledger refused a song request. */
+export type RequestRejectionReason =
+  | 'COOLDOWN'
+  | 'TOO_MANY_PENDING'
+  | 'RECENTLY_PLAYED'
+  | 'RECENTLY_REQUESTED';
+
 export interface RequestSubmission {
   request_id: string;
   success: boolean;
   message?: string;
+  /** Set when the request was refused by the request ledger. */
+  reason?: RequestRejectionReason;
+  /** Seconds until the listener may try again, if waiting will help. */
+  retryAfter?: number;
+  /** Saved while offline, to be sent when the connection is back. */
+  queued?: boolean;
 }
 
-// Helper functions for request data
-export function filterSongs(songs: RequestableSong[], filters: Partial<RequestFilters>): RequestableSong[] {
-  let filtered = [...songs];
-
-  // Search filter - searches by song title, artist name, or both
-  if (filters.search) {
-    const searchTerm = filters.search.toLowerCase();
-    filtered = filtered.filter(song =>
-      song.song.title.toLowerCase().includes(searchTerm) ||
-      song.song.artist.toLowerCase().includes(searchTerm)
-    );
-  }
+/**
+ * 'held' requests wait for a moderator while moderation is on and become
+ * 'pending' (forwarded to the station) or 'rejected'. 'queued' means the song
+ * has been seen in the station's up next slot; 'playing' and 'played' once it
+ * has gone on air.
+ */
+export type ListenerRequestStatus =
+  | 'held'
+  | 'pending'
+  | 'queued'
+  | 'playing'
+  | 'played'
+  | 'expired'
+  | 'rejected';
+
+/** A song request made by the current listener, as tracked by the request ledger. */
+export interface ListenerRequest {
+  id: string;
+  requestId: string;
+  songId: string;
+  title: string;
+  artist: string;
+  art: string;
+  /** Unix timestamp (seconds). */
+  requestedAt: number;
+  status: ListenerRequestStatus;
+  /** Unix timestamp (seconds) at which the song started playing. */
+  playedAt?: number;
+  /** Moderator's note, for rejected requests. */
+  rejectionReason?: string;
+}
 
-  // Sort alphabetically by title for consistent results
-  filtered.sort((a, b) => a.song.title.toLowerCase().localeCompare(b.song.title.toLowerCase()));
+export interface PendingRequestsData {
+  requests: ListenerRequest[];
+  /** Unix timestamp (seconds) at which the listener may request again, or null. */
+  cooldownEndsAt: number | null;
+  maxPending: number;
+  /** True while new requests are held for a moderator. */
+  moderated: boolean;
+}
 
-  return filtered;
+/** A request as seen by moderators. */
+export interface ModeratedRequest extends ListenerRequest {
+  station: string;
+  requestUrl: string;
 }
 
+export interface ModerationQueueData {
+  station: string;
+  moderated: boolean;
+  /** Held requests, oldest first. */
+  requests: ModeratedRequest[];
+}
 
+// Helper functions for request data
 export function formatSongDuration(duration?: number): string {
   if (!duration || duration <= 0) return 'Unknown';
   
@@ -121,27 +204,8 @@ export function isValidRequestId(requestId: string): boolean {
 
 // Default filters
 export const DEFAULT_FILTERS: RequestFilters = {
-  search: ''
+  search: '',
+  genre: '',
+  artist: '',
+  sort: 'relevance',
 };
-
-// Pagination helpers
-export function paginateSongs(songs: RequestableSong[], page: number, pageSize: number): {
-  songs: RequestableSong[];
-  totalPages: number;
-  currentPage: number;
-  hasNext: boolean;
-  hasPrev: boolean;
-} {
-  const totalPages = Math.ceil(songs.length / pageSize);
-  const currentPage = Math.max(1, Math.min(page, totalPages));
-  const startIndex = (currentPage - 1) * pageSize;
-  const endIndex = startIndex + pageSize;
-  
-  return {
-    songs: songs.slice(startIndex, endIndex),
-    totalPages,
-    currentPage,
-    hasNext: currentPage < totalPages,
-    hasPrev: currentPage > 1
-  };
-}
\ No newline at end of file
@@ -0,0 +1,74 @@
+/**
+ * @fileoverview Short-lived server cache of each station's requestable songs.
+ *
+ * The request library changes rarely, so the provider is asked at most once
+ * per cache period per station no matter how many listeners browse it. Each
+ * catalogue carries a content hash that `/api/requests` builds its ETags on.
+ */
+
+import crypto from 'crypto';
+import { getRadioProvider } from './providers';
+import type { RequestableSong } from './request-types';
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+/** A station's requestable songs as last fetched from the provider. */
+export interface RequestCatalogue {
+  songs: RequestableSong[];
+  /** Hash of the catalogue's contents; unchanged by refetches that return the same songs. */
+  etag: string;
+  /** When the songs were fetched (ms). */
+  fetchedAt: number;
+}
+
+interface CachedCatalogue {
+  catalogue: Promise<RequestCatalogue>;
+  fetchedAt: number;
+}
+
+const cataloguesByStation = new Map<string, CachedCatalogue>();
+
+async function fetchCatalogue(station: string): Promise<RequestCatalogue> {
+  const songs = await getRadioProvider().getRequestableSongs(station);
+  const etag = crypto.createHash('sha1').update(JSON.stringify(songs)).digest('base64url');
+  return { songs, etag, fetchedAt: Date.now() };
+}
+
+/**
+ * Returns the station's request catalogue, fetching it if the cache is empty
+ * or stale. Failed fetches are not cached.
+ */
+export function getRequestCatalogue(station: string): Promise<RequestCatalogue> {
+  const cached = cataloguesByStation.get(station);
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+    return cached.catalogue;
+  }
+
+  const catalogue = fetchCatalogue(station);
+  cataloguesByStation.set(station, { catalogue, fetchedAt: Date.now() });
+  catalogue.catch(() => {
+    if (cataloguesByStation.get(station)?.catalogue === catalogue) {
+      cataloguesByStation.delete(station);
+    }
+  });
+
+  return catalogue;
+}
+
+/** Returns the station's requestable songs from the cached catalogue. */
+export async function getRequestableSongs(station: string): Promise<RequestableSong[]> {
+  return (await getRequestCatalogue(station)).songs;
+}
+
+/** Finds a requestable song by its request URL (absolute or relative) or request ID. */
+export async function findRequestableSong(
+  station: string,
+  requestUrl: string
+): Promise<RequestableSong | null> {
+  const songs = await getRequestableSongs(station);
+  return songs.find((song) =>
+    song.request_url === requestUrl ||
+    (song.request_url && requestUrl.endsWith(song.request_url)) ||
+    song.request_id === requestUrl
+  ) ?? null;
+}
@@ -15,10 +15,51 @@ export interface ScheduleEntry {
   is_now: boolean;
 }
 
+/** A show that airs every week at the same local time. */
+export interface ScheduleRecurrence {
+  frequency: 'weekly';
+  /** 0 (Sunday) to 6 (Saturday), in the requested timezone. */
+  weekday: number;
+  /** 24-hour "HH:mm", in the requested timezone. */
+  time: string;
+}
+
+/** A schedule entry with values computed by `/api/schedule` for the requested timezone. */
+export interface ScheduleOccurrence extends ScheduleEntry {
+  /** Length in seconds. */
+  duration: number;
+  /** Seconds from when the response was generated until the show starts; negative once it has started. */
+  startsIn: number;
+  /** "YYYY-MM-DD" of the start, in the requested timezone. */
+  localDate: string;
+  /** 24-hour "HH:mm" of the start, in the requested timezone. */
+  localTime: string;
+  /** 0 (Sunday) to 6 (Saturday), in the requested timezone. */
+  weekday: number;
+  /** Set when the same show is seen airing a whole number of weeks apart. */
+  recurrence: ScheduleRecurrence | null;
+}
+
+/** The entries starting on one calendar day in the requested timezone. */
+export interface ScheduleDay {
+  /** "YYYY-MM-DD". */
+  date: string;
+  weekday: number;
+  entries: ScheduleOccurrence[];
+}
+
 export interface ScheduleData {
-  entries: ScheduleEntry[];
-  currentEntry?: ScheduleEntry;
-  nextEntry?: ScheduleEntry;
+  entries: ScheduleOccurrence[];
+  days: ScheduleDay[];
+  currentEntry?: ScheduleOccurrence;
+  nextEntry?: ScheduleOccurrence;
+  /** IANA timezone the local dates and times are in. */
+  timezone: string;
+  /** Requested range, as Unix timestamps (seconds). */
+  from: number;
+  to: number;
+  /** Unix timestamp (seconds) `startsIn` is relative to. */
+  generatedAt: number;
   lastUpdated: number;
 }
 
@@ -38,38 +79,66 @@ export function getNextScheduleEntry(entries: ScheduleEntry[]): ScheduleEntry |
     .sort((a, b) => a.start_timestamp - b.start_timestamp)[0];
 }
 
-export function formatScheduleTime(timestamp: number): string {
-  return new Date(timestamp * 1000).toLocaleTimeString('en-US', {
-    hour: '2-digit',
+/**
+ * Formats a start time in the listener's locale, in `timeZone` if given or
+ * the browser's timezone otherwise.
+ */
+export function formatScheduleTime(timestamp: number, timeZone?: string): string {
+  return new Date(timestamp * 1000).toLocaleTimeString(undefined, {
+    hour: 'numeric',
     minute: '2-digit',
-    hour12: true
+    timeZone,
   });
 }
 
-export function formatScheduleDate(timestamp: number): string {
+export function formatScheduleDate(timestamp: number, timeZone?: string): string {
+  const dayKey = (date: Date) => date.toLocaleDateString('en-CA', { timeZone });
   const date = new Date(timestamp * 1000);
   const today = new Date();
-  const tomorrow = new Date(today);
-  tomorrow.setDate(tomorrow.getDate() + 1);
-  
-  if (date.toDateString() === today.toDateString()) {
+  const tomorrow = new Date(today.getTime() + 24 * 60 * 60 * 1000);
+
+  if (dayKey(date) === dayKey(today)) {
     return 'Today';
-  } else if (date.toDateString() === tomorrow.toDateString()) {
+  } else if (dayKey(date) === dayKey(tomorrow)) {
     return 'Tomorrow';
   } else {
-    return date.toLocaleDateString('en-US', {
+    return date.toLocaleDateString(undefined, {
       weekday: 'short',
       month: 'short',
-      day: 'numeric'
+      day: 'numeric',
+      timeZone,
     });
   }
 }
 
-export function getScheduleDuration(entry: ScheduleEntry): string {
-  const durationMs = (entry.end_timestamp - entry.start_timestamp) * 1000;
-  const hours = Math.floor(durationMs / (1000 * 60 * 60));
-  const minutes = Math.floor((durationMs % (1000 * 60 * 60)) / (1000 * 60));
-  
+/** Weekday name in the listener's locale, e.g. "Tuesday" for 2. */
+export function formatWeekday(weekday: number, format: 'long' | 'short' = 'long'): string {
+  // 2023-01-01 was a Sunday
+  return new Date(Date.UTC(2023, 0, 1 + weekday)).toLocaleDateString(undefined, {
+    weekday: format,
+    timeZone: 'UTC',
+  });
+}
+
+/** "HH:mm" as a time in the listener's locale, e.g. "8:00 PM". */
+export function formatLocalTime(time: string): string {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(Date.UTC(2023, 0, 1, hours, minutes)).toLocaleTimeString(undefined, {
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: 'UTC',
+  });
+}
+
+/** e.g. "Tuesdays at 8:00 PM your time". */
+export function formatRecurrence(recurrence: ScheduleRecurrence): string {
+  return `${formatWeekday(recurrence.weekday)}s at ${formatLocalTime(recurrence.time)} your time`;
+}
+
+function formatSeconds(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
   if (hours > 0) {
     return `${hours}h ${minutes}m`;
   } else {
@@ -77,20 +146,14 @@ export function getScheduleDuration(entry: ScheduleEntry): string {
   }
 }
 
-export function getTimeUntilNext(entry: ScheduleEntry): string {
-  const now = Date.now() / 1000;
-  const timeUntil = entry.start_timestamp - now;
-  
-  if (timeUntil <= 0) return 'Now';
-  
-  const hours = Math.floor(timeUntil / 3600);
-  const minutes = Math.floor((timeUntil % 3600) / 60);
-  
-  if (hours > 0) {
-    return `in ${hours}h ${minutes}m`;
-  } else {
-    return `in ${minutes}m`;
-  }
+export function getScheduleDuration(entry: ScheduleOccurrence): string {
+  return formatSeconds(entry.duration);
+}
+
+/** Uses the server's `startsIn`, so a wrong client clock doesn't skew it. */
+export function getTimeUntilNext(entry: ScheduleOccurrence): string {
+  if (entry.startsIn <= 0) return 'Now';
+  return `in ${formatSeconds(entry.startsIn)}`;
 }
 
 export function simplifyPlaylistName(name: string): string {
@@ -0,0 +1,162 @@
+/**
+ * @fileoverview Builds `/api/schedule` responses from the provider's schedule.
+ *
+ * Entries are limited to the requested range, given local dates and times in
+ * the requested timezone, grouped by local day and checked for weekly
+ * recurrence, so clients in any timezone render the same week correctly.
+ */
+
+import { ValidationError } from './errors/api-errors';
+import type {
+  ScheduleData,
+  ScheduleDay,
+  ScheduleEntry,
+  ScheduleOccurrence,
+  ScheduleRecurrence,
+} from './schedule-types';
+
+const WEEK_SECONDS = 7 * 24 * 60 * 60;
+
+export const DEFAULT_SCHEDULE_RANGE_SECONDS = WEEK_SECONDS;
+export const MAX_SCHEDULE_RANGE_SECONDS = 5 * WEEK_SECONDS;
+
+export interface ScheduleOptions {
+  /** Unix timestamps (seconds); entries overlapping the range are kept. */
+  from: number;
+  to: number;
+  /** IANA timezone name. */
+  timezone: string;
+  /** Unix timestamp (seconds). */
+  now: number;
+}
+
+/**
+ * Checks that a timezone is known to the runtime's Intl database.
+ *
+ * @throws ValidationError for unknown timezones
+ */
+export function validateTimezone(timezone: string): string {
+  try {
+    return new Intl.DateTimeFormat('en-US', { timeZone: timezone }).resolvedOptions().timeZone;
+  } catch {
+    throw new ValidationError(`Unknown timezone: ${timezone}`);
+  }
+}
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+
+interface LocalTime {
+  date: string;
+  time: string;
+  weekday: number;
+}
+
+function createLocalTimeFormatter(timezone: string): (timestamp: number) => LocalTime {
+  const format = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    weekday: 'short',
+    hourCycle: 'h23',
+  });
+
+  return (timestamp) => {
+    const parts: Record<string, string> = {};
+    for (const part of format.formatToParts(new Date(timestamp * 1000))) {
+      parts[part.type] = part.value;
+    }
+    return {
+      date: `${parts.year}-${parts.month}-${parts.day}`,
+      time: `${parts.hour}:${parts.minute}`,
+      weekday: WEEKDAYS[parts.weekday],
+    };
+  };
+}
+
+// Shows keep their wall-clock time at the station across daylight saving changes
+const DST_TOLERANCE_SECONDS = 60 * 60;
+
+/**
+ * Finds shows that air again a whole number of weeks later or earlier.
+ * Comparing timestamps rather than local times keeps this independent of
+ * the listener's timezone.
+ */
+function findWeeklyEntries(entries: ScheduleEntry[]): Set<ScheduleEntry> {
+  const byName = new Map<string, ScheduleEntry[]>();
+  for (const entry of entries) {
+    const key = `${entry.type}:${entry.name}`;
+    byName.set(key, [...(byName.get(key) ?? []), entry]);
+  }
+
+  const weekly = new Set<ScheduleEntry>();
+  for (const group of byName.values()) {
+    for (const entry of group) {
+      const repeats = group.some((other) => {
+        const gap = Math.abs(other.start_timestamp - entry.start_timestamp);
+        const offset = gap % WEEK_SECONDS;
+        return (
+          gap >= WEEK_SECONDS - DST_TOLERANCE_SECONDS &&
+          (offset <= DST_TOLERANCE_SECONDS || offset >= WEEK_SECONDS - DST_TOLERANCE_SECONDS)
+        );
+      });
+      if (repeats) weekly.add(entry);
+    }
+  }
+  return weekly;
+}
+
+/**
+ * Builds the schedule for a range and timezone. Recurrence is detected
+ * across all entries the provider returned, not just those in the range.
+ */
+export function buildSchedule(entries: ScheduleEntry[], options: ScheduleOptions): ScheduleData {
+  const { from, to, timezone, now } = options;
+  const toLocalTime = createLocalTimeFormatter(timezone);
+  const weekly = findWeeklyEntries(entries);
+
+  const occurrences: ScheduleOccurrence[] = entries
+    .filter((entry) => entry.end_timestamp > from && entry.start_timestamp < to)
+    .sort((a, b) => a.start_timestamp - b.start_timestamp)
+    .map((entry) => {
+      const local = toLocalTime(entry.start_timestamp);
+      const recurrence: ScheduleRecurrence | null = weekly.has(entry)
+        ? { frequency: 'weekly', weekday: local.weekday, time: local.time }
+        : null;
+
+      return {
+        ...entry,
+        is_now: entry.start_timestamp <= now && now < entry.end_timestamp,
+        duration: Math.max(0, entry.end_timestamp - entry.start_timestamp),
+        startsIn: entry.start_timestamp - now,
+        localDate: local.date,
+        localTime: local.time,
+        weekday: local.weekday,
+        recurrence,
+      };
+    });
+
+  const days: ScheduleDay[] = [];
+  for (const occurrence of occurrences) {
+    const day = days[days.length - 1];
+    if (day?.date === occurrence.localDate) {
+      day.entries.push(occurrence);
+    } else {
+      days.push({ date: occurrence.localDate, weekday: occurrence.weekday, entries: [occurrence] });
+    }
+  }
+
+  return {
+    entries: occurrences,
+    days,
+    currentEntry: occurrences.find((entry) => entry.is_now),
+    nextEntry: occurrences.find((entry) => entry.start_timestamp > now),
+    timezone,
+    from,
+    to,
+    generatedAt: now,
+    lastUpdated: now * 1000,
+  };
+}
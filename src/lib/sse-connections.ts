@@ -0,0 +1,208 @@
+/**
+ * @fileoverview Book-keeping for open SSE streams.
+ *
+ * Caps how many streams one client, and the process as a whole, may hold
+ * open. When a new stream would go over a cap, the oldest stream of that
+ * client (or of the process) is closed to make room. A browser that
+ * reconnects always gets through, and abandoned streams are the ones that go.
+ * Streams that haven't carried an event for the idle timeout are closed as
+ * well. That reclaims streams whose peer vanished without the request being
+ * aborted; live clients reconnect with `Last-Event-ID` and miss nothing.
+ *
+ * Counts are per server process.
+ */
+
+import { SSE_IDLE_TIMEOUT_SECONDS, SSE_MAX_CONNECTIONS, SSE_MAX_CONNECTIONS_PER_CLIENT } from './env';
+import { createLogger } from './logger';
+
+const log = createLogger('SSE');
+
+/**
+ * Why the registry closed a stream: its client went over the per-client cap,
+ * the process went over its total cap, or it was idle.
+ */
+export type SseCloseReason = 'client-limit' | 'process-limit' | 'idle';
+
+export interface SseConnectionLimits {
+  maxPerClient: number;
+  maxTotal: number;
+  idleTimeoutMs: number;
+}
+
+export interface SseConnectionStats {
+  open: number;
+  /** Distinct clients with at least one open stream. */
+  clients: number;
+  byStation: Record<string, number>;
+  limits: SseConnectionLimits;
+  /** Totals since the process started. */
+  opened: number;
+  evicted: number;
+  idleClosed: number;
+}
+
+export interface SseConnection {
+  readonly id: number;
+  readonly client: string;
+  readonly station: string;
+  readonly openedAt: number;
+  /** Records that an event was sent, pushing back the idle timeout. */
+  touch(): void;
+  /** Forgets the stream. Call it however the stream ended; repeated calls are ignored. */
+  release(): void;
+}
+
+interface ConnectionEntry {
+  connection: SseConnection;
+  lastActivityAt: number;
+  close: (reason: SseCloseReason) => void;
+}
+
+const MAX_SWEEP_INTERVAL_MS = 30 * 1000;
+
+export class SseConnectionRegistry {
+  /** Oldest first. */
+  private entries = new Map<number, ConnectionEntry>();
+  private idsByClient = new Map<string, Set<number>>();
+  private nextId = 1;
+  private sweepIntervalId: NodeJS.Timeout | null = null;
+
+  private opened = 0;
+  private evicted = 0;
+  private idleClosed = 0;
+
+  constructor(
+    private readonly limits: SseConnectionLimits,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Registers a new stream, closing older ones if it takes a client or the
+   * process over its cap. `close` is called if the registry ends the stream;
+   * it should tear the stream down and release it.
+   */
+  open(client: string, station: string, close: (reason: SseCloseReason) => void): SseConnection {
+    const clientIds = this.idsByClient.get(client);
+    while (clientIds && clientIds.size >= this.limits.maxPerClient) {
+      this.closeEntry(clientIds.values().next().value!, 'client-limit');
+    }
+    while (this.entries.size >= this.limits.maxTotal) {
+      this.closeEntry(this.entries.keys().next().value!, 'process-limit');
+    }
+
+    const id = this.nextId++;
+    const openedAt = this.now();
+    const connection: SseConnection = {
+      id,
+      client,
+      station,
+      openedAt,
+      touch: () => {
+        const entry = this.entries.get(id);
+        if (entry) entry.lastActivityAt = this.now();
+      },
+      release: () => this.remove(id),
+    };
+
+    this.entries.set(id, { connection, lastActivityAt: openedAt, close });
+    if (!this.idsByClient.has(client)) {
+      this.idsByClient.set(client, new Set());
+    }
+    this.idsByClient.get(client)!.add(id);
+    this.opened++;
+    this.startSweeping();
+
+    return connection;
+  }
+
+  /** Closes streams idle for longer than the timeout and returns how many. */
+  closeIdle(): number {
+    const cutoff = this.now() - this.limits.idleTimeoutMs;
+    const idle = [...this.entries.values()]
+      .filter((entry) => entry.lastActivityAt <= cutoff)
+      .map((entry) => entry.connection.id);
+
+    idle.forEach((id) => this.closeEntry(id, 'idle'));
+    return idle.length;
+  }
+
+  getStats(): SseConnectionStats {
+    const byStation: Record<string, number> = {};
+    for (const { connection } of this.entries.values()) {
+      byStation[connection.station] = (byStation[connection.station] ?? 0) + 1;
+    }
+
+    return {
+      open: this.entries.size,
+      clients: this.idsByClient.size,
+      byStation,
+      limits: { ...this.limits },
+      opened: this.opened,
+      evicted: this.evicted,
+      idleClosed: this.idleClosed,
+    };
+  }
+
+  private closeEntry(id: number, reason: SseCloseReason): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+
+    this.remove(id);
+    if (reason === 'idle') {
+      this.idleClosed++;
+    } else {
+      this.evicted++;
+    }
+    log.info(`Closing ${reason} stream`, { streamId: id, station: entry.connection.station });
+
+    try {
+      entry.close(reason);
+    } catch (error) {
+      log.warn('Failed to close stream', { streamId: id, error });
+    }
+  }
+
+  private remove(id: number): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+
+    this.entries.delete(id);
+    const clientIds = this.idsByClient.get(entry.connection.client);
+    clientIds?.delete(id);
+    if (clientIds?.size === 0) {
+      this.idsByClient.delete(entry.connection.client);
+    }
+
+    if (this.entries.size === 0) {
+      this.stopSweeping();
+    }
+  }
+
+  private startSweeping(): void {
+    if (this.sweepIntervalId) return;
+
+    const interval = Math.min(MAX_SWEEP_INTERVAL_MS, this.limits.idleTimeoutMs);
+    this.sweepIntervalId = setInterval(() => this.closeIdle(), interval);
+    this.sweepIntervalId.unref();
+  }
+
+  private stopSweeping(): void {
+    if (this.sweepIntervalId) {
+      clearInterval(this.sweepIntervalId);
+      this.sweepIntervalId = null;
+    }
+  }
+}
+
+let registry: SseConnectionRegistry | null = null;
+
+export function getSseConnections(): SseConnectionRegistry {
+  if (!registry) {
+    registry = new SseConnectionRegistry({
+      maxPerClient: SSE_MAX_CONNECTIONS_PER_CLIENT,
+      maxTotal: SSE_MAX_CONNECTIONS,
+      idleTimeoutMs: SSE_IDLE_TIMEOUT_SECONDS * 1000,
+    });
+  }
+  return registry;
+}
@@ -0,0 +1,146 @@
+/**
+ * @fileoverview Wire format for `/api/radio-stream`.
+ *
+ * Version 2 (the default) sends each `InteractionEvent` as-is, named after its
+ * type. The legacy format re-serialises `now_playing` into AzuraCast's
+ * `pub.data.np` shape for clients built against the upstream stream, and is
+ * only sent when requested with `?protocol=legacy`. See docs/SSE_PROTOCOL.md.
+ */
+
+import type { StreamEvent } from './interaction-stream';
+import { isInteractionEvent, type InteractionEvent, type InteractionEventType, type Song } from './types';
+
+export const SSE_PROTOCOL_VERSION = 2;
+
+export type SseProtocol = 'v2' | 'legacy';
+
+/** Event names a v2 client should listen for. */
+export const SSE_EVENT_TYPES: readonly InteractionEventType[] = [
+  'now_playing',
+  'stream_status',
+  'connection_failed',
+  'connection_restored',
+  'health_check',
+  'request_queued',
+  'request_fulfilled',
+];
+
+/** Payload of every v2 `data:` line. */
+export type SsePayload = InteractionEvent & { version: typeof SSE_PROTOCOL_VERSION };
+
+export function resolveSseProtocol(value: string | null): SseProtocol {
+  return value === 'legacy' ? 'legacy' : 'v2';
+}
+
+function formatV2Event(event: StreamEvent): string {
+  const { id, ...interactionEvent } = event;
+  const payload = { version: SSE_PROTOCOL_VERSION, ...interactionEvent } as SsePayload;
+  return `id: ${id}\nevent: ${event.type}\ndata: ${JSON.stringify(payload)}\n\n`;
+}
+
+function toLegacySong(song: Song) {
+  return {
+    id: song.songId,
+    title: song.title,
+    artist: song.artist,
+    art: song.albumArt,
+    genre: song.genre,
+    custom_fields: {
+      creator_discord_id: song.creatorDiscordId,
+    },
+  };
+}
+
+function formatLegacyEvent(event: StreamEvent): string | null {
+  switch (event.type) {
+    case 'now_playing': {
+      const { liveSong, upNext, recentlyPlayed, listenerCount } = event.data;
+      if (!liveSong) return null;
+
+      const legacyFormat = {
+        pub: {
+          data: {
+            np: {
+              is_online: true,
+              listeners: { current: listenerCount },
+              now_playing: {
+                sh_id: liveSong.id,
+                played_at: liveSong.played_at,
+                duration: liveSong.duration,
+                elapsed: liveSong.elapsed,
+                playlist: liveSong.playlists?.[0],
+                song: toLegacySong(liveSong),
+                interaction_count: liveSong.interactionCount,
+              },
+              playing_next: upNext?.[0]
+                ? {
+                    cued_at: upNext[0].id,
+                    duration: upNext[0].duration,
+                    song: toLegacySong(upNext[0]),
+                  }
+                : null,
+              song_history:
+                recentlyPlayed?.map((song) => ({
+                  sh_id: song.id,
+                  played_at: song.played_at,
+                  duration: song.duration,
+                  song: toLegacySong(song),
+                })) || [],
+            },
+          },
+        },
+      };
+      return `id: ${event.id}\nevent: now_playing\ndata: ${JSON.stringify(legacyFormat)}\n\n`;
+    }
+
+    case 'stream_status': {
+      if (event.data.isOnline) return null;
+
+      // Legacy clients have always received offline frames unnamed
+      const offlineFormat = {
+        pub: {
+          data: {
+            np: {
+              is_online: false,
+              listeners: { current: 0 },
+              now_playing: null,
+              playing_next: null,
+              song_history: [],
+            },
+          },
+        },
+      };
+      return `id: ${event.id}\ndata: ${JSON.stringify(offlineFormat)}\n\n`;
+    }
+
+    default:
+      // The legacy format has no equivalent for connection, health and request events
+      return null;
+  }
+}
+
+/**
+ * Serialises an event as an SSE frame, or returns null when the protocol has
+ * nothing to send for it.
+ */
+export function formatSseEvent(event: StreamEvent, protocol: SseProtocol): string | null {
+  return protocol === 'legacy' ? formatLegacyEvent(event) : formatV2Event(event);
+}
+
+/**
+ * Parses the `data:` line of a v2 frame on the client.
+ */
+export function parseSsePayload(raw: string): SsePayload | null {
+  try {
+    const payload: unknown = JSON.parse(raw);
+    if (
+      !isInteractionEvent(payload) ||
+      (payload as Partial<SsePayload>).version !== SSE_PROTOCOL_VERSION
+    ) {
+      return null;
+    }
+    return payload as SsePayload;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * @fileoverview Registry of the AzuraCast stations served by this app.
+ *
+ * Stations come from `NEXT_PUBLIC_AZURACAST_STATIONS` ("shortcode[:Display Name]"
+ * entries separated by commas). The default station is always registered first.
+ */
+
+import { AZURACAST_STATION_NAME } from './config';
+import { NEXT_PUBLIC_AZURACAST_STATIONS } from './env';
+import { NotFoundError } from './errors/api-errors';
+
+export interface StationConfig {
+  /** AzuraCast station shortcode, used in all upstream URLs. */
+  id: string;
+  /** Human-readable name shown in the station switcher. */
+  name: string;
+}
+
+export const DEFAULT_STATION_ID = AZURACAST_STATION_NAME;
+
+function parseStations(value: string): StationConfig[] {
+  const stations = new Map<string, StationConfig>();
+
+  for (const entry of value.split(',')) {
+    if (!entry.trim()) continue;
+
+    const [shortcode, ...nameParts] = entry.split(':');
+    const id = shortcode.trim();
+    const name = nameParts.join(':').trim() || id;
+    stations.set(id, { id, name });
+  }
+
+  if (!stations.has(DEFAULT_STATION_ID)) {
+    return [{ id: DEFAULT_STATION_ID, name: DEFAULT_STATION_ID }, ...stations.values()];
+  }
+
+  // Keep the default station first so it is the initial selection
+  const defaultStation = stations.get(DEFAULT_STATION_ID)!;
+  stations.delete(DEFAULT_STATION_ID);
+  return [defaultStation, ...stations.values()];
+}
+
+export const STATIONS: readonly StationConfig[] = parseStations(NEXT_PUBLIC_AZURACAST_STATIONS);
+
+export function getStation(id: string): StationConfig | undefined {
+  return STATIONS.find((station) => station.id === id);
+}
+
+export function isKnownStation(id: string): boolean {
+  return getStation(id) !== undefined;
+}
+
+/**
+ * Resolves a `station` query parameter to a registered station ID, falling back
+ * to the default station when the parameter is absent.
+ *
+ * @throws NotFoundError if the station is not registered
+ */
+export function resolveStation(value: string | null | undefined): string {
+  if (!value) return DEFAULT_STATION_ID;
+
+  if (!isKnownStation(value)) {
+    throw new NotFoundError(`Unknown station: ${value}`);
+  }
+  return value;
+}
@@ -1,5 +1,7 @@
 // Using simple types for data structures
 
+import type { ListenerRequest } from './request-types';
+
 export interface Song {
   id: number; // Unique ID for a specific play instance (sh_id)
   songId: string; // Unique ID for the song itself
@@ -84,7 +86,7 @@ export interface AzuracastNowPlayingSong {
   title: string;
   artist: string;
   art: string;
-  genre: string;
+  genre?: string;
   custom_fields?: {
     creator_discord_id?: string | null;
     song_suno?: string | null;
@@ -96,34 +98,34 @@ export interface AzuracastNowPlayingSong {
   };
 }
 
+export interface AzuracastSongHistoryItem {
+  sh_id: number;
+  played_at: number;
+  duration: number;
+  playlist?: string | null;
+  song: AzuracastNowPlayingSong;
+}
+
+// The fields of AzuraCast's now-playing payload that we read; see azuracast-adapter.ts
 export interface AzuracastNowPlaying {
-  station: {
-    playlist_pls_url?: string;
-    playlist_m3u_url?: string;
-  };
+  is_online: boolean;
   listeners: { current: number };
-  live: unknown;
   now_playing: {
     sh_id: number;
     played_at: number;
     duration: number;
     elapsed: number;
-    playlist?: string;
+    playlist?: string | null;
     song: AzuracastNowPlayingSong;
     interaction_count?: number;
-  };
+  } | null;
   playing_next: {
     cued_at: number;
     duration: number;
+    playlist?: string | null;
     song: AzuracastNowPlayingSong;
-  };
-  song_history: Array<{
-    sh_id: number;
-    played_at: number;
-    duration: number;
-    song: AzuracastNowPlayingSong;
-  }>;
-  is_online: boolean;
+  } | null;
+  song_history: AzuracastSongHistoryItem[];
 }
 
 // Removed unused document types: CommentDoc, ReactionDoc
@@ -136,10 +138,14 @@ export interface NowPlaying {
   listenerCount: number;
 }
 
+// 'live' data comes from the upstream SSE feed, 'polling' from the fallback poller
+export type StreamMode = 'live' | 'polling';
+
 export interface StreamStatus {
   isOnline: boolean;
   listenerCount?: number;
   lastUpdate?: number;
+  mode?: StreamMode;
 }
 
 // Enhanced error handling types
@@ -186,7 +192,9 @@ export type InteractionEventType =
   | 'stream_status'
   | 'connection_failed'
   | 'connection_restored'
-  | 'health_check';
+  | 'health_check'
+  | 'request_queued'
+  | 'request_fulfilled';
 
 export interface BaseInteractionEvent<T extends InteractionEventType, D = unknown> {
   readonly type: T;
@@ -195,16 +203,8 @@ export interface BaseInteractionEvent<T extends InteractionEventType, D = unknow
 }
 
 export type InteractionEvent =
-  | BaseInteractionEvent<'now_playing', {
-      liveSong: Song;
-      upNext: readonly Song[];
-      recentlyPlayed: readonly Song[];
-      listenerCount: number;
-    }>
-  | BaseInteractionEvent<'stream_status', {
-      isOnline: boolean;
-      listenerCount?: number;
-    }>
+  | BaseInteractionEvent<'now_playing', NowPlaying>
+  | BaseInteractionEvent<'stream_status', StreamStatus>
   | BaseInteractionEvent<'connection_failed', {
       reason: string;
       metrics: ConnectionMetrics;
@@ -212,7 +212,10 @@ export type InteractionEvent =
   | BaseInteractionEvent<'connection_restored', {
       metrics: ConnectionMetrics;
     }>
-  | BaseInteractionEvent<'health_check', HealthStatus>;
+  | BaseInteractionEvent<'health_check', HealthStatus>
+  // A listener's song request was seen in up next / started playing
+  | BaseInteractionEvent<'request_queued', ListenerRequest>
+  | BaseInteractionEvent<'request_fulfilled', ListenerRequest>;
 
 // Platform detection types
 export interface PlatformInfo {
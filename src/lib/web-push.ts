@@ -0,0 +1,264 @@
+/**
+ * @fileoverview Minimal Web Push sender.
+ *
+ * Payloads are encrypted with the `aes128gcm` content coding (RFC 8188,
+ * RFC 8291) and requests are signed with a VAPID JWT (RFC 8292), using only
+ * Node's crypto module. Keys are P-256 and passed around base64url-encoded,
+ * the same format browsers use for `applicationServerKey` and subscriptions.
+ */
+
+import crypto from 'crypto';
+
+/** A browser push subscription, as returned by `PushSubscription.toJSON()`. */
+export interface PushSubscriptionData {
+  endpoint: string;
+  expirationTime?: number | null;
+  keys: {
+    /** Uncompressed P-256 public key of the browser (65 bytes). */
+    p256dh: string;
+    /** Authentication secret (16 bytes). */
+    auth: string;
+  };
+}
+
+export interface VapidKeys {
+  /** Uncompressed P-256 public key (65 bytes), base64url. */
+  publicKey: string;
+  /** P-256 private scalar (32 bytes), base64url. */
+  privateKey: string;
+}
+
+export interface VapidDetails extends VapidKeys {
+  /** Contact for the push service operator: a `mailto:` or `https:` URL. */
+  subject: string;
+}
+
+export interface SendOptions {
+  vapid: VapidDetails;
+  /** Seconds the push service should keep an undelivered message. */
+  ttl?: number;
+  urgency?: 'very-low' | 'low' | 'normal' | 'high';
+  /** Replaces any undelivered message with the same topic. */
+  topic?: string;
+}
+
+/**
+ * A push service rejected the message. `isGone` means the subscription no
+ * longer exists and should be forgotten.
+ */
+export class WebPushError extends Error {
+  constructor(message: string, public statusCode: number, public body: string) {
+    super(message);
+    this.name = 'WebPushError';
+  }
+
+  get isGone(): boolean {
+    return this.statusCode === 404 || this.statusCode === 410;
+  }
+}
+
+const RECORD_SIZE = 4096;
+// One record: payload, the padding delimiter and the 16-byte GCM tag
+export const MAX_PAYLOAD_BYTES = RECORD_SIZE - 17;
+
+const VAPID_TOKEN_LIFETIME_SECONDS = 12 * 60 * 60;
+
+export function base64UrlEncode(value: Buffer | Uint8Array): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+export function base64UrlDecode(value: string): Buffer {
+  return Buffer.from(value, 'base64url');
+}
+
+/** Generates a VAPID key pair for `VAPID_PUBLIC_KEY` / `VAPID_PRIVATE_KEY`. */
+export function generateVapidKeys(): VapidKeys {
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+  return {
+    publicKey: base64UrlEncode(ecdh.getPublicKey()),
+    privateKey: base64UrlEncode(ecdh.getPrivateKey()),
+  };
+}
+
+function toJwk(publicKey: Buffer, privateKey?: Buffer): crypto.JsonWebKey {
+  return {
+    kty: 'EC',
+    crv: 'P-256',
+    x: base64UrlEncode(publicKey.subarray(1, 33)),
+    y: base64UrlEncode(publicKey.subarray(33, 65)),
+    ...(privateKey && { d: base64UrlEncode(privateKey) }),
+  };
+}
+
+/**
+ * Builds the `Authorization` header for a push service. The JWT audience is
+ * the origin of the subscription's endpoint.
+ */
+export function createVapidAuthorization(
+  endpoint: string,
+  vapid: VapidDetails,
+  now: number = Math.floor(Date.now() / 1000)
+): string {
+  const header = base64UrlEncode(Buffer.from(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+  const claims = base64UrlEncode(
+    Buffer.from(
+      JSON.stringify({
+        aud: new URL(endpoint).origin,
+        exp: now + VAPID_TOKEN_LIFETIME_SECONDS,
+        sub: vapid.subject,
+      })
+    )
+  );
+
+  const key = crypto.createPrivateKey({
+    key: toJwk(base64UrlDecode(vapid.publicKey), base64UrlDecode(vapid.privateKey)),
+    format: 'jwk',
+  });
+  const signature = crypto.sign('sha256', Buffer.from(`${header}.${claims}`), {
+    key,
+    dsaEncoding: 'ieee-p1363',
+  });
+
+  return `vapid t=${header}.${claims}.${base64UrlEncode(signature)}, k=${vapid.publicKey}`;
+}
+
+/**
+ * Verifies a VAPID `Authorization` header and returns its claims. Used by
+ * the mock push service; push services do the same check.
+ *
+ * @throws Error if the header is malformed or the signature doesn't match
+ */
+export function verifyVapidAuthorization(authorization: string): { aud: string; exp: number; sub: string; publicKey: string } {
+  const match = /^vapid t=([\w-]+)\.([\w-]+)\.([\w-]+), k=([\w-]+)$/.exec(authorization);
+  if (!match) {
+    throw new Error('Malformed VAPID authorization header');
+  }
+
+  const [, header, claims, signature, publicKey] = match;
+  const key = crypto.createPublicKey({ key: toJwk(base64UrlDecode(publicKey)), format: 'jwk' });
+  const valid = crypto.verify('sha256', Buffer.from(`${header}.${claims}`), {
+    key,
+    dsaEncoding: 'ieee-p1363',
+  }, base64UrlDecode(signature));
+  if (!valid) {
+    throw new Error('Invalid VAPID signature');
+  }
+
+  return { ...JSON.parse(base64UrlDecode(claims).toString('utf8')), publicKey };
+}
+
+interface ContentKeys {
+  contentKey: Buffer;
+  nonce: Buffer;
+}
+
+function deriveContentKeys(
+  ecdhSecret: Buffer,
+  authSecret: Buffer,
+  userAgentPublicKey: Buffer,
+  appServerPublicKey: Buffer,
+  salt: Buffer
+): ContentKeys {
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userAgentPublicKey, appServerPublicKey]);
+  const ikm = Buffer.from(crypto.hkdfSync('sha256', ecdhSecret, authSecret, keyInfo, 32));
+
+  return {
+    contentKey: Buffer.from(crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16)),
+    nonce: Buffer.from(crypto.hkdfSync('sha256', ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12)),
+  };
+}
+
+/** Encrypts a payload for a subscription as a single `aes128gcm` record. */
+export function encryptPayload(payload: Buffer, keys: PushSubscriptionData['keys']): Buffer {
+  if (payload.length > MAX_PAYLOAD_BYTES) {
+    throw new Error(`Push payload is ${payload.length} bytes; the limit is ${MAX_PAYLOAD_BYTES}`);
+  }
+
+  const userAgentPublicKey = base64UrlDecode(keys.p256dh);
+  const ecdh = crypto.createECDH('prime256v1');
+  const appServerPublicKey = ecdh.generateKeys();
+  const salt = crypto.randomBytes(16);
+
+  const { contentKey, nonce } = deriveContentKeys(
+    ecdh.computeSecret(userAgentPublicKey),
+    base64UrlDecode(keys.auth),
+    userAgentPublicKey,
+    appServerPublicKey,
+    salt
+  );
+
+  const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce);
+  // 0x02 marks the last (and only) record
+  const ciphertext = Buffer.concat([cipher.update(Buffer.concat([payload, Buffer.from([2])])), cipher.final()]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(appServerPublicKey.length, 20);
+
+  return Buffer.concat([header, appServerPublicKey, ciphertext, cipher.getAuthTag()]);
+}
+
+/**
+ * Decrypts an `aes128gcm` push message with the browser's private key.
+ * Used by the mock push service to check what a browser would receive.
+ */
+export function decryptPayload(body: Buffer, userAgentPrivateKey: Buffer, authSecret: Buffer): Buffer {
+  const salt = body.subarray(0, 16);
+  const keyIdLength = body.readUInt8(20);
+  const appServerPublicKey = body.subarray(21, 21 + keyIdLength);
+  const record = body.subarray(21 + keyIdLength);
+
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.setPrivateKey(userAgentPrivateKey);
+  const { contentKey, nonce } = deriveContentKeys(
+    ecdh.computeSecret(appServerPublicKey),
+    authSecret,
+    ecdh.getPublicKey(),
+    appServerPublicKey,
+    salt
+  );
+
+  const decipher = crypto.createDecipheriv('aes-128-gcm', contentKey, nonce);
+  decipher.setAuthTag(record.subarray(record.length - 16));
+  const padded = Buffer.concat([decipher.update(record.subarray(0, record.length - 16)), decipher.final()]);
+
+  // Strip the padding: trailing zeros, then the record delimiter
+  let end = padded.length - 1;
+  while (end >= 0 && padded[end] === 0) end--;
+  return padded.subarray(0, end);
+}
+
+/**
+ * Sends an encrypted push message to a subscription's push service.
+ *
+ * @throws WebPushError if the push service doesn't accept the message
+ */
+export async function sendPushNotification(
+  subscription: PushSubscriptionData,
+  payload: unknown,
+  { vapid, ttl = 60 * 60, urgency = 'normal', topic }: SendOptions
+): Promise<number> {
+  const body = encryptPayload(Buffer.from(JSON.stringify(payload), 'utf8'), subscription.keys);
+
+  const response = await fetch(subscription.endpoint, {
+    method: 'POST',
+    headers: {
+      'Authorization': createVapidAuthorization(subscription.endpoint, vapid),
+      'Content-Encoding': 'aes128gcm',
+      'Content-Type': 'application/octet-stream',
+      'TTL': String(ttl),
+      'Urgency': urgency,
+      ...(topic && { 'Topic': topic }),
+    },
+    body: new Uint8Array(body),
+  });
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new WebPushError(`Push service responded with ${response.status}`, response.status, text);
+  }
+
+  return response.status;
+}
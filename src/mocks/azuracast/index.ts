@@ -0,0 +1,15 @@
+/**
+ * @fileoverview Mock AzuraCast server for local development and e2e tests.
+ */
+
+export { MockAzuraCastServer, type MockAzuraCastOptions } from './server';
+export {
+  MOCK_SONGS,
+  SCENARIOS,
+  ScenarioBuilder,
+  scenario,
+  type MockRoute,
+  type MockSong,
+  type Scenario,
+  type ScenarioStep,
+} from './scenario';
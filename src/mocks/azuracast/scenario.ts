@@ -0,0 +1,157 @@
+/**
+ * @fileoverview Scenario DSL for the mock AzuraCast server.
+ *
+ * A scenario is a list of steps the server plays back in order, e.g.
+ *
+ * ```ts
+ * scenario('skip-and-drop')
+ *   .play({ title: 'Night Drive', artist: 'Synth Collective' })
+ *   .wait(1000)
+ *   .play({ title: 'Low Tide', artist: 'Marina' })
+ *   .malformed()
+ *   .offline()
+ *   .build();
+ * ```
+ *
+ * Steps are plain JSON so scenarios can also be posted to the server's
+ * `/__mock/scenario` endpoint from Playwright or curl.
+ */
+
+export interface MockSong {
+  id?: string;
+  title: string;
+  artist: string;
+  /** Seconds. Defaults to 180. */
+  duration?: number;
+  album?: string;
+  genre?: string;
+  art?: string;
+  playlist?: string;
+  customFields?: Record<string, string | null>;
+}
+
+/** Endpoints whose responses a scenario can fail on purpose. */
+export type MockRoute = 'nowplaying' | 'sse' | 'schedule' | 'requests' | 'submit';
+
+export type ScenarioStep =
+  /** Starts a new song, moving the current one into the history. */
+  | { type: 'play'; song: MockSong }
+  /** Sets the song announced as playing next. */
+  | { type: 'queue'; song: MockSong | null }
+  | { type: 'listeners'; count: number }
+  | { type: 'offline' }
+  | { type: 'online' }
+  /** Sends a raw, invalid message to every SSE client. */
+  | { type: 'malformed'; payload: string }
+  /** Closes every open SSE connection. */
+  | { type: 'disconnect' }
+  /** Answers the next `times` calls to `route` with `status` and an optional message. */
+  | { type: 'fail'; route: MockRoute; status: number; times: number; message?: string }
+  | { type: 'wait'; ms: number };
+
+export interface Scenario {
+  name: string;
+  station?: string;
+  steps: ScenarioStep[];
+}
+
+export class ScenarioBuilder {
+  private readonly steps: ScenarioStep[] = [];
+
+  constructor(private readonly name: string, private readonly station?: string) {}
+
+  play(song: MockSong): this {
+    return this.push({ type: 'play', song });
+  }
+
+  queue(song: MockSong | null): this {
+    return this.push({ type: 'queue', song });
+  }
+
+  listeners(count: number): this {
+    return this.push({ type: 'listeners', count });
+  }
+
+  offline(): this {
+    return this.push({ type: 'offline' });
+  }
+
+  online(): this {
+    return this.push({ type: 'online' });
+  }
+
+  malformed(payload: string = '{"channel":"station:'): this {
+    return this.push({ type: 'malformed', payload });
+  }
+
+  disconnect(): this {
+    return this.push({ type: 'disconnect' });
+  }
+
+  fail(route: MockRoute, status: number, times: number = 1, message?: string): this {
+    return this.push({ type: 'fail', route, status, times, message });
+  }
+
+  /** Rejects the next song requests the way AzuraCast does when a listener requests too often. */
+  rateLimitRequests(times: number = 1): this {
+    return this.fail('submit', 429, times, 'You have submitted a request too recently! Please wait before submitting another one.');
+  }
+
+  wait(ms: number): this {
+    return this.push({ type: 'wait', ms });
+  }
+
+  build(): Scenario {
+    return { name: this.name, station: this.station, steps: [...this.steps] };
+  }
+
+  private push(step: ScenarioStep): this {
+    this.steps.push(step);
+    return this;
+  }
+}
+
+export function scenario(name: string, station?: string): ScenarioBuilder {
+  return new ScenarioBuilder(name, station);
+}
+
+export const MOCK_SONGS: MockSong[] = [
+  { title: 'Night Drive', artist: 'Synth Collective', duration: 214, genre: 'Synthwave', playlist: 'Main Rotation' },
+  { title: 'Low Tide', artist: 'Marina', duration: 188, genre: 'Ambient', playlist: 'Main Rotation' },
+  { title: 'Circuit Bloom', artist: 'Vector Garden', duration: 241, genre: 'Electronic', playlist: 'Main Rotation' },
+  { title: 'Paper Moons', artist: 'Hollow Coast', duration: 197, genre: 'Lo-Fi', playlist: 'Late Night' },
+];
+
+/** Built-in scenarios, selectable by name from the CLI or `/__mock/scenario`. */
+export const SCENARIOS: Record<string, Scenario> = {
+  'steady': scenario('steady')
+    .play(MOCK_SONGS[0])
+    .queue(MOCK_SONGS[1])
+    .build(),
+  'song-changes': scenario('song-changes')
+    .play(MOCK_SONGS[0])
+    .queue(MOCK_SONGS[1])
+    .wait(5000)
+    .play(MOCK_SONGS[1])
+    .queue(MOCK_SONGS[2])
+    .wait(5000)
+    .play(MOCK_SONGS[2])
+    .queue(MOCK_SONGS[3])
+    .build(),
+  'goes-offline': scenario('goes-offline')
+    .play(MOCK_SONGS[0])
+    .wait(3000)
+    .offline()
+    .build(),
+  'malformed-messages': scenario('malformed-messages')
+    .play(MOCK_SONGS[0])
+    .malformed()
+    .malformed('not json at all')
+    .wait(1000)
+    .play(MOCK_SONGS[1])
+    .build(),
+  'rate-limited-requests': scenario('rate-limited-requests')
+    .play(MOCK_SONGS[0])
+    .rateLimitRequests(3)
+    .build(),
+};
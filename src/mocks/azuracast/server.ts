@@ -0,0 +1,676 @@
+/**
+ * @fileoverview Scriptable mock of the AzuraCast endpoints this app uses.
+ *
+ * Serves now playing JSON, the Centrifugo SSE feed, schedules, requestable
+ * songs, request submission and a silent audio stream for any station
+ * shortcode, so the radio worker, API routes and player can run offline.
+ * State changes come from scenarios (see scenario.ts), either run in-process
+ * or posted to the control endpoints:
+ *
+ * - `GET  /__mock/state`          current payload and submitted requests per station
+ * - `POST /__mock/scenario`       `{ "name": "song-changes" }` or a full `Scenario`
+ * - `POST /__mock/step?station=`  apply a single `ScenarioStep` immediately
+ * - `POST /__mock/reset`          stop scenarios and forget all station state
+ */
+
+import crypto from 'crypto';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { MOCK_SONGS, SCENARIOS, type MockRoute, type MockSong, type Scenario, type ScenarioStep } from './scenario';
+
+export interface MockAzuraCastOptions {
+  port?: number;
+  host?: string;
+  /** Station used when a scenario doesn't name one. Defaults to `oadro`. */
+  defaultStation?: string;
+  /** Clock for payload timestamps, in milliseconds. */
+  now?: () => number;
+  /** Interval between empty SSE heartbeat messages. */
+  heartbeatMs?: number;
+}
+
+interface Play {
+  song: MockSong;
+  shId: number;
+  playedAt: number;
+}
+
+interface Failure {
+  status: number;
+  remaining: number;
+  message?: string;
+}
+
+interface StationState {
+  isOnline: boolean;
+  listeners: number;
+  current: Play | null;
+  next: MockSong | null;
+  history: Play[];
+  failures: Map<MockRoute, Failure>;
+  requests: Array<{ requestId: string; requestedAt: number }>;
+}
+
+interface PendingWait {
+  timeoutId: NodeJS.Timeout;
+  resolve: () => void;
+}
+
+const DEFAULT_DURATION = 180;
+const HISTORY_LENGTH = 5;
+const HLS_SEGMENT_SECONDS = 2;
+
+// One MPEG-1 Layer III frame (128kbps, 44.1kHz) with empty side info, which decodes to silence
+const MP3_FRAME = Buffer.alloc(417);
+MP3_FRAME.set([0xff, 0xfb, 0x90, 0x44]);
+const MP3_FRAMES_PER_SECOND = 44100 / 1152;
+
+const ALBUM_ART_SVG = '<svg xmlns="http://www.w3.org/2000/svg" width="300" height="300"><rect width="300" height="300" fill="#312e81"/></svg>';
+
+function songId(song: MockSong): string {
+  return song.id ?? crypto.createHash('md5').update(`${song.artist} - ${song.title}`).digest('hex');
+}
+
+export class MockAzuraCastServer {
+  private readonly options: Required<Omit<MockAzuraCastOptions, 'host' | 'port'>> & { host: string; port: number };
+  private server: http.Server | null = null;
+  private stations = new Map<string, StationState>();
+  private sseClients = new Map<string, Set<http.ServerResponse>>();
+  private streams = new Set<http.ServerResponse>();
+  private runIds = new Map<string, number>();
+  private pendingWaits = new Set<PendingWait>();
+  private heartbeatIntervalId: NodeJS.Timeout | null = null;
+  private nextShId = 1;
+
+  constructor(options: MockAzuraCastOptions = {}) {
+    this.options = {
+      port: options.port ?? 0,
+      host: options.host ?? '127.0.0.1',
+      defaultStation: options.defaultStation ?? 'oadro',
+      now: options.now ?? Date.now,
+      heartbeatMs: options.heartbeatMs ?? 15000,
+    };
+  }
+
+  /** Base URL to use as `NEXT_PUBLIC_AZURACAST_BASE_URL`. */
+  get url(): string {
+    if (!this.server) {
+      throw new Error('Mock AzuraCast server is not running');
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `http://${this.options.host}:${port}`;
+  }
+
+  async start(): Promise<string> {
+    if (this.server) return this.url;
+
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        console.error('[MockAzuraCast] Request failed:', error);
+        if (!res.headersSent) this.json(res, 500, { success: false, message: String(error) });
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host, () => resolve());
+    });
+    this.server = server;
+
+    this.heartbeatIntervalId = setInterval(() => {
+      this.sseClients.forEach((clients) => clients.forEach((client) => client.write('data: {}\n\n')));
+    }, this.options.heartbeatMs);
+    this.heartbeatIntervalId.unref();
+
+    console.log(`[MockAzuraCast] Listening on ${this.url}`);
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    this.reset();
+
+    if (this.heartbeatIntervalId) {
+      clearInterval(this.heartbeatIntervalId);
+      this.heartbeatIntervalId = null;
+    }
+
+    if (this.server) {
+      const server = this.server;
+      this.server = null;
+      this.disconnectAll();
+      this.streams.forEach((stream) => stream.destroy());
+      this.streams.clear();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /** Cancels running scenarios and forgets every station's state. */
+  reset(): void {
+    this.runIds.clear();
+    this.pendingWaits.forEach(({ timeoutId, resolve }) => {
+      clearTimeout(timeoutId);
+      resolve();
+    });
+    this.pendingWaits.clear();
+    this.stations.clear();
+  }
+
+  /**
+   * Plays a scenario's steps in order. Starting another scenario on the same
+   * station, or calling reset(), cancels this one.
+   *
+   * @returns once every step has run or the scenario was cancelled
+   */
+  async run(scenario: Scenario, station: string = scenario.station ?? this.options.defaultStation): Promise<void> {
+    const runId = (this.runIds.get(station) ?? 0) + 1;
+    this.runIds.set(station, runId);
+
+    for (const step of scenario.steps) {
+      if (this.runIds.get(station) !== runId) return;
+
+      if (step.type === 'wait') {
+        await this.wait(step.ms);
+      } else {
+        this.apply(step, station);
+      }
+    }
+  }
+
+  /** Applies a single step immediately. */
+  apply(step: ScenarioStep, station: string = this.options.defaultStation): void {
+    const state = this.getStation(station);
+
+    switch (step.type) {
+      case 'play':
+        if (state.current) {
+          state.history = [state.current, ...state.history].slice(0, HISTORY_LENGTH);
+        }
+        state.current = { song: step.song, shId: this.nextShId++, playedAt: this.nowSeconds() };
+        if (state.next && songId(state.next) === songId(step.song)) {
+          state.next = null;
+        }
+        break;
+      case 'queue':
+        state.next = step.song;
+        break;
+      case 'listeners':
+        state.listeners = step.count;
+        break;
+      case 'offline':
+        state.isOnline = false;
+        break;
+      case 'online':
+        state.isOnline = true;
+        break;
+      case 'malformed':
+        this.sseClients.get(station)?.forEach((client) => client.write(`data: ${step.payload}\n\n`));
+        return;
+      case 'disconnect':
+        this.disconnectAll(station);
+        return;
+      case 'fail':
+        state.failures.set(step.route, { status: step.status, remaining: step.times, message: step.message });
+        return;
+      case 'wait':
+        return;
+    }
+
+    this.broadcast(station);
+  }
+
+  /** The now playing payload AzuraCast would currently return for a station. */
+  getNowPlaying(station: string = this.options.defaultStation): Record<string, unknown> {
+    const state = this.getStation(station);
+    const now = this.nowSeconds();
+    const current = state.isOnline ? state.current : null;
+
+    return {
+      station: {
+        id: 1,
+        name: station,
+        shortcode: station,
+        description: '',
+        listen_url: `${this.url}/listen/${station}/radio.mp3`,
+        hls_enabled: true,
+        hls_url: `${this.url}/hls/${station}/live.m3u8`,
+        is_public: true,
+        mounts: [],
+        remotes: [],
+      },
+      listeners: {
+        total: state.isOnline ? state.listeners : 0,
+        unique: state.isOnline ? state.listeners : 0,
+        current: state.isOnline ? state.listeners : 0,
+      },
+      live: { is_live: false, streamer_name: '', broadcast_start: null, art: null },
+      now_playing: current
+        ? {
+          ...this.toPlay(current, station),
+          elapsed: Math.min(now - current.playedAt, current.song.duration ?? DEFAULT_DURATION),
+          remaining: Math.max((current.song.duration ?? DEFAULT_DURATION) - (now - current.playedAt), 0),
+        }
+        // AzuraCast keeps sending an empty play while a station is off air
+        : {
+          sh_id: 0,
+          played_at: now,
+          duration: 0,
+          elapsed: 0,
+          remaining: 0,
+          playlist: '',
+          streamer: '',
+          is_request: false,
+          song: this.toSong({ id: '', title: 'Station Offline', artist: '' }, station),
+        },
+      playing_next: state.isOnline && state.next
+        ? {
+          cued_at: now,
+          played_at: now,
+          duration: state.next.duration ?? DEFAULT_DURATION,
+          playlist: state.next.playlist ?? '',
+          is_request: false,
+          song: this.toSong(state.next, station),
+        }
+        : null,
+      song_history: state.history.map((play) => this.toPlay(play, station)),
+      is_online: state.isOnline,
+      cache: null,
+    };
+  }
+
+  /** Song requests accepted for a station, oldest first. */
+  getSubmittedRequests(station: string = this.options.defaultStation): Array<{ requestId: string; requestedAt: number }> {
+    return [...this.getStation(station).requests];
+  }
+
+  // --- State ---
+
+  private getStation(station: string): StationState {
+    let state = this.stations.get(station);
+    if (!state) {
+      state = {
+        isOnline: true,
+        listeners: 7,
+        current: null,
+        next: null,
+        history: [],
+        failures: new Map(),
+        requests: [],
+      };
+      this.stations.set(station, state);
+      state.current = { song: MOCK_SONGS[0], shId: this.nextShId++, playedAt: this.nowSeconds() };
+    }
+    return state;
+  }
+
+  /** Consumes one scripted failure for a route, if any are left. */
+  private takeFailure(station: string, route: MockRoute): Failure | null {
+    const failures = this.getStation(station).failures;
+    const failure = failures.get(route);
+    if (!failure) return null;
+
+    failure.remaining--;
+    if (failure.remaining <= 0) {
+      failures.delete(route);
+    }
+    return failure;
+  }
+
+  private nowSeconds(): number {
+    return Math.floor(this.options.now() / 1000);
+  }
+
+  private wait(ms: number): Promise<void> {
+    return new Promise((resolve) => {
+      const pending: PendingWait = {
+        timeoutId: setTimeout(() => {
+          this.pendingWaits.delete(pending);
+          resolve();
+        }, ms),
+        resolve,
+      };
+      this.pendingWaits.add(pending);
+    });
+  }
+
+  // --- Payloads ---
+
+  private toSong(song: MockSong, station: string): Record<string, unknown> {
+    const id = songId(song);
+    return {
+      id,
+      text: song.artist ? `${song.artist} - ${song.title}` : song.title,
+      artist: song.artist,
+      title: song.title,
+      album: song.album ?? '',
+      genre: song.genre ?? '',
+      isrc: '',
+      lyrics: '',
+      art: song.art ?? `${this.url}/api/station/${station}/art/${id}.svg`,
+      // AzuraCast sends an empty array when a song has no custom fields
+      custom_fields: song.customFields ?? [],
+    };
+  }
+
+  private toPlay(play: Play, station: string): Record<string, unknown> {
+    return {
+      sh_id: play.shId,
+      played_at: play.playedAt,
+      duration: play.song.duration ?? DEFAULT_DURATION,
+      playlist: play.song.playlist ?? '',
+      streamer: '',
+      is_request: false,
+      song: this.toSong(play.song, station),
+    };
+  }
+
+  // --- HTTP ---
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://mock');
+    const parts = url.pathname.split('/').filter(Boolean);
+    res.setHeader('Access-Control-Allow-Origin', '*');
+
+    if (parts[0] === '__mock') {
+      return this.handleControl(req, res, parts[1], url);
+    }
+
+    // /api/nowplaying/{station}
+    if (req.method === 'GET' && parts[0] === 'api' && parts[1] === 'nowplaying' && parts[2]) {
+      const station = parts[2];
+      const failure = this.takeFailure(station, 'nowplaying');
+      if (failure) return this.fail(res, failure);
+      return this.json(res, 200, this.getNowPlaying(station));
+    }
+
+    // /api/live/nowplaying/sse?cf_connect={"subs":{"station:{station}":{}}}
+    if (req.method === 'GET' && url.pathname === '/api/live/nowplaying/sse') {
+      return this.handleSse(req, res, url);
+    }
+
+    // /api/station/{station}/...
+    if (parts[0] === 'api' && parts[1] === 'station' && parts[2]) {
+      const station = parts[2];
+
+      if (req.method === 'GET' && parts[3] === 'schedule') {
+        const failure = this.takeFailure(station, 'schedule');
+        if (failure) return this.fail(res, failure);
+        return this.json(res, 200, this.getSchedule(url.searchParams));
+      }
+
+      if (req.method === 'GET' && parts[3] === 'requests') {
+        const failure = this.takeFailure(station, 'requests');
+        if (failure) return this.fail(res, failure);
+        return this.json(res, 200, this.getRequestableSongs(station));
+      }
+
+      if (req.method === 'POST' && parts[3] === 'request' && parts[4]) {
+        return this.handleSubmit(res, station, parts[4]);
+      }
+
+      if (req.method === 'GET' && parts[3] === 'art') {
+        res.writeHead(200, { 'Content-Type': 'image/svg+xml' });
+        res.end(ALBUM_ART_SVG);
+        return;
+      }
+    }
+
+    // /listen/{station}/{file}.mp3
+    if (req.method === 'GET' && parts[0] === 'listen' && parts[1]) {
+      return this.handleStream(req, res, parts[1]);
+    }
+
+    // /hls/{station}/live.m3u8 and its segments
+    if (req.method === 'GET' && parts[0] === 'hls' && parts[1]) {
+      return this.handleHls(res, parts[1], parts[2]);
+    }
+
+    this.json(res, 404, { success: false, message: 'Not found' });
+  }
+
+  private async handleControl(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    action: string | undefined,
+    url: URL
+  ): Promise<void> {
+    if (req.method === 'GET' && action === 'state') {
+      const stations: Record<string, unknown> = {};
+      this.stations.forEach((_, station) => {
+        stations[station] = {
+          nowPlaying: this.getNowPlaying(station),
+          requests: this.getSubmittedRequests(station),
+        };
+      });
+      return this.json(res, 200, { stations });
+    }
+
+    if (req.method !== 'POST') {
+      return this.json(res, 405, { success: false, message: 'Method not allowed' });
+    }
+
+    if (action === 'reset') {
+      this.reset();
+      return this.json(res, 200, { success: true });
+    }
+
+    const json = await this.readJson(req);
+    const body = typeof json === 'object' && json !== null ? (json as Record<string, unknown>) : null;
+    const station = url.searchParams.get('station') ?? undefined;
+
+    if (action === 'scenario') {
+      const name = body?.name;
+      const scenario = typeof name === 'string' && !Array.isArray(body?.steps)
+        ? SCENARIOS[name]
+        : (body as Scenario | null);
+
+      if (!scenario || !Array.isArray(scenario.steps)) {
+        return this.json(res, 400, {
+          success: false,
+          message: `Unknown scenario. Built-in scenarios: ${Object.keys(SCENARIOS).join(', ')}`,
+        });
+      }
+
+      // Scenarios run in the background; poll /__mock/state to follow along
+      this.run(scenario, station ?? scenario.station).catch((error) => {
+        console.error('[MockAzuraCast] Scenario failed:', error);
+      });
+      return this.json(res, 202, { success: true, name: scenario.name, steps: scenario.steps.length });
+    }
+
+    if (action === 'step' && body?.type) {
+      this.apply(body as ScenarioStep, station);
+      return this.json(res, 200, { success: true });
+    }
+
+    this.json(res, 404, { success: false, message: 'Unknown control endpoint' });
+  }
+
+  private handleSse(req: http.IncomingMessage, res: http.ServerResponse, url: URL): void {
+    let stations: string[];
+    try {
+      const connect = JSON.parse(url.searchParams.get('cf_connect') ?? '{}');
+      stations = Object.keys(connect.subs ?? {})
+        .filter((channel) => channel.startsWith('station:'))
+        .map((channel) => channel.slice('station:'.length));
+    } catch {
+      return this.json(res, 400, { success: false, message: 'Invalid cf_connect' });
+    }
+
+    const failure = stations.map((station) => this.takeFailure(station, 'sse')).find(Boolean);
+    if (failure) return this.fail(res, failure);
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    });
+    res.write(`data: ${JSON.stringify({ connect: { client: crypto.randomUUID(), version: 'mock', subs: {} } })}\n\n`);
+
+    for (const station of stations) {
+      const clients = this.sseClients.get(station) ?? new Set<http.ServerResponse>();
+      this.sseClients.set(station, clients);
+      clients.add(res);
+      res.write(this.toSseMessage(station));
+    }
+
+    req.on('close', () => {
+      this.sseClients.forEach((clients) => clients.delete(res));
+    });
+  }
+
+  private handleSubmit(res: http.ServerResponse, station: string, requestId: string): void {
+    const failure = this.takeFailure(station, 'submit');
+    if (failure) return this.fail(res, failure);
+
+    if (!MOCK_SONGS.some((song) => songId(song) === requestId)) {
+      return this.json(res, 404, { code: 404, success: false, message: 'Song not found.' });
+    }
+
+    this.getStation(station).requests.push({ requestId, requestedAt: this.nowSeconds() });
+    this.json(res, 200, {
+      code: 200,
+      success: true,
+      message: 'Your request has been submitted and will be played soon.',
+    });
+  }
+
+  private handleStream(req: http.IncomingMessage, res: http.ServerResponse, station: string): void {
+    if (!this.getStation(station).isOnline) {
+      return this.json(res, 404, { success: false, message: 'Station is offline' });
+    }
+
+    res.writeHead(200, { 'Content-Type': 'audio/mpeg', 'Cache-Control': 'no-cache' });
+    this.streams.add(res);
+
+    // Write a second of silence at a time, roughly in real time
+    const second = Buffer.concat(Array.from({ length: Math.ceil(MP3_FRAMES_PER_SECOND) }, () => MP3_FRAME));
+    res.write(second);
+    const intervalId = setInterval(() => res.write(second), 1000);
+
+    req.on('close', () => {
+      clearInterval(intervalId);
+      this.streams.delete(res);
+    });
+  }
+
+  private handleHls(res: http.ServerResponse, station: string, file: string | undefined): void {
+    if (!this.getStation(station).isOnline) {
+      return this.json(res, 404, { success: false, message: 'Station is offline' });
+    }
+
+    if (file === 'live.m3u8') {
+      const sequence = Math.floor(this.nowSeconds() / HLS_SEGMENT_SECONDS);
+      const segments = [0, 1, 2].map((offset) =>
+        `#EXTINF:${HLS_SEGMENT_SECONDS}.0,\nsegment-${sequence + offset}.mp3`
+      );
+      res.writeHead(200, { 'Content-Type': 'application/vnd.apple.mpegurl', 'Cache-Control': 'no-cache' });
+      res.end([
+        '#EXTM3U',
+        '#EXT-X-VERSION:3',
+        `#EXT-X-TARGETDURATION:${HLS_SEGMENT_SECONDS}`,
+        `#EXT-X-MEDIA-SEQUENCE:${sequence}`,
+        ...segments,
+        '',
+      ].join('\n'));
+      return;
+    }
+
+    if (file?.startsWith('segment-')) {
+      const frames = Math.ceil(MP3_FRAMES_PER_SECOND * HLS_SEGMENT_SECONDS);
+      res.writeHead(200, { 'Content-Type': 'audio/mpeg' });
+      res.end(Buffer.concat(Array.from({ length: frames }, () => MP3_FRAME)));
+      return;
+    }
+
+    this.json(res, 404, { success: false, message: 'Not found' });
+  }
+
+  /** Three back-to-back shows starting this hour, repeated weekly, honouring `now` and `rows`. */
+  private getSchedule(params: URLSearchParams): Array<Record<string, unknown>> {
+    const now = this.nowSeconds();
+    const requestedNow = params.get('now') ? Math.floor(Date.parse(params.get('now')!) / 1000) : now;
+    const rows = Number(params.get('rows')) || 5;
+    const hourStart = now - (now % 3600);
+    const shows = ['Morning Mix', 'Synthwave Hour', 'Late Night Lo-Fi'];
+    const weeks = 3;
+
+    const entries: Array<Record<string, unknown>> = [];
+    for (let week = 0; week < weeks; week++) {
+      shows.forEach((name, index) => {
+        const start = hourStart + week * 7 * 86400 + index * 3600;
+        const end = start + 3600;
+        entries.push({
+          id: week * shows.length + index + 1,
+          type: 'playlist',
+          name,
+          title: name,
+          description: '',
+          start_timestamp: start,
+          start: new Date(start * 1000).toISOString(),
+          end_timestamp: end,
+          end: new Date(end * 1000).toISOString(),
+          is_now: start <= now && now < end,
+        });
+      });
+    }
+
+    return entries
+      .filter((entry) => (entry.end_timestamp as number) > (isNaN(requestedNow) ? now : requestedNow))
+      .slice(0, rows);
+  }
+
+  private getRequestableSongs(station: string): Array<Record<string, unknown>> {
+    return MOCK_SONGS.map((song) => {
+      const id = songId(song);
+      return {
+        request_id: id,
+        request_url: `/api/station/${station}/request/${id}`,
+        song: this.toSong(song, station),
+      };
+    });
+  }
+
+  private broadcast(station: string): void {
+    const message = this.toSseMessage(station);
+    this.sseClients.get(station)?.forEach((client) => client.write(message));
+  }
+
+  private toSseMessage(station: string): string {
+    const data = { channel: `station:${station}`, pub: { data: { np: this.getNowPlaying(station) } } };
+    return `data: ${JSON.stringify(data)}\n\n`;
+  }
+
+  private disconnectAll(station?: string): void {
+    this.sseClients.forEach((clients, key) => {
+      if (station && key !== station) return;
+      clients.forEach((client) => client.destroy());
+      clients.clear();
+    });
+  }
+
+  private fail(res: http.ServerResponse, failure: Failure): void {
+    this.json(res, failure.status, {
+      code: failure.status,
+      success: false,
+      message: failure.message ?? `Mock failure (${failure.status})`,
+    });
+  }
+
+  private json(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  private async readJson(req: http.IncomingMessage): Promise<unknown> {
+    let raw = '';
+    for await (const chunk of req) {
+      raw += chunk;
+    }
+    if (!raw) return null;
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return null;
+    }
+  }
+}
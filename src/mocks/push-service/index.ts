@@ -0,0 +1,5 @@
+/**
+ * @fileoverview Mock Web Push service for local development and tests.
+ */
+
+export { MockPushService, type MockPushServiceOptions, type ReceivedPush } from './server';
@@ -0,0 +1,244 @@
+/**
+ * @fileoverview Local stand-in for a browser vendor's push service.
+ *
+ * Hands out subscriptions whose endpoints point at itself, then checks the
+ * VAPID signature on every message and decrypts it with the subscription's
+ * private key, exactly as a browser would. Control endpoints:
+ *
+ * - `POST /__mock/subscriptions`  create a subscription (returns its JSON)
+ * - `GET  /__mock/messages`       every message received so far
+ * - `POST /__mock/reset`          forget subscriptions and messages
+ */
+
+import crypto from 'crypto';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import {
+  base64UrlEncode,
+  decryptPayload,
+  verifyVapidAuthorization,
+  type PushSubscriptionData,
+} from '../../lib/web-push';
+
+export interface MockPushServiceOptions {
+  port?: number;
+  host?: string;
+}
+
+export interface ReceivedPush {
+  endpoint: string;
+  /** Decrypted payload, parsed as JSON when possible. */
+  payload: unknown;
+  ttl: number;
+  urgency: string | null;
+  topic: string | null;
+  /** The `sub` claim of the VAPID JWT. */
+  subject: string;
+  receivedAt: number;
+}
+
+interface MockSubscription {
+  data: PushSubscriptionData;
+  privateKey: Buffer;
+  authSecret: Buffer;
+  isExpired: boolean;
+}
+
+interface MessageWaiter {
+  resolve: (message: ReceivedPush) => void;
+  reject: (error: Error) => void;
+  timeoutId: NodeJS.Timeout;
+}
+
+export class MockPushService {
+  private readonly options: Required<MockPushServiceOptions>;
+  private server: http.Server | null = null;
+  private subscriptions = new Map<string, MockSubscription>();
+  private waiters = new Set<MessageWaiter>();
+  readonly messages: ReceivedPush[] = [];
+
+  constructor(options: MockPushServiceOptions = {}) {
+    this.options = {
+      port: options.port ?? 0,
+      host: options.host ?? '127.0.0.1',
+    };
+  }
+
+  get url(): string {
+    if (!this.server) {
+      throw new Error('Mock push service is not running');
+    }
+    const { port } = this.server.address() as AddressInfo;
+    return `http://${this.options.host}:${port}`;
+  }
+
+  async start(): Promise<string> {
+    if (this.server) return this.url;
+
+    const server = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        console.error('[MockPush] Request failed:', error);
+        if (!res.headersSent) this.text(res, 500, String(error));
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host, () => resolve());
+    });
+    this.server = server;
+
+    console.log(`[MockPush] Listening on ${this.url}`);
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    this.reset();
+
+    if (this.server) {
+      const server = this.server;
+      this.server = null;
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  reset(): void {
+    this.subscriptions.clear();
+    this.messages.length = 0;
+    this.waiters.forEach(({ reject, timeoutId }) => {
+      clearTimeout(timeoutId);
+      reject(new Error('Mock push service was reset'));
+    });
+    this.waiters.clear();
+  }
+
+  /** Creates a subscription whose endpoint is this service. */
+  createSubscription(): PushSubscriptionData {
+    const ecdh = crypto.createECDH('prime256v1');
+    ecdh.generateKeys();
+    const authSecret = crypto.randomBytes(16);
+    const id = crypto.randomUUID();
+
+    const data: PushSubscriptionData = {
+      endpoint: `${this.url}/push/${id}`,
+      expirationTime: null,
+      keys: {
+        p256dh: base64UrlEncode(ecdh.getPublicKey()),
+        auth: base64UrlEncode(authSecret),
+      },
+    };
+    this.subscriptions.set(id, { data, privateKey: ecdh.getPrivateKey(), authSecret, isExpired: false });
+    return data;
+  }
+
+  /** Makes further messages to the subscription fail with 410 Gone. */
+  expireSubscription(endpoint: string): void {
+    const subscription = this.subscriptions.get(endpoint.split('/').pop() ?? '');
+    if (subscription) subscription.isExpired = true;
+  }
+
+  /** Resolves with the next message received. */
+  waitForMessage(timeoutMs = 5000): Promise<ReceivedPush> {
+    return new Promise((resolve, reject) => {
+      const waiter: MessageWaiter = {
+        resolve,
+        reject,
+        timeoutId: setTimeout(() => {
+          this.waiters.delete(waiter);
+          reject(new Error(`No push message received within ${timeoutMs}ms`));
+        }, timeoutMs),
+      };
+      this.waiters.add(waiter);
+    });
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://mock');
+    const parts = url.pathname.split('/').filter(Boolean);
+
+    if (parts[0] === '__mock') {
+      if (req.method === 'POST' && parts[1] === 'subscriptions') {
+        return this.json(res, 201, this.createSubscription());
+      }
+      if (req.method === 'GET' && parts[1] === 'messages') {
+        return this.json(res, 200, { messages: this.messages });
+      }
+      if (req.method === 'POST' && parts[1] === 'reset') {
+        this.reset();
+        return this.json(res, 200, { success: true });
+      }
+      return this.text(res, 404, 'Unknown control endpoint');
+    }
+
+    if (req.method !== 'POST' || parts[0] !== 'push' || !parts[1]) {
+      return this.text(res, 404, 'Not found');
+    }
+
+    const subscription = this.subscriptions.get(parts[1]);
+    if (!subscription) return this.text(res, 404, 'Unknown subscription');
+    if (subscription.isExpired) return this.text(res, 410, 'Subscription expired');
+
+    let claims: ReturnType<typeof verifyVapidAuthorization>;
+    try {
+      claims = verifyVapidAuthorization(req.headers.authorization ?? '');
+    } catch (error) {
+      return this.text(res, 401, error instanceof Error ? error.message : String(error));
+    }
+    if (claims.aud !== this.url || claims.exp * 1000 < Date.now()) {
+      return this.text(res, 403, 'VAPID token has the wrong audience or has expired');
+    }
+
+    const ttl = Number(req.headers.ttl);
+    if (req.headers['content-encoding'] !== 'aes128gcm' || !Number.isInteger(ttl)) {
+      return this.text(res, 400, 'Expected an aes128gcm body and a TTL header');
+    }
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk as Buffer);
+    }
+
+    let plaintext: string;
+    try {
+      plaintext = decryptPayload(Buffer.concat(chunks), subscription.privateKey, subscription.authSecret).toString('utf8');
+    } catch {
+      return this.text(res, 400, 'Could not decrypt the payload');
+    }
+
+    let payload: unknown = plaintext;
+    try {
+      payload = JSON.parse(plaintext);
+    } catch {
+      // Keep non-JSON payloads as text
+    }
+
+    const message: ReceivedPush = {
+      endpoint: subscription.data.endpoint,
+      payload,
+      ttl,
+      urgency: (req.headers.urgency as string | undefined) ?? null,
+      topic: (req.headers.topic as string | undefined) ?? null,
+      subject: claims.sub,
+      receivedAt: Date.now(),
+    };
+    this.messages.push(message);
+    this.waiters.forEach(({ resolve, timeoutId }) => {
+      clearTimeout(timeoutId);
+      resolve(message);
+    });
+    this.waiters.clear();
+
+    res.writeHead(201, { Location: `${this.url}/messages/${this.messages.length}` });
+    res.end();
+  }
+
+  private json(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+
+  private text(res: http.ServerResponse, status: number, body: string): void {
+    res.writeHead(status, { 'Content-Type': 'text/plain' });
+    res.end(body);
+  }
+}
@@ -0,0 +1,5 @@
+/**
+ * @fileoverview Mock Redis server for local development and tests.
+ */
+
+export { MockRedisServer, type MockRedisServerOptions } from './server';
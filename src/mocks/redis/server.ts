@@ -0,0 +1,298 @@
+/**
+ * @fileoverview In-process server speaking the Redis protocol (RESP2).
+ *
+ * Implements the commands the app uses, with Redis semantics for expiry and
+ * MULTI/EXEC, so stores can be tested without a Redis install:
+ * PING, AUTH, SELECT, QUIT, GET, MGET, SET (EX, PX, NX, XX), INCR, INCRBY,
+ * DECR, DECRBY, DEL, PTTL, FLUSHALL, MULTI, EXEC and DISCARD.
+ */
+
+import net from 'net';
+import type { AddressInfo } from 'net';
+import { parseReply, type RespValue } from '../../lib/rate-limit/resp-client';
+
+export interface MockRedisServerOptions {
+  port?: number;
+  host?: string;
+  /** Require `AUTH` with this password before other commands. */
+  password?: string;
+}
+
+interface Entry {
+  value: string;
+  expiresAt: number | null;
+}
+
+interface Connection {
+  isAuthenticated: boolean;
+  /** Commands queued by MULTI, or null outside a transaction. */
+  transaction: string[][] | null;
+}
+
+/** A reply error, written as `-message`. */
+class ReplyError {
+  constructor(readonly message: string) {}
+}
+
+/** A status reply, written as `+message`. */
+class Status {
+  constructor(readonly message: string) {}
+}
+
+type Reply = string | number | null | Status | ReplyError | Reply[];
+
+const OK = new Status('OK');
+
+function encodeReply(reply: Reply): string {
+  if (reply === null) return '$-1\r\n';
+  if (reply instanceof Status) return `+${reply.message}\r\n`;
+  if (reply instanceof ReplyError) return `-${reply.message}\r\n`;
+  if (typeof reply === 'number') return `:${reply}\r\n`;
+  if (Array.isArray(reply)) return `*${reply.length}\r\n${reply.map(encodeReply).join('')}`;
+  return `$${Buffer.byteLength(reply)}\r\n${reply}\r\n`;
+}
+
+function wrongArgs(command: string): ReplyError {
+  return new ReplyError(`ERR wrong number of arguments for '${command.toLowerCase()}' command`);
+}
+
+export class MockRedisServer {
+  private readonly options: MockRedisServerOptions & { port: number; host: string };
+  private server: net.Server | null = null;
+  private sockets = new Set<net.Socket>();
+  private data = new Map<string, Entry>();
+  /** Every command received, for assertions. */
+  readonly commands: string[][] = [];
+
+  constructor(options: MockRedisServerOptions = {}) {
+    this.options = {
+      ...options,
+      port: options.port ?? 0,
+      host: options.host ?? '127.0.0.1',
+    };
+  }
+
+  get url(): string {
+    if (!this.server) {
+      throw new Error('Mock Redis server is not running');
+    }
+    const { port } = this.server.address() as AddressInfo;
+    const auth = this.options.password ? `:${encodeURIComponent(this.options.password)}@` : '';
+    return `redis://${auth}${this.options.host}:${port}`;
+  }
+
+  async start(): Promise<string> {
+    if (this.server) return this.url;
+
+    const server = net.createServer((socket) => this.accept(socket));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.options.port, this.options.host, () => resolve());
+    });
+    this.server = server;
+
+    console.log(`[MockRedis] Listening on ${this.url}`);
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    this.reset();
+    this.sockets.forEach((socket) => socket.destroy());
+    this.sockets.clear();
+
+    if (this.server) {
+      const server = this.server;
+      this.server = null;
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  reset(): void {
+    this.data.clear();
+    this.commands.length = 0;
+  }
+
+  /** Drops every open connection, as if the server restarted. */
+  disconnectAll(): void {
+    this.sockets.forEach((socket) => socket.destroy());
+    this.sockets.clear();
+  }
+
+  /** Reads a key as a client would, honouring expiry. */
+  getValue(key: string): string | null {
+    return this.lookup(key)?.value ?? null;
+  }
+
+  private accept(socket: net.Socket): void {
+    const connection: Connection = { isAuthenticated: !this.options.password, transaction: null };
+    let buffer: Buffer = Buffer.alloc(0);
+
+    this.sockets.add(socket);
+    socket.on('close', () => this.sockets.delete(socket));
+    socket.on('error', () => socket.destroy());
+    socket.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+
+      let output = '';
+      let offset = 0;
+      try {
+        let parsed = parseReply(buffer, offset);
+        while (parsed) {
+          offset = parsed.offset;
+          output += encodeReply(this.handle(connection, this.toCommand(parsed.value)));
+          parsed = offset < buffer.length ? parseReply(buffer, offset) : null;
+        }
+      } catch (error) {
+        socket.end(encodeReply(new ReplyError(`ERR Protocol error: ${error instanceof Error ? error.message : error}`)));
+        return;
+      }
+
+      buffer = buffer.subarray(offset);
+      if (output) socket.write(output);
+    });
+  }
+
+  private toCommand(value: RespValue): string[] {
+    if (!Array.isArray(value) || value.length === 0 || value.some((arg) => typeof arg !== 'string')) {
+      throw new Error('expected an array of bulk strings');
+    }
+    return value as string[];
+  }
+
+  private handle(connection: Connection, args: string[]): Reply {
+    this.commands.push(args);
+    const command = args[0].toUpperCase();
+
+    if (command === 'AUTH') {
+      const password = args[args.length - 1];
+      if (args.length < 2 || args.length > 3) return wrongArgs(command);
+      if (!this.options.password) return new ReplyError('ERR AUTH <password> called without any password configured for the default user');
+      if (password !== this.options.password) return new ReplyError('WRONGPASS invalid username-password pair or user is disabled.');
+      connection.isAuthenticated = true;
+      return OK;
+    }
+    if (!connection.isAuthenticated) {
+      return new ReplyError('NOAUTH Authentication required.');
+    }
+
+    if (connection.transaction) {
+      if (command === 'EXEC') {
+        const queued = connection.transaction;
+        connection.transaction = null;
+        return queued.map((queuedArgs) => this.execute(queuedArgs));
+      }
+      if (command === 'DISCARD') {
+        connection.transaction = null;
+        return OK;
+      }
+      if (command === 'MULTI') return new ReplyError('ERR MULTI calls can not be nested');
+      connection.transaction.push(args);
+      return new Status('QUEUED');
+    }
+
+    if (command === 'MULTI') {
+      connection.transaction = [];
+      return OK;
+    }
+    if (command === 'EXEC' || command === 'DISCARD') {
+      return new ReplyError(`ERR ${command} without MULTI`);
+    }
+    return this.execute(args);
+  }
+
+  private execute(args: string[]): Reply {
+    const command = args[0].toUpperCase();
+
+    switch (command) {
+      case 'PING':
+        return args.length > 1 ? args[1] : new Status('PONG');
+      case 'SELECT':
+        return args.length === 2 ? OK : wrongArgs(command);
+      case 'QUIT':
+        return OK;
+      case 'GET':
+        return args.length === 2 ? this.lookup(args[1])?.value ?? null : wrongArgs(command);
+      case 'MGET':
+        return args.length >= 2 ? args.slice(1).map((key) => this.lookup(key)?.value ?? null) : wrongArgs(command);
+      case 'SET':
+        return this.set(args);
+      case 'INCR':
+      case 'DECR':
+        return args.length === 2 ? this.incrementBy(args[1], command === 'INCR' ? '1' : '-1') : wrongArgs(command);
+      case 'INCRBY':
+      case 'DECRBY':
+        if (args.length !== 3) return wrongArgs(command);
+        return this.incrementBy(args[1], command === 'INCRBY' ? args[2] : String(-Number(args[2])));
+      case 'DEL':
+        return args.slice(1).filter((key) => this.lookup(key) && this.data.delete(key)).length;
+      case 'PTTL': {
+        if (args.length !== 2) return wrongArgs(command);
+        const entry = this.lookup(args[1]);
+        if (!entry) return -2;
+        return entry.expiresAt === null ? -1 : entry.expiresAt - Date.now();
+      }
+      case 'FLUSHALL':
+        this.data.clear();
+        return OK;
+      default:
+        return new ReplyError(`ERR unknown command '${args[0]}'`);
+    }
+  }
+
+  private lookup(key: string): Entry | undefined {
+    const entry = this.data.get(key);
+    if (entry && entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.data.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  private set(args: string[]): Reply {
+    if (args.length < 3) return wrongArgs('SET');
+
+    const [, key, value, ...flags] = args;
+    let expiresAt: number | null = null;
+    let condition: 'NX' | 'XX' | null = null;
+
+    for (let i = 0; i < flags.length; i++) {
+      const flag = flags[i].toUpperCase();
+      if (flag === 'NX' || flag === 'XX') {
+        condition = flag;
+      } else if (flag === 'EX' || flag === 'PX') {
+        const amount = Number(flags[++i]);
+        if (!Number.isInteger(amount) || amount <= 0) {
+          return new ReplyError("ERR invalid expire time in 'set' command");
+        }
+        expiresAt = Date.now() + (flag === 'EX' ? amount * 1000 : amount);
+      } else {
+        return new ReplyError('ERR syntax error');
+      }
+    }
+
+    const exists = !!this.lookup(key);
+    if ((condition === 'NX' && exists) || (condition === 'XX' && !exists)) {
+      return null;
+    }
+
+    this.data.set(key, { value, expiresAt });
+    return OK;
+  }
+
+  private incrementBy(key: string, amount: string): Reply {
+    const delta = Number(amount);
+    if (!Number.isInteger(delta)) {
+      return new ReplyError('ERR value is not an integer or out of range');
+    }
+
+    const entry = this.lookup(key);
+    const current = entry ? Number(entry.value) : 0;
+    if (!Number.isInteger(current)) {
+      return new ReplyError('ERR value is not an integer or out of range');
+    }
+
+    const next = current + delta;
+    this.data.set(key, { value: String(next), expiresAt: entry?.expiresAt ?? null });
+    return next;
+  }
+}